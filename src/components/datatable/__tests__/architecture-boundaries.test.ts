@@ -188,7 +188,6 @@ describe('KTDataTable architecture boundaries', () => {
 			createUrl: (pathOrUrl: string) =>
 				new URL(pathOrUrl, window.location.origin),
 			eventAdapter: { emit },
-			noticeOnTable: vi.fn(),
 			stateStore,
 		});
 
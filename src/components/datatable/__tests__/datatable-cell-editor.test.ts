@@ -0,0 +1,243 @@
+/**
+ * Tests for inline cell editing: editors, keyboard flow, validation, the
+ * cancellable cellEdit event and getChanges/commitChanges/revertChanges.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { KTDataTableConfigInterface } from '../types';
+import { waitFor } from './setup';
+
+function createTable(): HTMLElement {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="cell_editor_table">
+			<table data-kt-datatable-table="true">
+				<thead>
+					<tr>
+						<th data-kt-datatable-column="name"><span class="kt-table-col">Name</span></th>
+						<th data-kt-datatable-column="qty"><span class="kt-table-col">Qty</span></th>
+						<th data-kt-datatable-column="status"><span class="kt-table-col">Status</span></th>
+						<th data-kt-datatable-column="active"><span class="kt-table-col">Active</span></th>
+					</tr>
+				</thead>
+				<tbody>
+					<tr><td>Alpha</td><td>3</td><td>open</td><td>true</td></tr>
+					<tr><td>Beta</td><td>5</td><td>closed</td><td>false</td></tr>
+				</tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	return container.querySelector('[data-kt-datatable]') as HTMLElement;
+}
+
+const columns: KTDataTableConfigInterface['columns'] = {
+	name: { title: 'Name', editor: 'text' },
+	qty: {
+		title: 'Qty',
+		editor: 'number',
+		validate: (value) => (Number(value) >= 0 ? true : 'Must be positive'),
+	},
+	status: {
+		title: 'Status',
+		editor: { type: 'select', options: ['open', 'closed'] },
+	},
+	active: { title: 'Active', editor: 'checkbox' },
+};
+
+function cell(
+	root: HTMLElement,
+	row: number,
+	col: number,
+): HTMLTableCellElement {
+	return root.querySelectorAll('tbody tr')[row].children[
+		col
+	] as HTMLTableCellElement;
+}
+
+function editor<E extends HTMLElement = HTMLInputElement>(
+	root: HTMLElement,
+): E {
+	return root.querySelector('[data-kt-datatable-editor]') as E;
+}
+
+function key(target: Element, keyName: string, shiftKey = false): void {
+	target.dispatchEvent(
+		new KeyboardEvent('keydown', { key: keyName, shiftKey, bubbles: true }),
+	);
+}
+
+describe('Inline cell editing', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('marks editable cells and opens an editor on double-click', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			columns: { ...columns, active: { title: 'Active' } },
+		});
+		await waitFor(0);
+
+		expect(cell(root, 0, 0).hasAttribute('data-kt-datatable-editable')).toBe(
+			true,
+		);
+		expect(cell(root, 0, 0).tabIndex).toBe(0);
+		expect(cell(root, 0, 3).hasAttribute('data-kt-datatable-editable')).toBe(
+			false,
+		);
+
+		cell(root, 0, 0).dispatchEvent(
+			new MouseEvent('dblclick', { bubbles: true }),
+		);
+
+		expect(editor(root).value).toBe('Alpha');
+		expect(document.activeElement).toBe(editor(root));
+		dt.dispose();
+	});
+
+	it('saves on Enter, updates originalData and tracks the change', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, columns });
+		await waitFor(0);
+		const handler = vi.fn();
+		root.addEventListener('kt.datatable.cellEdit', handler);
+
+		key(cell(root, 1, 0), 'Enter');
+		editor(root).value = 'Bravo';
+		key(editor(root), 'Enter');
+		await waitFor(0);
+
+		expect(cell(root, 1, 0).textContent).toBe('Bravo');
+		expect(cell(root, 1, 0).hasAttribute('data-kt-datatable-cell-dirty')).toBe(
+			true,
+		);
+		expect(document.activeElement).toBe(cell(root, 1, 0));
+		expect(dt.getState().originalData[1].name).toBe('Bravo');
+		expect(
+			(handler.mock.calls[0][0] as CustomEvent).detail.payload,
+		).toMatchObject({
+			column: 'name',
+			value: 'Bravo',
+			oldValue: 'Beta',
+			cancel: false,
+		});
+		expect(dt.getChanges()).toEqual([
+			{
+				rowData: expect.objectContaining({ name: 'Bravo' }),
+				changes: { name: { oldValue: 'Beta', value: 'Bravo' } },
+			},
+		]);
+		dt.dispose();
+	});
+
+	it('cancels on Escape and when a cellEdit listener sets cancel', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, columns });
+		await waitFor(0);
+
+		key(cell(root, 0, 0), 'Enter');
+		editor(root).value = 'Changed';
+		key(editor(root), 'Escape');
+		expect(cell(root, 0, 0).textContent).toBe('Alpha');
+
+		root.addEventListener('kt.datatable.cellEdit', (event) => {
+			(event as CustomEvent).detail.payload.cancel = true;
+		});
+		key(cell(root, 0, 0), 'Enter');
+		editor(root).value = 'Changed';
+		key(editor(root), 'Enter');
+		await waitFor(0);
+
+		expect(cell(root, 0, 0).textContent).toBe('Alpha');
+		expect(editor(root)).toBeNull();
+		expect(dt.getChanges()).toEqual([]);
+		dt.dispose();
+	});
+
+	it('keeps the editor open when validate rejects the value', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, columns });
+		await waitFor(0);
+
+		key(cell(root, 0, 1), 'Enter');
+		expect(editor(root).type).toBe('number');
+		editor(root).value = '-2';
+		key(editor(root), 'Enter');
+		await waitFor(0);
+
+		expect(editor(root).getAttribute('aria-invalid')).toBe('true');
+		expect(
+			cell(root, 0, 1).getAttribute('data-kt-datatable-edit-invalid'),
+		).toBe('Must be positive');
+
+		editor(root).value = '7';
+		key(editor(root), 'Enter');
+		await waitFor(0);
+
+		expect(cell(root, 0, 1).textContent).toBe('7');
+		expect(dt.getState().originalData[0].qty).toBe(7);
+		dt.dispose();
+	});
+
+	it('moves between editable cells with Tab and Shift+Tab', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, columns });
+		await waitFor(0);
+
+		key(cell(root, 0, 2), 'Enter');
+		const select = editor<HTMLSelectElement>(root);
+		expect(select.tagName).toBe('SELECT');
+		select.value = 'closed';
+		key(select, 'Tab');
+		await waitFor(0);
+
+		expect(cell(root, 0, 2).textContent).toBe('closed');
+		const checkbox = editor(root);
+		expect(checkbox.type).toBe('checkbox');
+		expect(checkbox.checked).toBe(true);
+		expect(cell(root, 0, 3).contains(checkbox)).toBe(true);
+
+		key(checkbox, 'Tab');
+		await waitFor(0);
+		expect(cell(root, 1, 0).contains(editor(root))).toBe(true);
+
+		key(editor(root), 'Tab', true);
+		await waitFor(0);
+		expect(cell(root, 0, 3).contains(editor(root))).toBe(true);
+		dt.dispose();
+	});
+
+	it('commits and reverts pending changes', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, columns });
+		await waitFor(0);
+
+		const edit = async (row: number, col: number, value: string) => {
+			key(cell(root, row, col), 'Enter');
+			editor(root).value = value;
+			key(editor(root), 'Enter');
+			await waitFor(0);
+		};
+
+		await edit(0, 0, 'One');
+		expect(dt.commitChanges()).toHaveLength(1);
+		await waitFor(0);
+		expect(dt.getChanges()).toEqual([]);
+		expect(
+			root.querySelectorAll('[data-kt-datatable-cell-dirty]'),
+		).toHaveLength(0);
+
+		await edit(0, 0, 'Two');
+		await edit(1, 1, '9');
+		dt.revertChanges();
+		await waitFor(0);
+
+		expect(dt.getChanges()).toEqual([]);
+		expect(cell(root, 0, 0).textContent).toBe('One');
+		expect(cell(root, 1, 1).textContent).toBe('5');
+		dt.dispose();
+	});
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { KTDataTableCheckboxHandler } from '../datatable-checkbox';
 import type { KTDataTableCheckboxDeps } from '../datatable-checkbox';
 import type { KTDataTableConfigInterface } from '../types';
+import { KTDataTable } from '../datatable';
+import { waitFor } from './setup';
 
 function createCheckboxTable() {
 	const container = document.createElement('div');
@@ -548,3 +550,235 @@ describe('KTDataTableCheckboxHandler', () => {
 		});
 	});
 });
+
+describe('Range selection', () => {
+	function click(input: HTMLInputElement, shiftKey = false) {
+		input.dispatchEvent(
+			new MouseEvent('click', { bubbles: true, cancelable: true, shiftKey }),
+		);
+	}
+
+	it('shift-click selects and deselects the rows between the anchor and the target', () => {
+		const { handler, container, fireEvent, getSelectedRows } = createHandler();
+		handler.init();
+		const rowChecks = container.querySelectorAll<HTMLInputElement>(
+			'[data-kt-datatable-row-check]',
+		);
+
+		click(rowChecks[0]);
+		click(rowChecks[2], true);
+
+		expect(getSelectedRows()).toEqual(['1', '2', '3']);
+		expect(Array.from(rowChecks).every((input) => input.checked)).toBe(true);
+		expect(fireEvent).toHaveBeenCalledWith('checked', {
+			value: '3',
+			values: ['1', '2', '3'],
+		});
+
+		click(rowChecks[1]);
+		click(rowChecks[0], true);
+
+		expect(getSelectedRows()).toEqual(['3']);
+		expect(rowChecks[0].checked).toBe(false);
+		handler.dispose();
+	});
+
+	it('selects a single row when shift-clicking without an anchor', () => {
+		const { handler, container, getSelectedRows } = createHandler();
+		handler.init();
+		const rowChecks = container.querySelectorAll<HTMLInputElement>(
+			'[data-kt-datatable-row-check]',
+		);
+
+		click(rowChecks[1], true);
+
+		expect(getSelectedRows()).toEqual(['2']);
+		handler.dispose();
+	});
+});
+
+describe('Select all matching', () => {
+	const checkbox = (id: number | string) =>
+		`<input type="checkbox" data-kt-datatable-row-check="true" value="${id}">`;
+
+	function createLocalTable(): HTMLElement {
+		const rows = Array.from(
+			{ length: 25 },
+			(_, i) =>
+				`<tr><td>${checkbox(i + 1)}</td><td>${i % 5 === 0 ? 'Admin' : 'User'} ${i + 1}</td></tr>`,
+		).join('');
+		const container = document.createElement('div');
+		container.innerHTML = `
+			<div data-kt-datatable="true" id="select_all_table">
+				<div class="kt-table-wrapper">
+					<table data-kt-datatable-table="true">
+						<thead><tr>
+							<th data-kt-datatable-column="check"><input type="checkbox" data-kt-datatable-check="true"></th>
+							<th data-kt-datatable-column="name">Name</th>
+						</tr></thead>
+						<tbody>${rows}</tbody>
+					</table>
+				</div>
+			</div>
+		`;
+		document.body.appendChild(container);
+		return container.querySelector('[data-kt-datatable]') as HTMLElement;
+	}
+
+	const banner = (root: HTMLElement) =>
+		root.querySelector<HTMLElement>('[data-kt-datatable-select-all]');
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('offers every matching row after the header selects a page (local)', async () => {
+		const root = createLocalTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			pageSize: 10,
+			checkbox: { selectAllMatching: true },
+		});
+		await waitFor(0);
+		expect(banner(root)?.hidden).toBe(true);
+
+		root.querySelector<HTMLInputElement>('[data-kt-datatable-check]')?.click();
+
+		expect(banner(root)?.hidden).toBe(false);
+		expect(banner(root)?.textContent).toBe(
+			'All 10 rows on this page are selected. Select all 25 matching rows',
+		);
+		expect(
+			banner(root)?.nextElementSibling?.classList.contains('kt-table-wrapper'),
+		).toBe(true);
+
+		banner(root)
+			?.querySelector<HTMLButtonElement>(
+				'[data-kt-datatable-select-all-action]',
+			)
+			?.click();
+
+		expect(dt.getChecked()).toHaveLength(25);
+		expect(dt.getSelection()).toEqual({
+			mode: 'ids',
+			ids: dt.getChecked(),
+			filters: [],
+			search: '',
+		});
+		expect(banner(root)?.textContent).toBe(
+			'All 25 matching rows are selected. Clear selection',
+		);
+
+		dt.goPage(3);
+		await waitFor(0);
+		expect(
+			root.querySelector<HTMLInputElement>('[data-kt-datatable-check]')
+				?.checked,
+		).toBe(true);
+
+		dt.clearSelection();
+		expect(dt.getChecked()).toEqual([]);
+		expect(banner(root)?.hidden).toBe(true);
+
+		dt.dispose();
+		expect(banner(root)).toBeNull();
+	});
+
+	it('selects only the rows matching the search', async () => {
+		const root = createLocalTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			pageSize: 2,
+			checkbox: { selectAllMatching: true },
+		});
+		await waitFor(0);
+		dt.search('Admin');
+		await waitFor(0);
+
+		dt.selectAllMatching();
+		expect(dt.getChecked().sort()).toEqual(['1', '11', '16', '21', '6']);
+		expect(dt.getSelection().search).toBe('Admin');
+
+		dt.search('User');
+		await waitFor(0);
+		expect(dt.getChecked()).toEqual([]);
+		dt.dispose();
+	});
+
+	it('tracks exclusions and the query for remote tables', async () => {
+		const fetchMock = vi.fn((input: string) => {
+			const page = Number(new URL(input).searchParams.get('page'));
+			return Promise.resolve({
+				ok: true,
+				json: () =>
+					Promise.resolve({
+						data: Array.from({ length: 10 }, (_, i) => ({
+							id: (page - 1) * 10 + i + 1,
+							name: `Row ${(page - 1) * 10 + i + 1}`,
+						})),
+						totalCount: 57,
+					}),
+			});
+		});
+		vi.stubGlobal('fetch', fetchMock);
+
+		const container = document.createElement('div');
+		container.innerHTML = `
+			<div data-kt-datatable="true" id="remote_select_all_table">
+				<table data-kt-datatable-table="true">
+					<thead><tr>
+						<th data-kt-datatable-column="id"><input type="checkbox" data-kt-datatable-check="true"></th>
+						<th data-kt-datatable-column="name">Name</th>
+					</tr></thead>
+					<tbody></tbody>
+				</table>
+			</div>
+		`;
+		document.body.appendChild(container);
+		const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			apiEndpoint: 'https://api.example.com/rows',
+			pageSize: 10,
+			columns: { id: { render: (id) => checkbox(String(id)) } },
+			checkbox: {
+				selectAllMatching: { selectAll: 'Select all {total}' },
+			},
+		});
+		dt.setFilter({ column: 'name', type: 'text', value: 'Row' });
+		dt.reload();
+		await waitFor(0);
+
+		root.querySelector<HTMLInputElement>('[data-kt-datatable-check]')?.click();
+		expect(banner(root)?.textContent).toContain('Select all 57');
+		dt.selectAllMatching();
+
+		const third = root.querySelectorAll<HTMLInputElement>(
+			'tbody [data-kt-datatable-row-check]',
+		)[2];
+		third.checked = false;
+		third.dispatchEvent(new Event('input', { bubbles: true }));
+
+		expect(dt.getSelection()).toEqual({
+			mode: 'allExcept',
+			ids: ['3'],
+			filters: [{ column: 'name', type: 'text', value: 'Row' }],
+			search: '',
+		});
+		expect(banner(root)?.textContent).toContain(
+			'All 56 matching rows are selected.',
+		);
+
+		dt.goPage(2);
+		await waitFor(0);
+		const pageTwo = root.querySelectorAll<HTMLInputElement>(
+			'tbody [data-kt-datatable-row-check]',
+		);
+		expect(Array.from(pageTwo).every((input) => input.checked)).toBe(true);
+		expect(dt.getChecked()).toContain('20');
+
+		root.querySelector<HTMLInputElement>('[data-kt-datatable-check]')?.click();
+		expect(dt.getSelection()).toMatchObject({ mode: 'ids', ids: [] });
+		dt.dispose();
+	});
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for column resizing: resize handles, dragging with min/max widths,
+ * the columnResize event, double-click auto-fit and persistence of the
+ * widths through stateSave.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { KTDataTableConfigInterface } from '../types';
+import { waitFor } from './setup';
+
+function createTable(config: KTDataTableConfigInterface = {}): {
+	root: HTMLElement;
+	dt: KTDataTable<Record<string, string>>;
+} {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="resize_table">
+			<table data-kt-datatable-table="true">
+				<thead>
+					<tr>
+						<th data-kt-datatable-column="id" data-kt-datatable-column-resizable="false"><span class="kt-table-col">ID</span></th>
+						<th data-kt-datatable-column="name" data-kt-datatable-column-width="120px" data-kt-datatable-column-max-width="300"><span class="kt-table-col"><span class="kt-table-col-label">Name</span><span class="kt-table-col-sort"></span></span></th>
+						<th data-kt-datatable-column="email"><span class="kt-table-col">Email</span></th>
+					</tr>
+				</thead>
+				<tbody>
+					<tr><td>1</td><td>Alpha</td><td>alpha@example.com</td></tr>
+					<tr><td>2</td><td>Beta</td><td>beta@example.com</td></tr>
+				</tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+	const dt = new KTDataTable<Record<string, string>>(root, {
+		stateSave: false,
+		tableLayout: 'fixed',
+		columnResize: true,
+		...config,
+	});
+	return { root, dt };
+}
+
+function handle(root: HTMLElement, key: string): HTMLElement {
+	return root.querySelector(
+		`[data-kt-datatable-column-resizer="${key}"]`,
+	) as HTMLElement;
+}
+
+function colWidths(root: HTMLElement): string[] {
+	return Array.from(root.querySelectorAll('colgroup col')).map(
+		(col) => (col as HTMLElement).style.width,
+	);
+}
+
+/** Drag a handle by `dx` pixels from a header of the given width. */
+function drag(root: HTMLElement, key: string, width: number, dx: number): void {
+	const th = handle(root, key).closest('th') as HTMLElement;
+	vi.spyOn(th, 'getBoundingClientRect').mockReturnValue({
+		width,
+	} as DOMRect);
+	handle(root, key).dispatchEvent(
+		new MouseEvent('pointerdown', { bubbles: true, button: 0, clientX: 100 }),
+	);
+	window.dispatchEvent(new MouseEvent('pointermove', { clientX: 100 + dx }));
+	window.dispatchEvent(new MouseEvent('pointerup', { clientX: 100 + dx }));
+	handle(root, key).click();
+}
+
+describe('Column resize', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+		localStorage.clear();
+		vi.restoreAllMocks();
+	});
+
+	it('adds handles to resizable headers only with the fixed layout', async () => {
+		const { root, dt } = createTable();
+		await waitFor(0);
+
+		expect(handle(root, 'id')).toBeNull();
+		expect(handle(root, 'name')).not.toBeNull();
+		expect(handle(root, 'email')).not.toBeNull();
+		dt.dispose();
+
+		document.body.innerHTML = '';
+		const auto = createTable({ tableLayout: 'auto' });
+		await waitFor(0);
+		expect(
+			auto.root.querySelectorAll('[data-kt-datatable-column-resizer]'),
+		).toHaveLength(0);
+		auto.dt.dispose();
+	});
+
+	it('resizes a column by dragging, fires columnResize and does not sort', async () => {
+		const { root, dt } = createTable();
+		await waitFor(0);
+		const onResize = vi.fn();
+		root.addEventListener('kt.datatable.columnResize', (event) =>
+			onResize((event as CustomEvent).detail.payload),
+		);
+
+		drag(root, 'email', 150, 60);
+		await waitFor(0);
+
+		expect(onResize).toHaveBeenCalledWith({ column: 'email', width: 210 });
+		expect(dt.getState().columnWidths).toEqual({ email: 210 });
+		expect(colWidths(root)).toEqual(['', '120px', '210px']);
+		expect(dt.getState().sortOrder).toBe('');
+
+		// data-kt-datatable-column-max-width and the default 40px minimum clamp.
+		drag(root, 'name', 120, 500);
+		await waitFor(0);
+		expect(dt.getState().columnWidths?.name).toBe(300);
+		drag(root, 'email', 210, -500);
+		await waitFor(0);
+		expect(dt.getState().columnWidths?.email).toBe(40);
+		dt.dispose();
+	});
+
+	it('fits a column to its content on double-click', async () => {
+		const { root, dt } = createTable({
+			columnResize: { minWidth: 10 },
+		});
+		await waitFor(0);
+		vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockImplementation(
+			function (this: HTMLElement) {
+				return (this.textContent ?? '').length * 10;
+			},
+		);
+
+		handle(root, 'email').dispatchEvent(
+			new MouseEvent('dblclick', { bubbles: true }),
+		);
+		await waitFor(0);
+
+		expect(dt.getState().columnWidths?.email).toBe(170);
+		expect(colWidths(root)[2]).toBe('170px');
+		dt.dispose();
+	});
+
+	it('keeps resized widths through stateSave', async () => {
+		const first = createTable({ stateSave: true });
+		await waitFor(0);
+		drag(first.root, 'name', 120, 40);
+		await waitFor(0);
+		first.dt.dispose();
+		document.body.innerHTML = '';
+
+		const second = createTable({ stateSave: true });
+		await waitFor(0);
+		expect(second.dt.getState().columnWidths).toEqual({ name: 160 });
+		expect(colWidths(second.root)[1]).toBe('160px');
+		second.dt.dispose();
+	});
+});
@@ -0,0 +1,258 @@
+/**
+ * Tests for the column visibility and reordering API: hideColumn, showColumn,
+ * setColumnOrder, getColumns, fixed-layout colgroup, sticky columns and stateSave.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { waitFor } from './setup';
+
+function createTable(
+	options: { typed?: boolean; tfoot?: boolean } = {},
+): HTMLElement {
+	const { typed = true, tfoot = false } = options;
+	const column = (key: string) =>
+		typed ? ` data-kt-datatable-column="${key}"` : '';
+
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="column_visibility_table">
+			<table data-kt-datatable-table="true">
+				<thead>
+					<tr>
+						<th${column('id')}><span class="kt-table-col">ID</span></th>
+						<th${column('name')}><span class="kt-table-col">Name</span></th>
+						<th${column('status')}><span class="kt-table-col">Status</span></th>
+					</tr>
+				</thead>
+				<tbody>
+					<tr><td>1</td><td>Alpha</td><td>Active</td></tr>
+					<tr><td>2</td><td>Beta</td><td>Pending</td></tr>
+					<tr><td>3</td><td>Gamma</td><td>Disabled</td></tr>
+				</tbody>
+				${tfoot ? '<tfoot><tr><td>f-id</td><td>f-name</td><td>f-status</td></tr></tfoot>' : ''}
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	return container.querySelector('[data-kt-datatable]') as HTMLElement;
+}
+
+function headerTexts(root: HTMLElement): string[] {
+	return Array.from(root.querySelectorAll('thead th')).map(
+		(th) => th.textContent?.trim() ?? '',
+	);
+}
+
+function rowTexts(row: Element | null): string[] {
+	return Array.from(row?.children ?? []).map(
+		(cell) => cell.textContent?.trim() ?? '',
+	);
+}
+
+function visibleTexts(row: Element | null): string[] {
+	return Array.from(row?.children ?? [])
+		.filter((cell) => (cell as HTMLElement).style.display !== 'none')
+		.map((cell) => cell.textContent?.trim() ?? '');
+}
+
+describe('Column visibility and reordering', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('hides and shows a column in thead and tbody', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false });
+		await waitFor(0);
+
+		const handler = vi.fn();
+		root.addEventListener('kt.datatable.columnVisibility', handler);
+
+		dt.hideColumn('name');
+		await waitFor(0);
+
+		expect(visibleTexts(root.querySelector('thead tr'))).toEqual([
+			'ID',
+			'Status',
+		]);
+		expect(visibleTexts(root.querySelector('tbody tr'))).toEqual([
+			'1',
+			'Active',
+		]);
+		expect(dt.getState().hiddenColumns).toEqual(['name']);
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect((handler.mock.calls[0][0] as CustomEvent).detail).toMatchObject({
+			payload: { column: 'name', visible: false },
+		});
+
+		dt.showColumn('name');
+		await waitFor(0);
+
+		expect(visibleTexts(root.querySelector('tbody tr'))).toEqual([
+			'1',
+			'Alpha',
+			'Active',
+		]);
+		expect(dt.getState().hiddenColumns).toEqual([]);
+		dt.dispose();
+	});
+
+	it('ignores unknown column keys', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false });
+		await waitFor(0);
+
+		dt.hideColumn('missing');
+		await waitFor(0);
+
+		expect(dt.getState().hiddenColumns).toBeUndefined();
+		dt.dispose();
+	});
+
+	it('reorders header, body and footer cells', async () => {
+		const root = createTable({ tfoot: true });
+		const dt = new KTDataTable(root, { stateSave: false });
+		await waitFor(0);
+
+		dt.setColumnOrder(['status', 'id']);
+		await waitFor(0);
+
+		expect(headerTexts(root)).toEqual(['Status', 'ID', 'Name']);
+		expect(rowTexts(root.querySelector('tbody tr'))).toEqual([
+			'Active',
+			'1',
+			'Alpha',
+		]);
+		expect(rowTexts(root.querySelector('tfoot tr'))).toEqual([
+			'f-status',
+			'f-id',
+			'f-name',
+		]);
+		expect(dt.getColumns()).toEqual([
+			{ key: 'status', title: 'Status', visible: true, index: 2, position: 0 },
+			{ key: 'id', title: 'ID', visible: true, index: 0, position: 1 },
+			{ key: 'name', title: 'Name', visible: true, index: 1, position: 2 },
+		]);
+
+		// Sorting redraws the body from data; the order must survive it.
+		dt.sort('name', 'desc');
+		await waitFor(0);
+
+		expect(headerTexts(root)).toEqual(['Status', 'ID', 'Name']);
+		expect(rowTexts(root.querySelector('tbody tr'))).toEqual([
+			'Disabled',
+			'3',
+			'Gamma',
+		]);
+		expect(rowTexts(root.querySelector('tfoot tr'))).toEqual([
+			'f-status',
+			'f-id',
+			'f-name',
+		]);
+		dt.dispose();
+	});
+
+	it('sorts untyped headers by their original index after reordering', async () => {
+		const root = createTable({ typed: false });
+		const dt = new KTDataTable(root, { stateSave: false });
+		await waitFor(0);
+
+		dt.setColumnOrder(['2', '0', '1']);
+		await waitFor(0);
+
+		(root.querySelectorAll('thead th')[2] as HTMLElement).click();
+		await waitFor(0);
+
+		expect(dt.getState().sortField).toBe(1);
+		expect(root.querySelectorAll('thead th')[2].getAttribute('aria-sort')).toBe(
+			'ascending',
+		);
+		dt.dispose();
+	});
+
+	it('keeps fixed-layout colgroup widths aligned with the visible columns', async () => {
+		const root = createTable({ typed: false });
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			tableLayout: 'fixed',
+			columns: {
+				id: { title: 'ID', width: '50px' },
+				name: { title: 'Name', width: '200px' },
+				status: { title: 'Status', width: '100px' },
+			},
+		});
+		await waitFor(0);
+
+		dt.setColumnOrder(['status', 'name', 'id']);
+		dt.hideColumn('name');
+		await waitFor(0);
+
+		const widths = Array.from(root.querySelectorAll('colgroup col')).map(
+			(col) => (col as HTMLElement).style.width,
+		);
+		expect(widths).toEqual(['100px', '50px']);
+		expect(dt.getColumns().map((column) => column.title)).toEqual([
+			'Status',
+			'Name',
+			'ID',
+		]);
+		dt.dispose();
+	});
+
+	it('locks sticky columns by key after reordering', async () => {
+		const root = createTable({ typed: false });
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			columns: {
+				id: { title: 'ID' },
+				name: { title: 'Name' },
+				status: { title: 'Status' },
+			},
+			lockedLayout: { stickyColumns: { left: ['id'] } },
+		});
+		await waitFor(0);
+
+		dt.setColumnOrder(['name', 'status', 'id']);
+		await waitFor(0);
+
+		const lockedHeaders = Array.from(
+			root.querySelectorAll('thead .kt-datatable-locked-left'),
+		).map((cell) => cell.textContent?.trim());
+		expect(lockedHeaders).toEqual(['ID']);
+		expect(
+			root
+				.querySelector('tbody tr')
+				?.children[2].classList.contains('kt-datatable-locked-left'),
+		).toBe(true);
+		dt.dispose();
+	});
+
+	it('round-trips hidden columns and order through stateSave', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: true });
+		await waitFor(0);
+		dt.setColumnOrder(['name', 'id', 'status']);
+		dt.hideColumn('status');
+		await waitFor(0);
+		dt.dispose();
+
+		const saved = JSON.parse(
+			localStorage.getItem('column_visibility_table') ?? '{}',
+		);
+		expect(saved.columnOrder).toEqual(['name', 'id', 'status']);
+		expect(saved.hiddenColumns).toEqual(['status']);
+
+		document.body.innerHTML = '';
+		const restoredRoot = createTable();
+		const restored = new KTDataTable(restoredRoot, { stateSave: true });
+		await waitFor(0);
+
+		expect(headerTexts(restoredRoot)).toEqual(['Name', 'ID', 'Status']);
+		expect(visibleTexts(restoredRoot.querySelector('tbody tr'))).toEqual([
+			'Alpha',
+			'1',
+		]);
+		restored.dispose();
+	});
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for cursor pagination: cursor query param, appended batches, the
+ * "load more" button and info text, resets on sort/search, infinite scroll
+ * and export through every cursor.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { resolveCursorPagination } from '../datatable-cursor-pagination';
+import { KTDataTableConfigInterface } from '../types';
+import { waitFor } from './setup';
+
+const ROWS = Array.from({ length: 7 }, (_, i) => ({
+	id: i + 1,
+	name: `Row ${i + 1}`,
+}));
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+function mockServer(options: { withTotal?: boolean } = {}): void {
+	fetchMock = vi.fn((input: string) => {
+		const params = new URL(input).searchParams;
+		const start = Number(params.get('cursor') ?? 0);
+		const size = Number(params.get('size'));
+		const rows =
+			params.get('sortOrder') === 'desc' ? [...ROWS].reverse() : ROWS;
+		const end = Math.min(start + size, rows.length);
+		return Promise.resolve({
+			ok: true,
+			json: () =>
+				Promise.resolve({
+					data: rows.slice(start, end),
+					nextCursor: end < rows.length ? String(end) : null,
+					...(options.withTotal && { totalCount: rows.length }),
+				}),
+		});
+	});
+	vi.stubGlobal('fetch', fetchMock);
+}
+
+function createTable(config: Partial<KTDataTableConfigInterface> = {}): {
+	root: HTMLElement;
+	dt: KTDataTable<(typeof ROWS)[number]>;
+} {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="cursor_table">
+			<div class="kt-table-wrapper">
+				<table data-kt-datatable-table="true">
+					<thead><tr>
+						<th data-kt-datatable-column="id"><span class="kt-table-col">ID</span></th>
+						<th data-kt-datatable-column="name"><span class="kt-table-col">Name</span></th>
+					</tr></thead>
+					<tbody></tbody>
+				</table>
+			</div>
+			<span data-kt-datatable-info="true"></span>
+			<div data-kt-datatable-pagination="true"></div>
+		</div>
+	`;
+	document.body.appendChild(container);
+	const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+	const dt = new KTDataTable<(typeof ROWS)[number]>(root, {
+		stateSave: false,
+		apiEndpoint: 'https://api.example.com/rows',
+		pageSize: 3,
+		cursorPagination: true,
+		...config,
+	});
+	return { root, dt };
+}
+
+function renderedIds(root: HTMLElement): string[] {
+	return Array.from(root.querySelectorAll('tbody tr')).map(
+		(row) => row.children[0].textContent ?? '',
+	);
+}
+
+function requestParams(call: number): URLSearchParams {
+	return new URL(fetchMock.mock.calls[call][0] as string).searchParams;
+}
+
+function loadMoreButton(root: HTMLElement): HTMLButtonElement | null {
+	return root.querySelector('[data-kt-datatable-load-more]');
+}
+
+describe('Cursor pagination', () => {
+	beforeEach(() => {
+		mockServer();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllGlobals();
+	});
+
+	it('loads the first batch without a cursor or page number', async () => {
+		const { root, dt } = createTable();
+		await waitFor(0);
+
+		expect(requestParams(0).has('cursor')).toBe(false);
+		expect(requestParams(0).has('page')).toBe(false);
+		expect(requestParams(0).get('size')).toBe('3');
+		expect(renderedIds(root)).toEqual(['1', '2', '3']);
+		expect(dt.getState().hasMore).toBe(true);
+		expect(dt.getState().totalPages).toBe(1);
+
+		const info = root.querySelector('[data-kt-datatable-info]');
+		expect(info?.textContent).toBe('1-3 of 3+');
+		const pagination = root.querySelector('[data-kt-datatable-pagination]');
+		expect(pagination?.children).toHaveLength(1);
+		expect(loadMoreButton(root)?.textContent).toBe('Load more');
+		dt.dispose();
+	});
+
+	it('appends batches until the server has no more rows', async () => {
+		const { root, dt } = createTable();
+		await waitFor(0);
+
+		loadMoreButton(root)?.click();
+		await waitFor(0);
+		expect(requestParams(1).get('cursor')).toBe('3');
+		expect(renderedIds(root)).toEqual(['1', '2', '3', '4', '5', '6']);
+
+		await dt.loadMore();
+		expect(requestParams(2).get('cursor')).toBe('6');
+		expect(renderedIds(root)).toHaveLength(7);
+		expect(dt.getState().hasMore).toBe(false);
+		expect(loadMoreButton(root)).toBeNull();
+		expect(root.querySelector('[data-kt-datatable-info]')?.textContent).toBe(
+			'1-7 of 7',
+		);
+
+		await dt.loadMore();
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		dt.dispose();
+	});
+
+	it('starts over from the first batch when the sort changes', async () => {
+		const { root, dt } = createTable();
+		await waitFor(0);
+		await dt.loadMore();
+		expect(renderedIds(root)).toHaveLength(6);
+
+		dt.sort('id', 'desc');
+		await waitFor(0);
+
+		const last = fetchMock.mock.calls.length - 1;
+		expect(requestParams(last).has('cursor')).toBe(false);
+		expect(renderedIds(root)).toEqual(['7', '6', '5']);
+		dt.dispose();
+	});
+
+	it('shows the total when the server sends one', async () => {
+		mockServer({ withTotal: true });
+		const { root, dt } = createTable({
+			info: '{start}-{end} of {total}',
+			cursorPagination: { loadMore: { class: 'more', text: 'More rows' } },
+		});
+		await waitFor(0);
+
+		expect(dt.getState().totalItems).toBe(7);
+		expect(root.querySelector('[data-kt-datatable-info]')?.textContent).toBe(
+			'1-3 of 7',
+		);
+		expect(loadMoreButton(root)?.className).toBe('more');
+		expect(loadMoreButton(root)?.textContent).toBe('More rows');
+		dt.dispose();
+	});
+
+	it('loads the next batch when scrolled near the end with infiniteScroll', async () => {
+		const { root, dt } = createTable({
+			cursorPagination: { infiniteScroll: true, threshold: 50 },
+		});
+		await waitFor(0);
+
+		const wrapper = root.querySelector('.kt-table-wrapper') as HTMLElement;
+		Object.defineProperties(wrapper, {
+			scrollHeight: { value: 1000, configurable: true },
+			clientHeight: { value: 400, configurable: true },
+			scrollTop: { value: 100, configurable: true, writable: true },
+		});
+
+		wrapper.dispatchEvent(new Event('scroll'));
+		await waitFor(0);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		wrapper.scrollTop = 560;
+		wrapper.dispatchEvent(new Event('scroll'));
+		await waitFor(0);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(renderedIds(root)).toHaveLength(6);
+		dt.dispose();
+	});
+
+	it('exports every row by following the cursors', async () => {
+		const { dt } = createTable();
+		await waitFor(0);
+		fetchMock.mockClear();
+
+		const json = await dt.export({ format: 'json', scope: 'all' });
+
+		expect(JSON.parse(json)).toHaveLength(7);
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		dt.dispose();
+	});
+
+	it('does not apply to local tables', () => {
+		expect(resolveCursorPagination({ cursorPagination: true })).toBeNull();
+		expect(
+			resolveCursorPagination({
+				apiEndpoint: '/rows',
+				cursorPagination: { param: 'after' },
+			}),
+		).toMatchObject({ param: 'after', infiniteScroll: false, threshold: 200 });
+	});
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for `dataProvider`: provider objects and factories, state-driven
+ * fetches, fetch errors from rejected fetches, superseded results, export
+ * through fetchAll() and dispose().
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import {
+	KTDataTableDataProvider,
+	KTDataTableDataProviderContext,
+} from '../datatable-contracts';
+import { KTDataTableConfigInterface } from '../types';
+import { waitFor } from './setup';
+
+type Row = { id: number; name: string };
+
+const ROWS: Row[] = [
+	{ id: 1, name: 'Alpha' },
+	{ id: 2, name: 'Beta' },
+	{ id: 3, name: 'Gamma' },
+	{ id: 4, name: 'Delta' },
+	{ id: 5, name: 'Epsilon' },
+];
+
+/** In-memory provider paging ROWS by the state store. */
+function createProvider(
+	context: KTDataTableDataProviderContext,
+): KTDataTableDataProvider<Row> {
+	return {
+		fetch: async () => {
+			const { page, pageSize } = context.stateStore.getState();
+			const start = (page - 1) * pageSize;
+			return {
+				data: ROWS.slice(start, start + pageSize),
+				totalItems: ROWS.length,
+			};
+		},
+		fetchAll: async () => [...ROWS],
+		dispose: vi.fn(),
+	};
+}
+
+function createTable(config: KTDataTableConfigInterface = {}): {
+	root: HTMLElement;
+	dt: KTDataTable<Row>;
+} {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="data_provider_table">
+			<table data-kt-datatable-table="true">
+				<thead><tr>
+					<th data-kt-datatable-column="id">ID</th>
+					<th data-kt-datatable-column="name">Name</th>
+				</tr></thead>
+				<tbody><tr><td>9</td><td>Server rendered</td></tr></tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+	const dt = new KTDataTable<Row>(root, {
+		stateSave: false,
+		pageSize: 2,
+		...config,
+	});
+	return { root, dt };
+}
+
+function names(root: HTMLElement): string[] {
+	return Array.from(root.querySelectorAll('tbody tr')).map(
+		(row) => row.children[1].textContent ?? '',
+	);
+}
+
+describe('Data provider', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('draws the pages of a provider created by a factory', async () => {
+		const factory = vi.fn(createProvider);
+		const { root, dt } = createTable({ dataProvider: factory });
+		await waitFor(0);
+
+		expect(factory).toHaveBeenCalledTimes(1);
+		expect(factory.mock.calls[0][0].context).toBe(dt);
+		expect(names(root)).toEqual(['Alpha', 'Beta']);
+		expect(dt.getState().totalItems).toBe(5);
+
+		dt.goPage(3);
+		await waitFor(0);
+		expect(names(root)).toEqual(['Epsilon']);
+
+		const provider = factory.mock.results[0].value;
+		dt.dispose();
+		expect(provider.dispose).toHaveBeenCalled();
+	});
+
+	it('accepts a provider object and exports through fetchAll()', async () => {
+		const fetchAll = vi.fn(async () => [...ROWS]);
+		const { dt } = createTable({
+			dataProvider: {
+				fetch: async () => ({ data: ROWS.slice(0, 2), totalItems: 5 }),
+				fetchAll,
+			},
+		});
+		await waitFor(0);
+
+		const csv = (await dt.export({ format: 'csv', scope: 'all' })) as string;
+		expect(fetchAll).toHaveBeenCalledWith({ filtered: false });
+		expect(csv.trim().split('\n')).toHaveLength(6);
+		dt.dispose();
+	});
+
+	it('shows a rejected fetch as a fetch error', async () => {
+		const fetch = vi
+			.fn()
+			.mockRejectedValueOnce(new Error('offline'))
+			.mockResolvedValue({ data: ROWS.slice(0, 2), totalItems: 5 });
+		const { root, dt } = createTable({ dataProvider: { fetch } });
+		const onFetchError = vi.fn();
+		root.addEventListener('kt.datatable.fetchError', (event) =>
+			onFetchError((event as CustomEvent).detail.payload),
+		);
+		await waitFor(0);
+
+		expect(onFetchError).toHaveBeenCalledWith(
+			expect.objectContaining({ type: 'network', attempts: 1 }),
+		);
+		expect(
+			root.querySelector('tbody tr[data-kt-datatable-error-row]'),
+		).not.toBeNull();
+
+		await dt.retry();
+		expect(names(root)).toEqual(['Alpha', 'Beta']);
+		dt.dispose();
+	});
+
+	it('skips a result that arrives after dispose()', async () => {
+		let resolve: (value: { data: Row[]; totalItems: number }) => void;
+		const { root, dt } = createTable({
+			dataProvider: {
+				fetch: () =>
+					new Promise((done) => {
+						resolve = done;
+					}),
+			},
+		});
+		await waitFor(0);
+
+		dt.dispose();
+		resolve({ data: ROWS, totalItems: 5 });
+		await waitFor(0);
+		expect(names(root)).not.toContain('Alpha');
+	});
+});
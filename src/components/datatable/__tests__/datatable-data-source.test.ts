@@ -0,0 +1,164 @@
+/**
+ * Tests for array data: `data` config, setData(), addRows(), updateRow()
+ * and removeRows(), selection cleanup and `dataChange` events.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { KTDataTableConfigInterface } from '../types';
+import { waitFor } from './setup';
+
+type Row = { id: number; name: string; role: string };
+
+const ROWS: Row[] = [
+	{ id: 1, name: 'Alice', role: 'Admin' },
+	{ id: 2, name: 'Bob', role: 'Editor' },
+	{ id: 3, name: 'Carol', role: 'Admin' },
+];
+
+function createTable(
+	config: KTDataTableConfigInterface = {},
+	body = '',
+): { root: HTMLElement; dt: KTDataTable<Row> } {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="data_source_table">
+			<table data-kt-datatable-table="true">
+				<thead><tr>
+					<th data-kt-datatable-column="id">ID</th>
+					<th data-kt-datatable-column="name">Name</th>
+					<th data-kt-datatable-column="role">Role</th>
+				</tr></thead>
+				<tbody>${body}</tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+	const dt = new KTDataTable<Row>(root, {
+		stateSave: false,
+		pageSize: 10,
+		...config,
+	});
+	return { root, dt };
+}
+
+function names(root: HTMLElement): string[] {
+	return Array.from(root.querySelectorAll('tbody tr')).map(
+		(row) => row.children[1].textContent ?? '',
+	);
+}
+
+describe('Array data', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('renders rows from the data config and sorts them', async () => {
+		const { root, dt } = createTable({
+			data: ROWS.map((row) => ({ ...row })),
+		});
+		await waitFor(0);
+
+		expect(names(root)).toEqual(['Alice', 'Bob', 'Carol']);
+		expect(dt.getState().totalItems).toBe(3);
+
+		dt.sort('name');
+		await waitFor(0);
+		dt.sort('name');
+		await waitFor(0);
+		expect(names(root)).toEqual(['Carol', 'Bob', 'Alice']);
+		dt.dispose();
+	});
+
+	it('replaces and appends rows with setData() and addRows()', async () => {
+		const { root, dt } = createTable(
+			{},
+			'<tr><td>9</td><td>Server</td><td>Viewer</td></tr>',
+		);
+		const onChange = vi.fn();
+		root.addEventListener('kt.datatable.dataChange', (event) =>
+			onChange((event as CustomEvent).detail.payload),
+		);
+		await waitFor(0);
+		expect(names(root)).toEqual(['Server']);
+
+		dt.setData(ROWS.slice(0, 2).map((row) => ({ ...row })));
+		await waitFor(0);
+		expect(names(root)).toEqual(['Alice', 'Bob']);
+		expect(onChange).toHaveBeenLastCalledWith(
+			expect.objectContaining({ type: 'set' }),
+		);
+
+		dt.addRows([{ id: 3, name: 'Carol', role: 'Admin' }]);
+		await waitFor(0);
+		expect(names(root)).toEqual(['Alice', 'Bob', 'Carol']);
+		expect(onChange).toHaveBeenLastCalledWith({
+			type: 'add',
+			rows: [{ id: 3, name: 'Carol', role: 'Admin' }],
+		});
+		dt.dispose();
+	});
+
+	it('draws rows set while the first draw is still running', async () => {
+		const { root, dt } = createTable(
+			{},
+			'<tr><td>9</td><td>Server</td><td>Viewer</td></tr>',
+		);
+		dt.setData(ROWS.slice(0, 2).map((row) => ({ ...row })));
+		await waitFor(50);
+
+		expect(names(root)).toEqual(['Alice', 'Bob']);
+		expect(dt.getState().totalItems).toBe(2);
+		dt.dispose();
+	});
+
+	it('updates and removes rows by rowId', async () => {
+		const { root, dt } = createTable({
+			data: ROWS.map((row) => ({ ...row })),
+			rowId: 'id',
+		});
+		const onChange = vi.fn();
+		root.addEventListener('kt.datatable.dataChange', (event) =>
+			onChange((event as CustomEvent).detail.payload),
+		);
+		await waitFor(0);
+
+		dt.updateRow(2, { name: 'Robert' });
+		await waitFor(0);
+		expect(names(root)).toEqual(['Alice', 'Robert', 'Carol']);
+		expect(onChange).toHaveBeenLastCalledWith({
+			type: 'update',
+			rows: [{ id: 2, name: 'Robert', role: 'Editor' }],
+		});
+
+		dt.updateRow(42, { name: 'Nobody' });
+		dt.removeRows([1, '3']);
+		await waitFor(0);
+		expect(names(root)).toEqual(['Robert']);
+		expect(onChange).toHaveBeenCalledTimes(2);
+		expect(onChange.mock.calls[1][0].rows.map((row: Row) => row.id)).toEqual([
+			1, 3,
+		]);
+		dt.dispose();
+	});
+
+	it('drops removed rows from the selection', async () => {
+		const { dt } = createTable({
+			data: ROWS.map((row) => ({ ...row })),
+			columns: { id: { checkbox: true }, name: {}, role: {} },
+		});
+		await waitFor(0);
+
+		dt.selectAllMatching();
+		expect(dt.getChecked()).toEqual(['1', '2', '3']);
+		dt.removeRows(['2']);
+		await waitFor(0);
+		expect(dt.getChecked()).toEqual(['1', '3']);
+
+		dt.setData([{ id: 4, name: 'Dave', role: 'Viewer' }]);
+		await waitFor(0);
+		expect(dt.getChecked()).toEqual([]);
+		dt.dispose();
+	});
+});
@@ -0,0 +1,208 @@
+/**
+ * Tests for expandable detail rows: expand button, detailRender content,
+ * expandRow/collapseRow/collapseAll, events, and state across redraws.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { waitFor } from './setup';
+
+function createTable(): HTMLElement {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="detail_rows_table">
+			<table data-kt-datatable-table="true">
+				<thead>
+					<tr>
+						<th data-kt-datatable-column="id"><span class="kt-table-col">ID</span></th>
+						<th data-kt-datatable-column="name"><span class="kt-table-col">Name</span></th>
+						<th data-kt-datatable-column="email"><span class="kt-table-col">Email</span></th>
+					</tr>
+				</thead>
+				<tbody>
+					<tr><td>1</td><td>Alpha</td><td>alpha@example.com</td></tr>
+					<tr><td>2</td><td>Beta</td><td>beta@example.com</td></tr>
+					<tr><td>3</td><td>Gamma</td><td>gamma@example.com</td></tr>
+				</tbody>
+			</table>
+			<span data-kt-datatable-info="true"></span>
+			<div data-kt-datatable-pagination="true"></div>
+		</div>
+	`;
+	document.body.appendChild(container);
+	return container.querySelector('[data-kt-datatable]') as HTMLElement;
+}
+
+const detailRender = (row: Record<string, unknown>) =>
+	`<p class="detail">Details for ${row.name}</p>`;
+
+/** Compact view of the tbody: data rows by name, detail rows as `>content`. */
+function renderedRows(root: HTMLElement): string[] {
+	return Array.from(root.querySelectorAll('tbody tr')).map((row) =>
+		row.hasAttribute('data-kt-datatable-detail-row')
+			? `>${row.textContent}`
+			: (row.children[1]?.textContent ?? ''),
+	);
+}
+
+function expandButton(root: HTMLElement, index: number): HTMLElement {
+	const rows = root.querySelectorAll(
+		'tbody tr:not([data-kt-datatable-detail-row])',
+	);
+	return rows[index].querySelector(
+		'[data-kt-datatable-row-expand]',
+	) as HTMLElement;
+}
+
+describe('Detail rows', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('adds an expand button to every data row only when detailRender is set', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, detailRender });
+		await waitFor(0);
+
+		expect(
+			root.querySelectorAll('tbody [data-kt-datatable-row-expand]'),
+		).toHaveLength(3);
+		expect(expandButton(root, 0).getAttribute('aria-expanded')).toBe('false');
+		dt.dispose();
+
+		document.body.innerHTML = '';
+		const plainRoot = createTable();
+		const plain = new KTDataTable(plainRoot, { stateSave: false });
+		await waitFor(0);
+		expect(
+			plainRoot.querySelectorAll('[data-kt-datatable-row-expand]'),
+		).toHaveLength(0);
+		plain.dispose();
+	});
+
+	it('toggles a full-width detail row from the expand button', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, detailRender });
+		await waitFor(0);
+
+		const expanded = vi.fn();
+		const collapsed = vi.fn();
+		root.addEventListener('kt.datatable.expanded', expanded);
+		root.addEventListener('kt.datatable.collapsed', collapsed);
+
+		expandButton(root, 1).click();
+
+		expect(renderedRows(root)).toEqual([
+			'Alpha',
+			'Beta',
+			'>Details for Beta',
+			'Gamma',
+		]);
+		const detailCell = root.querySelector(
+			'tr[data-kt-datatable-detail-row] td',
+		) as HTMLTableCellElement;
+		expect(detailCell.colSpan).toBe(3);
+		expect(expandButton(root, 1).getAttribute('aria-expanded')).toBe('true');
+		expect((expanded.mock.calls[0][0] as CustomEvent).detail.payload).toEqual({
+			row: 1,
+			data: expect.objectContaining({ name: 'Beta' }),
+		});
+
+		expandButton(root, 1).click();
+
+		expect(renderedRows(root)).toEqual(['Alpha', 'Beta', 'Gamma']);
+		expect(collapsed).toHaveBeenCalledTimes(1);
+		dt.dispose();
+	});
+
+	it('supports expandRow, collapseRow and collapseAll', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			detailRender: (row) => {
+				const el = document.createElement('div');
+				el.textContent = `#${row.id}`;
+				return el;
+			},
+		});
+		await waitFor(0);
+
+		dt.expandRow(0);
+		dt.expandRow(2);
+		dt.expandRow(2);
+		expect(renderedRows(root)).toEqual([
+			'Alpha',
+			'>#1',
+			'Beta',
+			'Gamma',
+			'>#3',
+		]);
+
+		dt.collapseRow(0);
+		expect(renderedRows(root)).toEqual(['Alpha', 'Beta', 'Gamma', '>#3']);
+
+		dt.collapseAll();
+		expect(renderedRows(root)).toEqual(['Alpha', 'Beta', 'Gamma']);
+		dt.dispose();
+	});
+
+	it('keeps rows expanded across redraws on the same page', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, detailRender });
+		await waitFor(0);
+
+		dt.expandRow(0);
+		dt.sort('name', 'desc');
+		await waitFor(0);
+
+		expect(renderedRows(root)).toEqual([
+			'Gamma',
+			'Beta',
+			'Alpha',
+			'>Details for Alpha',
+		]);
+
+		dt.hideColumn('email');
+		await waitFor(0);
+
+		expect(renderedRows(root).slice(-1)).toEqual(['>Details for Alpha']);
+		expect(
+			(
+				root.querySelector(
+					'tr[data-kt-datatable-detail-row] td',
+				) as HTMLTableCellElement
+			).colSpan,
+		).toBe(2);
+
+		// A local refetch must not read the detail row back as data.
+		dt.reload();
+		await waitFor(0);
+		expect(dt.getState().totalItems).toBe(3);
+		expect(renderedRows(root)).toEqual([
+			'Gamma',
+			'Beta',
+			'Alpha',
+			'>Details for Alpha',
+		]);
+		dt.dispose();
+	});
+
+	it('closes detail rows when the page changes', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			pageSize: 2,
+			detailRender,
+		});
+		await waitFor(0);
+
+		dt.expandRow(0);
+		dt.goPage(2);
+		await waitFor(0);
+		dt.goPage(1);
+		await waitFor(0);
+
+		expect(renderedRows(root)).toEqual(['Alpha', 'Beta']);
+		dt.dispose();
+	});
+});
@@ -0,0 +1,337 @@
+/**
+ * Tests for export() and copyToClipboard(): formats, scopes, visible columns,
+ * exportValue, checked rows and remote paging through apiEndpoint.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { waitFor } from './setup';
+
+function createTable(): HTMLElement {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="export_table">
+			<table data-kt-datatable-table="true">
+				<thead>
+					<tr>
+						<th data-kt-datatable-column="check"><input type="checkbox" data-kt-datatable-check="true"></th>
+						<th data-kt-datatable-column="name"><span class="kt-table-col">Name</span></th>
+						<th data-kt-datatable-column="city"><span class="kt-table-col">City</span></th>
+						<th data-kt-datatable-column="amount"><span class="kt-table-col">Amount</span></th>
+					</tr>
+				</thead>
+				<tbody>
+					<tr><td><input type="checkbox" data-kt-datatable-row-check="true" value="1"></td><td><b>Alpha</b></td><td>Paris, FR</td><td>$1,200</td></tr>
+					<tr><td><input type="checkbox" data-kt-datatable-row-check="true" value="2"></td><td>Beta &amp; Co</td><td>Say "hi"</td><td>$300</td></tr>
+					<tr><td><input type="checkbox" data-kt-datatable-row-check="true" value="3"></td><td>Gamma</td><td>Rome</td><td>$50</td></tr>
+				</tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	return container.querySelector('[data-kt-datatable]') as HTMLElement;
+}
+
+describe('Export', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllGlobals();
+	});
+
+	it('exports the filtered rows as CSV with titles, quoting and plain text', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, pageSize: 1 });
+		await waitFor(0);
+
+		const csv = await dt.export();
+
+		expect(csv.split('\r\n')).toEqual([
+			',Name,City,Amount',
+			',Alpha,"Paris, FR","$1,200"',
+			',Beta & Co,"Say ""hi""",$300',
+			',Gamma,Rome,$50',
+		]);
+		dt.dispose();
+	});
+
+	it('follows search, sort, hidden columns and column order', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false });
+		await waitFor(0);
+
+		dt.search('a');
+		await waitFor(400);
+		dt.sort('name', 'desc');
+		await waitFor(0);
+		dt.hideColumn('check');
+		dt.hideColumn('city');
+		dt.setColumnOrder(['amount', 'name']);
+		await waitFor(0);
+
+		expect(await dt.export({ format: 'tsv' })).toBe(
+			['Amount\tName', '$50\tGamma', '$300\tBeta & Co', '$1,200\tAlpha'].join(
+				'\n',
+			),
+		);
+		expect(await dt.export({ format: 'tsv', scope: 'all' })).toContain(
+			'$1,200\tAlpha',
+		);
+		dt.dispose();
+	});
+
+	it('exports JSON by column key with exportValue formatters', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			pageSize: 2,
+			columns: {
+				check: { checkbox: true },
+				name: { title: 'Customer' },
+				city: { title: 'City' },
+				amount: {
+					title: 'Amount',
+					exportValue: (value) => Number(String(value).replace(/[$,]/g, '')),
+				},
+			},
+		});
+		await waitFor(0);
+
+		const json = await dt.export({ format: 'json', scope: 'page' });
+
+		expect(JSON.parse(json)).toEqual([
+			{ name: 'Alpha', city: 'Paris, FR', amount: 1200 },
+			{ name: 'Beta & Co', city: 'Say "hi"', amount: 300 },
+		]);
+		expect((await dt.export({ scope: 'page' })).split('\r\n')[0]).toBe(
+			'Customer,City,Amount',
+		);
+		dt.dispose();
+	});
+
+	it('exports the checked rows', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false });
+		await waitFor(0);
+
+		const checkboxes = root.querySelectorAll<HTMLInputElement>(
+			'[data-kt-datatable-row-check]',
+		);
+		[checkboxes[0], checkboxes[2]].forEach((checkbox) => {
+			checkbox.checked = true;
+			checkbox.dispatchEvent(new Event('input', { bubbles: true }));
+		});
+		dt.hideColumn('check');
+		await waitFor(0);
+
+		expect(await dt.export({ format: 'tsv', scope: 'selected' })).toBe(
+			[
+				'Name\tCity\tAmount',
+				'Alpha\tParis, FR\t$1,200',
+				'Gamma\tRome\t$50',
+			].join('\n'),
+		);
+		dt.dispose();
+	});
+
+	it('returns a Blob with the format MIME type', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false });
+		await waitFor(0);
+
+		const blob = await dt.export({ format: 'json', output: 'blob' });
+
+		expect(blob).toBeInstanceOf(Blob);
+		expect(blob.type).toBe('application/json;charset=utf-8');
+		await expect(dt.export({ format: 'xml' as never })).rejects.toThrow(
+			'unknown export format',
+		);
+		dt.dispose();
+	});
+
+	it('copies TSV to the clipboard', async () => {
+		const writeText = vi.fn().mockResolvedValue(undefined);
+		vi.stubGlobal('navigator', { clipboard: { writeText } });
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false });
+		await waitFor(0);
+
+		const text = await dt.copyToClipboard({ scope: 'page' });
+
+		expect(writeText).toHaveBeenCalledWith(text);
+		expect(text.split('\n')[1]).toBe('\tAlpha\tParis, FR\t$1,200');
+		dt.dispose();
+	});
+
+	it('pages through apiEndpoint for remote tables', async () => {
+		const rows = Array.from({ length: 5 }, (_, i) => ({
+			id: i + 1,
+			name: `Row ${i + 1}`,
+		}));
+		const fetchMock = vi.fn((input: string) => {
+			const params = new URL(input).searchParams;
+			const page = Number(params.get('p'));
+			const size = Number(params.get('size'));
+			const filtered = params.get('search')
+				? rows.filter((row) => row.id % 2 === 1)
+				: rows;
+			return Promise.resolve({
+				ok: true,
+				json: () =>
+					Promise.resolve({
+						items: filtered.slice((page - 1) * size, page * size),
+						total: filtered.length,
+					}),
+			});
+		});
+		vi.stubGlobal('fetch', fetchMock);
+
+		const container = document.createElement('div');
+		container.innerHTML = `
+			<div data-kt-datatable="true" id="remote_export_table">
+				<table data-kt-datatable-table="true">
+					<thead><tr>
+						<th data-kt-datatable-column="id">ID</th>
+						<th data-kt-datatable-column="name">Name</th>
+					</tr></thead>
+					<tbody></tbody>
+				</table>
+			</div>
+		`;
+		document.body.appendChild(container);
+		const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			apiEndpoint: 'https://api.example.com/rows',
+			pageSize: 2,
+			mapRequest: (query) => {
+				query.set('p', query.get('page') ?? '1');
+				return query;
+			},
+			mapResponse: (response) => {
+				const raw = response as unknown as { items: []; total: number };
+				return { data: raw.items, totalCount: raw.total };
+			},
+		});
+		await waitFor(0);
+
+		dt.search('odd');
+		await waitFor(400);
+		fetchMock.mockClear();
+
+		const filtered = await dt.export({ format: 'json' });
+		expect(JSON.parse(filtered).map((row: { id: number }) => row.id)).toEqual([
+			1, 3, 5,
+		]);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+
+		const all = await dt.export({ format: 'json', scope: 'all' });
+		expect(JSON.parse(all)).toHaveLength(5);
+		expect(
+			new URL(fetchMock.mock.calls[2][0] as string).searchParams.get('search'),
+		).toBeNull();
+		dt.dispose();
+	});
+
+	it('rejects when a remote page fails', async () => {
+		const fetchMock = vi.fn((input: string) => {
+			const page = Number(new URL(input).searchParams.get('page'));
+			return Promise.resolve(
+				page === 1
+					? {
+							ok: true,
+							json: () =>
+								Promise.resolve({
+									data: [{ id: 1 }, { id: 2 }],
+									totalCount: 4,
+								}),
+						}
+					: {
+							ok: false,
+							status: 500,
+							statusText: 'Server Error',
+							json: () => Promise.resolve({ message: 'boom' }),
+						},
+			);
+		});
+		vi.stubGlobal('fetch', fetchMock);
+
+		const dt = createRemoteTable();
+		await waitFor(50);
+
+		await expect(dt.export({ format: 'json' })).rejects.toMatchObject({
+			type: 'http',
+			status: 500,
+		});
+		dt.dispose();
+	});
+
+	it('pages until a short page when the response has no totalCount', async () => {
+		const rows = Array.from({ length: 5 }, (_, i) => ({ id: i + 1 }));
+		const fetchMock = vi.fn((input: string) => {
+			const params = new URL(input).searchParams;
+			const page = Number(params.get('page'));
+			const size = Number(params.get('size'));
+			return Promise.resolve({
+				ok: true,
+				json: () =>
+					Promise.resolve({
+						data: rows.slice((page - 1) * size, page * size),
+					}),
+			});
+		});
+		vi.stubGlobal('fetch', fetchMock);
+
+		const dt = createRemoteTable();
+		await waitFor(50);
+		fetchMock.mockClear();
+
+		const json = await dt.export({ format: 'json' });
+		expect(JSON.parse(json).map((row: { id: number }) => row.id)).toEqual([
+			1, 2, 3, 4, 5,
+		]);
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		dt.dispose();
+	});
+
+	it('stops when a server without totalCount ignores the page', async () => {
+		const fetchMock = vi.fn(() =>
+			Promise.resolve({
+				ok: true,
+				json: () => Promise.resolve({ data: [{ id: 1 }, { id: 2 }] }),
+			}),
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const dt = createRemoteTable();
+		await waitFor(50);
+		fetchMock.mockClear();
+
+		const json = await dt.export({ format: 'json' });
+		expect(JSON.parse(json).map((row: { id: number }) => row.id)).toEqual([
+			1, 2,
+		]);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		dt.dispose();
+	});
+});
+
+function createRemoteTable(): KTDataTable<{ id: number }> {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true">
+			<table data-kt-datatable-table="true">
+				<thead><tr><th data-kt-datatable-column="id">ID</th></tr></thead>
+				<tbody></tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	return new KTDataTable(
+		container.querySelector('[data-kt-datatable]') as HTMLElement,
+		{
+			stateSave: false,
+			apiEndpoint: 'https://api.example.com/rows',
+			pageSize: 2,
+		},
+	);
+}
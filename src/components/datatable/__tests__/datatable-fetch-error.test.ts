@@ -0,0 +1,153 @@
+/**
+ * Tests for failed remote requests: the error row and its retry button,
+ * retry(), the fetchError payload, errorRow.render and failed "load more"
+ * batches.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { KTDataTableConfigInterface } from '../types';
+import { waitFor } from './setup';
+
+const ROWS = [
+	{ id: 1, name: 'Alpha' },
+	{ id: 2, name: 'Beta' },
+	{ id: 3, name: 'Gamma' },
+];
+
+function respond(body: object) {
+	return Promise.resolve({
+		ok: true,
+		status: 200,
+		statusText: 'OK',
+		json: () => Promise.resolve(body),
+	});
+}
+
+function fail(status = 500, statusText = 'Internal Server Error') {
+	return Promise.resolve({ ok: false, status, statusText });
+}
+
+function createTable(config: KTDataTableConfigInterface = {}): {
+	root: HTMLElement;
+	dt: KTDataTable<(typeof ROWS)[number]>;
+} {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="fetch_error_table">
+			<table data-kt-datatable-table="true">
+				<thead><tr>
+					<th data-kt-datatable-column="id">ID</th>
+					<th data-kt-datatable-column="name">Name</th>
+				</tr></thead>
+				<tbody></tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+	const dt = new KTDataTable<(typeof ROWS)[number]>(root, {
+		stateSave: false,
+		apiEndpoint: 'https://api.example.com/rows',
+		...config,
+	});
+	return { root, dt };
+}
+
+function errorRow(root: HTMLElement): HTMLTableRowElement | null {
+	return root.querySelector('tbody tr[data-kt-datatable-error-row]');
+}
+
+describe('Fetch errors', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+		vi.unstubAllGlobals();
+	});
+
+	it('renders an error row with a retry button that repeats the request', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockReturnValueOnce(fail(503, 'Service Unavailable'))
+			.mockReturnValue(respond({ data: ROWS, totalCount: 3 }));
+		vi.stubGlobal('fetch', fetchMock);
+		const { root, dt } = createTable();
+		const onError = vi.fn();
+		root.addEventListener('kt.datatable.fetchError', (event) =>
+			onError((event as CustomEvent).detail.payload),
+		);
+		await waitFor(0);
+
+		const row = errorRow(root) as HTMLTableRowElement;
+		expect(root.querySelectorAll('tbody tr')).toHaveLength(1);
+		expect((row.cells[0] as HTMLTableCellElement).colSpan).toBe(2);
+		expect(row.querySelector('[role="alert"]')?.textContent).toContain(
+			'Request failed with status 503 Service Unavailable',
+		);
+		expect(onError).toHaveBeenCalledWith(
+			expect.objectContaining({ type: 'http', status: 503, attempts: 1 }),
+		);
+
+		(row.querySelector('[data-kt-datatable-retry]') as HTMLElement).click();
+		await waitFor(0);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(errorRow(root)).toBeNull();
+		expect(root.querySelectorAll('tbody tr')).toHaveLength(3);
+		dt.dispose();
+	});
+
+	it('retries through retry() and renders a custom error row', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+			.mockReturnValue(respond({ data: ROWS, totalCount: 3 }));
+		vi.stubGlobal('fetch', fetchMock);
+		const { root, dt } = createTable({
+			errorRow: {
+				render: (error) =>
+					`<em>${error.type}</em> <a href="#" data-kt-datatable-retry>Again</a>`,
+			},
+		});
+		await waitFor(0);
+
+		expect(errorRow(root)?.textContent).toBe('network Again');
+
+		await dt.retry();
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(errorRow(root)).toBeNull();
+		expect(dt.getState().totalItems).toBe(3);
+		dt.dispose();
+	});
+
+	it('keeps the loaded rows when loading more fails', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockReturnValueOnce(respond({ data: ROWS.slice(0, 2), nextCursor: '2' }))
+			.mockReturnValueOnce(fail())
+			.mockReturnValue(respond({ data: ROWS.slice(2), nextCursor: null }));
+		vi.stubGlobal('fetch', fetchMock);
+		const { root, dt } = createTable({
+			pageSize: 2,
+			cursorPagination: true,
+			errorRow: { retryText: 'Try again' },
+		});
+		await waitFor(0);
+
+		await dt.loadMore();
+		const rows = root.querySelectorAll('tbody tr');
+		expect(rows).toHaveLength(3);
+		expect(rows[2].hasAttribute('data-kt-datatable-error-row')).toBe(true);
+		expect(
+			errorRow(root)?.querySelector('[data-kt-datatable-retry]')?.textContent,
+		).toBe('Try again');
+
+		await dt.retry();
+		const params = new URL(fetchMock.mock.calls[2][0] as string).searchParams;
+		expect(params.get('cursor')).toBe('2');
+		expect(
+			Array.from(root.querySelectorAll('tbody tr')).map(
+				(row) => row.children[1].textContent,
+			),
+		).toEqual(['Alpha', 'Beta', 'Gamma']);
+		dt.dispose();
+	});
+});
@@ -0,0 +1,248 @@
+/**
+ * Tests for the pluggable column filter operators and the public matcher registry.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+	createFilterRegistry,
+	DEFAULT_FILTER_MATCHERS,
+	matchesFilters,
+} from '../datatable-filter-registry';
+import { KTDataTable } from '../datatable';
+import { KTDataTableLocalDataProvider } from '../datatable-local-provider';
+import { KTDataTableRemoteDataProvider } from '../datatable-remote-provider';
+import { KTDataTableConfigStateStore } from '../datatable-state-store';
+import type {
+	KTDataTableColumnFilterInterface,
+	KTDataTableConfigInterface,
+} from '../types';
+
+const rows = [
+	{
+		name: 'Alice',
+		price: '$1,200',
+		joined: '2024-01-10',
+		active: 'yes',
+		tag: '',
+	},
+	{ name: 'Bob', price: '$80', joined: '2024-03-05', active: 'no', tag: 'vip' },
+	{
+		name: 'Albert',
+		price: '$450',
+		joined: '2024-06-20',
+		active: 'true',
+		tag: 'new',
+	},
+	{
+		name: 'Carol',
+		price: '$99.50',
+		joined: '2023-12-31',
+		active: '0',
+		tag: '',
+	},
+];
+
+function namesMatching(filter: KTDataTableColumnFilterInterface): string[] {
+	return rows
+		.filter((row) => matchesFilters(row, [filter]))
+		.map((row) => row.name);
+}
+
+function createLocalProvider(filters: KTDataTableColumnFilterInterface[]) {
+	const config = {
+		pageSize: 10,
+		_state: {
+			originalData: rows,
+			originalDataAttributes: rows.map(() => ({})),
+			filters,
+		},
+	} as unknown as KTDataTableConfigInterface;
+	const table = document.createElement('table');
+	const thead = table.createTHead();
+	const tbody = table.createTBody();
+
+	return new KTDataTableLocalDataProvider({
+		config,
+		elements: () => ({
+			tableElement: table,
+			tbodyElement: tbody,
+			theadElement: thead,
+		}),
+		getLogicalColumnCount: () => 5,
+		storeOriginalClasses: vi.fn(),
+		stateStore: new KTDataTableConfigStateStore(config),
+	});
+}
+
+describe('Datatable filter operators', () => {
+	afterEach(() => {
+		KTDataTable.unregisterFilterMatcher('domain');
+		vi.restoreAllMocks();
+	});
+
+	describe('range and comparison operators', () => {
+		it('between keeps values inside inclusive bounds', () => {
+			expect(
+				namesMatching({
+					column: 'price',
+					type: 'between',
+					value: { min: 80, max: 450 },
+				}),
+			).toEqual(['Bob', 'Albert', 'Carol']);
+		});
+
+		it('between with one bound is open-ended', () => {
+			expect(
+				namesMatching({
+					column: 'price',
+					type: 'between',
+					value: { min: 400 },
+				}),
+			).toEqual(['Alice', 'Albert']);
+		});
+
+		it('gt / lte compare numerically', () => {
+			expect(
+				namesMatching({ column: 'price', type: 'gt', value: 450 }),
+			).toEqual(['Alice']);
+			expect(
+				namesMatching({ column: 'price', type: 'lte', value: '99.5' }),
+			).toEqual(['Bob', 'Carol']);
+		});
+
+		it('compares dates when the filter value is a date string', () => {
+			expect(
+				namesMatching({ column: 'joined', type: 'gte', value: '2024-03-05' }),
+			).toEqual(['Bob', 'Albert']);
+			expect(
+				namesMatching({
+					column: 'joined',
+					type: 'between',
+					value: { min: '2024-01-01', max: '2024-04-01' },
+				}),
+			).toEqual(['Alice', 'Bob']);
+		});
+	});
+
+	describe('list, text and state operators', () => {
+		it('in / notIn match exact cell text', () => {
+			expect(
+				namesMatching({ column: 'name', type: 'in', value: ['Bob', 'Carol'] }),
+			).toEqual(['Bob', 'Carol']);
+			expect(
+				namesMatching({
+					column: 'name',
+					type: 'notIn',
+					value: ['Bob', 'Carol'],
+				}),
+			).toEqual(['Alice', 'Albert']);
+		});
+
+		it('in with an empty list does not filter', () => {
+			expect(
+				namesMatching({ column: 'name', type: 'in', value: [] }),
+			).toHaveLength(4);
+		});
+
+		it('startsWith is case-insensitive', () => {
+			expect(
+				namesMatching({ column: 'name', type: 'startsWith', value: 'al' }),
+			).toEqual(['Alice', 'Albert']);
+		});
+
+		it('isEmpty matches empty cells, or non-empty with value false', () => {
+			expect(namesMatching({ column: 'tag', type: 'isEmpty' })).toEqual([
+				'Alice',
+				'Carol',
+			]);
+			expect(
+				namesMatching({ column: 'tag', type: 'isEmpty', value: false }),
+			).toEqual(['Bob', 'Albert']);
+		});
+
+		it('boolean interprets common truthy strings', () => {
+			expect(
+				namesMatching({ column: 'active', type: 'boolean', value: true }),
+			).toEqual(['Alice', 'Albert']);
+			expect(
+				namesMatching({ column: 'active', type: 'boolean', value: false }),
+			).toEqual(['Bob', 'Carol']);
+		});
+	});
+
+	describe('registry', () => {
+		it('ignores unknown filter types', () => {
+			expect(
+				namesMatching({ column: 'name', type: 'doesNotExist', value: 'x' }),
+			).toHaveLength(4);
+		});
+
+		it('isolated registries start from the defaults', () => {
+			const registry = createFilterRegistry();
+			expect(registry.get('between')).toBe(DEFAULT_FILTER_MATCHERS.between);
+			registry.register('always', () => false);
+			expect(
+				matchesFilters(rows[0], [{ column: 'name', type: 'always' }], registry),
+			).toBe(false);
+		});
+
+		it('rejects invalid registrations', () => {
+			const registry = createFilterRegistry();
+			expect(() => registry.register('', () => true)).toThrow();
+		});
+
+		it('applies matchers registered through KTDataTable in the local provider', () => {
+			const matcher = vi.fn(
+				(_cell: unknown, value: unknown, row: Record<string, unknown>) =>
+					String(row.name).toLowerCase().includes(String(value)),
+			);
+			KTDataTable.registerFilterMatcher('domain', matcher);
+
+			const provider = createLocalProvider([
+				{ column: 'name', type: 'domain', value: 'ol' },
+			]);
+			const result = provider.fetchSync();
+
+			expect(result.data.map((row) => row.name)).toEqual(['Carol']);
+			expect(result.totalItems).toBe(1);
+			expect(matcher).toHaveBeenCalledWith('Alice', 'ol', rows[0]);
+		});
+	});
+
+	describe('remote mode', () => {
+		it('serializes new operators in the filters query param', async () => {
+			const fetchMock = vi.fn().mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ data: [], totalCount: 0 }),
+			});
+			vi.stubGlobal('fetch', fetchMock);
+
+			const config = {
+				requestMethod: 'GET',
+				apiEndpoint: 'https://api.example.com/data',
+				_state: {},
+			} as KTDataTableConfigInterface;
+			const stateStore = new KTDataTableConfigStateStore(config);
+			stateStore.setFilter({
+				column: 'price',
+				type: 'between',
+				value: { min: 10, max: 100 },
+			});
+			stateStore.setFilter({ column: 'status', type: 'in', value: ['a', 'b'] });
+
+			const provider = new KTDataTableRemoteDataProvider({
+				config,
+				createUrl: (path: string) => new URL(path),
+				eventAdapter: { emit: vi.fn() },
+				stateStore,
+			});
+			await provider.fetch();
+
+			const url = new URL(fetchMock.mock.calls[0][0]);
+			expect(JSON.parse(url.searchParams.get('filters') ?? '[]')).toEqual([
+				{ column: 'price', type: 'between', value: { min: 10, max: 100 } },
+				{ column: 'status', type: 'in', value: ['a', 'b'] },
+			]);
+		});
+	});
+});
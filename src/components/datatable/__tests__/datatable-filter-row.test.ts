@@ -0,0 +1,240 @@
+/**
+ * Tests for the filter row: controls from columns config and data
+ * attributes, debounced text input, select values with faceted counts,
+ * range controls, clearFilters() and the clear button.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { KTDataTableConfigInterface } from '../types';
+import { waitFor } from './setup';
+
+const PEOPLE = [
+	['Alice', 'Admin', '34', '2021-03-01'],
+	['Bob', 'Editor', '27', '2022-07-15'],
+	['Carol', 'Admin', '45', '2019-11-20'],
+	['Dave', 'Viewer', '19', '2023-01-05'],
+	['Eve', 'Editor', '52', '2020-05-30'],
+];
+
+function createTable(config: KTDataTableConfigInterface = {}): {
+	root: HTMLElement;
+	dt: KTDataTable<Record<string, string>>;
+} {
+	const rows = PEOPLE.map(
+		(cells) => `<tr>${cells.map((cell) => `<td>${cell}</td>`).join('')}</tr>`,
+	).join('');
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="filter_row_table">
+			<table data-kt-datatable-table="true">
+				<thead>
+					<tr>
+						<th data-kt-datatable-column="name" data-kt-datatable-column-filter="text">Name</th>
+						<th data-kt-datatable-column="role" data-kt-datatable-column-filter="select">Role</th>
+						<th data-kt-datatable-column="age" data-kt-datatable-column-filter="numberRange">Age</th>
+						<th data-kt-datatable-column="joined" data-kt-datatable-column-filter="dateRange">Joined</th>
+					</tr>
+				</thead>
+				<tbody>${rows}</tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+	const dt = new KTDataTable<Record<string, string>>(root, {
+		stateSave: false,
+		filterRow: { delay: 0 },
+		...config,
+	});
+	return { root, dt };
+}
+
+function control<E extends HTMLElement = HTMLInputElement>(
+	root: HTMLElement,
+	column: string,
+	name: string,
+): E {
+	return root.querySelector(
+		`[data-kt-datatable-filter-cell="${column}"] [data-kt-datatable-filter-control="${name}"]`,
+	) as E;
+}
+
+function type(element: HTMLInputElement | HTMLSelectElement, value: string) {
+	element.value = value;
+	element.dispatchEvent(
+		new Event(element.tagName === 'SELECT' ? 'change' : 'input'),
+	);
+}
+
+function names(root: HTMLElement): string[] {
+	return Array.from(root.querySelectorAll('tbody tr')).map(
+		(row) => row.children[0].textContent ?? '',
+	);
+}
+
+function optionLabels(select: HTMLSelectElement): string[] {
+	return Array.from(select.options).map((option) => option.textContent ?? '');
+}
+
+describe('Filter row', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('renders a control per filterable column under the header', async () => {
+		const { root, dt } = createTable();
+		await waitFor(0);
+
+		const row = root.querySelector('thead tr[data-kt-datatable-filter-row]');
+		expect(row?.previousElementSibling?.querySelector('th')?.textContent).toBe(
+			'Name',
+		);
+		expect(control(root, 'name', 'text').type).toBe('text');
+		expect(control(root, 'role', 'select').tagName).toBe('SELECT');
+		expect(control(root, 'age', 'min').type).toBe('number');
+		expect(control(root, 'joined', 'max').type).toBe('date');
+		expect(
+			(
+				root.querySelector(
+					'[data-kt-datatable-clear-filters]',
+				) as HTMLButtonElement
+			).disabled,
+		).toBe(true);
+		dt.dispose();
+		expect(root.querySelector('[data-kt-datatable-filter-row]')).toBeNull();
+	});
+
+	it('filters by text after the delay', async () => {
+		const { root, dt } = createTable({ filterRow: { delay: 30 } });
+		await waitFor(0);
+
+		type(control(root, 'name', 'text'), 'a');
+		await waitFor(0);
+		expect(names(root)).toHaveLength(5);
+
+		await waitFor(40);
+		expect(dt.getState().filters).toEqual([
+			{ column: 'name', type: 'text', value: 'a' },
+		]);
+		expect(names(root)).toEqual(['Alice', 'Carol', 'Dave']);
+		dt.dispose();
+	});
+
+	it('offers distinct values with counts faceted by the other filters', async () => {
+		const { root, dt } = createTable();
+		await waitFor(0);
+
+		const select = control<HTMLSelectElement>(root, 'role', 'select');
+		expect(optionLabels(select)).toEqual([
+			'All',
+			'Admin (2)',
+			'Editor (2)',
+			'Viewer (1)',
+		]);
+
+		type(control(root, 'age', 'min'), '30');
+		await waitFor(0);
+		expect(dt.getState().filters).toEqual([
+			{ column: 'age', type: 'between', value: { min: 30 } },
+		]);
+		expect(optionLabels(select)).toEqual(['All', 'Admin (2)', 'Editor (1)']);
+
+		type(select, 'Editor');
+		await waitFor(0);
+		expect(names(root)).toEqual(['Eve']);
+		// The column's own filter does not narrow its counts.
+		expect(optionLabels(select)).toEqual(['All', 'Admin (2)', 'Editor (1)']);
+		expect(select.value).toBe('Editor');
+		dt.dispose();
+	});
+
+	it('filters by date range', async () => {
+		const { root, dt } = createTable();
+		await waitFor(0);
+
+		type(control(root, 'joined', 'min'), '2021-01-01');
+		await waitFor(0);
+		expect(names(root)).toEqual(['Alice', 'Bob', 'Dave']);
+
+		type(control(root, 'joined', 'max'), '2022-12-31');
+		await waitFor(0);
+		expect(dt.getState().filters).toEqual([
+			{
+				column: 'joined',
+				type: 'dateRange',
+				value: { from: '2021-01-01', to: '2022-12-31' },
+			},
+		]);
+		expect(names(root)).toEqual(['Alice', 'Bob']);
+		dt.dispose();
+	});
+
+	it('clears every filter with clearFilters() and the clear button', async () => {
+		const { root, dt } = createTable();
+		await waitFor(0);
+
+		dt.setFilter({ column: 'role', type: 'in', value: ['Admin'] });
+		dt.setFilter({ column: 'name', type: 'text', value: 'car' });
+		dt.reload();
+		await waitFor(0);
+		expect(names(root)).toEqual(['Carol']);
+		expect(control(root, 'name', 'text').value).toBe('car');
+		expect(control<HTMLSelectElement>(root, 'role', 'select').value).toBe(
+			'Admin',
+		);
+
+		dt.clearFilters();
+		await waitFor(0);
+		expect(dt.getState().filters).toEqual([]);
+		expect(names(root)).toHaveLength(5);
+		expect(control(root, 'name', 'text').value).toBe('');
+
+		type(control(root, 'age', 'max'), '30');
+		await waitFor(0);
+		expect(names(root)).toEqual(['Bob', 'Dave']);
+		const clear = root.querySelector(
+			'[data-kt-datatable-clear-filters]',
+		) as HTMLButtonElement;
+		expect(clear.disabled).toBe(false);
+		clear.click();
+		await waitFor(0);
+		expect(names(root)).toHaveLength(5);
+		expect(control(root, 'age', 'max').value).toBe('');
+		dt.dispose();
+	});
+
+	it('follows column visibility', async () => {
+		const { root, dt } = createTable({
+			columns: {
+				name: { filter: { type: 'text', placeholder: 'Search name' } },
+				role: { filter: { type: 'select', options: ['Admin', 'Owner'] } },
+				age: {},
+				joined: {},
+			},
+		});
+		await waitFor(0);
+
+		expect(control(root, 'name', 'text').placeholder).toBe('Search name');
+		expect(
+			optionLabels(control<HTMLSelectElement>(root, 'role', 'select')),
+		).toEqual(['All', 'Admin (2)', 'Owner (0)']);
+		// Every column has a control, so the clear button takes the last cell.
+		expect(
+			root.querySelector(
+				'[data-kt-datatable-filter-cell="joined"] [data-kt-datatable-clear-filters]',
+			),
+		).not.toBeNull();
+
+		dt.hideColumn('role');
+		await waitFor(0);
+		expect(
+			(
+				root.querySelector(
+					'[data-kt-datatable-filter-cell="role"]',
+				) as HTMLElement
+			).style.display,
+		).toBe('none');
+		dt.dispose();
+	});
+});
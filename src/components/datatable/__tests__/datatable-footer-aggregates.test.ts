@@ -0,0 +1,169 @@
+/**
+ * Tests for footer aggregates: the <tfoot> row, page and filtered scopes,
+ * renderAggregate, header attributes, column order/visibility and totals
+ * from a remote response.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { KTDataTableConfigInterface } from '../types';
+import { waitFor } from './setup';
+
+const ORDERS = [
+	['A-1', 'North', '100', '2'],
+	['A-2', 'South', '250.5', '1'],
+	['A-3', 'North', '80', '4'],
+	['A-4', 'East', '40', '3'],
+	['A-5', 'South', '129.5', '5'],
+];
+
+function createTable(config: KTDataTableConfigInterface = {}): {
+	root: HTMLElement;
+	dt: KTDataTable<Record<string, string>>;
+} {
+	const rows = ORDERS.map(
+		(cells) => `<tr>${cells.map((cell) => `<td>${cell}</td>`).join('')}</tr>`,
+	).join('');
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="aggregates_table">
+			<table data-kt-datatable-table="true">
+				<thead>
+					<tr>
+						<th data-kt-datatable-column="id">ID</th>
+						<th data-kt-datatable-column="region">Region</th>
+						<th data-kt-datatable-column="amount">Amount</th>
+						<th data-kt-datatable-column="qty" data-kt-datatable-column-aggregate="max">Qty</th>
+					</tr>
+				</thead>
+				<tbody>${rows}</tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+	const dt = new KTDataTable<Record<string, string>>(root, {
+		stateSave: false,
+		pageSize: 2,
+		...config,
+	});
+	return { root, dt };
+}
+
+function footer(root: HTMLElement): string[] {
+	const row = root.querySelector('tfoot tr[data-kt-datatable-aggregate-row]');
+	return Array.from(row?.children ?? []).map((cell) => cell.textContent ?? '');
+}
+
+describe('Footer aggregates', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+		vi.unstubAllGlobals();
+	});
+
+	it('aggregates the current page by default', async () => {
+		const { root, dt } = createTable({
+			columns: {
+				id: { aggregate: 'count' },
+				region: {},
+				amount: {
+					aggregate: 'sum',
+					renderAggregate: (value) => `$${Number(value).toFixed(2)}`,
+				},
+				qty: { aggregate: 'avg' },
+			},
+		});
+		await waitFor(0);
+
+		expect(footer(root)).toEqual(['2', '', '$350.50', '1.5']);
+		expect(
+			root
+				.querySelector('tfoot [data-kt-datatable-aggregate="amount"]')
+				?.tagName.toLowerCase(),
+		).toBe('td');
+
+		dt.goPage(2);
+		await waitFor(0);
+		expect(footer(root)).toEqual(['2', '', '$120.00', '3.5']);
+		dt.dispose();
+		expect(root.querySelector('tfoot')).toBeNull();
+	});
+
+	it('aggregates every matching row with the filtered scope', async () => {
+		const { root, dt } = createTable({
+			aggregateScope: 'filtered',
+			columns: {
+				id: {},
+				region: {},
+				amount: { aggregate: 'sum' },
+				// Custom aggregate over the cell values and rows.
+				qty: {
+					aggregate: (values, rows) =>
+						`${values.length}/${rows.filter((row) => Number(row.qty) > 2).length}`,
+				},
+			},
+		});
+		await waitFor(0);
+		expect(footer(root)).toEqual(['', '', '600', '5/3']);
+
+		dt.setFilter({ column: 'region', type: 'text', value: 'south' });
+		dt.reload();
+		await waitFor(0);
+		expect(footer(root)).toEqual(['', '', '380', '2/1']);
+		dt.dispose();
+	});
+
+	it('reads aggregates from header attributes and follows column order', async () => {
+		const { root, dt } = createTable();
+		await waitFor(0);
+		expect(footer(root)).toEqual(['', '', '', '2']);
+
+		dt.setColumnOrder(['qty', 'id']);
+		dt.hideColumn('region');
+		await waitFor(0);
+		const cells = Array.from(
+			root.querySelectorAll<HTMLElement>(
+				'tfoot tr[data-kt-datatable-aggregate-row] td',
+			),
+		);
+		expect(cells[0].getAttribute('data-kt-datatable-aggregate')).toBe('qty');
+		expect(cells.find((cell) => cell.style.display === 'none')).toBe(cells[2]);
+		dt.dispose();
+	});
+
+	it('shows the totals of a remote response', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(() =>
+				Promise.resolve({
+					ok: true,
+					json: () =>
+						Promise.resolve({
+							data: [{ id: 'A-1', region: 'North', amount: 100, qty: 2 }],
+							totalCount: 5,
+							meta: { totals: { amount: 600 } },
+						}),
+				}),
+			),
+		);
+		const { root, dt } = createTable({
+			apiEndpoint: 'https://api.example.com/orders',
+			mapResponse: (response) => ({
+				...response,
+				aggregates: (response as unknown as { meta: { totals: object } }).meta
+					.totals as { [column: string]: number },
+			}),
+			columns: {
+				id: {},
+				region: {},
+				amount: { aggregate: 'sum' },
+				qty: { aggregate: 'sum' },
+			},
+		});
+		await waitFor(0);
+
+		// qty is missing from the response and falls back to the loaded rows.
+		expect(footer(root)).toEqual(['', '', '600', '2']);
+		dt.dispose();
+	});
+});
@@ -0,0 +1,336 @@
+/**
+ * Tests for row grouping: group header rows, collapse/expand, aggregate
+ * footers, and paging/filter/sort interaction in the local provider.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { waitFor } from './setup';
+import {
+	AGGREGATE_FUNCTIONS,
+	collectGroups,
+	computeAggregate,
+	resolveGroupBy,
+} from '../datatable-grouping';
+import { KTDataTableRemoteDataProvider } from '../datatable-remote-provider';
+import { KTDataTableConfigStateStore } from '../datatable-state-store';
+import type {
+	KTDataTableConfigInterface,
+	KTDataTableGroupByConfigInterface,
+} from '../types';
+
+const ledger = [
+	['Cash', '2024-01-02', '$100'],
+	['Bank', '2024-01-03', '$250'],
+	['Cash', '2024-01-05', '$40'],
+	['Bank', '2024-01-07', '$10'],
+	['Card', '2024-01-08', '$75'],
+];
+
+function createTable(): HTMLElement {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="grouping_table">
+			<table data-kt-datatable-table="true">
+				<thead>
+					<tr>
+						<th data-kt-datatable-column="account"><span class="kt-table-col">Account</span></th>
+						<th data-kt-datatable-column="date"><span class="kt-table-col">Date</span></th>
+						<th data-kt-datatable-column="amount"><span class="kt-table-col">Amount</span></th>
+					</tr>
+				</thead>
+				<tbody>
+					${ledger
+						.map(
+							(cells) =>
+								`<tr>${cells.map((c) => `<td>${c}</td>`).join('')}</tr>`,
+						)
+						.join('')}
+				</tbody>
+			</table>
+			<span data-kt-datatable-info="true"></span>
+			<div data-kt-datatable-pagination="true"></div>
+		</div>
+	`;
+	document.body.appendChild(container);
+	return container.querySelector('[data-kt-datatable]') as HTMLElement;
+}
+
+/** Compact view of the tbody: `#group`, data row date, or `=footer`. */
+function renderedRows(root: HTMLElement): string[] {
+	return Array.from(root.querySelectorAll('tbody tr')).map((row) => {
+		if (row.hasAttribute('data-kt-datatable-group-header')) {
+			return `#${row.getAttribute('data-kt-datatable-group')}`;
+		}
+		if (row.hasAttribute('data-kt-datatable-group-footer')) {
+			return `=${Array.from(row.children)
+				.map((cell) => cell.textContent)
+				.join('|')}`;
+		}
+		return row.children[1]?.textContent ?? '';
+	});
+}
+
+const groupBy: KTDataTableGroupByConfigInterface = {
+	column: 'account',
+	aggregates: { amount: 'sum', date: 'count' },
+};
+
+describe('Row grouping', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('helpers', () => {
+		it('resolves the column shorthand', () => {
+			expect(
+				resolveGroupBy({ groupBy: 'account' } as KTDataTableConfigInterface),
+			).toEqual({ column: 'account' });
+			expect(resolveGroupBy({} as KTDataTableConfigInterface)).toBeNull();
+		});
+
+		it('collects groups in order of first appearance, ignoring markup', () => {
+			const groups = collectGroups(
+				[
+					{ account: '<b>Cash</b>', n: '1' },
+					{ account: 'Bank', n: '2' },
+					{ account: 'Cash', n: '3' },
+				],
+				'account',
+			);
+			expect(Array.from(groups.keys())).toEqual(['Cash', 'Bank']);
+			expect(groups.get('Cash')?.map((row) => row.n)).toEqual(['1', '3']);
+		});
+
+		it('computes built-in and custom aggregates', () => {
+			const rows = [{ v: '$1,000' }, { v: '20' }, { v: 'n/a' }];
+			expect(computeAggregate('sum', 'v', rows)).toBe(1020);
+			expect(computeAggregate('avg', 'v', rows)).toBe(510);
+			expect(computeAggregate('count', 'v', rows)).toBe(3);
+			expect(computeAggregate('min', 'v', rows)).toBe(20);
+			expect(computeAggregate('max', 'v', rows)).toBe(1000);
+			expect(AGGREGATE_FUNCTIONS.max([])).toBe('');
+			expect(computeAggregate((values) => values.join('+'), 'v', rows)).toBe(
+				'$1,000+20+n/a',
+			);
+		});
+	});
+
+	describe('KTDataTable integration', () => {
+		it('renders group headers and aggregate footers over contiguous groups', async () => {
+			const root = createTable();
+			const dt = new KTDataTable(root, { stateSave: false, groupBy });
+			await waitFor(0);
+
+			expect(renderedRows(root)).toEqual([
+				'#Cash',
+				'2024-01-02',
+				'2024-01-05',
+				'=|2|140',
+				'#Bank',
+				'2024-01-03',
+				'2024-01-07',
+				'=|2|260',
+				'#Card',
+				'2024-01-08',
+				'=|1|75',
+			]);
+
+			const header = root.querySelector(
+				'tr[data-kt-datatable-group-header] td',
+			) as HTMLTableCellElement;
+			expect(header.colSpan).toBe(3);
+			expect(header.textContent).toBe('Cash (2)');
+			dt.dispose();
+		});
+
+		it('orders groups by the current sort', async () => {
+			const root = createTable();
+			const dt = new KTDataTable(root, {
+				stateSave: false,
+				groupBy: 'account',
+			});
+			await waitFor(0);
+
+			dt.sort('date', 'desc');
+			await waitFor(0);
+
+			expect(renderedRows(root)).toEqual([
+				'#Card',
+				'2024-01-08',
+				'#Bank',
+				'2024-01-07',
+				'2024-01-03',
+				'#Cash',
+				'2024-01-05',
+				'2024-01-02',
+			]);
+			dt.dispose();
+		});
+
+		it('pages by data rows and keeps full-group aggregates', async () => {
+			const root = createTable();
+			const dt = new KTDataTable(root, {
+				stateSave: false,
+				pageSize: 3,
+				groupBy,
+			});
+			await waitFor(0);
+
+			expect(dt.getState().totalItems).toBe(5);
+			expect(renderedRows(root)).toEqual([
+				'#Cash',
+				'2024-01-02',
+				'2024-01-05',
+				'=|2|140',
+				'#Bank',
+				'2024-01-03',
+				'=|2|260',
+			]);
+
+			dt.goPage(2);
+			await waitFor(0);
+
+			expect(renderedRows(root)).toEqual([
+				'#Bank',
+				'2024-01-07',
+				'=|2|260',
+				'#Card',
+				'2024-01-08',
+				'=|1|75',
+			]);
+			dt.dispose();
+		});
+
+		it('groups only rows that pass search and filters', async () => {
+			const root = createTable();
+			const dt = new KTDataTable(root, { stateSave: false, groupBy });
+			await waitFor(0);
+
+			dt.setFilter({ column: 'amount', type: 'gte', value: 50 });
+			dt.reload();
+			await waitFor(0);
+
+			expect(renderedRows(root)).toEqual([
+				'#Cash',
+				'2024-01-02',
+				'=|1|100',
+				'#Bank',
+				'2024-01-03',
+				'=|1|250',
+				'#Card',
+				'2024-01-08',
+				'=|1|75',
+			]);
+			dt.dispose();
+		});
+
+		it('collapses and expands groups from the header toggle and the API', async () => {
+			const root = createTable();
+			const dt = new KTDataTable(root, { stateSave: false, groupBy });
+			await waitFor(0);
+
+			const handler = vi.fn();
+			root.addEventListener('kt.datatable.groupToggle', handler);
+
+			(
+				root.querySelector(
+					'tr[data-kt-datatable-group="Bank"] [data-kt-datatable-group-toggle]',
+				) as HTMLElement
+			).click();
+			await waitFor(0);
+
+			expect(renderedRows(root)).toEqual([
+				'#Cash',
+				'2024-01-02',
+				'2024-01-05',
+				'=|2|140',
+				'#Bank',
+				'#Card',
+				'2024-01-08',
+				'=|1|75',
+			]);
+			expect(
+				root
+					.querySelector(
+						'tr[data-kt-datatable-group="Bank"] [data-kt-datatable-group-toggle]',
+					)
+					?.getAttribute('aria-expanded'),
+			).toBe('false');
+			expect((handler.mock.calls[0][0] as CustomEvent).detail).toMatchObject({
+				payload: { group: 'Bank', collapsed: true },
+			});
+
+			dt.expandGroup('Bank');
+			dt.collapseGroup('Card');
+			await waitFor(0);
+
+			expect(renderedRows(root).slice(-4)).toEqual([
+				'2024-01-03',
+				'2024-01-07',
+				'=|2|260',
+				'#Card',
+			]);
+			dt.dispose();
+		});
+
+		it('starts collapsed and uses custom header and aggregate renderers', async () => {
+			const root = createTable();
+			const dt = new KTDataTable(root, {
+				stateSave: false,
+				groupBy: {
+					column: 'account',
+					collapsed: true,
+					render: (group, rows) => `<strong>${group}</strong>: ${rows.length}`,
+					aggregates: { amount: 'avg' },
+					aggregateRender: (value) => `avg ${value}`,
+				},
+			});
+			await waitFor(0);
+
+			expect(renderedRows(root)).toEqual(['#Cash', '#Bank', '#Card']);
+			expect(
+				root.querySelector('tr[data-kt-datatable-group-header] strong')
+					?.textContent,
+			).toBe('Cash');
+
+			dt.expandGroup('Cash');
+			await waitFor(0);
+
+			expect(renderedRows(root).slice(0, 4)).toEqual([
+				'#Cash',
+				'2024-01-02',
+				'2024-01-05',
+				'=||avg 70',
+			]);
+			dt.dispose();
+		});
+	});
+
+	describe('remote provider', () => {
+		it('sends the groupBy column as a query param', async () => {
+			const fetchMock = vi.fn().mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ data: [], totalCount: 0 }),
+			});
+			vi.stubGlobal('fetch', fetchMock);
+
+			const config = {
+				requestMethod: 'GET',
+				apiEndpoint: 'https://api.example.com/data',
+				groupBy: { column: 'account' },
+				_state: {},
+			} as KTDataTableConfigInterface;
+			const provider = new KTDataTableRemoteDataProvider({
+				config,
+				createUrl: (path: string) => new URL(path),
+				eventAdapter: { emit: vi.fn() },
+				stateStore: new KTDataTableConfigStateStore(config),
+			});
+			await provider.fetch();
+
+			const url = new URL(fetchMock.mock.calls[0][0]);
+			expect(url.searchParams.get('groupBy')).toBe('account');
+		});
+	});
+});
@@ -0,0 +1,240 @@
+/**
+ * Tests for keyboard grid navigation: grid roles and row indexes across
+ * pages, the roving tab stop, arrow/Home/End/PageDown keys, Enter on
+ * headers and Space on row checkboxes.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { waitFor } from './setup';
+
+const ROWS = 12;
+
+function createTable(): HTMLElement {
+	const rows = Array.from(
+		{ length: ROWS },
+		(_, i) =>
+			`<tr><td><input type="checkbox" data-kt-datatable-row-check="true" value="${i + 1}"></td><td>Row ${i + 1}</td><td><a href="#row-${i + 1}">Open</a></td></tr>`,
+	).join('');
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="keyboard_table">
+			<table data-kt-datatable-table="true">
+				<thead>
+					<tr>
+						<th data-kt-datatable-column="check"><input type="checkbox" data-kt-datatable-check="true"></th>
+						<th data-kt-datatable-column="name"><span class="kt-table-col"><span class="kt-table-col-label">Name</span><span class="kt-table-col-sort"></span></span></th>
+						<th data-kt-datatable-column="link">Link</th>
+					</tr>
+				</thead>
+				<tbody>${rows}</tbody>
+			</table>
+			<div data-kt-datatable-pagination="true"></div>
+		</div>
+	`;
+	document.body.appendChild(container);
+	return container.querySelector('[data-kt-datatable]') as HTMLElement;
+}
+
+function press(key: string, options: KeyboardEventInit = {}): void {
+	(document.activeElement as HTMLElement).dispatchEvent(
+		new KeyboardEvent('keydown', { key, bubbles: true, ...options }),
+	);
+}
+
+function cell(root: HTMLElement, row: number, column: number): HTMLElement {
+	return root.querySelectorAll('tbody tr')[row].children[column] as HTMLElement;
+}
+
+describe('Keyboard navigation', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('marks the table as a grid with row indexes counted across pages', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			pageSize: 5,
+			keyboardNavigation: true,
+		});
+		await waitFor(0);
+
+		const table = root.querySelector('table') as HTMLTableElement;
+		expect(table.getAttribute('role')).toBe('grid');
+		expect(table.getAttribute('aria-rowcount')).toBe(String(ROWS + 1));
+		expect(root.querySelector('thead tr')?.getAttribute('aria-rowindex')).toBe(
+			'1',
+		);
+		expect(root.querySelector('tbody tr')?.getAttribute('aria-rowindex')).toBe(
+			'2',
+		);
+
+		dt.goPage(2);
+		await waitFor(0);
+		expect(
+			Array.from(root.querySelectorAll('tbody tr')).map((row) =>
+				row.getAttribute('aria-rowindex'),
+			),
+		).toEqual(['7', '8', '9', '10', '11']);
+
+		// One tab stop; the widgets inside cells leave the tab order.
+		expect(table.querySelectorAll('[tabindex="0"]')).toHaveLength(1);
+		expect(cell(root, 0, 2).querySelector('a')?.tabIndex).toBe(-1);
+		dt.dispose();
+	});
+
+	it('moves focus with the arrow, Home and End keys', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			pageSize: 5,
+			keyboardNavigation: true,
+		});
+		await waitFor(0);
+
+		cell(root, 0, 0).focus();
+		press('ArrowRight');
+		expect(document.activeElement).toBe(cell(root, 0, 1));
+		press('ArrowDown');
+		expect(document.activeElement).toBe(cell(root, 1, 1));
+		press('End');
+		expect(document.activeElement).toBe(cell(root, 1, 2));
+		press('ArrowRight');
+		expect(document.activeElement).toBe(cell(root, 1, 2));
+		press('Home');
+		expect(document.activeElement).toBe(cell(root, 1, 0));
+		press('End', { ctrlKey: true });
+		expect(document.activeElement).toBe(cell(root, 4, 2));
+		press('Home', { ctrlKey: true });
+		expect(document.activeElement).toBe(root.querySelector('thead th'));
+
+		expect(
+			root.querySelector('table')?.querySelectorAll('[tabindex="0"]'),
+		).toHaveLength(1);
+		dt.dispose();
+	});
+
+	it('changes page with PageDown and PageUp and keeps the focused position', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			pageSize: 5,
+			keyboardNavigation: true,
+		});
+		await waitFor(0);
+
+		cell(root, 1, 1).focus();
+		press('PageDown');
+		await waitFor(0);
+		expect(dt.getState().page).toBe(2);
+		expect(document.activeElement).toBe(cell(root, 1, 1));
+		expect(document.activeElement?.textContent).toBe('Row 7');
+
+		press('PageDown');
+		await waitFor(0);
+		// The last page has 2 rows; the focus lands on the closest one.
+		expect(dt.getState().page).toBe(3);
+		expect(document.activeElement?.textContent).toBe('Row 12');
+
+		press('PageDown');
+		expect(document.activeElement?.textContent).toBe('Row 12');
+
+		press('PageUp');
+		await waitFor(0);
+		expect(dt.getState().page).toBe(2);
+		expect(document.activeElement?.textContent).toBe('Row 7');
+		dt.dispose();
+	});
+
+	it('leaves group header rows out of the row indexes', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			pageSize: 5,
+			groupBy: 'name',
+			keyboardNavigation: true,
+		});
+		await waitFor(0);
+
+		const table = root.querySelector('table') as HTMLTableElement;
+		const dataRows = () =>
+			Array.from(
+				root.querySelectorAll<HTMLTableRowElement>(
+					'tbody tr:not([data-kt-datatable-group-header])',
+				),
+			);
+		expect(table.getAttribute('aria-rowcount')).toBe(String(ROWS + 1));
+		expect(
+			root
+				.querySelector('[data-kt-datatable-group-header]')
+				?.hasAttribute('aria-rowindex'),
+		).toBe(false);
+		expect(dataRows().map((row) => row.getAttribute('aria-rowindex'))).toEqual([
+			'2',
+			'3',
+			'4',
+			'5',
+			'6',
+		]);
+
+		(dataRows()[0].children[1] as HTMLElement).focus();
+		press('ArrowDown');
+		expect(document.activeElement?.textContent).toBe('Row 2');
+
+		press('PageDown');
+		await waitFor(0);
+		expect(dt.getState().page).toBe(2);
+		expect(dataRows().map((row) => row.getAttribute('aria-rowindex'))).toEqual([
+			'7',
+			'8',
+			'9',
+			'10',
+			'11',
+		]);
+		expect(document.activeElement?.textContent).toBe('Row 7');
+
+		press('PageUp');
+		await waitFor(0);
+		expect(document.activeElement?.textContent).toBe('Row 2');
+		dt.dispose();
+	});
+
+	it('sorts with Enter on a header and toggles the row checkbox with Space', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			pageSize: 5,
+			keyboardNavigation: true,
+		});
+		await waitFor(0);
+
+		const header = root.querySelectorAll('thead th')[1] as HTMLElement;
+		header.focus();
+		press('Enter');
+		await waitFor(0);
+		expect(dt.getState().sortField).toBe('name');
+		expect(header.getAttribute('aria-sort')).toBe('ascending');
+		expect(document.activeElement).toBe(header);
+
+		press('ArrowDown');
+		press(' ');
+		expect(dt.getChecked()).toEqual(['1']);
+		press(' ');
+		expect(dt.getChecked()).toEqual([]);
+		dt.dispose();
+	});
+
+	it('leaves the table alone when the option is off', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, pageSize: 5 });
+		await waitFor(0);
+
+		const table = root.querySelector('table') as HTMLTableElement;
+		expect(table.hasAttribute('role')).toBe(false);
+		expect(
+			table.querySelectorAll('[aria-rowindex], td[tabindex]'),
+		).toHaveLength(0);
+		dt.dispose();
+	});
+});
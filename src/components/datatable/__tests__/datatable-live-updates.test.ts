@@ -0,0 +1,264 @@
+/**
+ * Tests for live updates: EventSource-like and async iterator feeds,
+ * in-place cell patches with highlight, reapply policies, deletes,
+ * remote reloads and unsubscribing.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import {
+	KTDataTableConfigInterface,
+	KTDataTableLiveMessageInterface,
+} from '../types';
+import { waitFor } from './setup';
+
+type Row = { id: number; name: string; status: string };
+
+const ROWS: Row[] = [
+	{ id: 1, name: 'Alpha', status: 'up' },
+	{ id: 2, name: 'Beta', status: 'up' },
+	{ id: 3, name: 'Gamma', status: 'down' },
+];
+
+/** EventSource stand-in: send() dispatches a message event with JSON data. */
+function createSource() {
+	const target = new EventTarget();
+	return {
+		addEventListener: vi.fn((type: 'message', listener: EventListener) =>
+			target.addEventListener(type, listener),
+		),
+		removeEventListener: vi.fn((type: 'message', listener: EventListener) =>
+			target.removeEventListener(type, listener),
+		),
+		send(data: unknown) {
+			target.dispatchEvent(
+				new MessageEvent('message', { data: JSON.stringify(data) }),
+			);
+		},
+	};
+}
+
+function createTable(config: KTDataTableConfigInterface = {}): {
+	root: HTMLElement;
+	dt: KTDataTable<Row>;
+} {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="live_updates_table">
+			<table data-kt-datatable-table="true">
+				<thead><tr>
+					<th data-kt-datatable-column="id">ID</th>
+					<th data-kt-datatable-column="name">Name</th>
+					<th data-kt-datatable-column="status">Status</th>
+				</tr></thead>
+				<tbody></tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+	const dt = new KTDataTable<Row>(root, {
+		stateSave: false,
+		data: ROWS.map((row) => ({ ...row })),
+		rowId: 'id',
+		...config,
+	});
+	return { root, dt };
+}
+
+function cells(root: HTMLElement, column: number): string[] {
+	return Array.from(root.querySelectorAll('tbody tr')).map(
+		(row) => row.children[column].textContent ?? '',
+	);
+}
+
+describe('Live updates', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+		vi.unstubAllGlobals();
+	});
+
+	it('patches updated cells in place and highlights the row', async () => {
+		const { root, dt } = createTable({
+			liveUpdates: {
+				highlightClass: 'kt-datatable-row-updated',
+				highlightDuration: 30,
+			},
+		});
+		await waitFor(0);
+		const source = createSource();
+		dt.subscribe(source);
+
+		const row = root.querySelectorAll('tbody tr')[1];
+		const nameCell = row.children[1];
+		source.send({ type: 'update', id: 2, row: { status: 'down' } });
+
+		expect(cells(root, 2)).toEqual(['up', 'down', 'down']);
+		// Same row and untouched cells: nothing was redrawn.
+		expect(root.querySelectorAll('tbody tr')[1]).toBe(row);
+		expect(row.children[1]).toBe(nameCell);
+		expect(row.classList.contains('kt-datatable-row-updated')).toBe(true);
+
+		await waitFor(80);
+		expect(row.classList.contains('kt-datatable-row-updated')).toBe(false);
+		dt.dispose();
+	});
+
+	it('re-sorts after the debounce delay when a sorted column changes', async () => {
+		const { root, dt } = createTable({ liveUpdates: { delay: 20 } });
+		await waitFor(0);
+		dt.sort('name');
+		await waitFor(0);
+		const source = createSource();
+		dt.subscribe(source);
+
+		source.send({ type: 'update', id: 1, row: { name: 'Zeta' } });
+		source.send([
+			{ type: 'insert', row: { id: 4, name: 'Delta', status: 'up' } },
+			{ type: 'delete', id: 2 },
+		]);
+		expect(cells(root, 1)).toEqual(['Zeta', 'Gamma']);
+
+		await waitFor(30);
+		expect(cells(root, 1)).toEqual(['Delta', 'Gamma', 'Zeta']);
+		dt.dispose();
+	});
+
+	it('keeps rows in place with the manual policy', async () => {
+		const { root, dt } = createTable({ liveUpdates: { reapply: 'manual' } });
+		await waitFor(0);
+		dt.setFilter({ column: 'status', type: 'text', value: 'up' });
+		dt.reload();
+		await waitFor(0);
+		const source = createSource();
+		dt.subscribe(source);
+
+		source.send({ type: 'update', id: 1, row: { status: 'down' } });
+		source.send({
+			type: 'insert',
+			row: { id: 4, name: 'Delta', status: 'up' },
+		});
+		await waitFor(10);
+		expect(cells(root, 1)).toEqual(['Alpha', 'Beta']);
+
+		dt.reload();
+		await waitFor(0);
+		expect(cells(root, 1)).toEqual(['Beta', 'Delta']);
+		dt.dispose();
+	});
+
+	it('reads async iterators and stops on unsubscribe', async () => {
+		const { root, dt } = createTable({ liveUpdates: { reapply: 'immediate' } });
+		await waitFor(0);
+		const onChange = vi.fn();
+		root.addEventListener('kt.datatable.dataChange', (event) =>
+			onChange((event as CustomEvent).detail.payload),
+		);
+
+		const queue: KTDataTableLiveMessageInterface[] = [
+			{ type: 'delete', id: 3 },
+			{ type: 'update', id: 1, row: { status: 'down' } },
+		];
+		const feed = {
+			next: vi.fn(() =>
+				queue.length
+					? Promise.resolve({ value: queue.shift() })
+					: new Promise<never>(() => undefined),
+			),
+			return: vi.fn(() => Promise.resolve()),
+		};
+		const unsubscribe = dt.subscribe(feed);
+		await waitFor(10);
+
+		expect(cells(root, 1)).toEqual(['Alpha', 'Beta']);
+		expect(cells(root, 2)).toEqual(['down', 'up']);
+		expect(onChange.mock.calls.map(([change]) => change.type)).toEqual([
+			'remove',
+			'update',
+		]);
+
+		unsubscribe();
+		expect(feed.return).toHaveBeenCalled();
+		dt.dispose();
+	});
+
+	it('reloads a remote page for inserts and deletes', async () => {
+		const fetchMock = vi.fn(() =>
+			Promise.resolve({
+				ok: true,
+				status: 200,
+				statusText: 'OK',
+				json: () =>
+					Promise.resolve({
+						data: ROWS.map((row) => ({ ...row })),
+						totalCount: 3,
+					}),
+			}),
+		);
+		vi.stubGlobal('fetch', fetchMock);
+		const { root, dt } = createTable({
+			data: undefined,
+			apiEndpoint: 'https://api.example.com/rows',
+			liveUpdates: { reapply: 'immediate' },
+		});
+		await waitFor(10);
+		const source = createSource();
+		const unsubscribe = dt.subscribe(source);
+
+		source.send({ type: 'update', id: 2, row: { name: 'Bravo' } });
+		await waitFor(10);
+		expect(cells(root, 1)).toEqual(['Alpha', 'Bravo', 'Gamma']);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		source.send({ type: 'delete', id: 3 });
+		await waitFor(10);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+
+		unsubscribe();
+		expect(source.removeEventListener).toHaveBeenCalled();
+		dt.dispose();
+	});
+
+	it('reloads for a push that arrives while a fetch is pending', async () => {
+		const DELTA: Row = { id: 4, name: 'Delta', status: 'up' };
+		let resolveFirst: (() => void) | undefined;
+		const respond = (rows: Row[]) => ({
+			ok: true,
+			status: 200,
+			statusText: 'OK',
+			json: () => Promise.resolve({ data: rows, totalCount: rows.length }),
+		});
+		const fetchMock = vi
+			.fn()
+			.mockImplementationOnce(
+				() =>
+					new Promise((resolve) => {
+						resolveFirst = () =>
+							resolve(respond(ROWS.map((row) => ({ ...row }))));
+					}),
+			)
+			.mockImplementation(() =>
+				Promise.resolve(respond([...ROWS, DELTA].map((row) => ({ ...row })))),
+			);
+		vi.stubGlobal('fetch', fetchMock);
+		const { root, dt } = createTable({
+			data: undefined,
+			apiEndpoint: 'https://api.example.com/rows',
+			liveUpdates: { reapply: 'immediate' },
+		});
+		const source = createSource();
+		dt.subscribe(source);
+		await waitFor(0);
+
+		source.send({ type: 'insert', row: DELTA });
+		// The reload runs while the first request is still pending.
+		await waitFor(5);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		resolveFirst?.();
+		await waitFor(20);
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(cells(root, 1)).toEqual(['Alpha', 'Beta', 'Gamma', 'Delta']);
+		dt.dispose();
+	});
+});
@@ -0,0 +1,360 @@
+/**
+ * Tests for multi-column sorting: sort stack in state, shift-click headers,
+ * stable local sort, remote query params and stateSave round-trip.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { waitFor } from './setup';
+import { KTDataTableSortHandler, getSortStack } from '../datatable-sort';
+import { KTDataTableConfigStateStore } from '../datatable-state-store';
+import { KTDataTableRemoteDataProvider } from '../datatable-remote-provider';
+import type {
+	KTDataTableConfigInterface,
+	KTDataTableDataInterface,
+	KTDataTableSortItemInterface,
+} from '../types';
+
+function createHandler(
+	state: {
+		sortField: string | number;
+		sortOrder: string;
+		sortStack?: KTDataTableSortItemInterface[];
+	} = { sortField: '', sortOrder: '' },
+) {
+	const thead = document.createElement('thead');
+	thead.innerHTML = `
+		<tr>
+			<th data-kt-datatable-column="region"><span class="sort-icon"></span></th>
+			<th data-kt-datatable-column="revenue"><span class="sort-icon"></span></th>
+			<th data-kt-datatable-column="name"><span class="sort-icon"></span></th>
+		</tr>
+	`;
+
+	const setState = vi.fn();
+	const setSortStack = vi.fn();
+	const emit = vi.fn();
+	const updateData = vi.fn();
+
+	const handler = new KTDataTableSortHandler<KTDataTableDataInterface>({
+		config: {
+			sort: { classes: { base: 'sort-icon', asc: 'asc', desc: 'desc' } },
+			columns: {
+				region: {},
+				revenue: { sortType: 'numeric' },
+				name: {},
+			},
+		} as KTDataTableConfigInterface,
+		theadElement: thead,
+		getState: () => state as never,
+		setState,
+		setSortStack,
+		emit,
+		updateData,
+	});
+
+	return { handler, thead, setState, setSortStack, emit, updateData };
+}
+
+function createLocalTable(): HTMLElement {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="multi_sort_table">
+			<table data-kt-datatable-table="true">
+				<thead>
+					<tr>
+						<th data-kt-datatable-column="region"><span class="kt-table-col"></span></th>
+						<th data-kt-datatable-column="revenue"><span class="kt-table-col"></span></th>
+						<th data-kt-datatable-column="name"><span class="kt-table-col"></span></th>
+					</tr>
+				</thead>
+				<tbody>
+					<tr><td>West</td><td>100</td><td>A</td></tr>
+					<tr><td>East</td><td>300</td><td>B</td></tr>
+					<tr><td>West</td><td>900</td><td>C</td></tr>
+					<tr><td>East</td><td>50</td><td>D</td></tr>
+					<tr><td>West</td><td>100</td><td>E</td></tr>
+				</tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	return container.querySelector('[data-kt-datatable]') as HTMLElement;
+}
+
+function renderedNames(root: HTMLElement): string[] {
+	return Array.from(root.querySelectorAll('tbody tr')).map(
+		(row) => row.children[2]?.textContent ?? '',
+	);
+}
+
+describe('Multi-column sort', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('getSortStack', () => {
+		it('returns the stored stack when present', () => {
+			const stack: KTDataTableSortItemInterface[] = [
+				{ field: 'region', order: 'asc' },
+				{ field: 'revenue', order: 'desc' },
+			];
+			expect(
+				getSortStack({
+					sortField: 'region',
+					sortOrder: 'asc',
+					sortStack: stack,
+				}),
+			).toBe(stack);
+		});
+
+		it('derives a single-entry stack from legacy sortField/sortOrder', () => {
+			expect(getSortStack({ sortField: 'name', sortOrder: 'desc' })).toEqual([
+				{ field: 'name', order: 'desc' },
+			]);
+			expect(getSortStack({ sortField: 'name', sortOrder: '' })).toEqual([]);
+		});
+	});
+
+	describe('toggleSortStack', () => {
+		it('appends, flips and removes a column', () => {
+			const { handler } = createHandler();
+			let stack = handler.toggleSortStack([], 'region');
+			expect(stack).toEqual([{ field: 'region', order: 'asc' }]);
+
+			stack = handler.toggleSortStack(stack, 'revenue');
+			expect(stack).toEqual([
+				{ field: 'region', order: 'asc' },
+				{ field: 'revenue', order: 'asc' },
+			]);
+
+			stack = handler.toggleSortStack(stack, 'revenue');
+			expect(stack[1]).toEqual({ field: 'revenue', order: 'desc' });
+
+			stack = handler.toggleSortStack(stack, 'revenue');
+			expect(stack).toEqual([{ field: 'region', order: 'asc' }]);
+		});
+	});
+
+	describe('sortDataByStack', () => {
+		it('sorts by all keys and keeps ties in original order', () => {
+			const { handler } = createHandler();
+			const data = [
+				{ region: 'West', revenue: '100', name: 'A' },
+				{ region: 'East', revenue: '300', name: 'B' },
+				{ region: 'West', revenue: '900', name: 'C' },
+				{ region: 'East', revenue: '50', name: 'D' },
+				{ region: 'West', revenue: '100', name: 'E' },
+			];
+
+			const result = handler.sortDataByStack(data, [
+				{ field: 'region', order: 'asc' },
+				{ field: 'revenue', order: 'desc' },
+			]);
+
+			expect(result.map((row) => row.name)).toEqual(['B', 'D', 'C', 'A', 'E']);
+		});
+	});
+
+	describe('header clicks', () => {
+		it('shift-click appends to the stack and shows priority', () => {
+			const { handler, thead, setSortStack, emit, updateData } = createHandler({
+				sortField: 'region',
+				sortOrder: 'asc',
+				sortStack: [{ field: 'region', order: 'asc' }],
+			});
+			handler.initSort();
+
+			const revenueTh = thead.querySelectorAll('th')[1];
+			revenueTh.dispatchEvent(
+				new MouseEvent('click', { bubbles: true, shiftKey: true }),
+			);
+
+			const expected = [
+				{ field: 'region', order: 'asc' },
+				{ field: 'revenue', order: 'asc' },
+			];
+			expect(setSortStack).toHaveBeenCalledWith(expected);
+			expect(emit).toHaveBeenCalledWith('sort', {
+				field: 'revenue',
+				order: 'asc',
+				sortStack: expected,
+			});
+			expect(updateData).toHaveBeenCalled();
+			expect(revenueTh.getAttribute('aria-sort')).toBe('ascending');
+			expect(revenueTh.getAttribute('data-kt-datatable-sort-priority')).toBe(
+				'2',
+			);
+			expect(
+				thead
+					.querySelectorAll('th')[0]
+					.getAttribute('data-kt-datatable-sort-priority'),
+			).toBe('1');
+
+			handler.dispose();
+		});
+
+		it('plain click replaces the stack with a single column', () => {
+			const { handler, thead, setState, setSortStack } = createHandler({
+				sortField: 'region',
+				sortOrder: 'asc',
+				sortStack: [
+					{ field: 'region', order: 'asc' },
+					{ field: 'revenue', order: 'asc' },
+				],
+			});
+			handler.initSort();
+
+			thead.querySelectorAll('th')[2].click();
+
+			expect(setState).toHaveBeenCalledWith('name', 'asc');
+			expect(setSortStack).not.toHaveBeenCalled();
+
+			handler.dispose();
+		});
+
+		it('ignores shift when sort.multiple is false', () => {
+			const thead = document.createElement('thead');
+			thead.innerHTML =
+				'<tr><th data-kt-datatable-column="name"><span class="sort-icon"></span></th></tr>';
+			const setState = vi.fn();
+			const setSortStack = vi.fn();
+			const handler = new KTDataTableSortHandler<KTDataTableDataInterface>({
+				config: {
+					sort: { classes: { base: 'sort-icon' }, multiple: false },
+				} as KTDataTableConfigInterface,
+				theadElement: thead,
+				getState: () => ({ sortField: '', sortOrder: '' }) as never,
+				setState,
+				setSortStack,
+				emit: vi.fn(),
+				updateData: vi.fn(),
+			});
+			handler.initSort();
+
+			thead
+				.querySelector('th')!
+				.dispatchEvent(new MouseEvent('click', { shiftKey: true }));
+
+			expect(setState).toHaveBeenCalledWith('name', 'asc');
+			expect(setSortStack).not.toHaveBeenCalled();
+
+			handler.dispose();
+		});
+	});
+
+	describe('state store', () => {
+		it('mirrors the primary stack entry into sortField/sortOrder', () => {
+			const store = new KTDataTableConfigStateStore({
+				_state: {},
+			} as KTDataTableConfigInterface);
+
+			store.setSortStack([
+				{ field: 'region', order: 'desc' },
+				{ field: 'revenue', order: 'asc' },
+			]);
+			expect(store.getState()).toMatchObject({
+				sortField: 'region',
+				sortOrder: 'desc',
+			});
+
+			store.setSort('name', 'asc');
+			expect(store.getState().sortStack).toEqual([
+				{ field: 'name', order: 'asc' },
+			]);
+
+			store.setSortStack([]);
+			expect(store.getState().sortOrder).toBe('');
+			expect(store.getState().sortStack).toEqual([]);
+		});
+	});
+
+	describe('remote provider', () => {
+		it('sends the full sort stack as a query param', async () => {
+			const fetchMock = vi.fn().mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ data: [], totalCount: 0 }),
+			});
+			vi.stubGlobal('fetch', fetchMock);
+
+			const config = {
+				requestMethod: 'GET',
+				apiEndpoint: 'https://api.example.com/data',
+				_state: {},
+			} as KTDataTableConfigInterface;
+			const stateStore = new KTDataTableConfigStateStore(config);
+			const stack: KTDataTableSortItemInterface[] = [
+				{ field: 'region', order: 'asc' },
+				{ field: 'revenue', order: 'desc' },
+			];
+			stateStore.setSortStack(stack);
+
+			const provider = new KTDataTableRemoteDataProvider({
+				config,
+				createUrl: (path: string) => new URL(path),
+				eventAdapter: { emit: vi.fn() },
+				stateStore,
+			});
+			await provider.fetch();
+
+			const url = new URL(fetchMock.mock.calls[0][0]);
+			expect(url.searchParams.get('sortField')).toBe('region');
+			expect(url.searchParams.get('sortOrder')).toBe('asc');
+			expect(JSON.parse(url.searchParams.get('sortStack') ?? '[]')).toEqual(
+				stack,
+			);
+		});
+	});
+
+	describe('KTDataTable integration', () => {
+		it('setSortStack() sorts local rows by every key', async () => {
+			const root = createLocalTable();
+			const dt = new KTDataTable(root, {
+				stateSave: false,
+				columns: {
+					region: {},
+					revenue: { sortType: 'numeric' },
+					name: {},
+				},
+			});
+			await waitFor(0);
+
+			dt.setSortStack([
+				{ field: 'region', order: 'asc' },
+				{ field: 'revenue', order: 'desc' },
+			]);
+			await waitFor(0);
+
+			expect(renderedNames(root)).toEqual(['B', 'D', 'C', 'A', 'E']);
+			expect(dt.getState().sortField).toBe('region');
+			dt.dispose();
+		});
+
+		it('round-trips the sort stack through stateSave', async () => {
+			const stack: KTDataTableSortItemInterface[] = [
+				{ field: 'region', order: 'desc' },
+				{ field: 'name', order: 'asc' },
+			];
+			const root = createLocalTable();
+			const dt = new KTDataTable(root, { stateSave: true });
+			await waitFor(0);
+			dt.setSortStack(stack);
+			await waitFor(0);
+			dt.dispose();
+
+			const saved = JSON.parse(
+				localStorage.getItem('multi_sort_table') ?? '{}',
+			);
+			expect(saved.sortStack).toEqual(stack);
+
+			document.body.innerHTML = '';
+			const restoredRoot = createLocalTable();
+			const restored = new KTDataTable(restoredRoot, { stateSave: true });
+			await waitFor(0);
+
+			expect(restored.getState().sortStack).toEqual(stack);
+			expect(renderedNames(restoredRoot)).toEqual(['A', 'C', 'E', 'B', 'D']);
+			restored.dispose();
+		});
+	});
+});
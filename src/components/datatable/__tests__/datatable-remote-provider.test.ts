@@ -53,16 +53,14 @@ function createProvider(
 ) {
 	const stateStore = createMockStateStore(options.stateOverrides);
 	const eventAdapter = createMockEventAdapter();
-	const noticeOnTable = vi.fn();
 	const config = createMockConfig(options.config);
 	const provider = new KTDataTableRemoteDataProvider({
 		config,
 		createUrl: (path: string) => new URL(path, 'https://api.example.com'),
 		eventAdapter,
-		noticeOnTable,
 		stateStore,
 	});
-	return { provider, stateStore, eventAdapter, noticeOnTable };
+	return { provider, stateStore, eventAdapter };
 }
 
 describe('KTDataTableRemoteDataProvider', () => {
@@ -298,19 +296,49 @@ describe('KTDataTableRemoteDataProvider', () => {
 	});
 
 	describe('Error handling', () => {
-		it('fetch() network error fires error event and calls noticeOnTable', async () => {
+		it('fetch() network error fires error events and returns the fetch error', async () => {
 			const networkError = new TypeError('Failed to fetch');
 			fetchMock.mockRejectedValue(networkError);
 
-			const { provider, eventAdapter, noticeOnTable } = createProvider();
+			const { provider, eventAdapter } = createProvider();
+			const result = await provider.fetch();
 
-			await expect(provider.fetch()).rejects.toThrow();
-			expect(eventAdapter.emit).toHaveBeenCalledWith('error', {
+			expect(result.skipped).toBe(true);
+			expect(result.error).toMatchObject({
+				type: 'network',
+				attempts: 1,
+				retryable: true,
 				error: networkError,
 			});
-			expect(noticeOnTable).toHaveBeenCalledWith(
-				expect.stringContaining('Error performing fetch request'),
+			expect(result.error?.message).toContain('Error performing fetch request');
+			expect(eventAdapter.emit).toHaveBeenCalledWith(
+				'fetchError',
+				result.error,
 			);
+			expect(eventAdapter.emit).toHaveBeenCalledWith('error', {
+				error: networkError,
+			});
+		});
+
+		it('fetch() error status returns an http error without reading the body', async () => {
+			const json = vi.fn();
+			fetchMock.mockResolvedValue({
+				json,
+				ok: false,
+				status: 404,
+				statusText: 'Not Found',
+			});
+
+			const { provider } = createProvider();
+			const result = await provider.fetch();
+
+			expect(json).not.toHaveBeenCalled();
+			expect(result.error).toMatchObject({
+				type: 'http',
+				status: 404,
+				message: 'Request failed with status 404 Not Found',
+				retryable: false,
+			});
 		});
 
 		it('fetch() JSON parse error fires fetchError event with response details', async () => {
@@ -348,6 +376,89 @@ describe('KTDataTableRemoteDataProvider', () => {
 		});
 	});
 
+	describe('Retry and timeout', () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('retries 5xx and network errors with exponential backoff', async () => {
+			vi.useFakeTimers();
+			fetchMock
+				.mockResolvedValueOnce({ ok: false, status: 503, statusText: '' })
+				.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+				.mockResolvedValue({
+					json: () => Promise.resolve({ data: ['ok'], totalCount: 1 }),
+					ok: true,
+					status: 200,
+				});
+
+			const { provider } = createProvider({
+				config: { requestRetry: { retries: 3, delay: 100 } },
+			});
+			const pending = provider.fetch();
+
+			await vi.advanceTimersByTimeAsync(99);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(1);
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+			// The second retry waits twice as long.
+			await vi.advanceTimersByTimeAsync(199);
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+			await vi.advanceTimersByTimeAsync(1);
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+
+			expect((await pending).data).toEqual(['ok']);
+		});
+
+		it('gives up after the last retry and does not retry 4xx responses', async () => {
+			vi.useFakeTimers();
+			fetchMock.mockResolvedValue({ ok: false, status: 500, statusText: '' });
+
+			const { provider } = createProvider({ config: { requestRetry: 2 } });
+			const pending = provider.fetch();
+			await vi.runAllTimersAsync();
+			const result = await pending;
+
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+			expect(result.error).toMatchObject({ type: 'http', attempts: 3 });
+
+			fetchMock.mockClear();
+			fetchMock.mockResolvedValue({ ok: false, status: 422, statusText: '' });
+			const rejected = await provider.fetch();
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			expect(rejected.error?.retryable).toBe(false);
+		});
+
+		it('aborts a request after requestTimeout', async () => {
+			vi.useFakeTimers();
+			fetchMock.mockImplementation(
+				(_url: string, init: RequestInit) =>
+					new Promise((_resolve, reject) => {
+						init.signal?.addEventListener('abort', () =>
+							reject(new DOMException('Aborted', 'AbortError')),
+						);
+					}),
+			);
+
+			const { provider, eventAdapter } = createProvider({
+				config: { requestTimeout: 1000 },
+			});
+			const pending = provider.fetch();
+			await vi.advanceTimersByTimeAsync(1000);
+			const result = await pending;
+
+			expect(result.error).toMatchObject({
+				type: 'timeout',
+				message: 'Request timed out after 1000 ms',
+				retryable: true,
+			});
+			expect(eventAdapter.emit).not.toHaveBeenCalledWith(
+				'error',
+				expect.anything(),
+			);
+		});
+	});
+
 	describe('Request ID race conditions', () => {
 		it('second fetch() before first completes → first returns skipped', async () => {
 			let resolveFirst: (v: any) => void;
@@ -0,0 +1,338 @@
+/**
+ * Tests for the remote response cache: hits when paging back, TTL and
+ * maxEntries, stale-while-revalidate, invalidate()/clearCache(), reload()
+ * bypass, cached filter changes, next page prefetch, the requestId race protection, revalidations
+ * finishing during a draw and hung revalidations.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { KTDataTableConfigInterface } from '../types';
+import { waitFor } from './setup';
+
+const ROWS = [
+	{ id: 1, name: 'Alpha' },
+	{ id: 2, name: 'Beta' },
+	{ id: 3, name: 'Gamma' },
+	{ id: 4, name: 'Delta' },
+	{ id: 5, name: 'Epsilon' },
+	{ id: 6, name: 'Zeta' },
+];
+
+/**
+ * Fetch mock serving two rows per page, with an optional per-page delay
+ * and a version added to every name to tell fresh responses apart.
+ */
+function createServer(delays: { [page: string]: number } = {}) {
+	const server = { version: 0 };
+	const fetchMock = vi.fn((url: string) => {
+		const page = new URL(url).searchParams.get('page') ?? '1';
+		const start = (Number(page) - 1) * 2;
+		const data = ROWS.slice(start, start + 2).map((row) => ({
+			...row,
+			name: server.version ? `${row.name} v${server.version}` : row.name,
+		}));
+		const response = {
+			ok: true,
+			status: 200,
+			statusText: 'OK',
+			json: () => Promise.resolve({ data, totalCount: ROWS.length }),
+		};
+		return new Promise((resolve) =>
+			setTimeout(() => resolve(response), delays[page] ?? 0),
+		);
+	});
+	vi.stubGlobal('fetch', fetchMock);
+	return { server, fetchMock };
+}
+
+function requestedPages(fetchMock: ReturnType<typeof vi.fn>): string[] {
+	return fetchMock.mock.calls.map(
+		(call) => new URL(call[0] as string).searchParams.get('page') ?? '',
+	);
+}
+
+function createTable(config: KTDataTableConfigInterface = {}): {
+	root: HTMLElement;
+	dt: KTDataTable<(typeof ROWS)[number]>;
+} {
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="request_cache_table">
+			<table data-kt-datatable-table="true">
+				<thead><tr>
+					<th data-kt-datatable-column="id">ID</th>
+					<th data-kt-datatable-column="name">Name</th>
+				</tr></thead>
+				<tbody></tbody>
+			</table>
+		</div>
+	`;
+	document.body.appendChild(container);
+	const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+	const dt = new KTDataTable<(typeof ROWS)[number]>(root, {
+		stateSave: false,
+		apiEndpoint: 'https://api.example.com/rows',
+		pageSize: 2,
+		requestCache: true,
+		...config,
+	});
+	return { root, dt };
+}
+
+function names(root: HTMLElement): string[] {
+	return Array.from(root.querySelectorAll('tbody tr')).map(
+		(row) => row.children[1].textContent ?? '',
+	);
+}
+
+describe('Request cache', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+		vi.unstubAllGlobals();
+	});
+
+	it('serves pages requested before from the cache', async () => {
+		const { fetchMock } = createServer();
+		const { root, dt } = createTable();
+		await waitFor(10);
+
+		dt.goPage(2);
+		await waitFor(10);
+		expect(names(root)).toEqual(['Gamma', 'Delta']);
+
+		dt.goPage(1);
+		await waitFor(10);
+		expect(names(root)).toEqual(['Alpha', 'Beta']);
+		expect(requestedPages(fetchMock)).toEqual(['1', '2']);
+		dt.dispose();
+	});
+
+	it('drops entries after the TTL and beyond maxEntries', async () => {
+		const { fetchMock } = createServer();
+		const { dt } = createTable({
+			requestCache: { ttl: 30, maxEntries: 2 },
+		});
+		await waitFor(10);
+
+		dt.goPage(2);
+		await waitFor(10);
+		dt.goPage(3);
+		await waitFor(10);
+		// Page 1 was evicted for page 3.
+		dt.goPage(1);
+		await waitFor(10);
+		expect(requestedPages(fetchMock)).toEqual(['1', '2', '3', '1']);
+
+		await waitFor(40);
+		dt.goPage(3);
+		await waitFor(10);
+		expect(requestedPages(fetchMock)).toEqual(['1', '2', '3', '1', '3']);
+		dt.dispose();
+	});
+
+	it('shows stale entries while fetching a fresh copy', async () => {
+		const { server, fetchMock } = createServer();
+		const { root, dt } = createTable({
+			requestCache: { ttl: 20, staleWhileRevalidate: true },
+		});
+		await waitFor(10);
+		dt.goPage(2);
+		await waitFor(10);
+
+		server.version = 2;
+		await waitFor(30);
+		dt.goPage(1);
+		await waitFor(0);
+		expect(names(root)).toEqual(['Alpha', 'Beta']);
+
+		await waitFor(20);
+		expect(requestedPages(fetchMock)).toEqual(['1', '2', '1']);
+		expect(names(root)).toEqual(['Alpha v2', 'Beta v2']);
+		dt.dispose();
+	});
+
+	it('drops entries with invalidate() and clearCache()', async () => {
+		const { fetchMock } = createServer();
+		const { dt } = createTable();
+		await waitFor(10);
+		dt.goPage(2);
+		await waitFor(10);
+
+		dt.invalidate((params) => params.get('page') === '1');
+		dt.goPage(1);
+		await waitFor(10);
+		dt.goPage(2);
+		await waitFor(10);
+		expect(requestedPages(fetchMock)).toEqual(['1', '2', '1']);
+
+		dt.clearCache();
+		dt.goPage(1);
+		await waitFor(10);
+		expect(requestedPages(fetchMock)).toEqual(['1', '2', '1', '1']);
+		dt.dispose();
+	});
+
+	it('bypasses the cache on reload() and refreshes it', async () => {
+		const { server, fetchMock } = createServer();
+		const { root, dt } = createTable();
+		await waitFor(10);
+
+		server.version = 2;
+		dt.reload();
+		await waitFor(10);
+		expect(names(root)).toEqual(['Alpha v2', 'Beta v2']);
+
+		dt.goPage(2);
+		await waitFor(10);
+		dt.goPage(1);
+		await waitFor(10);
+		expect(names(root)).toEqual(['Alpha v2', 'Beta v2']);
+		expect(requestedPages(fetchMock)).toEqual(['1', '1', '2']);
+		dt.dispose();
+	});
+
+	it('serves filter changes from the cache', async () => {
+		const { fetchMock } = createServer();
+		const { root, dt } = createTable();
+		await waitFor(10);
+
+		// The filter row changes filters through _setColumnFilter().
+		const setColumnFilter = (
+			dt as unknown as {
+				_setColumnFilter: (column: string, filter: unknown) => void;
+			}
+		)._setColumnFilter.bind(dt);
+		setColumnFilter('name', { column: 'name', type: 'text', value: 'Alpha' });
+		await waitFor(10);
+		setColumnFilter('name', null);
+		await waitFor(10);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+
+		setColumnFilter('name', { column: 'name', type: 'text', value: 'Alpha' });
+		await waitFor(10);
+		dt.clearFilters();
+		await waitFor(10);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(names(root)).toEqual(['Alpha', 'Beta']);
+		dt.dispose();
+	});
+
+	it('prefetches the next page and joins a prefetch in flight', async () => {
+		const { fetchMock } = createServer({ '2': 20 });
+		const { root, dt } = createTable({ requestCache: { prefetch: true } });
+		await waitFor(5);
+		expect(requestedPages(fetchMock)).toEqual(['1', '2']);
+
+		// Page 2 is still on its way.
+		dt.goPage(2);
+		await waitFor(30);
+		expect(names(root)).toEqual(['Gamma', 'Delta']);
+		expect(requestedPages(fetchMock)).toEqual(['1', '2', '3']);
+
+		dt.goPage(3);
+		await waitFor(10);
+		expect(names(root)).toEqual(['Epsilon', 'Zeta']);
+		// The last page has nothing to prefetch.
+		expect(requestedPages(fetchMock)).toEqual(['1', '2', '3']);
+		dt.dispose();
+	});
+
+	it('ignores a revalidation finishing after the page changed', async () => {
+		const { server, fetchMock } = createServer();
+		const { root, dt } = createTable({
+			requestCache: { ttl: 20, staleWhileRevalidate: true },
+		});
+		await waitFor(10);
+		dt.goPage(2);
+		await waitFor(10);
+
+		server.version = 2;
+		fetchMock.mockImplementationOnce(
+			() =>
+				new Promise((resolve) =>
+					setTimeout(
+						() =>
+							resolve({
+								ok: true,
+								status: 200,
+								statusText: 'OK',
+								json: () => Promise.resolve({ data: [ROWS[0]], totalCount: 6 }),
+							}),
+						30,
+					),
+				),
+		);
+		await waitFor(30);
+		// Page 1 is revalidated slowly, with different data.
+		dt.goPage(1);
+		await waitFor(5);
+		dt.goPage(2);
+		await waitFor(40);
+		// Page 2 was stale as well and got its own fresh copy.
+		expect(names(root)).toEqual(['Gamma v2', 'Delta v2']);
+		expect(dt.getState().page).toBe(2);
+		dt.dispose();
+	});
+
+	it('redraws a revalidation that finishes while the table is drawing', async () => {
+		const { server, fetchMock } = createServer();
+		const { root, dt } = createTable({
+			requestCache: { ttl: 20, staleWhileRevalidate: true },
+		});
+		await waitFor(10);
+		dt.goPage(2);
+		await waitFor(10);
+
+		server.version = 2;
+		await waitFor(30);
+		// Keep the stale draw of page 1 running until the fresh copy is there.
+		const table = dt as unknown as { _finalize: () => Promise<void> };
+		const finalize = table._finalize.bind(dt);
+		table._finalize = async () => {
+			table._finalize = finalize;
+			finalize();
+			await waitFor(10);
+		};
+		dt.goPage(1);
+		await waitFor(30);
+
+		expect(requestedPages(fetchMock)).toEqual(['1', '2', '1']);
+		expect(names(root)).toEqual(['Alpha v2', 'Beta v2']);
+		dt.dispose();
+	});
+
+	it('gives up a hung revalidation after requestTimeout', async () => {
+		const { server, fetchMock } = createServer();
+		const { root, dt } = createTable({
+			requestCache: { ttl: 20, staleWhileRevalidate: true },
+			requestTimeout: 20,
+		});
+		await waitFor(10);
+		dt.goPage(2);
+		await waitFor(10);
+
+		server.version = 2;
+		// The revalidation of page 1 only ends when it is aborted.
+		fetchMock.mockImplementationOnce(
+			(_url: string, init?: RequestInit) =>
+				new Promise((_resolve, reject) =>
+					init?.signal?.addEventListener('abort', () =>
+						reject(new DOMException('Aborted', 'AbortError')),
+					),
+				),
+		);
+		await waitFor(30);
+		dt.goPage(1);
+		await waitFor(40);
+
+		// Page 1 is still stale and no longer pending: it is requested again.
+		dt.goPage(2);
+		await waitFor(10);
+		dt.goPage(1);
+		await waitFor(10);
+		expect(requestedPages(fetchMock)).toEqual(['1', '2', '1', '2', '1']);
+		expect(names(root)).toEqual(['Alpha v2', 'Beta v2']);
+		dt.dispose();
+	});
+});
@@ -382,7 +382,7 @@ describe('Sort handler extended coverage', () => {
 			handler.setSortIcon('name', 'asc');
 
 			const th = thead.querySelector('th')!;
-			expect(th.getAttribute('aria-sort')).toBe('asc');
+			expect(th.getAttribute('aria-sort')).toBe('ascending');
 		});
 
 		it('sets aria-sort to none on inactive columns', () => {
@@ -407,7 +407,7 @@ describe('Sort handler extended coverage', () => {
 			handler.setSortIcon(0 as any, 'asc');
 
 			const th = thead.querySelector('th')!;
-			expect(th.getAttribute('aria-sort')).toBe('asc');
+			expect(th.getAttribute('aria-sort')).toBe('ascending');
 		});
 	});
 });
@@ -0,0 +1,196 @@
+/**
+ * Tests for state persistence backends (web storage areas, custom sync and
+ * async implementations) and urlSync (write, restore, popstate, prefix).
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { createStatePersistence } from '../datatable-state-persistence';
+import {
+	KTDataTableConfigInterface,
+	KTDataTableStateInterface,
+	KTDataTableStatePersistence,
+} from '../types';
+import { waitFor } from './setup';
+
+function createTable(
+	config: KTDataTableConfigInterface = {},
+): KTDataTable<Record<string, string>> {
+	const rows = Array.from(
+		{ length: 25 },
+		(_, i) =>
+			`<tr><td>${i + 1}</td><td>Name ${String(i + 1).padStart(2, '0')}</td></tr>`,
+	).join('');
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="persisted_table">
+			<table data-kt-datatable-table="true">
+				<thead><tr>
+					<th data-kt-datatable-column="id"><span class="kt-table-col">ID</span></th>
+					<th data-kt-datatable-column="name"><span class="kt-table-col">Name</span></th>
+				</tr></thead>
+				<tbody>${rows}</tbody>
+			</table>
+			<div data-kt-datatable-pagination="true"></div>
+		</div>
+	`;
+	document.body.appendChild(container);
+	const root = container.querySelector('[data-kt-datatable]') as HTMLElement;
+	return new KTDataTable(root, { pageSize: 10, ...config });
+}
+
+function firstId(): string | undefined {
+	return document.querySelector('#persisted_table tbody td')?.textContent ?? '';
+}
+
+function setUrl(search: string): void {
+	window.history.replaceState(null, '', `/${search}`);
+}
+
+describe('State persistence', () => {
+	afterEach(() => {
+		sessionStorage.clear();
+		setUrl('');
+		vi.restoreAllMocks();
+	});
+
+	it('saves to sessionStorage when configured', async () => {
+		const dt = createTable({ statePersistence: 'sessionStorage' });
+		await waitFor(0);
+		dt.goPage(2);
+		await waitFor(0);
+
+		const saved = JSON.parse(sessionStorage.getItem('persisted_table') ?? '{}');
+		expect(saved.page).toBe(2);
+		expect(localStorage.getItem('persisted_table')).toBeNull();
+		dt.dispose();
+	});
+
+	it('uses a custom backend', async () => {
+		const stored = createStatePersistence('sessionStorage');
+		const backend: KTDataTableStatePersistence = {
+			save: vi.fn(stored.save),
+			load: vi.fn(() => ({ page: 3 }) as KTDataTableStateInterface),
+			remove: vi.fn(),
+		};
+		const dt = createTable({ statePersistence: backend });
+		await waitFor(0);
+
+		expect(backend.load).toHaveBeenCalledWith('persisted_table');
+		expect(dt.getState().page).toBe(3);
+		expect(firstId()).toBe('21');
+		expect(backend.save).toHaveBeenCalledWith(
+			'persisted_table',
+			expect.objectContaining({ page: 3 }),
+		);
+		dt.dispose();
+	});
+
+	it('waits for an async backend before the first draw', async () => {
+		let resolve: (state: KTDataTableStateInterface) => void = () => {};
+		const backend: KTDataTableStatePersistence = {
+			save: vi.fn(() => Promise.reject(new Error('offline'))),
+			load: () =>
+				new Promise<KTDataTableStateInterface>((done) => {
+					resolve = done;
+				}),
+			remove: vi.fn(() => Promise.resolve()),
+		};
+		const dt = createTable({ statePersistence: backend });
+		await waitFor(0);
+		expect(backend.save).not.toHaveBeenCalled();
+
+		resolve({ page: 2 } as KTDataTableStateInterface);
+		await waitFor(0);
+
+		expect(firstId()).toBe('11');
+		expect(backend.save).toHaveBeenCalled();
+		dt.dispose();
+	});
+});
+
+describe('URL sync', () => {
+	afterEach(() => {
+		setUrl('');
+		vi.restoreAllMocks();
+	});
+
+	it('mirrors page, size, sort, search and filters into the query string', async () => {
+		setUrl('?tab=users');
+		const dt = createTable({ stateSave: false, urlSync: true });
+		await waitFor(0);
+		expect(window.location.search).toBe('?tab=users');
+
+		dt.sort('name', 'desc');
+		await waitFor(0);
+		dt.setFilter({ column: 'id', type: 'gt', value: 2 });
+		dt.search('Name');
+		await waitFor(600);
+		dt.setPageSize(5);
+		await waitFor(0);
+		dt.goPage(2);
+		await waitFor(0);
+
+		const params = new URLSearchParams(window.location.search);
+		expect(params.get('tab')).toBe('users');
+		expect(params.get('page')).toBe('2');
+		expect(params.get('size')).toBe('5');
+		expect(params.get('sort')).toBe('name:desc');
+		expect(params.get('search')).toBe('Name');
+		expect(JSON.parse(params.get('filters') ?? '')).toEqual([
+			{ column: 'id', type: 'gt', value: 2 },
+		]);
+		dt.dispose();
+	});
+
+	it('restores the query string on load, over the saved state', async () => {
+		localStorage.setItem(
+			'persisted_table',
+			JSON.stringify({ page: 3, pageSize: 10 }),
+		);
+		setUrl('?page=2&sort=name:desc');
+		const dt = createTable({ urlSync: true });
+		await waitFor(0);
+
+		expect(dt.getState().page).toBe(2);
+		expect(dt.getState().sortStack).toEqual([{ field: 'name', order: 'desc' }]);
+		expect(firstId()).toBe('15');
+		dt.dispose();
+	});
+
+	it('follows back/forward navigation', async () => {
+		const dt = createTable({ stateSave: false, urlSync: true });
+		await waitFor(0);
+
+		window.history.pushState(null, '', '/?page=3');
+		window.dispatchEvent(new PopStateEvent('popstate'));
+		await waitFor(0);
+		expect(firstId()).toBe('21');
+
+		window.history.pushState(null, '', '/');
+		window.dispatchEvent(new PopStateEvent('popstate'));
+		await waitFor(0);
+		expect(firstId()).toBe('1');
+
+		dt.dispose();
+		window.history.pushState(null, '', '/?page=2');
+		window.dispatchEvent(new PopStateEvent('popstate'));
+		await waitFor(0);
+		expect(dt.getState().page).toBe(1);
+	});
+
+	it('prefixes the parameters', async () => {
+		setUrl('?page=9&orders_page=2');
+		const dt = createTable({
+			stateSave: false,
+			urlSync: { prefix: 'orders_' },
+		});
+		await waitFor(0);
+
+		expect(dt.getState().page).toBe(2);
+		dt.goPage(1);
+		await waitFor(0);
+		expect(window.location.search).toBe('?page=9');
+		dt.dispose();
+	});
+});
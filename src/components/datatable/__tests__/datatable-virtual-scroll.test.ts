@@ -0,0 +1,208 @@
+/**
+ * Tests for virtual scrolling: windowed rendering with spacer rows, scroll
+ * redraws, search over the full dataset, checkbox selection of rows outside
+ * the DOM and the sticky layout plugin.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { KTDataTable } from '../datatable';
+import { resolveVirtualScroll } from '../datatable-virtual-scroll';
+import { waitFor } from './setup';
+
+const ROWS = 200;
+
+function createTable(): HTMLElement {
+	const rows = Array.from(
+		{ length: ROWS },
+		(_, i) =>
+			`<tr><td><input type="checkbox" data-kt-datatable-row-check="true" value="${i + 1}"></td><td>Row ${i + 1}</td><td>${i % 2 ? 'odd' : 'even'}</td></tr>`,
+	).join('');
+	const container = document.createElement('div');
+	container.innerHTML = `
+		<div data-kt-datatable="true" id="virtual_table">
+			<div class="kt-table-wrapper">
+				<table data-kt-datatable-table="true">
+					<thead>
+						<tr>
+							<th data-kt-datatable-column="check"><input type="checkbox" data-kt-datatable-check="true"></th>
+							<th data-kt-datatable-column="name">Name</th>
+							<th data-kt-datatable-column="kind">Kind</th>
+						</tr>
+					</thead>
+					<tbody>${rows}</tbody>
+				</table>
+			</div>
+			<div data-kt-datatable-pagination="true"></div>
+		</div>
+	`;
+	document.body.appendChild(container);
+	return container.querySelector('[data-kt-datatable]') as HTMLElement;
+}
+
+function dataRows(root: HTMLElement): string[] {
+	return Array.from(
+		root.querySelectorAll('tbody tr:not([data-kt-datatable-virtual-spacer])'),
+	).map((row) => row.children[1].textContent ?? '');
+}
+
+function spacerHeights(root: HTMLElement): string[] {
+	return Array.from(
+		root.querySelectorAll('tbody tr[data-kt-datatable-virtual-spacer] td'),
+	).map((td) => (td as HTMLElement).style.height);
+}
+
+function scrollTo(root: HTMLElement, top: number): void {
+	const wrapper = root.querySelector('.kt-table-wrapper') as HTMLElement;
+	Object.defineProperty(wrapper, 'scrollTop', {
+		value: top,
+		configurable: true,
+	});
+	wrapper.dispatchEvent(new Event('scroll'));
+}
+
+const virtualScroll = { height: 400, rowHeight: 40, overscan: 5 };
+
+describe('Virtual scroll', () => {
+	beforeEach(() => {
+		vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+			callback(0);
+			return 1;
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllGlobals();
+	});
+
+	it('renders the visible window plus overscan with spacer rows', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, virtualScroll });
+		await waitFor(0);
+
+		const rows = dataRows(root);
+		expect(rows).toHaveLength(15);
+		expect(rows[0]).toBe('Row 1');
+		expect(spacerHeights(root)).toEqual([`${(ROWS - 15) * 40}px`]);
+		expect(dt.getState().totalItems).toBe(ROWS);
+		expect(dt.getState().totalPages).toBe(1);
+		expect(
+			root.querySelector('[data-kt-datatable-pagination]')?.children,
+		).toHaveLength(0);
+
+		const wrapper = root.querySelector('.kt-table-wrapper') as HTMLElement;
+		expect(wrapper.style.height).toBe('400px');
+		expect(wrapper.hasAttribute('data-kt-datatable-virtual-scroll')).toBe(true);
+		dt.dispose();
+	});
+
+	it('redraws the window when scrolling past the rendered rows', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, virtualScroll });
+		await waitFor(0);
+
+		scrollTo(root, 4000);
+		await waitFor(0);
+
+		const rows = dataRows(root);
+		expect(rows[0]).toBe('Row 96');
+		expect(rows[rows.length - 1]).toBe('Row 115');
+		expect(spacerHeights(root)).toEqual([`${95 * 40}px`, `${85 * 40}px`]);
+
+		// Scrolling inside the rendered window keeps the rows.
+		const firstRow = root.querySelector('tbody tr:nth-child(2)');
+		scrollTo(root, 4040);
+		await waitFor(0);
+		expect(root.querySelector('tbody tr:nth-child(2)')).toBe(firstRow);
+
+		// Sorting keeps the full dataset and never re-reads the windowed tbody.
+		dt.sort('name', 'desc');
+		await waitFor(0);
+		dt.reload();
+		await waitFor(0);
+		expect(dt.getState().originalData).toHaveLength(ROWS);
+		dt.dispose();
+	});
+
+	it('searches the whole dataset', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, virtualScroll });
+		await waitFor(0);
+
+		dt.search('odd');
+		await waitFor(400);
+
+		expect(dt.getState().totalItems).toBe(ROWS / 2);
+		expect(dataRows(root)[0]).toBe('Row 2');
+		expect(spacerHeights(root)).toEqual([`${(ROWS / 2 - 15) * 40}px`]);
+		dt.dispose();
+	});
+
+	it('selects rows outside the DOM with the header checkbox', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, { stateSave: false, virtualScroll });
+		await waitFor(0);
+
+		const header = root.querySelector(
+			'[data-kt-datatable-check]',
+		) as HTMLInputElement;
+		header.click();
+
+		expect(dt.getChecked()).toHaveLength(ROWS);
+		expect(header.checked).toBe(true);
+
+		scrollTo(root, 6000);
+		await waitFor(0);
+
+		const rendered = root.querySelectorAll<HTMLInputElement>(
+			'tbody [data-kt-datatable-row-check]',
+		);
+		expect(Array.from(rendered).every((input) => input.checked)).toBe(true);
+
+		rendered[0].checked = false;
+		rendered[0].dispatchEvent(new Event('input', { bubbles: true }));
+
+		expect(dt.getChecked()).toHaveLength(ROWS - 1);
+		expect(header.indeterminate).toBe(true);
+		dt.dispose();
+	});
+
+	it('keeps the sticky header and locked columns of the layout plugin', async () => {
+		const root = createTable();
+		const dt = new KTDataTable(root, {
+			stateSave: false,
+			virtualScroll,
+			lockedLayout: { stickyHeader: true, stickyColumns: { left: ['name'] } },
+		});
+		await waitFor(0);
+		scrollTo(root, 4000);
+		await waitFor(0);
+
+		expect(
+			root
+				.querySelector('thead th')
+				?.classList.contains('kt-datatable-locked-header'),
+		).toBe(true);
+		const nameCells = root.querySelectorAll(
+			'tbody tr:not([data-kt-datatable-virtual-spacer]) td:nth-child(2)',
+		);
+		expect(nameCells).toHaveLength(20);
+		expect(
+			Array.from(nameCells).every((cell) =>
+				cell.classList.contains('kt-datatable-locked-left'),
+			),
+		).toBe(true);
+		dt.dispose();
+	});
+
+	it('does not apply to remote tables', () => {
+		expect(
+			resolveVirtualScroll({ virtualScroll: true, apiEndpoint: '/api' }),
+		).toBeNull();
+		expect(resolveVirtualScroll({ virtualScroll: { overscan: 0 } })).toEqual({
+			height: 400,
+			rowHeight: 40,
+			overscan: 0,
+		});
+	});
+});
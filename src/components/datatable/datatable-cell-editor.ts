@@ -0,0 +1,414 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Inline cell editing for KTDataTable.
+ * Cells of columns with an `editor` open in place on double-click or Enter;
+ * Enter saves, Escape cancels and Tab saves and moves to the next editable
+ * cell. Saved values are written to the row object (the same object held in
+ * `state.originalData` in local mode) and tracked until commitChanges() or
+ * revertChanges().
+ */
+
+import { KTOptionType } from '../../types';
+import {
+	KTDataTableCellEditorInterface,
+	KTDataTableCellEditPayloadInterface,
+	KTDataTableConfigInterface,
+	KTDataTableDataInterface,
+	KTDataTableEditorConfigInterface,
+	KTDataTableInterface,
+	KTDataTableRowChangesInterface,
+} from './types';
+import { KTDataTableEmit } from './datatable-contracts';
+import { parseNumber } from './datatable-utils';
+
+export interface KTDataTableCellEditorDeps<T extends KTDataTableDataInterface> {
+	config: KTDataTableConfigInterface;
+	context: KTDataTableInterface;
+	emit: KTDataTableEmit;
+	getTbodyElement: () => HTMLTableSectionElement;
+	getRowData: (row: HTMLTableRowElement) => T | undefined;
+	getCellKey: (cell: HTMLTableCellElement) => string | null;
+	/** Re-render the rows from the current data, without refetching */
+	redraw: () => Promise<void>;
+	/** Called after the tbody changed outside a draw */
+	onChange: () => void;
+}
+
+interface KTDataTableActiveEdit<T extends KTDataTableDataInterface> {
+	cell: HTMLTableCellElement;
+	rowData: T;
+	column: string;
+	editor: KTDataTableCellEditorInterface;
+	content: Node[];
+}
+
+const EDITABLE_ATTR = 'data-kt-datatable-editable';
+const DIRTY_ATTR = 'data-kt-datatable-cell-dirty';
+const INVALID_ATTR = 'data-kt-datatable-edit-invalid';
+
+export class KTDataTableCellEditor<T extends KTDataTableDataInterface> {
+	private _deps: KTDataTableCellEditorDeps<T>;
+	private _active: KTDataTableActiveEdit<T> | null = null;
+	/** Original value per edited column, per row object */
+	private _changes = new Map<T, Map<string, KTOptionType>>();
+
+	constructor(deps: KTDataTableCellEditorDeps<T>) {
+		this._deps = deps;
+	}
+
+	public isEnabled(): boolean {
+		const columns = this._deps.config.columns;
+		return Boolean(
+			columns && Object.keys(columns).some((key) => columns[key].editor),
+		);
+	}
+
+	/**
+	 * Mark the editable and edited cells of the freshly rendered rows.
+	 */
+	public apply(): void {
+		if (!this.isEnabled()) return;
+
+		this._getDataRows().forEach((row) => {
+			const changes = this._changes.get(this._deps.getRowData(row) as T);
+			Array.from(row.cells).forEach((cell) => {
+				const column = this._deps.getCellKey(cell);
+				if (!column || !this._getEditorConfig(column)) return;
+				cell.setAttribute(EDITABLE_ATTR, 'true');
+				cell.tabIndex = 0;
+				if (changes?.has(column)) {
+					cell.setAttribute(DIRTY_ATTR, 'true');
+				}
+			});
+		});
+	}
+
+	/**
+	 * Handle double-click and keyboard editing on the tbody. Returns the cleanup.
+	 */
+	public attach(): () => void {
+		const tbody = this._deps.getTbodyElement();
+
+		const onDblClick = (event: Event) => {
+			const cell = this._getEditableCell(event.target);
+			if (cell) this.open(cell);
+		};
+
+		const onKeyDown = (event: KeyboardEvent) => {
+			const active = this._active;
+			if (active && active.cell.contains(event.target as Node)) {
+				if (event.key === 'Enter') {
+					event.preventDefault();
+					void this._save({ focus: true });
+				} else if (event.key === 'Escape') {
+					event.preventDefault();
+					this._cancel(true);
+				} else if (event.key === 'Tab') {
+					event.preventDefault();
+					void this._save({ move: event.shiftKey ? -1 : 1 });
+				}
+				return;
+			}
+
+			const cell = this._getEditableCell(event.target);
+			if (cell && event.target === cell && event.key === 'Enter') {
+				event.preventDefault();
+				this.open(cell);
+			}
+		};
+
+		const onFocusOut = (event: FocusEvent) => {
+			const active = this._active;
+			const next = event.relatedTarget as Node | null;
+			if (!active || (next && active.cell.contains(next))) return;
+			void this._save().then(() => {
+				// A rejected value is dropped when focus leaves the cell.
+				if (this._active === active) this._cancel(false);
+			});
+		};
+
+		tbody.addEventListener('dblclick', onDblClick);
+		tbody.addEventListener('keydown', onKeyDown);
+		tbody.addEventListener('focusout', onFocusOut);
+
+		return () => {
+			tbody.removeEventListener('dblclick', onDblClick);
+			tbody.removeEventListener('keydown', onKeyDown);
+			tbody.removeEventListener('focusout', onFocusOut);
+			// The rows are about to be replaced; drop the open editor with them.
+			this._active?.editor.destroy?.();
+			this._active = null;
+		};
+	}
+
+	/**
+	 * Open the editor of an editable cell. Returns false when the cell is not
+	 * editable.
+	 */
+	public open(cell: HTMLTableCellElement): boolean {
+		if (this._active?.cell === cell) return true;
+
+		const row = cell.parentElement as HTMLTableRowElement | null;
+		const rowData = row && this._deps.getRowData(row);
+		const column = this._deps.getCellKey(cell);
+		const editorConfig = column ? this._getEditorConfig(column) : null;
+		if (!rowData || !column || !editorConfig) return false;
+
+		if (this._active) this._cancel(false);
+
+		const editor = this._createEditor(editorConfig, rowData, column);
+		this._active = {
+			cell,
+			rowData,
+			column,
+			editor,
+			content: Array.from(cell.childNodes),
+		};
+
+		cell.replaceChildren(editor.element);
+		if (typeof editor.focus === 'function') {
+			editor.focus();
+		} else {
+			editor.element.focus();
+		}
+		this._deps.onChange();
+		return true;
+	}
+
+	public getChanges(): KTDataTableRowChangesInterface<T>[] {
+		return Array.from(this._changes.entries()).map(([rowData, originals]) => ({
+			rowData,
+			changes: Object.fromEntries(
+				Array.from(originals.entries()).map(([column, oldValue]) => [
+					column,
+					{ oldValue, value: rowData[column] },
+				]),
+			),
+		}));
+	}
+
+	public commitChanges(): KTDataTableRowChangesInterface<T>[] {
+		const changes = this.getChanges();
+		this._changes.clear();
+		void this._deps.redraw();
+		return changes;
+	}
+
+	public revertChanges(): void {
+		this._changes.forEach((originals, rowData) => {
+			originals.forEach((oldValue, column) => {
+				(rowData as KTDataTableDataInterface)[column] = oldValue;
+			});
+		});
+		this._changes.clear();
+		void this._deps.redraw();
+	}
+
+	/**
+	 * Validate, announce and store the open editor's value. Resolves to false
+	 * when the value was rejected (editor stays open) or the edit was cancelled.
+	 */
+	private async _save(
+		options: { move?: number; focus?: boolean } = {},
+	): Promise<boolean> {
+		const active = this._active;
+		if (!active) return false;
+
+		const { cell, rowData, column, editor } = active;
+		const value = editor.getValue();
+		const oldValue = rowData[column] ?? '';
+
+		const validate = this._deps.config.columns?.[column]?.validate;
+		const result =
+			typeof validate === 'function' ? validate(value, rowData) : true;
+		if (result === false || typeof result === 'string') {
+			cell.setAttribute(INVALID_ATTR, typeof result === 'string' ? result : '');
+			editor.element.setAttribute('aria-invalid', 'true');
+			return false;
+		}
+
+		if (String(value) === String(oldValue)) {
+			this._cancel(Boolean(options.focus));
+			if (options.move) this._openNext(cell, options.move);
+			return true;
+		}
+
+		const payload: KTDataTableCellEditPayloadInterface = {
+			column,
+			rowData,
+			value,
+			oldValue,
+			cancel: false,
+		};
+		this._deps.emit('cellEdit', payload);
+		if (payload.cancel === true) {
+			this._cancel(Boolean(options.focus));
+			return false;
+		}
+
+		this._track(rowData, column, oldValue, value);
+		(rowData as KTDataTableDataInterface)[column] = value;
+		this._active = null;
+		editor.destroy?.();
+
+		await this._deps.redraw();
+
+		const target = this._findCell(rowData, column);
+		if (target && options.move) {
+			this._openNext(target, options.move);
+		} else if (target && options.focus) {
+			target.focus();
+		}
+		return true;
+	}
+
+	/**
+	 * Close the open editor and put the cell's previous content back.
+	 */
+	private _cancel(focus: boolean): void {
+		const active = this._active;
+		if (!active) return;
+
+		this._active = null;
+		active.editor.destroy?.();
+		active.cell.removeAttribute(INVALID_ATTR);
+		active.cell.replaceChildren(...active.content);
+		this._deps.onChange();
+		if (focus) active.cell.focus();
+	}
+
+	private _track(
+		rowData: T,
+		column: string,
+		oldValue: KTOptionType,
+		value: KTOptionType,
+	): void {
+		let originals = this._changes.get(rowData);
+		if (!originals) {
+			originals = new Map();
+			this._changes.set(rowData, originals);
+		}
+		if (!originals.has(column)) {
+			originals.set(column, oldValue);
+		}
+
+		// Editing a value back to its original clears the change.
+		if (String(originals.get(column)) === String(value)) {
+			originals.delete(column);
+			if (originals.size === 0) this._changes.delete(rowData);
+		}
+	}
+
+	private _openNext(cell: HTMLTableCellElement, step: number): void {
+		const cells = Array.from(
+			this._deps
+				.getTbodyElement()
+				.querySelectorAll<HTMLTableCellElement>(`td[${EDITABLE_ATTR}]`),
+		).filter((td) => td.style.display !== 'none');
+		const next = cells[cells.indexOf(cell) + step];
+		if (next) {
+			this.open(next);
+		} else {
+			cell.focus();
+		}
+	}
+
+	private _findCell(rowData: T, column: string): HTMLTableCellElement | null {
+		const row = this._getDataRows().find(
+			(tr) => this._deps.getRowData(tr) === rowData,
+		);
+		return (
+			Array.from(row?.cells ?? []).find(
+				(cell) => this._deps.getCellKey(cell) === column,
+			) ?? null
+		);
+	}
+
+	private _getDataRows(): HTMLTableRowElement[] {
+		return Array.from(this._deps.getTbodyElement().rows).filter((row) =>
+			Boolean(this._deps.getRowData(row)),
+		);
+	}
+
+	private _getEditableCell(
+		target: EventTarget | null,
+	): HTMLTableCellElement | null {
+		const cell = (target as Element | null)?.closest?.<HTMLTableCellElement>(
+			`td[${EDITABLE_ATTR}]`,
+		);
+		return cell && this._deps.getTbodyElement().contains(cell) ? cell : null;
+	}
+
+	private _getEditorConfig(
+		column: string,
+	): KTDataTableEditorConfigInterface | null {
+		const editor = this._deps.config.columns?.[column]?.editor;
+		if (!editor) return null;
+		return typeof editor === 'object' ? editor : { type: editor };
+	}
+
+	private _createEditor(
+		editorConfig: KTDataTableEditorConfigInterface,
+		rowData: T,
+		column: string,
+	): KTDataTableCellEditorInterface {
+		const value = rowData[column];
+		if (typeof editorConfig.type === 'function') {
+			return editorConfig.type.call(
+				this._deps.context,
+				value,
+				rowData,
+				this._deps.context,
+			);
+		}
+
+		let editor: KTDataTableCellEditorInterface;
+		switch (editorConfig.type) {
+			case 'number': {
+				const input = document.createElement('input');
+				input.type = 'number';
+				const number = parseNumber(value);
+				input.value = Number.isNaN(number) ? '' : String(number);
+				editor = {
+					element: input,
+					getValue: () => (input.value === '' ? '' : Number(input.value)),
+				};
+				break;
+			}
+			case 'select': {
+				const select = document.createElement('select');
+				(editorConfig.options ?? []).forEach((option) => {
+					const item = typeof option === 'string' ? { value: option } : option;
+					select.add(new Option(item.label ?? item.value, item.value));
+				});
+				select.value =
+					value === null || value === undefined ? '' : String(value);
+				editor = { element: select, getValue: () => select.value };
+				break;
+			}
+			case 'checkbox': {
+				const input = document.createElement('input');
+				input.type = 'checkbox';
+				input.checked = [true, 1, 'true', '1'].includes(
+					value as string | number | boolean,
+				);
+				editor = { element: input, getValue: () => input.checked };
+				break;
+			}
+			default: {
+				const input = document.createElement('input');
+				input.type = 'text';
+				input.value =
+					value === null || value === undefined ? '' : String(value);
+				editor = { element: input, getValue: () => input.value };
+			}
+		}
+
+		editor.element.setAttribute('data-kt-datatable-editor', editorConfig.type);
+		return editor;
+	}
+}
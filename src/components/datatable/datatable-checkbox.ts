@@ -8,13 +8,31 @@
 import {
 	KTDataTableConfigInterface,
 	KTDataTableCheckChangePayloadInterface,
+	KTDataTableSelectAllMatchingConfigInterface,
+	KTDataTableSelectionInterface,
+	KTDataTableStateInterface,
 } from './types';
 import KTEventHandler from '../../helpers/event-handler';
 import { KTCallableType } from '../../types';
 
 export interface KTDataTableCheckboxDeps {
-	getState: () => { selectedRows?: string[] };
+	getState: () => Partial<
+		Pick<
+			KTDataTableStateInterface,
+			'selectedRows' | 'totalItems' | 'search' | 'filters'
+		>
+	>;
 	setSelectedRows: (rows: string[]) => void;
+	/**
+	 * Values of every row in the current view when not all of them are
+	 * rendered (virtual scroll); null to use the rendered checkboxes.
+	 */
+	getRowIds?: () => string[] | null;
+	/**
+	 * Values of every row matching the search and filters, on all pages
+	 * (local data); null when only the server knows them.
+	 */
+	getMatchingIds?: () => string[] | null;
 }
 
 export interface KTDataTableCheckboxAPI {
@@ -24,10 +42,25 @@ export interface KTDataTableCheckboxAPI {
 	toggle(): void;
 	isChecked(): boolean;
 	getChecked(): string[];
+	getSelection(): KTDataTableSelectionInterface;
+	selectAllMatching(): void;
+	clearSelection(): void;
 	updateState(): void;
 	dispose(): void;
+	/** Remove the select-all banner added by the handler */
+	destroy(): void;
 }
 
+const SELECT_ALL_ATTR = 'data-kt-datatable-select-all';
+
+const SELECT_ALL_MATCHING_DEFAULTS: Required<KTDataTableSelectAllMatchingConfigInterface> =
+	{
+		pageSelected: 'All {count} rows on this page are selected.',
+		selectAll: 'Select all {total} matching rows',
+		allSelected: 'All {count} matching rows are selected.',
+		clear: 'Clear selection',
+	};
+
 export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 	private _element: HTMLElement;
 	private _config: KTDataTableConfigInterface;
@@ -37,7 +70,23 @@ export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 	private _headerCheckElement: HTMLInputElement | null = null;
 	private _targetElements: NodeListOf<HTMLInputElement> | null = null;
 	private _delegatedEventId: string | null = null;
+	private _clickEventId: string | null = null;
 	private readonly _preserveSelection: boolean;
+	/** Last row toggled without shift, the start of a shift-click range */
+	private _rangeAnchor: string | null = null;
+	private _shiftKey = false;
+	/** The header checkbox selected the page; offer to select all matching rows */
+	private _selectAllOffered = false;
+	/**
+	 * Every matching row is selected. Remote tables track the rows deselected
+	 * since in `excluded`; local tables hold every id in the selection instead.
+	 */
+	private _allMatching: {
+		excluded: Set<string>;
+		local: boolean;
+	} | null = null;
+	private _query: string | null = null;
+	private _banner: HTMLElement | null = null;
 
 	constructor(
 		element: HTMLElement,
@@ -66,6 +115,8 @@ export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 	}
 
 	private _getVisibleRowIds(): string[] {
+		const rowIds = this._deps.getRowIds?.();
+		if (rowIds) return rowIds;
 		if (!this._targetElements) return [];
 		return Array.from(this._targetElements)
 			.map((el) => el.value)
@@ -85,6 +136,7 @@ export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 		this._targetElements = this._element.querySelectorAll<HTMLInputElement>(
 			attrs.checkbox,
 		);
+		this._syncQuery();
 		this._checkboxHandler();
 		this._reapplyCheckedStates();
 		this._updateHeaderCheckboxState();
@@ -103,33 +155,83 @@ export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 				if (event) this._handleRowCheckboxChange(event);
 			}) as KTCallableType,
 		);
+		// click fires before input: remember the modifier for the range.
+		this._clickEventId = KTEventHandler.on(
+			this._element,
+			rowCheckboxSelector,
+			'click',
+			((event?: Event) => {
+				this._shiftKey = Boolean((event as MouseEvent | undefined)?.shiftKey);
+			}) as KTCallableType,
+		);
 	}
 
 	private _handleRowCheckboxChange(event: Event) {
 		const input = event.target as HTMLInputElement;
 		if (!input) return;
 		const value = input.value;
+		const range =
+			this._shiftKey && this._rangeAnchor !== null
+				? this._getRange(this._rangeAnchor, value)
+				: [value];
+		this._shiftKey = false;
+		this._rangeAnchor = value;
+
 		let selectedRows = this._getSelectedRows();
 		const wasChecked = selectedRows.includes(value);
 		const isNowChecked = input.checked;
 
 		if (isNowChecked) {
-			if (!wasChecked) selectedRows.push(value);
+			selectedRows = [...selectedRows, ...range];
 		} else {
-			selectedRows = selectedRows.filter((v) => v !== value);
+			selectedRows = selectedRows.filter((v) => !range.includes(v));
 		}
+		this._updateAllMatching(range, isNowChecked);
 		this._setSelectedRows(selectedRows);
+		if (range.length > 1) {
+			this._reapplyCheckedStates();
+		}
 		this._updateHeaderCheckboxState();
 
+		const payload = range.length > 1 ? { value, values: range } : { value };
 		if (isNowChecked && !wasChecked) {
-			this._fireEvent('checked', { value });
+			this._fireEvent('checked', payload);
 		} else if (!isNowChecked && wasChecked) {
-			this._fireEvent('unchecked', { value });
+			this._fireEvent('unchecked', payload);
 		}
 
 		this._fireEvent('changed');
 	}
 
+	/**
+	 * Row values from `from` to `to` in display order, both included. Falls
+	 * back to `to` alone when the anchor is no longer in view.
+	 */
+	private _getRange(from: string, to: string): string[] {
+		const ids = this._getVisibleRowIds();
+		const start = ids.indexOf(from);
+		const end = ids.indexOf(to);
+		if (start === -1 || end === -1) return [to];
+		return ids.slice(Math.min(start, end), Math.max(start, end) + 1);
+	}
+
+	/**
+	 * Keep "all matching" in step with row toggles: remote tables record
+	 * exclusions, local tables drop back to a plain id selection.
+	 */
+	private _updateAllMatching(values: string[], checked: boolean): void {
+		if (!this._allMatching) return;
+		if (this._allMatching.local) {
+			if (!checked) this._allMatching = null;
+			return;
+		}
+		values.forEach((value) =>
+			checked
+				? this._allMatching?.excluded.delete(value)
+				: this._allMatching?.excluded.add(value),
+		);
+	}
+
 	private _checkboxToggle(_event?: Event) {
 		const checked = !this.isChecked();
 		this._change(checked);
@@ -150,11 +252,16 @@ export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 				selectedRows = this._preserveSelection
 					? Array.from(new Set([...selectedRows, ...visibleIds]))
 					: visibleIds;
+				visibleIds.forEach((id) => this._allMatching?.excluded.delete(id));
 			} else {
-				selectedRows = this._preserveSelection
-					? selectedRows.filter((v) => !visibleIds.includes(v))
-					: [];
+				// Unchecking the header after "select all matching" clears it all.
+				selectedRows =
+					this._preserveSelection && !this._allMatching
+						? selectedRows.filter((v) => !visibleIds.includes(v))
+						: [];
+				this._allMatching = null;
 			}
+			this._selectAllOffered = checked;
 			this._setSelectedRows(selectedRows);
 			this._targetElements.forEach((element: HTMLInputElement) => {
 				if (element) {
@@ -167,8 +274,18 @@ export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 	}
 
 	private _reapplyCheckedStates() {
-		const selectedRows = this._getSelectedRows();
 		if (!this._targetElements) return;
+		if (this._allMatching && !this._allMatching.local) {
+			// Rows loaded after "select all matching" start out selected.
+			const excluded = this._allMatching.excluded;
+			this._setSelectedRows(
+				[
+					...this._getSelectedRows(),
+					...Array.from(this._targetElements).map((el) => el.value),
+				].filter((v) => v !== '' && !excluded.has(v)),
+			);
+		}
+		const selectedRows = this._getSelectedRows();
 		this._targetElements.forEach((element: HTMLInputElement) => {
 			if (!element) return;
 			const value = element.value;
@@ -186,10 +303,17 @@ export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 
 	private _updateHeaderCheckboxState() {
 		if (!this._headerCheckElement || !this._targetElements) return;
-		const total = this._targetElements.length;
+		const rowIds = this._deps.getRowIds?.();
+		let total = this._targetElements.length;
 		let checked = 0;
-		for (let i = 0; i < total; i++) {
-			if (this._targetElements[i].checked) checked++;
+		if (rowIds) {
+			const selectedRows = new Set(this._getSelectedRows());
+			total = rowIds.length;
+			checked = rowIds.filter((id) => selectedRows.has(id)).length;
+		} else {
+			for (let i = 0; i < total; i++) {
+				if (this._targetElements[i].checked) checked++;
+			}
 		}
 		if (checked === 0) {
 			this._headerCheckElement.indeterminate = false;
@@ -204,6 +328,115 @@ export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 			this._headerCheckElement.checked = true;
 			this._headerChecked = true;
 		}
+		this._renderBanner();
+	}
+
+	private _getSelectAllSettings(): Required<KTDataTableSelectAllMatchingConfigInterface> | null {
+		const option = this._config.checkbox?.selectAllMatching;
+		if (!option) return null;
+		return {
+			...SELECT_ALL_MATCHING_DEFAULTS,
+			...(typeof option === 'object' ? option : {}),
+		};
+	}
+
+	/** Search and filters the selection applies to */
+	private _getQuery(): Pick<
+		KTDataTableSelectionInterface,
+		'search' | 'filters'
+	> {
+		const { search, filters } = this._deps.getState();
+		return {
+			search: search ?? '',
+			filters: Array.isArray(filters) ? filters : [],
+		};
+	}
+
+	/**
+	 * A new search or filter changes which rows match: drop the offer and an
+	 * "all matching" selection made for the previous query.
+	 */
+	private _syncQuery(): void {
+		const query = JSON.stringify(this._getQuery());
+		if (this._query !== null && this._query !== query) {
+			this._selectAllOffered = false;
+			if (this._allMatching) {
+				this._allMatching = null;
+				this._setSelectedRows([]);
+			}
+		}
+		this._query = query;
+	}
+
+	/**
+	 * Show the offer to select all matching rows, or the "all selected"
+	 * notice, above the table.
+	 */
+	private _renderBanner(): void {
+		const settings = this._getSelectAllSettings();
+		if (!settings) return;
+
+		const total = Number(this._deps.getState().totalItems) || 0;
+		const pageCount = this._getVisibleRowIds().length;
+		if (!this._headerChecked) this._selectAllOffered = false;
+
+		let message = '';
+		let actionText = '';
+		let action: (() => void) | null = null;
+		if (this._allMatching) {
+			const count = total - this._allMatching.excluded.size;
+			message = settings.allSelected.replace('{count}', String(count));
+			actionText = settings.clear;
+			action = () => this.clearSelection();
+		} else if (this._selectAllOffered && total > pageCount) {
+			message = settings.pageSelected.replace('{count}', String(pageCount));
+			actionText = settings.selectAll.replace('{total}', String(total));
+			action = () => this.selectAllMatching();
+		}
+
+		const banner = this._getBanner();
+		while (banner.firstChild) banner.removeChild(banner.firstChild);
+		banner.hidden = !action;
+		if (!action) return;
+
+		const text = document.createElement('span');
+		text.textContent = message;
+		const button = document.createElement('button');
+		button.type = 'button';
+		button.className = 'kt-link';
+		button.setAttribute(`${SELECT_ALL_ATTR}-action`, 'true');
+		button.textContent = actionText;
+		button.onclick = action;
+		banner.append(text, ' ', button);
+	}
+
+	/**
+	 * The banner element: `[data-kt-datatable-select-all]` from the markup, or
+	 * one inserted above the table.
+	 */
+	private _getBanner(): HTMLElement {
+		if (this._banner?.isConnected) return this._banner;
+
+		let banner = this._element.querySelector<HTMLElement>(
+			`[${SELECT_ALL_ATTR}]`,
+		);
+		if (!banner) {
+			banner = document.createElement('div');
+			banner.className = 'kt-datatable-select-all';
+			banner.setAttribute(SELECT_ALL_ATTR, 'auto');
+			const anchor =
+				this._element.querySelector('.kt-table-wrapper') ??
+				this._element.querySelector('table');
+			if (anchor) {
+				anchor.before(banner);
+			} else {
+				this._element.prepend(banner);
+			}
+		}
+		banner.setAttribute('role', 'status');
+		banner.setAttribute('aria-live', 'polite');
+		this._banner = banner;
+		return banner;
 	}
 
 	public isChecked(): boolean {
@@ -214,6 +447,44 @@ export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 		return this._getSelectedRows();
 	}
 
+	public getSelection(): KTDataTableSelectionInterface {
+		if (this._allMatching && !this._allMatching.local) {
+			return {
+				mode: 'allExcept',
+				ids: Array.from(this._allMatching.excluded),
+				...this._getQuery(),
+			};
+		}
+		return { mode: 'ids', ids: this._getSelectedRows(), ...this._getQuery() };
+	}
+
+	public selectAllMatching() {
+		const matchingIds = this._deps.getMatchingIds?.() ?? null;
+		this._allMatching = {
+			excluded: new Set(),
+			local: matchingIds !== null,
+		};
+		this._selectAllOffered = false;
+		this._setSelectedRows([
+			...this._getSelectedRows(),
+			...(matchingIds ?? this._getVisibleRowIds()),
+		]);
+		this._reapplyCheckedStates();
+		this._updateHeaderCheckboxState();
+		this._fireEvent('checked', { allMatching: true });
+		this._fireEvent('changed');
+	}
+
+	public clearSelection() {
+		this._allMatching = null;
+		this._selectAllOffered = false;
+		this._setSelectedRows([]);
+		this._reapplyCheckedStates();
+		this._updateHeaderCheckboxState();
+		this._fireEvent('unchecked');
+		this._fireEvent('changed');
+	}
+
 	public check() {
 		this._change(true);
 		this._reapplyCheckedStates();
@@ -255,7 +526,18 @@ export class KTDataTableCheckboxHandler implements KTDataTableCheckboxAPI {
 			KTEventHandler.off(this._element, 'input', this._delegatedEventId);
 			this._delegatedEventId = null;
 		}
+		if (this._clickEventId) {
+			KTEventHandler.off(this._element, 'click', this._clickEventId);
+			this._clickEventId = null;
+		}
 		this._headerCheckElement = null;
 		this._targetElements = null;
 	}
+
+	public destroy() {
+		if (this._banner?.getAttribute(SELECT_ALL_ATTR) === 'auto') {
+			this._banner.remove();
+		}
+		this._banner = null;
+	}
 }
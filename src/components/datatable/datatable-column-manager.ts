@@ -0,0 +1,313 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Column visibility and ordering for KTDataTable.
+ * The table renderer always emits cells in the original column order; the
+ * manager then moves and hides cells in place (thead, tbody, tfoot and the
+ * fixed-layout <colgroup>) according to state.columnOrder / state.hiddenColumns.
+ */
+
+import {
+	KTDataTableColumnInfoInterface,
+	KTDataTableConfigInterface,
+	KTDataTableStateInterface,
+} from './types';
+import { resolveColumns } from './datatable-column-utils';
+
+export interface KTDataTableColumnManagerDeps {
+	config: KTDataTableConfigInterface;
+	getTableElement: () => HTMLTableElement;
+	getTheadElement: () => HTMLTableSectionElement;
+	getState: () => KTDataTableStateInterface;
+}
+
+interface KTDataTableColumnEntry {
+	key: string;
+	index: number;
+	th: HTMLTableCellElement | null;
+}
+
+export class KTDataTableColumnManager {
+	private _deps: KTDataTableColumnManagerDeps;
+	private _entries: KTDataTableColumnEntry[] | null = null;
+	/** Original column index of every cell moved so far, so apply() is idempotent. */
+	private _cellIndexes = new WeakMap<Element, number>();
+
+	constructor(deps: KTDataTableColumnManagerDeps) {
+		this._deps = deps;
+	}
+
+	/**
+	 * All column keys in original (markup/config) order.
+	 */
+	public getKeys(): string[] {
+		return this._getEntries().map((entry) => entry.key);
+	}
+
+	/**
+	 * Column keys in display order, including hidden columns.
+	 */
+	public getOrderedKeys(): string[] {
+		return this._getOrderedEntries().map((entry) => entry.key);
+	}
+
+	public isKnown(key: string): boolean {
+		return this.getKeys().includes(key);
+	}
+
+	/**
+	 * Normalize a requested order: unknown keys are dropped and columns missing
+	 * from the request keep their current relative order at the end.
+	 */
+	public normalizeOrder(order: string[]): string[] {
+		const keys = this.getKeys();
+		const requested = Array.from(new Set(order.map(String))).filter((key) =>
+			keys.includes(key),
+		);
+		const rest = this.getOrderedKeys().filter(
+			(key) => !requested.includes(key),
+		);
+		return [...requested, ...rest];
+	}
+
+	/**
+	 * Original column index of a header cell, or its cellIndex when unknown.
+	 */
+	public getOriginalIndex(th: HTMLTableCellElement): number {
+		const entry = this._getEntries().find((item) => item.th === th);
+		return entry ? entry.index : th.cellIndex;
+	}
+
+	/**
+	 * Header cell for an original column index.
+	 */
+	public getHeaderByIndex(index: number): HTMLTableCellElement | null {
+		return this._getEntries()[index]?.th ?? null;
+	}
+
+	/**
+	 * Fixed-layout <col> of a visible column, or null.
+	 */
+	public getColElement(key: string): HTMLTableColElement | null {
+		const entry = this._getEntries().find((item) => item.key === key);
+		const colgroup = this._deps.getTableElement().querySelector('colgroup');
+		if (!entry || !colgroup) return null;
+
+		const cols = Array.from(colgroup.querySelectorAll('col'));
+		return (
+			cols.find((col) => this._cellIndexes.get(col) === entry.index) ?? null
+		);
+	}
+
+	/**
+	 * Column key of a body cell, or null for cells outside the column grid.
+	 */
+	public getCellKey(cell: HTMLTableCellElement): string | null {
+		const index = this._cellIndexes.get(cell) ?? cell.cellIndex;
+		return this._getEntries()[index]?.key ?? null;
+	}
+
+	public getColumns(): KTDataTableColumnInfoInterface[] {
+		const hidden = this._getHiddenKeys();
+		const columns = this._deps.config.columns;
+
+		return this._getOrderedEntries().map((entry, position) => ({
+			key: entry.key,
+			title: columns?.[entry.key]?.title ?? entry.th?.textContent?.trim() ?? '',
+			visible: !hidden.includes(entry.key),
+			index: entry.index,
+			position,
+		}));
+	}
+
+	/**
+	 * Move the header cells back to their original order and unhide them,
+	 * so the renderer and column resolution see the markup as authored.
+	 */
+	public restore(): void {
+		const entries = this._getEntries();
+		const headerRow = this._getSharedHeaderRow(entries);
+
+		entries.forEach((entry) => {
+			if (!entry.th) return;
+			this._setCellHidden(entry.th, false);
+			if (headerRow) headerRow.appendChild(entry.th);
+		});
+	}
+
+	/**
+	 * Apply the state's column order and visibility to the current table DOM.
+	 */
+	public apply(): void {
+		const entries = this._getEntries();
+		if (entries.length === 0) return;
+
+		const ordered = this._getOrderedEntries();
+		const hidden = this._getHiddenKeys();
+		const tableElement = this._deps.getTableElement();
+		const headerRow = this._getSharedHeaderRow(entries);
+		const isReordered = ordered.some((entry, i) => entry.index !== i);
+
+		ordered.forEach((entry) => {
+			if (!entry.th) return;
+			this._setCellHidden(entry.th, hidden.includes(entry.key));
+			if (headerRow && isReordered) headerRow.appendChild(entry.th);
+		});
+
+		const bodyRows: HTMLTableRowElement[] = [];
+		Array.from(tableElement.tBodies).forEach((tbody) =>
+			bodyRows.push(...Array.from(tbody.rows)),
+		);
+		if (tableElement.tFoot) {
+			bodyRows.push(...Array.from(tableElement.tFoot.rows));
+		}
+
+		bodyRows.forEach((row) => {
+			const cells = Array.from(row.cells);
+			// Notice, group and detail rows span several columns; leave them as-is.
+			if (cells.length !== entries.length) return;
+
+			const byIndex = this._indexCells(cells);
+			ordered.forEach((entry) => {
+				const cell = byIndex[entry.index];
+				if (!cell) return;
+				this._setCellHidden(cell, hidden.includes(entry.key));
+				if (headerRow && isReordered) row.appendChild(cell);
+			});
+		});
+
+		this._applyColgroup(tableElement, ordered, hidden, Boolean(headerRow));
+	}
+
+	private _applyColgroup(
+		tableElement: HTMLTableElement,
+		ordered: KTDataTableColumnEntry[],
+		hidden: string[],
+		canReorder: boolean,
+	): void {
+		const colgroup = tableElement.querySelector('colgroup');
+		if (!colgroup) return;
+
+		const cols = Array.from(colgroup.querySelectorAll('col'));
+		if (cols.length !== this._getEntries().length) return;
+
+		const byIndex = this._indexCells(cols);
+		ordered.forEach((entry) => {
+			const col = byIndex[entry.index];
+			if (!col) return;
+			// Hidden cells drop out of the table grid, so their <col> must go too.
+			if (hidden.includes(entry.key)) {
+				col.remove();
+			} else if (canReorder) {
+				colgroup.appendChild(col);
+			}
+		});
+	}
+
+	/**
+	 * Map cells to their original column index. Freshly rendered rows are in
+	 * original order; rows moved by a previous apply() are looked up.
+	 */
+	private _indexCells<E extends Element>(cells: E[]): E[] {
+		const byIndex: E[] = [];
+		const known = cells.every((cell) => this._cellIndexes.has(cell));
+
+		cells.forEach((cell, position) => {
+			const index = known ? this._cellIndexes.get(cell) : position;
+			this._cellIndexes.set(cell, index);
+			byIndex[index] = cell;
+		});
+
+		return byIndex;
+	}
+
+	private _setCellHidden(cell: HTMLElement, hidden: boolean): void {
+		cell.style.display = hidden ? 'none' : '';
+		if (hidden) {
+			cell.setAttribute('data-kt-datatable-column-hidden', 'true');
+		} else {
+			cell.removeAttribute('data-kt-datatable-column-hidden');
+		}
+	}
+
+	/**
+	 * Header cells can only be reordered when they all live in one row
+	 * (multi-row headers with rowspan/colspan groups only support hiding).
+	 */
+	private _getSharedHeaderRow(
+		entries: KTDataTableColumnEntry[],
+	): HTMLTableRowElement | null {
+		const rows = new Set(entries.map((entry) => entry.th?.parentElement));
+		if (rows.size !== 1) return null;
+		const row = entries[0]?.th?.parentElement;
+		if (!(row instanceof HTMLTableRowElement)) return null;
+		return row.cells.length === entries.length ? row : null;
+	}
+
+	private _getHiddenKeys(): string[] {
+		const hidden = this._deps.getState().hiddenColumns;
+		return Array.isArray(hidden) ? hidden.map(String) : [];
+	}
+
+	private _getOrderedEntries(): KTDataTableColumnEntry[] {
+		const entries = this._getEntries();
+		const order = this._deps.getState().columnOrder;
+		if (!Array.isArray(order) || order.length === 0) {
+			return entries;
+		}
+
+		const byKey = new Map(entries.map((entry) => [entry.key, entry]));
+		const ordered: KTDataTableColumnEntry[] = [];
+		order.forEach((key) => {
+			const entry = byKey.get(String(key));
+			if (entry && !ordered.includes(entry)) ordered.push(entry);
+		});
+		entries.forEach((entry) => {
+			if (!ordered.includes(entry)) ordered.push(entry);
+		});
+		return ordered;
+	}
+
+	/**
+	 * Capture the leaf header cells once, in original order. Re-captured when
+	 * the thead was replaced (cached cells no longer attached).
+	 */
+	private _getEntries(): KTDataTableColumnEntry[] {
+		const theadElement = this._deps.getTheadElement();
+		if (
+			this._entries &&
+			this._entries.every(
+				(entry) => !entry.th || theadElement.contains(entry.th),
+			)
+		) {
+			return this._entries;
+		}
+
+		const { columnsByIndex } = resolveColumns(theadElement);
+		const configKeys = this._deps.config.columns
+			? Object.keys(this._deps.config.columns)
+			: null;
+
+		if (configKeys) {
+			this._entries = configKeys.map((key, index) => ({
+				key,
+				index,
+				th:
+					columnsByIndex.length === configKeys.length
+						? columnsByIndex[index]
+						: null,
+			}));
+		} else {
+			this._entries = columnsByIndex.map((th, index) => ({
+				key: th.getAttribute('data-kt-datatable-column') || String(index),
+				index,
+				th,
+			}));
+		}
+
+		return this._entries;
+	}
+}
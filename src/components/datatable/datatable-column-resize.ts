@@ -0,0 +1,274 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Column resizing for KTDataTable (`columnResize`, fixed table layout).
+ * Every resizable header cell gets a handle on its end edge. Dragging it
+ * resizes the column's <col> live; releasing it reports the width, which the
+ * table keeps in state.columnWidths and writes into the colgroup on every
+ * draw. Double-clicking the handle fits the column to its widest cell.
+ */
+
+import {
+	KTDataTableColumnInfoInterface,
+	KTDataTableColumnResizeConfigInterface,
+	KTDataTableConfigInterface,
+} from './types';
+
+export interface KTDataTableColumnResizeDeps {
+	config: KTDataTableConfigInterface;
+	getTableElement: () => HTMLTableElement;
+	getTheadElement: () => HTMLTableSectionElement;
+	getColumns: () => KTDataTableColumnInfoInterface[];
+	getHeaderByIndex: (index: number) => HTMLTableCellElement | null;
+	getColElement: (key: string) => HTMLTableColElement | null;
+	/** Called with the final width after a drag or auto-fit */
+	onResize: (key: string, width: number) => void;
+}
+
+const HANDLE_ATTR = 'data-kt-datatable-column-resizer';
+
+const COLUMN_RESIZE_DEFAULTS = { minWidth: 40, maxWidth: Infinity };
+
+export class KTDataTableColumnResize {
+	private _deps: KTDataTableColumnResizeDeps;
+	/** Set after a drag so the click that ends it does not sort the column */
+	private _suppressClick = false;
+
+	constructor(deps: KTDataTableColumnResizeDeps) {
+		this._deps = deps;
+	}
+
+	public isEnabled(): boolean {
+		return resolveColumnResize(this._deps.config) !== null;
+	}
+
+	/**
+	 * Add a resize handle to every resizable header cell that lacks one.
+	 */
+	public apply(): void {
+		if (!this.isEnabled()) return;
+
+		this._deps.getColumns().forEach((column) => {
+			const th = this._deps.getHeaderByIndex(column.index);
+			if (!th || !this._isResizable(column.key, th)) return;
+			if (th.querySelector(`[${HANDLE_ATTR}]`)) return;
+
+			const handle = document.createElement('span');
+			handle.className = 'kt-datatable-column-resizer';
+			handle.setAttribute(HANDLE_ATTR, column.key);
+			handle.setAttribute('aria-hidden', 'true');
+			th.appendChild(handle);
+		});
+	}
+
+	/**
+	 * Handle drags and double-clicks on the resize handles. Returns the cleanup.
+	 */
+	public attach(): () => void {
+		if (!this.isEnabled()) return () => {};
+
+		const thead = this._deps.getTheadElement();
+		let stopDrag: (() => void) | null = null;
+
+		const onPointerDown = (event: PointerEvent) => {
+			const handle = this._getHandle(event.target);
+			if (!handle || event.button !== 0) return;
+			event.preventDefault();
+			stopDrag?.();
+			stopDrag = this._startDrag(handle, event.clientX, () => {
+				stopDrag = null;
+			});
+		};
+
+		const onDblClick = (event: MouseEvent) => {
+			const handle = this._getHandle(event.target);
+			if (!handle) return;
+			event.preventDefault();
+			event.stopPropagation();
+			this._autoFit(handle.getAttribute(HANDLE_ATTR) ?? '');
+		};
+
+		// Clicks on a handle, or ending a drag, must not reach the sort handler.
+		const onClick = (event: MouseEvent) => {
+			if (this._suppressClick || this._getHandle(event.target)) {
+				this._suppressClick = false;
+				event.stopPropagation();
+			}
+		};
+
+		thead.addEventListener('pointerdown', onPointerDown);
+		thead.addEventListener('dblclick', onDblClick);
+		thead.addEventListener('click', onClick, true);
+
+		return () => {
+			thead.removeEventListener('pointerdown', onPointerDown);
+			thead.removeEventListener('dblclick', onDblClick);
+			thead.removeEventListener('click', onClick, true);
+			stopDrag?.();
+		};
+	}
+
+	/**
+	 * Follow the pointer until it is released. Returns a function that ends
+	 * the drag early (redraw) without reporting a width.
+	 */
+	private _startDrag(
+		handle: HTMLElement,
+		startX: number,
+		onEnd: () => void,
+	): () => void {
+		const key = handle.getAttribute(HANDLE_ATTR) ?? '';
+		const th = handle.closest('th') as HTMLTableCellElement;
+		const startWidth = th.getBoundingClientRect().width;
+		const direction = getComputedStyle(this._deps.getTableElement()).direction;
+		const sign = direction === 'rtl' ? -1 : 1;
+		let width = startWidth;
+
+		th.setAttribute('data-kt-datatable-column-resizing', 'true');
+
+		const onMove = (event: PointerEvent) => {
+			width = this._clamp(
+				key,
+				th,
+				startWidth + sign * (event.clientX - startX),
+			);
+			this._setColWidth(key, width);
+		};
+
+		const stop = () => {
+			window.removeEventListener('pointermove', onMove);
+			window.removeEventListener('pointerup', onUp);
+			window.removeEventListener('pointercancel', stop);
+			th.removeAttribute('data-kt-datatable-column-resizing');
+			onEnd();
+		};
+
+		const onUp = () => {
+			stop();
+			if (width !== startWidth) {
+				// The click that may follow the release is swallowed once.
+				this._suppressClick = true;
+				setTimeout(() => (this._suppressClick = false));
+				this._deps.onResize(key, Math.round(width));
+			}
+		};
+
+		window.addEventListener('pointermove', onMove);
+		window.addEventListener('pointerup', onUp);
+		window.addEventListener('pointercancel', stop);
+		return stop;
+	}
+
+	/**
+	 * Fit a column to its widest header or body cell content.
+	 */
+	private _autoFit(key: string): void {
+		const column = this._deps.getColumns().find((item) => item.key === key);
+		const th = column && this._deps.getHeaderByIndex(column.index);
+		if (!th) return;
+
+		const table = this._deps.getTableElement();
+		const position = Array.from(th.parentElement?.children ?? []).indexOf(th);
+		const cells: HTMLTableCellElement[] = [th];
+		Array.from(table.tBodies[0]?.rows ?? []).forEach((row) => {
+			// Rows with spanning cells (notices, groups, details) are skipped.
+			if (row.cells.length !== th.parentElement?.children.length) return;
+			const cell = row.cells[position];
+			if (cell) cells.push(cell);
+		});
+
+		const width = Math.max(...cells.map((cell) => measureContent(cell)));
+		this._deps.onResize(key, Math.round(this._clamp(key, th, width)));
+	}
+
+	private _setColWidth(key: string, width: number): void {
+		const col = this._deps.getColElement(key);
+		if (col) col.style.width = `${width}px`;
+	}
+
+	private _clamp(key: string, th: HTMLTableCellElement, width: number): number {
+		const settings = resolveColumnResize(this._deps.config);
+		const column = this._deps.config.columns?.[key];
+		const min =
+			column?.minWidth ??
+			readWidthAttribute(th, 'data-kt-datatable-column-min-width') ??
+			settings?.minWidth ??
+			COLUMN_RESIZE_DEFAULTS.minWidth;
+		const max =
+			column?.maxWidth ??
+			readWidthAttribute(th, 'data-kt-datatable-column-max-width') ??
+			settings?.maxWidth ??
+			COLUMN_RESIZE_DEFAULTS.maxWidth;
+		return Math.min(Math.max(width, min), Math.max(min, max));
+	}
+
+	private _isResizable(key: string, th: HTMLTableCellElement): boolean {
+		return (
+			this._deps.config.columns?.[key]?.resizable !== false &&
+			th.getAttribute('data-kt-datatable-column-resizable') !== 'false'
+		);
+	}
+
+	private _getHandle(target: EventTarget | null): HTMLElement | null {
+		return (
+			(target as Element | null)?.closest?.<HTMLElement>(`[${HANDLE_ATTR}]`) ??
+			null
+		);
+	}
+}
+
+/**
+ * Normalize `config.columnResize`, or return null when it is off.
+ * Resizing needs the fixed layout's colgroup.
+ */
+export function resolveColumnResize(
+	config: KTDataTableConfigInterface,
+): Required<KTDataTableColumnResizeConfigInterface> | null {
+	if (!config.columnResize || config.tableLayout !== 'fixed') {
+		return null;
+	}
+
+	const options =
+		typeof config.columnResize === 'object' ? config.columnResize : {};
+	const resolve = (value: number | undefined, fallback: number) =>
+		typeof value === 'number' && value >= 0 ? value : fallback;
+
+	return {
+		minWidth: resolve(options.minWidth, COLUMN_RESIZE_DEFAULTS.minWidth),
+		maxWidth: resolve(options.maxWidth, COLUMN_RESIZE_DEFAULTS.maxWidth),
+	};
+}
+
+function readWidthAttribute(
+	th: HTMLTableCellElement,
+	name: string,
+): number | undefined {
+	const value = parseFloat(th.getAttribute(name) ?? '');
+	return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Width a cell needs to show its content on one line, padding included.
+ */
+function measureContent(cell: HTMLTableCellElement): number {
+	const probe = document.createElement('span');
+	probe.style.cssText =
+		'position:absolute;visibility:hidden;white-space:nowrap;display:inline-block;width:auto;';
+	probe.innerHTML = cell.innerHTML;
+	probe.querySelectorAll(`[${HANDLE_ATTR}]`).forEach((handle) => {
+		handle.remove();
+	});
+	cell.appendChild(probe);
+	const style = getComputedStyle(cell);
+	const width =
+		probe.offsetWidth +
+		(parseFloat(style.paddingLeft) || 0) +
+		(parseFloat(style.paddingRight) || 0) +
+		(parseFloat(style.borderLeftWidth) || 0) +
+		(parseFloat(style.borderRightWidth) || 0);
+	probe.remove();
+	return width;
+}
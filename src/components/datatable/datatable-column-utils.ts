@@ -9,6 +9,14 @@
  * table-renderer, and the main datatable class.
  */
 
+/**
+ * Rows the table renders around the data rows (group headers/footers, detail
+ * rows, virtual scroll spacers, fetch error rows). They never hold data and
+ * must be skipped when reading the tbody.
+ */
+export const AUXILIARY_ROW_SELECTOR =
+	'[data-kt-datatable-group-header], [data-kt-datatable-group-footer], [data-kt-datatable-detail-row], [data-kt-datatable-virtual-spacer], [data-kt-datatable-error-row]';
+
 export interface ResolvedColumns {
 	/** All <th> elements from the thead */
 	allThs: HTMLTableCellElement[];
@@ -53,7 +61,9 @@ export function getLogicalColumnCount(
 		return Object.keys(originalData[0]).length;
 	}
 	if (tbodyElement) {
-		const firstRow = tbodyElement.querySelector<HTMLTableRowElement>('tr');
+		const firstRow = tbodyElement.querySelector<HTMLTableRowElement>(
+			`tr:not(${AUXILIARY_ROW_SELECTOR})`,
+		);
 		if (firstRow) {
 			return firstRow.querySelectorAll('td').length;
 		}
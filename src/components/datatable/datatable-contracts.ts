@@ -3,12 +3,15 @@
  * Copyright 2025 by Keenthemes Inc
  */
 
+import { KTOptionType } from '../../types';
 import {
 	KTDataTableAttributeInterface,
 	KTDataTableColumnFilterInterface,
 	KTDataTableConfigInterface,
 	KTDataTableDataInterface,
+	KTDataTableFetchErrorInterface,
 	KTDataTableInterface,
+	KTDataTableSortItemInterface,
 	KTDataTableSortOrderInterface,
 	KTDataTableStateInterface,
 	OriginalTableClasses,
@@ -31,8 +34,11 @@ export interface KTDataTableStateStore {
 		field: keyof KTDataTableDataInterface | number,
 		order: KTDataTableSortOrderInterface,
 	): void;
+	setSortStack(stack: KTDataTableSortItemInterface[]): void;
 	setSearch(search: string | object): void;
 	setFilter(filter: KTDataTableColumnFilterInterface): void;
+	removeFilter(column: string): void;
+	clearFilters(): void;
 	setOriginalData(
 		originalData: KTDataTableDataInterface[],
 		originalDataAttributes: KTDataTableAttributeInterface[],
@@ -44,13 +50,39 @@ export interface KTDataTableProviderResult<T extends KTDataTableDataInterface> {
 	totalItems: number;
 	response?: unknown;
 	skipped?: boolean;
+	/** All rows per group key before paging (local mode with `groupBy`) */
+	groups?: Map<string, T[]>;
+	/** More rows to load after `data` (cursor pagination) */
+	hasMore?: boolean;
+	/** Every row matching the search and filters (local `aggregateScope: 'filtered'`) */
+	aggregateRows?: T[];
+	/** Footer aggregate values from the response (remote mode) */
+	aggregates?: { [column: string]: KTOptionType };
+	/** Why the remote request failed; the result is also `skipped` */
+	error?: KTDataTableFetchErrorInterface;
 }
 
 export interface KTDataTableDataProvider<T extends KTDataTableDataInterface> {
 	fetch(): Promise<KTDataTableProviderResult<T>>;
+	/** Every row, or every row matching the search and filters (export) */
+	fetchAll?(options: { filtered: boolean }): Promise<T[]>;
 	dispose?(): void;
 }
 
+/**
+ * What a `dataProvider` factory receives. Providers read the page, sort,
+ * search and filters from the state store.
+ */
+export interface KTDataTableDataProviderContext {
+	config: KTDataTableConfigInterface;
+	context: KTDataTableInterface;
+	eventAdapter: KTDataTableEventAdapter;
+	stateStore: KTDataTableStateStore;
+}
+
+export type KTDataTableDataProviderFactory<T extends KTDataTableDataInterface> =
+	(context: KTDataTableDataProviderContext) => KTDataTableDataProvider<T>;
+
 export interface KTDataTableLocalProviderElements {
 	tableElement: HTMLTableElement;
 	tbodyElement: HTMLTableSectionElement;
@@ -65,6 +97,8 @@ export interface KTDataTableTableRendererInput<
 	data: T[];
 	getLogicalColumnCount: () => number;
 	getState: () => KTDataTableStateInterface;
+	/** Unpaged rows per group key, used for group counts and aggregates */
+	groups?: Map<string, T[]>;
 	originalClasses: OriginalTableClasses;
 	tableElement: HTMLTableElement;
 	theadElement: HTMLTableSectionElement;
@@ -72,17 +106,38 @@ export interface KTDataTableTableRendererInput<
 
 export interface KTDataTableTableRenderer<T extends KTDataTableDataInterface> {
 	render(input: KTDataTableTableRendererInput<T>): HTMLTableSectionElement;
+	getRowData?(row: HTMLTableRowElement): T | undefined;
+	/** Re-render one cell of a rendered row from its row data */
+	updateCell?(
+		input: Pick<KTDataTableTableRendererInput<T>, 'config' | 'context'>,
+		td: HTMLTableCellElement,
+		item: T,
+		key: string,
+		row: HTMLTableRowElement,
+	): void;
 	notice(
 		tableElement: HTMLTableElement,
 		getLogicalColumnCount: () => number,
 		message?: string,
 	): void;
+	/**
+	 * Full-width error row replacing the body rows, or appended after them
+	 * with `keepRows` (a failed "load more").
+	 */
+	error(
+		tableElement: HTMLTableElement,
+		getLogicalColumnCount: () => number,
+		content: string | HTMLElement | DocumentFragment,
+		keepRows?: boolean,
+	): HTMLTableRowElement;
 }
 
 export interface KTDataTablePaginationRendererInput {
 	config: KTDataTableConfigInterface;
 	dataLength: number;
 	infoElement?: HTMLElement | null;
+	/** Append the next batch (cursor pagination) */
+	loadMore?: () => void;
 	paginateData: (page: number) => void;
 	paginationElement?: HTMLElement | null;
 	reloadPageSize: (pageSize: number, page?: number) => void;
@@ -0,0 +1,73 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Cursor pagination for KTDataTable (remote data).
+ * The remote provider sends the cursor of the next batch and appends the
+ * rows it returns; this module resolves the config and, with
+ * `infiniteScroll`, loads the next batch when the scroll container nears
+ * its end.
+ */
+
+import {
+	KTDataTableConfigInterface,
+	KTDataTableCursorPaginationConfigInterface,
+} from './types';
+import { getScrollContainer } from './datatable-layout-plugin';
+
+const CURSOR_PAGINATION_DEFAULTS: Required<KTDataTableCursorPaginationConfigInterface> =
+	{
+		param: 'cursor',
+		infiniteScroll: false,
+		threshold: 200,
+		info: '{start}-{end} of {end}+',
+		loadMore: {
+			class: 'kt-datatable-pagination-button kt-datatable-pagination-load-more',
+			text: 'Load more',
+		},
+	};
+
+/**
+ * Normalize `config.cursorPagination`, or return null when it is off.
+ * Local tables hold every row already, so cursor pagination does not apply.
+ */
+export function resolveCursorPagination(
+	config: KTDataTableConfigInterface,
+): Required<KTDataTableCursorPaginationConfigInterface> | null {
+	const cursorPagination = config.cursorPagination;
+	if (!cursorPagination || config.apiEndpoint === undefined) {
+		return null;
+	}
+
+	const options = typeof cursorPagination === 'object' ? cursorPagination : {};
+	return {
+		...CURSOR_PAGINATION_DEFAULTS,
+		...Object.fromEntries(
+			Object.entries(options).filter(([, value]) => value !== undefined),
+		),
+	};
+}
+
+/**
+ * Call `loadMore` when the scroll container of the table is scrolled to
+ * within `threshold` pixels of its end. Returns the cleanup.
+ */
+export function attachInfiniteScroll(
+	rootElement: HTMLElement,
+	threshold: number,
+	loadMore: () => void,
+): () => void {
+	const container = getScrollContainer(rootElement);
+	const onScroll = () => {
+		const remaining =
+			container.scrollHeight - container.scrollTop - container.clientHeight;
+		if (remaining <= threshold) {
+			loadMore();
+		}
+	};
+
+	container.addEventListener('scroll', onScroll, { passive: true });
+	return () => container.removeEventListener('scroll', onScroll);
+}
@@ -0,0 +1,218 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Expandable detail rows for KTDataTable.
+ * Every rendered data row gets an expand button; expanding inserts a
+ * full-width row with `config.detailRender(rowData)` right below it.
+ * Open rows are tracked by a checksum of their data so they survive redraws
+ * (sort, column changes, refetch) while the page stays the same.
+ */
+
+import KTUtils from '../../helpers/utils';
+import {
+	KTDataTableConfigInterface,
+	KTDataTableDataInterface,
+	KTDataTableInterface,
+} from './types';
+import { KTDataTableEmit } from './datatable-contracts';
+
+export interface KTDataTableDetailRowsDeps<T extends KTDataTableDataInterface> {
+	config: KTDataTableConfigInterface;
+	context: KTDataTableInterface;
+	emit: KTDataTableEmit;
+	getTbodyElement: () => HTMLTableSectionElement;
+	getData: () => T[];
+	getRowData: (row: HTMLTableRowElement) => T | undefined;
+	/** Number of visible columns the detail cell must span */
+	getColumnCount: () => number;
+	/** Called after the tbody changed outside a draw */
+	onChange: () => void;
+}
+
+const EXPAND_SELECTOR = '[data-kt-datatable-row-expand]';
+const DETAIL_ROW_ATTR = 'data-kt-datatable-detail-row';
+
+export class KTDataTableDetailRows<T extends KTDataTableDataInterface> {
+	private _deps: KTDataTableDetailRowsDeps<T>;
+	private _expanded = new Set<string>();
+	private _page: number | null = null;
+
+	constructor(deps: KTDataTableDetailRowsDeps<T>) {
+		this._deps = deps;
+	}
+
+	public isEnabled(): boolean {
+		return typeof this._deps.config.detailRender === 'function';
+	}
+
+	/**
+	 * Add expand buttons to the freshly rendered rows and reopen the detail
+	 * rows that were open before the redraw. Changing page closes them all.
+	 */
+	public apply(page: number): void {
+		if (this._page !== page) {
+			this._expanded.clear();
+			this._page = page;
+		}
+		if (!this.isEnabled()) return;
+
+		this._getDataRows().forEach((row) => {
+			const data = this._deps.getRowData(row);
+			if (!data) return;
+
+			const expanded = this._expanded.has(this._key(data));
+			this._ensureToggle(row, expanded);
+			if (expanded) {
+				this._insertDetailRow(row, data);
+			}
+		});
+	}
+
+	/**
+	 * Handle expand button clicks on the tbody. Returns the cleanup.
+	 */
+	public attach(): () => void {
+		const tbody = this._deps.getTbodyElement();
+		const onClick = (event: Event) => {
+			const toggle = (event.target as Element | null)?.closest?.(
+				EXPAND_SELECTOR,
+			);
+			const row = toggle?.closest('tr');
+			if (!row || !tbody.contains(row)) return;
+			this.toggle(row);
+		};
+
+		tbody.addEventListener('click', onClick);
+		return () => tbody.removeEventListener('click', onClick);
+	}
+
+	public toggle(target: number | HTMLTableRowElement): void {
+		const row = this._resolveRow(target);
+		if (!row) return;
+		if (this._isExpanded(row)) {
+			this.collapse(row);
+		} else {
+			this.expand(row);
+		}
+	}
+
+	public expand(target: number | HTMLTableRowElement): void {
+		const row = this._resolveRow(target);
+		const data = row && this._deps.getRowData(row);
+		if (!this.isEnabled() || !data || this._isExpanded(row)) return;
+
+		this._expanded.add(this._key(data));
+		this._ensureToggle(row, true);
+		this._insertDetailRow(row, data);
+		this._deps.onChange();
+		this._deps.emit('expanded', { row: this._indexOf(data), data });
+	}
+
+	public collapse(target: number | HTMLTableRowElement): void {
+		const row = this._resolveRow(target);
+		const data = row && this._deps.getRowData(row);
+		if (!data || !this._isExpanded(row)) return;
+
+		this._expanded.delete(this._key(data));
+		this._removeDetailRow(row);
+		this._ensureToggle(row, false);
+		this._deps.onChange();
+		this._deps.emit('collapsed', { row: this._indexOf(data), data });
+	}
+
+	public collapseAll(): void {
+		this._getDataRows()
+			.filter((row) => this._isExpanded(row))
+			.forEach((row) => this.collapse(row));
+		this._expanded.clear();
+	}
+
+	private _key(data: T): string {
+		return KTUtils.checksum(JSON.stringify(data));
+	}
+
+	private _indexOf(data: T): number {
+		return this._deps.getData().indexOf(data);
+	}
+
+	private _getDataRows(): HTMLTableRowElement[] {
+		return Array.from(this._deps.getTbodyElement().rows).filter((row) =>
+			Boolean(this._deps.getRowData(row)),
+		);
+	}
+
+	/**
+	 * Accept a row element or a row index within the current page data.
+	 */
+	private _resolveRow(
+		target: number | HTMLTableRowElement,
+	): HTMLTableRowElement | null {
+		if (typeof target !== 'number') {
+			return target instanceof HTMLTableRowElement ? target : null;
+		}
+		const data = this._deps.getData()[target];
+		if (!data) return null;
+		return (
+			this._getDataRows().find((row) => this._deps.getRowData(row) === data) ??
+			null
+		);
+	}
+
+	private _isExpanded(row: HTMLTableRowElement): boolean {
+		return Boolean(row.nextElementSibling?.hasAttribute(DETAIL_ROW_ATTR));
+	}
+
+	/**
+	 * Reuse an expand button rendered by a column (`data-kt-datatable-row-expand`)
+	 * or prepend one to the first visible cell.
+	 */
+	private _ensureToggle(row: HTMLTableRowElement, expanded: boolean): void {
+		let toggle = row.querySelector<HTMLElement>(EXPAND_SELECTOR);
+		if (!toggle) {
+			const cell =
+				Array.from(row.cells).find((td) => td.style.display !== 'none') ??
+				row.cells[0];
+			if (!cell) return;
+			toggle = document.createElement('button');
+			toggle.setAttribute('type', 'button');
+			toggle.setAttribute('data-kt-datatable-row-expand', 'true');
+			toggle.setAttribute('aria-label', 'Toggle details');
+			cell.prepend(toggle);
+		}
+		toggle.setAttribute('aria-expanded', String(expanded));
+	}
+
+	private _insertDetailRow(row: HTMLTableRowElement, data: T): void {
+		const detailRender = this._deps.config.detailRender;
+		if (typeof detailRender !== 'function') return;
+
+		const detailRow = document.createElement('tr');
+		detailRow.setAttribute(DETAIL_ROW_ATTR, 'true');
+		const td = document.createElement('td');
+		td.colSpan = Math.max(1, this._deps.getColumnCount());
+
+		const content = detailRender.call(
+			this._deps.context,
+			data,
+			this._deps.context,
+		);
+		if (typeof content === 'string') {
+			td.innerHTML = content;
+		} else if (content) {
+			td.appendChild(content);
+		}
+
+		detailRow.appendChild(td);
+		row.after(detailRow);
+	}
+
+	private _removeDetailRow(row: HTMLTableRowElement): void {
+		const next = row.nextElementSibling;
+		if (next?.hasAttribute(DETAIL_ROW_ATTR)) {
+			next.remove();
+		}
+	}
+}
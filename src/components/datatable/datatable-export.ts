@@ -0,0 +1,188 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * CSV, TSV and JSON export for KTDataTable.
+ * Rows come from the table (current page, filtered, full or checked rows);
+ * this module picks the visible columns in display order, turns cell values
+ * into plain text (or `columns[key].exportValue`) and serializes them.
+ */
+
+import { KTOptionType } from '../../types';
+import {
+	KTDataTableColumnInfoInterface,
+	KTDataTableConfigInterface,
+	KTDataTableDataInterface,
+	KTDataTableExportFormat,
+	KTDataTableExportOptionsInterface,
+	KTDataTableExportScope,
+} from './types';
+import { getRowCheckValue } from './datatable-utils';
+
+export interface KTDataTableExporterDeps<T extends KTDataTableDataInterface> {
+	config: KTDataTableConfigInterface;
+	getColumns: () => KTDataTableColumnInfoInterface[];
+	/** Rows for a scope; 'selected' is resolved from the 'all' rows */
+	getRows: (scope: Exclude<KTDataTableExportScope, 'selected'>) => Promise<T[]>;
+	getChecked: () => string[];
+}
+
+const MIME_TYPES: Record<KTDataTableExportFormat, string> = {
+	csv: 'text/csv;charset=utf-8',
+	tsv: 'text/tab-separated-values;charset=utf-8',
+	json: 'application/json;charset=utf-8',
+};
+
+const EXPORT_SCOPES: KTDataTableExportScope[] = [
+	'page',
+	'filtered',
+	'all',
+	'selected',
+];
+
+export class KTDataTableExporter<T extends KTDataTableDataInterface> {
+	private _deps: KTDataTableExporterDeps<T>;
+
+	constructor(deps: KTDataTableExporterDeps<T>) {
+		this._deps = deps;
+	}
+
+	public async export(
+		options: KTDataTableExportOptionsInterface = {},
+	): Promise<string | Blob> {
+		const format = options.format ?? 'csv';
+		if (!MIME_TYPES[format]) {
+			throw new Error(`KTDataTable: unknown export format "${format}"`);
+		}
+
+		const scope = options.scope ?? 'filtered';
+		if (!EXPORT_SCOPES.includes(scope)) {
+			throw new Error(`KTDataTable: unknown export scope "${scope}"`);
+		}
+
+		const rows = await this._getRows(scope);
+		const text = this._serialize(format, this._getColumns(), rows);
+
+		return options.output === 'blob'
+			? new Blob([text], { type: MIME_TYPES[format] })
+			: text;
+	}
+
+	public async copyToClipboard(
+		options: Pick<KTDataTableExportOptionsInterface, 'scope'> = {},
+	): Promise<string> {
+		const clipboard =
+			typeof navigator !== 'undefined' ? navigator.clipboard : null;
+		if (!clipboard || typeof clipboard.writeText !== 'function') {
+			throw new Error('KTDataTable: clipboard is not available');
+		}
+
+		const text = (await this.export({
+			format: 'tsv',
+			scope: options.scope,
+		})) as string;
+		await clipboard.writeText(text);
+		return text;
+	}
+
+	private async _getRows(scope: KTDataTableExportScope): Promise<T[]> {
+		if (scope !== 'selected') {
+			return this._deps.getRows(scope);
+		}
+
+		const checked = new Set(this._deps.getChecked().map(String));
+		if (checked.size === 0) return [];
+
+		const rows = await this._deps.getRows('all');
+		return rows.filter((row) => {
+			const value = getRowCheckValue(row, this._deps.config);
+			return value !== null && checked.has(value);
+		});
+	}
+
+	/**
+	 * Visible columns in display order, without checkbox columns.
+	 */
+	private _getColumns(): KTDataTableColumnInfoInterface[] {
+		const columns = this._deps.config.columns;
+		return this._deps
+			.getColumns()
+			.filter((column) => column.visible && !columns?.[column.key]?.checkbox);
+	}
+
+	private _getValue(
+		row: T,
+		column: KTDataTableColumnInfoInterface,
+	): string | number | boolean {
+		const value = (
+			Object.prototype.hasOwnProperty.call(row, column.key)
+				? row[column.key]
+				: row[column.index]
+		) as KTOptionType;
+
+		const exportValue = this._deps.config.columns?.[column.key]?.exportValue;
+		if (typeof exportValue === 'function') {
+			return exportValue(value as T[keyof T], row);
+		}
+
+		if (typeof value === 'number' || typeof value === 'boolean') {
+			return value;
+		}
+		if (value === null || value === undefined || typeof value === 'object') {
+			return '';
+		}
+		return toPlainText(String(value));
+	}
+
+	private _serialize(
+		format: KTDataTableExportFormat,
+		columns: KTDataTableColumnInfoInterface[],
+		rows: T[],
+	): string {
+		if (format === 'json') {
+			return JSON.stringify(
+				rows.map((row) =>
+					Object.fromEntries(
+						columns.map((column) => [column.key, this._getValue(row, column)]),
+					),
+				),
+				null,
+				2,
+			);
+		}
+
+		const escape = format === 'csv' ? escapeCsv : escapeTsv;
+		const lines = [
+			columns.map((column) => escape(column.title)),
+			...rows.map((row) =>
+				columns.map((column) => escape(String(this._getValue(row, column)))),
+			),
+		];
+
+		return lines
+			.map((cells) => cells.join(format === 'csv' ? ',' : '\t'))
+			.join(format === 'csv' ? '\r\n' : '\n');
+	}
+}
+
+/** Cell HTML as the text a user sees (tags removed, entities decoded). */
+function toPlainText(html: string): string {
+	if (!html.includes('<') && !html.includes('&')) {
+		return html.trim();
+	}
+	const template = document.createElement('template');
+	template.innerHTML = html;
+	return (template.content.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/** Quote a CSV field when it holds a delimiter, quote or line break (RFC 4180). */
+function escapeCsv(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** TSV has no quoting; tabs and line breaks would split the cell. */
+function escapeTsv(value: string): string {
+	return value.replace(/[\t\r\n]+/g, ' ');
+}
@@ -0,0 +1,188 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Column filter matchers for KTDataTable local mode.
+ * Built-in operators are registered by default; apps can add their own
+ * matchers by type name through KTDataTable.registerFilterMatcher().
+ */
+
+import { KTDataTableDataInterface, KTDataTableFilterMatcher } from './types';
+import { parseNumber, stripHtml } from './datatable-utils';
+
+export interface KTDataTableFilterRegistry {
+	register(type: string, matcher: KTDataTableFilterMatcher): void;
+	unregister(type: string): void;
+	get(type: string): KTDataTableFilterMatcher | undefined;
+	has(type: string): boolean;
+}
+
+const TRUTHY_VALUES = ['true', '1', 'yes', 'on'];
+
+const cellText = (value: unknown): string =>
+	value === null || value === undefined ? '' : stripHtml(value).trim();
+
+/**
+ * Resolve the cell/filter pair to numbers for range comparisons. Numeric filter
+ * values compare numerically; non-numeric strings are tried as dates.
+ */
+const toComparable = (
+	cellValue: unknown,
+	filterValue: unknown,
+): [number, number] | null => {
+	const isNumericFilter =
+		typeof filterValue === 'number' ||
+		(typeof filterValue === 'string' &&
+			filterValue.trim() !== '' &&
+			!Number.isNaN(Number(filterValue)));
+
+	if (isNumericFilter) {
+		const cell = parseNumber(cellValue);
+		const target = Number(filterValue);
+		return Number.isNaN(cell) ? null : [cell, target];
+	}
+
+	if (typeof filterValue === 'string' && filterValue !== '') {
+		const cell = new Date(cellText(cellValue)).getTime();
+		const target = new Date(filterValue).getTime();
+		return Number.isNaN(cell) || Number.isNaN(target) ? null : [cell, target];
+	}
+
+	return null;
+};
+
+const isUnset = (value: unknown): boolean =>
+	value === null || value === undefined || value === '';
+
+const compareWith =
+	(predicate: (cell: number, target: number) => boolean) =>
+	(cellValue: unknown, filterValue: unknown): boolean => {
+		if (isUnset(filterValue)) return true;
+		const pair = toComparable(cellValue, filterValue);
+		return pair ? predicate(pair[0], pair[1]) : false;
+	};
+
+const greaterOrEqual = compareWith((cell, target) => cell >= target);
+const lessOrEqual = compareWith((cell, target) => cell <= target);
+
+const toList = (filterValue: unknown): string[] =>
+	(Array.isArray(filterValue) ? filterValue : [filterValue])
+		.filter((item) => item !== null && item !== undefined)
+		.map((item) => String(item));
+
+const toBoolean = (value: unknown): boolean => {
+	if (typeof value === 'boolean') return value;
+	if (typeof value === 'number') return value !== 0;
+	return TRUTHY_VALUES.includes(cellText(value).toLowerCase());
+};
+
+export const DEFAULT_FILTER_MATCHERS: Readonly<
+	Record<string, KTDataTableFilterMatcher>
+> = {
+	text: (cellValue, filterValue) => {
+		if (!filterValue) return true;
+		return stripHtml(cellValue)
+			.toLowerCase()
+			.includes(String(filterValue).toLowerCase());
+	},
+	numeric: (cellValue, filterValue) => {
+		const num = parseFloat(String(cellValue ?? '').replace(/[^0-9.-]/g, ''));
+		return !Number.isNaN(num) && num === filterValue;
+	},
+	dateRange: (cellValue, filterValue) => {
+		const range = filterValue as { from?: string; to?: string };
+		if (!range?.from && !range?.to) return true;
+		const cellDate = new Date(String(cellValue ?? ''));
+		if (Number.isNaN(cellDate.getTime())) return false;
+		if (range.from && cellDate < new Date(range.from)) return false;
+		if (range.to && cellDate > new Date(range.to)) return false;
+		return true;
+	},
+	between: (cellValue, filterValue) => {
+		const range = filterValue as {
+			min?: number | string;
+			max?: number | string;
+		};
+		if (!range) return true;
+		return (
+			greaterOrEqual(cellValue, range.min) && lessOrEqual(cellValue, range.max)
+		);
+	},
+	gt: compareWith((cell, target) => cell > target),
+	gte: greaterOrEqual,
+	lt: compareWith((cell, target) => cell < target),
+	lte: lessOrEqual,
+	in: (cellValue, filterValue) => {
+		const list = toList(filterValue);
+		return list.length === 0 || list.includes(cellText(cellValue));
+	},
+	notIn: (cellValue, filterValue) =>
+		!toList(filterValue).includes(cellText(cellValue)),
+	startsWith: (cellValue, filterValue) => {
+		if (!filterValue) return true;
+		return cellText(cellValue)
+			.toLowerCase()
+			.startsWith(String(filterValue).toLowerCase());
+	},
+	isEmpty: (cellValue, filterValue) => {
+		const empty = cellText(cellValue) === '';
+		return filterValue === false ? !empty : empty;
+	},
+	boolean: (cellValue, filterValue) => {
+		if (isUnset(filterValue)) return true;
+		return toBoolean(cellValue) === toBoolean(filterValue);
+	},
+};
+
+export function createFilterRegistry(
+	defaults: Readonly<
+		Record<string, KTDataTableFilterMatcher>
+	> = DEFAULT_FILTER_MATCHERS,
+): KTDataTableFilterRegistry {
+	const matchers = new Map<string, KTDataTableFilterMatcher>(
+		Object.entries(defaults),
+	);
+
+	function register(type: string, matcher: KTDataTableFilterMatcher): void {
+		if (!type || typeof matcher !== 'function') {
+			throw new Error(
+				'KTDataTable: a filter type name and matcher function are required',
+			);
+		}
+		matchers.set(type, matcher);
+	}
+
+	function unregister(type: string): void {
+		matchers.delete(type);
+	}
+
+	function get(type: string): KTDataTableFilterMatcher | undefined {
+		return matchers.get(type);
+	}
+
+	function has(type: string): boolean {
+		return matchers.has(type);
+	}
+
+	return { register, unregister, get, has };
+}
+
+/** Shared registry used by every KTDataTable instance. */
+export const datatableFilterRegistry = createFilterRegistry();
+
+/**
+ * Check a row against every filter. Unknown filter types are ignored so a
+ * missing custom matcher never hides data.
+ */
+export function matchesFilters(
+	row: KTDataTableDataInterface,
+	filters: { column: string | number; type: string; value?: unknown }[],
+	registry: KTDataTableFilterRegistry = datatableFilterRegistry,
+): boolean {
+	return filters.every((filter) => {
+		const matcher = registry.get(filter.type);
+		return matcher ? matcher(row[filter.column], filter.value, row) : true;
+	});
+}
@@ -0,0 +1,422 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Filter row for KTDataTable (`filterRow`).
+ * A second thead row holds one cell per column; columns with a `filter`
+ * control get a text input, a number or date range, or a select of the
+ * column's distinct values with row counts. Controls set and remove column
+ * filters through the table. The row is built once and kept across draws;
+ * each draw re-orders and hides its cells like the header and syncs the
+ * controls with state.filters.
+ */
+
+import {
+	KTDataTableColumnFilterInterface,
+	KTDataTableColumnInfoInterface,
+	KTDataTableConfigInterface,
+	KTDataTableDataInterface,
+	KTDataTableFilterControlInterface,
+	KTDataTableFilterControlType,
+	KTDataTableFilterRowConfigInterface,
+	KTDataTableStateInterface,
+} from './types';
+import { DEFAULT_SEARCH_DELAY } from './datatable-defaults';
+import { stripHtml } from './datatable-utils';
+
+export interface KTDataTableFilterRowDeps<T extends KTDataTableDataInterface> {
+	config: KTDataTableConfigInterface;
+	getTheadElement: () => HTMLTableSectionElement;
+	getState: () => KTDataTableStateInterface;
+	getColumns: () => KTDataTableColumnInfoInterface[];
+	getHeaderByIndex: (index: number) => HTMLTableCellElement | null;
+	/**
+	 * Rows to take select values from: local rows matching every filter but
+	 * the column's own (counts are shown), or null to use the loaded rows.
+	 */
+	getFacetRows: (column: string) => T[] | null;
+	getData: () => T[];
+	/** Set the column's filter, or remove it with null, and reload */
+	setFilter: (
+		column: string,
+		filter: KTDataTableColumnFilterInterface | null,
+	) => void;
+	clearFilters: () => void;
+}
+
+const ROW_ATTR = 'data-kt-datatable-filter-row';
+const CELL_ATTR = 'data-kt-datatable-filter-cell';
+const CONTROL_ATTR = 'data-kt-datatable-filter-control';
+const CLEAR_ATTR = 'data-kt-datatable-clear-filters';
+
+const CONTROL_TYPES: KTDataTableFilterControlType[] = [
+	'text',
+	'numberRange',
+	'dateRange',
+	'select',
+];
+
+interface KTDataTableFilterRowCell {
+	key: string;
+	control: KTDataTableFilterControlInterface | null;
+	cell: HTMLTableCellElement;
+}
+
+export class KTDataTableFilterRow<T extends KTDataTableDataInterface> {
+	private _deps: KTDataTableFilterRowDeps<T>;
+	private _row: HTMLTableRowElement | null = null;
+	private _cells: KTDataTableFilterRowCell[] = [];
+	private _timers = new Map<string, number>();
+
+	constructor(deps: KTDataTableFilterRowDeps<T>) {
+		this._deps = deps;
+	}
+
+	public isEnabled(): boolean {
+		return resolveFilterRow(this._deps.config) !== null;
+	}
+
+	/**
+	 * Build the row on first use, then match the header's column order and
+	 * visibility and show the current filters.
+	 */
+	public apply(): void {
+		const settings = resolveFilterRow(this._deps.config);
+		if (!settings) return;
+
+		const columns = this._deps.getColumns();
+		const row = this._ensureRow(columns, settings);
+		if (!row) return;
+
+		columns.forEach((column) => {
+			const entry = this._cells.find((item) => item.key === column.key);
+			if (!entry) return;
+			row.appendChild(entry.cell);
+			entry.cell.style.display = column.visible ? '' : 'none';
+			if (entry.control) {
+				this._syncControl(entry, settings);
+			}
+		});
+
+		const hasFilters = (this._deps.getState().filters ?? []).length > 0;
+		row
+			.querySelectorAll<HTMLButtonElement>(`[${CLEAR_ATTR}]`)
+			.forEach((button) => (button.disabled = !hasFilters));
+	}
+
+	/**
+	 * Remove the row and pending debounced updates.
+	 */
+	public destroy(): void {
+		this._timers.forEach((timer) => clearTimeout(timer));
+		this._timers.clear();
+		this._row?.remove();
+		this._row = null;
+		this._cells = [];
+	}
+
+	private _ensureRow(
+		columns: KTDataTableColumnInfoInterface[],
+		settings: Required<KTDataTableFilterRowConfigInterface>,
+	): HTMLTableRowElement | null {
+		const thead = this._deps.getTheadElement();
+		if (this._row && thead.contains(this._row)) {
+			return this._row;
+		}
+
+		const headerRow = thead.rows[thead.rows.length - 1];
+		if (!headerRow) return null;
+
+		const row = document.createElement('tr');
+		row.setAttribute(ROW_ATTR, 'true');
+		this._cells = columns.map((column) => {
+			const cell = document.createElement('td');
+			cell.setAttribute(CELL_ATTR, column.key);
+			const control = this._getControl(column);
+			if (control) {
+				cell.appendChild(this._createControl(column, control, settings));
+			}
+			return { key: column.key, control, cell };
+		});
+
+		// The clear button goes into the first column without a control.
+		const clearCell =
+			this._cells.find((entry) => !entry.control) ??
+			this._cells[this._cells.length - 1];
+		if (clearCell) {
+			const button = document.createElement('button');
+			button.type = 'button';
+			button.className = 'kt-btn kt-btn-sm kt-btn-ghost';
+			button.setAttribute(CLEAR_ATTR, 'true');
+			button.textContent = settings.clearText;
+			button.addEventListener('click', () => {
+				this._timers.forEach((timer) => clearTimeout(timer));
+				this._timers.clear();
+				this._deps.clearFilters();
+			});
+			clearCell.cell.appendChild(button);
+		}
+
+		headerRow.after(row);
+		this._row = row;
+		return row;
+	}
+
+	private _getControl(
+		column: KTDataTableColumnInfoInterface,
+	): KTDataTableFilterControlInterface | null {
+		const configured = this._deps.config.columns?.[column.key]?.filter;
+		const value =
+			configured ??
+			this._deps
+				.getHeaderByIndex(column.index)
+				?.getAttribute('data-kt-datatable-column-filter');
+		if (!value) return null;
+
+		const control = typeof value === 'object' ? value : { type: value };
+		return CONTROL_TYPES.includes(control.type as KTDataTableFilterControlType)
+			? (control as KTDataTableFilterControlInterface)
+			: null;
+	}
+
+	private _createControl(
+		column: KTDataTableColumnInfoInterface,
+		control: KTDataTableFilterControlInterface,
+		settings: Required<KTDataTableFilterRowConfigInterface>,
+	): HTMLElement {
+		const label = `Filter ${column.title}`.trim();
+
+		if (control.type === 'select') {
+			const select = document.createElement('select');
+			select.className = 'kt-select kt-select-sm';
+			select.setAttribute(CONTROL_ATTR, 'select');
+			select.setAttribute('aria-label', label);
+			select.addEventListener('change', () => this._update(column.key, 0));
+			return select;
+		}
+
+		if (control.type === 'text') {
+			const input = this._createInput(
+				'text',
+				'text',
+				label,
+				control.placeholder,
+			);
+			input.addEventListener('input', () =>
+				this._update(column.key, settings.delay),
+			);
+			return input;
+		}
+
+		const type = control.type === 'numberRange' ? 'number' : 'date';
+		const wrapper = document.createElement('div');
+		wrapper.className = 'kt-datatable-filter-range';
+		(['min', 'max'] as const).forEach((bound) => {
+			const input = this._createInput(
+				type,
+				bound,
+				`${label} ${bound === 'min' ? 'from' : 'to'}`,
+				bound === 'min' ? (control.placeholder ?? 'Min') : 'Max',
+			);
+			input.addEventListener('input', () =>
+				this._update(column.key, settings.delay),
+			);
+			wrapper.appendChild(input);
+		});
+		return wrapper;
+	}
+
+	private _createInput(
+		type: string,
+		name: string,
+		label: string,
+		placeholder?: string,
+	): HTMLInputElement {
+		const input = document.createElement('input');
+		input.type = type;
+		input.className = 'kt-input kt-input-sm';
+		input.setAttribute(CONTROL_ATTR, name);
+		input.setAttribute('aria-label', label);
+		if (placeholder) input.placeholder = placeholder;
+		return input;
+	}
+
+	/**
+	 * Read the column's controls into a filter, after `delay` milliseconds.
+	 */
+	private _update(key: string, delay: number): void {
+		clearTimeout(this._timers.get(key));
+		const run = () => {
+			this._timers.delete(key);
+			const entry = this._cells.find((item) => item.key === key);
+			if (entry?.control) {
+				this._deps.setFilter(key, this._readFilter(entry));
+			}
+		};
+
+		if (delay > 0) {
+			this._timers.set(key, window.setTimeout(run, delay));
+		} else {
+			run();
+		}
+	}
+
+	private _readFilter(
+		entry: KTDataTableFilterRowCell,
+	): KTDataTableColumnFilterInterface | null {
+		const column = entry.key as keyof KTDataTableDataInterface;
+		const value = (name: string) =>
+			entry.cell
+				.querySelector<HTMLInputElement>(`[${CONTROL_ATTR}="${name}"]`)
+				?.value.trim() ?? '';
+
+		switch (entry.control?.type) {
+			case 'text':
+				return value('text')
+					? { column, type: 'text', value: value('text') }
+					: null;
+			case 'select':
+				return value('select')
+					? { column, type: 'in', value: [value('select')] }
+					: null;
+			case 'numberRange': {
+				const min = value('min');
+				const max = value('max');
+				if (min === '' && max === '') return null;
+				return {
+					column,
+					type: 'between',
+					value: {
+						...(min !== '' && { min: Number(min) }),
+						...(max !== '' && { max: Number(max) }),
+					},
+				};
+			}
+			case 'dateRange': {
+				const from = value('min');
+				const to = value('max');
+				return from || to
+					? { column, type: 'dateRange', value: { from, to } }
+					: null;
+			}
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Show the column's current filter in its controls. A control the user is
+	 * typing in keeps its value.
+	 */
+	private _syncControl(
+		entry: KTDataTableFilterRowCell,
+		settings: Required<KTDataTableFilterRowConfigInterface>,
+	): void {
+		const filter = (this._deps.getState().filters ?? []).find(
+			(item) => String(item.column) === entry.key,
+		);
+		const set = (name: string, value: unknown) => {
+			const element = entry.cell.querySelector<
+				HTMLInputElement | HTMLSelectElement
+			>(`[${CONTROL_ATTR}="${name}"]`);
+			if (element && element !== document.activeElement) {
+				element.value =
+					value === undefined || value === null ? '' : String(value);
+			}
+		};
+		const value = (filter?.value ?? {}) as Record<string, unknown>;
+
+		switch (entry.control?.type) {
+			case 'text':
+				set('text', filter?.type === 'text' ? filter.value : '');
+				break;
+			case 'numberRange':
+				set('min', filter?.type === 'between' ? value.min : '');
+				set('max', filter?.type === 'between' ? value.max : '');
+				break;
+			case 'dateRange':
+				set('min', filter?.type === 'dateRange' ? value.from : '');
+				set('max', filter?.type === 'dateRange' ? value.to : '');
+				break;
+			case 'select': {
+				const selected =
+					filter?.type === 'in' && Array.isArray(filter.value)
+						? String(filter.value[0] ?? '')
+						: '';
+				this._renderOptions(entry, selected, settings);
+				set('select', selected);
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Fill a select with the configured or distinct values of its column.
+	 */
+	private _renderOptions(
+		entry: KTDataTableFilterRowCell,
+		selected: string,
+		settings: Required<KTDataTableFilterRowConfigInterface>,
+	): void {
+		const select = entry.cell.querySelector('select');
+		if (!select) return;
+
+		const facetRows = this._deps.getFacetRows(entry.key);
+		const rows = facetRows ?? this._deps.getData();
+		const counts = new Map<string, number>();
+		rows.forEach((row) => {
+			const text = cellText(row[entry.key as keyof T]);
+			if (text !== '') counts.set(text, (counts.get(text) ?? 0) + 1);
+		});
+
+		const options = (
+			entry.control?.options ??
+			Array.from(counts.keys()).sort((a, b) =>
+				a.localeCompare(b, undefined, { numeric: true }),
+			)
+		).map((option) =>
+			typeof option === 'string' ? { value: option, label: option } : option,
+		);
+		if (selected && !options.some((option) => option.value === selected)) {
+			options.push({ value: selected, label: selected });
+		}
+
+		const showCounts = settings.counts && facetRows !== null;
+		select.replaceChildren(
+			new Option(settings.allText, ''),
+			...options.map((option) => {
+				const label = option.label ?? option.value;
+				return new Option(
+					showCounts ? `${label} (${counts.get(option.value) ?? 0})` : label,
+					option.value,
+				);
+			}),
+		);
+	}
+}
+
+/**
+ * Normalize `config.filterRow`, or return null when it is off.
+ */
+export function resolveFilterRow(
+	config: KTDataTableConfigInterface,
+): Required<KTDataTableFilterRowConfigInterface> | null {
+	if (!config.filterRow) {
+		return null;
+	}
+
+	const options = typeof config.filterRow === 'object' ? config.filterRow : {};
+	const delay = options.delay ?? config.search?.delay ?? DEFAULT_SEARCH_DELAY;
+	return {
+		delay: Number.isFinite(delay) && delay >= 0 ? delay : DEFAULT_SEARCH_DELAY,
+		clearText: options.clearText ?? 'Clear',
+		allText: options.allText ?? 'All',
+		counts: options.counts !== false,
+	};
+}
+
+function cellText(value: unknown): string {
+	return value === null || value === undefined ? '' : stripHtml(value).trim();
+}
@@ -0,0 +1,141 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Footer aggregates for KTDataTable (`columns[key].aggregate`).
+ * Every draw replaces one <tfoot> row holding a cell per column, in original
+ * column order, before the column manager orders and hides the cells. Local
+ * tables aggregate the page or every matching row (`aggregateScope`); remote
+ * tables show the `aggregates` of the response.
+ */
+
+import { KTOptionType } from '../../types';
+import {
+	KTDataTableAggregate,
+	KTDataTableAggregateName,
+	KTDataTableConfigInterface,
+	KTDataTableDataInterface,
+} from './types';
+import {
+	AGGREGATE_FUNCTIONS,
+	computeAggregate,
+	formatAggregate,
+} from './datatable-grouping';
+
+export interface KTDataTableFooterAggregatesDeps<
+	T extends KTDataTableDataInterface,
+> {
+	config: KTDataTableConfigInterface;
+	getTableElement: () => HTMLTableElement;
+	/** Column keys in original order */
+	getColumnKeys: () => string[];
+	getHeaderByIndex: (index: number) => HTMLTableCellElement | null;
+	/** Rows to aggregate locally: the page, or every matching row */
+	getRows: () => T[];
+	/** Values from the remote response, which win over local computation */
+	getAggregates: () => { [column: string]: KTOptionType } | undefined;
+}
+
+const ROW_ATTR = 'data-kt-datatable-aggregate-row';
+const CELL_ATTR = 'data-kt-datatable-aggregate';
+
+export class KTDataTableFooterAggregates<T extends KTDataTableDataInterface> {
+	private _deps: KTDataTableFooterAggregatesDeps<T>;
+	/** Set when the table had no <tfoot> and this feature added one */
+	private _createdFoot = false;
+
+	constructor(deps: KTDataTableFooterAggregatesDeps<T>) {
+		this._deps = deps;
+	}
+
+	public isEnabled(): boolean {
+		return this._getAggregates().size > 0;
+	}
+
+	/**
+	 * Replace the aggregate row with values for the current data.
+	 */
+	public apply(): void {
+		const aggregates = this._getAggregates();
+		if (aggregates.size === 0) {
+			this.destroy();
+			return;
+		}
+
+		const table = this._deps.getTableElement();
+		if (!table.tFoot) {
+			table.createTFoot();
+			this._createdFoot = true;
+		}
+
+		const rows = this._deps.getRows();
+		const remote = this._deps.getAggregates();
+		const row = document.createElement('tr');
+		row.setAttribute(ROW_ATTR, 'true');
+
+		this._deps.getColumnKeys().forEach((column) => {
+			const td = document.createElement('td');
+			const aggregate = aggregates.get(column);
+			if (aggregate) {
+				const value =
+					remote && column in remote
+						? remote[column]
+						: computeAggregate(aggregate, column, rows);
+				td.setAttribute(CELL_ATTR, column);
+				const render = this._deps.config.columns?.[column]?.renderAggregate;
+				const result =
+					typeof render === 'function'
+						? render(value, column, rows)
+						: formatAggregate(value);
+				if (typeof result === 'string') {
+					td.innerHTML = result;
+				} else {
+					td.appendChild(result);
+				}
+			}
+			row.appendChild(td);
+		});
+
+		const previous = table.tFoot?.querySelector(`tr[${ROW_ATTR}]`);
+		if (previous) {
+			previous.replaceWith(row);
+		} else {
+			table.tFoot?.appendChild(row);
+		}
+	}
+
+	/**
+	 * Remove the aggregate row, and the <tfoot> when it was added for it.
+	 */
+	public destroy(): void {
+		const table = this._deps.getTableElement();
+		table?.tFoot?.querySelector(`tr[${ROW_ATTR}]`)?.remove();
+		if (this._createdFoot && table?.tFoot?.rows.length === 0) {
+			table.deleteTFoot();
+		}
+		this._createdFoot = false;
+	}
+
+	/**
+	 * Aggregate per column key, from `columns[key].aggregate` or the
+	 * `data-kt-datatable-column-aggregate` attribute of its header.
+	 */
+	private _getAggregates(): Map<string, KTDataTableAggregate> {
+		const aggregates = new Map<string, KTDataTableAggregate>();
+		this._deps.getColumnKeys().forEach((column, index) => {
+			const configured = this._deps.config.columns?.[column]?.aggregate;
+			const attribute = this._deps
+				.getHeaderByIndex(index)
+				?.getAttribute('data-kt-datatable-column-aggregate');
+			const aggregate =
+				configured ??
+				(attribute && attribute in AGGREGATE_FUNCTIONS
+					? (attribute as KTDataTableAggregateName)
+					: undefined);
+			if (aggregate) aggregates.set(column, aggregate);
+		});
+		return aggregates;
+	}
+}
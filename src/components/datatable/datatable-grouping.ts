@@ -0,0 +1,133 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Row grouping helpers for KTDataTable.
+ * The local provider makes each group contiguous (after search, filters and
+ * sort, before paging); the table renderer then emits a header row whenever
+ * the group value changes and an optional aggregate footer after each group.
+ */
+
+import { KTOptionType } from '../../types';
+import {
+	KTDataTableAggregate,
+	KTDataTableAggregateName,
+	KTDataTableConfigInterface,
+	KTDataTableDataInterface,
+	KTDataTableGroupByConfigInterface,
+	KTDataTableStateInterface,
+} from './types';
+import { parseNumber, stripHtml } from './datatable-utils';
+
+const toNumbers = (values: unknown[]): number[] =>
+	values.map(parseNumber).filter((value) => !Number.isNaN(value));
+
+export const AGGREGATE_FUNCTIONS: Readonly<
+	Record<KTDataTableAggregateName, (values: unknown[]) => number | ''>
+> = {
+	sum: (values) => toNumbers(values).reduce((total, value) => total + value, 0),
+	avg: (values) => {
+		const numbers = toNumbers(values);
+		if (numbers.length === 0) return '';
+		return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+	},
+	count: (values) => values.length,
+	min: (values) => {
+		const numbers = toNumbers(values);
+		return numbers.length ? Math.min(...numbers) : '';
+	},
+	max: (values) => {
+		const numbers = toNumbers(values);
+		return numbers.length ? Math.max(...numbers) : '';
+	},
+};
+
+/**
+ * Normalize `config.groupBy` (column shorthand or object) or return null when
+ * grouping is off.
+ */
+export function resolveGroupBy(
+	config: KTDataTableConfigInterface,
+): KTDataTableGroupByConfigInterface | null {
+	const groupBy = config.groupBy;
+	if (groupBy === undefined || groupBy === null || groupBy === '') {
+		return null;
+	}
+	if (typeof groupBy === 'object') {
+		return groupBy.column === undefined || groupBy.column === null
+			? null
+			: groupBy;
+	}
+	return { column: groupBy };
+}
+
+/** Plain-text group key of a row. */
+export function getGroupKey(
+	row: KTDataTableDataInterface,
+	column: KTDataTableGroupByConfigInterface['column'],
+): string {
+	const value = row[column as string];
+	return value === null || value === undefined ? '' : stripHtml(value).trim();
+}
+
+/**
+ * Collect rows per group key. Groups keep the order in which they first
+ * appear and rows keep their order inside a group, so the current sort
+ * decides both; flattening the map makes every group contiguous.
+ */
+export function collectGroups<T extends KTDataTableDataInterface>(
+	data: T[],
+	column: KTDataTableGroupByConfigInterface['column'],
+): Map<string, T[]> {
+	const groups = new Map<string, T[]>();
+	data.forEach((row) => {
+		const key = getGroupKey(row, column);
+		const rows = groups.get(key);
+		if (rows) {
+			rows.push(row);
+		} else {
+			groups.set(key, [row]);
+		}
+	});
+	return groups;
+}
+
+export function isGroupCollapsed(
+	state: KTDataTableStateInterface,
+	groupBy: KTDataTableGroupByConfigInterface,
+	key: string,
+): boolean {
+	if (groupBy.collapsible === false) return false;
+	const collapsed = state.collapsedGroups?.[key];
+	return typeof collapsed === 'boolean'
+		? collapsed
+		: groupBy.collapsed === true;
+}
+
+/**
+ * Compute one aggregate over a group's rows. Unknown aggregate names yield ''.
+ */
+export function computeAggregate<T extends KTDataTableDataInterface>(
+	aggregate: KTDataTableAggregate<T>,
+	column: string,
+	rows: T[],
+): KTOptionType {
+	const values = rows.map((row) => row[column as keyof T]);
+	if (typeof aggregate === 'function') {
+		return aggregate(values, rows);
+	}
+	const fn = AGGREGATE_FUNCTIONS[aggregate];
+	return fn ? fn(values) : '';
+}
+
+/** Default text of an aggregate cell: numbers rounded to two decimals. */
+export function formatAggregate(value: unknown): string {
+	if (typeof value === 'number') {
+		return Number.isInteger(value)
+			? String(value)
+			: String(Math.round(value * 100) / 100);
+	}
+	return value === null || value === undefined ? '' : String(value);
+}
@@ -0,0 +1,351 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Keyboard grid navigation for KTDataTable (`keyboardNavigation`), following
+ * the ARIA grid pattern. The table becomes a single tab stop: one cell holds
+ * tabindex="0" and arrow keys, Home/End and PageUp/PageDown move it.
+ * Enter activates the link, button or checkbox in the cell, Space toggles
+ * the row checkbox. Rows carry `aria-rowindex` counted across pages, so the
+ * focused position survives redraws and page changes.
+ */
+
+import { AUXILIARY_ROW_SELECTOR } from './datatable-column-utils';
+import { KTDataTableConfigInterface, KTDataTableStateInterface } from './types';
+
+export interface KTDataTableKeyboardNavigationDeps {
+	config: KTDataTableConfigInterface;
+	getTableElement: () => HTMLTableElement;
+	getState: () => KTDataTableStateInterface;
+	/** Number of data rows before the first rendered row (earlier pages, virtual window) */
+	getRowOffset: () => number;
+	goPage: (page: number) => void;
+}
+
+const FOCUSABLE_SELECTOR =
+	'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+/** Cell content that Enter activates */
+const ACTION_SELECTOR =
+	'a[href], button:not([disabled]), input[type="checkbox"]:not([disabled])';
+
+/** Widgets that need the arrow keys themselves */
+const TEXT_ENTRY_SELECTOR =
+	'input:not([type="checkbox"]):not([type="radio"]), select, textarea, [contenteditable="true"]';
+
+export class KTDataTableKeyboardNavigation {
+	private _deps: KTDataTableKeyboardNavigationDeps;
+	/** Focused position: aria-rowindex of the row and visible column index */
+	private _position = { row: 1, column: 0 };
+	private _restoreFocus = false;
+
+	constructor(deps: KTDataTableKeyboardNavigationDeps) {
+		this._deps = deps;
+	}
+
+	public isEnabled(): boolean {
+		return Boolean(this._deps.config.keyboardNavigation);
+	}
+
+	/**
+	 * Set the grid roles and row indexes on the freshly rendered table and
+	 * move the tab stop (and focus, if the grid had it) back to the current
+	 * position.
+	 */
+	public apply(): void {
+		if (!this.isEnabled()) return;
+
+		const table = this._deps.getTableElement();
+		const state = this._deps.getState();
+		const headerRows = table.tHead?.rows.length ?? 0;
+
+		table.setAttribute('role', 'grid');
+		table.setAttribute(
+			'aria-rowcount',
+			String(state.hasMore ? -1 : headerRows + (state.totalItems ?? 0)),
+		);
+
+		const offset = headerRows + this._deps.getRowOffset();
+		this._getRows().forEach((row, index) => {
+			const isHeader = row.parentElement === table.tHead;
+			row.setAttribute(
+				'aria-rowindex',
+				String(isHeader ? index + 1 : offset + index - headerRows + 1),
+			);
+			Array.from(row.cells).forEach((cell) => {
+				cell.tabIndex = -1;
+				cell
+					.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)
+					.forEach((element) => (element.tabIndex = -1));
+			});
+		});
+
+		const cell = this._getCell(this._position.row, this._position.column);
+		if (!cell) return;
+		cell.tabIndex = 0;
+		this._position = this._positionOf(cell);
+		if (this._restoreFocus) {
+			cell.focus();
+		}
+		this._restoreFocus = false;
+	}
+
+	/**
+	 * Handle keys and focus changes on the table. Returns the cleanup.
+	 */
+	public attach(): () => void {
+		if (!this.isEnabled()) return () => {};
+
+		const table = this._deps.getTableElement();
+
+		const onKeyDown = (event: KeyboardEvent) => {
+			// The cell editor handles its own keys.
+			if (event.defaultPrevented) return;
+			if (event.key === 'Escape' && this._leaveField(event.target)) {
+				event.preventDefault();
+				return;
+			}
+			const cell = this._getEventCell(event.target);
+			if (!cell) return;
+			if (this._handleKey(event, cell)) {
+				event.preventDefault();
+			}
+		};
+
+		const onFocusIn = (event: FocusEvent) => {
+			const cell = this._getEventCell(event.target);
+			if (cell) this._setTabStop(cell);
+		};
+
+		table.addEventListener('keydown', onKeyDown);
+		table.addEventListener('focusin', onFocusIn);
+
+		return () => {
+			table.removeEventListener('keydown', onKeyDown);
+			table.removeEventListener('focusin', onFocusIn);
+			// The rows are about to be replaced; bring focus back after the redraw.
+			this._restoreFocus = table.contains(document.activeElement);
+		};
+	}
+
+	private _handleKey(
+		event: KeyboardEvent,
+		cell: HTMLTableCellElement,
+	): boolean {
+		const { row, column } = this._positionOf(cell);
+		const rows = this._getRows();
+		const first = this._rowIndex(rows[0]);
+		const last = this._rowIndex(rows[rows.length - 1]);
+		const onCell = event.target === cell;
+
+		switch (event.key) {
+			case 'ArrowRight':
+				return this._moveTo(row, column + 1);
+			case 'ArrowLeft':
+				return this._moveTo(row, column - 1);
+			case 'ArrowDown':
+				return this._moveTo(this._nextRowIndex(row, 1), column);
+			case 'ArrowUp':
+				return this._moveTo(this._nextRowIndex(row, -1), column);
+			case 'Home':
+				return this._moveTo(event.ctrlKey ? first : row, 0);
+			case 'End':
+				return this._moveTo(event.ctrlKey ? last : row, Infinity);
+			case 'PageDown':
+				return this._changePage(1, row, column, last);
+			case 'PageUp':
+				return this._changePage(
+					-1,
+					row,
+					column,
+					this._nextRowIndex(this._headerRowCount(), 1),
+				);
+			case 'Enter':
+				return onCell && this._activate(cell);
+			case ' ':
+			case 'Spacebar':
+				return onCell && this._toggleRowCheckbox(cell);
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Go to the next or previous page, keeping the row position and column.
+	 * Without such a page, move to `fallbackRow` instead.
+	 */
+	private _changePage(
+		step: 1 | -1,
+		row: number,
+		column: number,
+		fallbackRow: number,
+	): boolean {
+		const { page, pageSize, totalPages } = this._deps.getState();
+		const target = page + step;
+		const isDataRow = row > this._headerRowCount();
+		if (!isDataRow || target < 1 || target > totalPages) {
+			return this._moveTo(fallbackRow, column);
+		}
+
+		this._position = { row: row + step * pageSize, column };
+		this._restoreFocus = true;
+		this._deps.goPage(target);
+		return true;
+	}
+
+	private _moveTo(row: number, column: number): boolean {
+		const cell = this._getCell(row, column);
+		if (cell) {
+			this._setTabStop(cell);
+			cell.focus();
+		}
+		return true;
+	}
+
+	private _activate(cell: HTMLTableCellElement): boolean {
+		const action = cell.querySelector<HTMLElement>(ACTION_SELECTOR);
+		if (action) {
+			action.click();
+			return true;
+		}
+		// Text fields (e.g. the filter row) take the focus; Escape gives it back.
+		const field = cell.querySelector<HTMLElement>(TEXT_ENTRY_SELECTOR);
+		if (field) {
+			field.focus();
+			return true;
+		}
+		// Sortable headers sort on click.
+		if (cell.tagName === 'TH') {
+			cell.click();
+			return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Move the focus from a text field back to its cell.
+	 */
+	private _leaveField(target: EventTarget | null): boolean {
+		const element = target as Element | null;
+		if (!element?.matches?.(TEXT_ENTRY_SELECTOR)) return false;
+		const cell = element.closest<HTMLTableCellElement>('th, td');
+		if (
+			!cell ||
+			!this._getRows().includes(cell.parentElement as HTMLTableRowElement)
+		) {
+			return false;
+		}
+		cell.focus();
+		return true;
+	}
+
+	private _toggleRowCheckbox(cell: HTMLTableCellElement): boolean {
+		const attributes = this._deps.config.attributes;
+		const selector =
+			cell.parentElement?.parentElement === this._deps.getTableElement().tHead
+				? attributes?.check
+				: attributes?.checkbox;
+		const checkbox =
+			selector && cell.parentElement?.querySelector<HTMLInputElement>(selector);
+		if (!checkbox || checkbox.disabled) return false;
+		checkbox.click();
+		return true;
+	}
+
+	private _setTabStop(cell: HTMLTableCellElement): void {
+		this._deps
+			.getTableElement()
+			.querySelectorAll<HTMLElement>('th[tabindex="0"], td[tabindex="0"]')
+			.forEach((element) => {
+				if (element !== cell) element.tabIndex = -1;
+			});
+		cell.tabIndex = 0;
+		this._position = this._positionOf(cell);
+	}
+
+	/**
+	 * The cell for a position. Rows and columns out of range clamp to the
+	 * nearest rendered row and the last visible column.
+	 */
+	private _getCell(row: number, column: number): HTMLTableCellElement | null {
+		const rows = this._getRows();
+		if (rows.length === 0) return null;
+
+		const target = rows.reduce((best, candidate) =>
+			Math.abs(this._rowIndex(candidate) - row) <
+			Math.abs(this._rowIndex(best) - row)
+				? candidate
+				: best,
+		);
+		const cells = this._getCells(target);
+		return cells[Math.min(Math.max(0, column), cells.length - 1)] ?? null;
+	}
+
+	/** aria-rowindex of the row `step` rows away, or `row` at the edges */
+	private _nextRowIndex(row: number, step: 1 | -1): number {
+		const indexes = this._getRows().map((item) => this._rowIndex(item));
+		const position = indexes.indexOf(row);
+		return indexes[position + step] ?? row;
+	}
+
+	private _positionOf(cell: HTMLTableCellElement): {
+		row: number;
+		column: number;
+	} {
+		const row = cell.parentElement as HTMLTableRowElement;
+		return {
+			row: this._rowIndex(row),
+			column: Math.max(0, this._getCells(row).indexOf(cell)),
+		};
+	}
+
+	private _rowIndex(row: HTMLTableRowElement): number {
+		return Number(row.getAttribute('aria-rowindex')) || 0;
+	}
+
+	private _headerRowCount(): number {
+		return this._deps.getTableElement().tHead?.rows.length ?? 0;
+	}
+
+	/**
+	 * Header and data rows. Group, detail, spacer and error rows are not part
+	 * of the grid (their controls keep the normal tab order), so row indexes
+	 * count data rows only.
+	 */
+	private _getRows(): HTMLTableRowElement[] {
+		const table = this._deps.getTableElement();
+		return [
+			...Array.from(table.tHead?.rows ?? []),
+			...Array.from(table.tBodies[0]?.rows ?? []),
+		].filter((row) => !row.matches(AUXILIARY_ROW_SELECTOR));
+	}
+
+	private _getCells(row: HTMLTableRowElement): HTMLTableCellElement[] {
+		return Array.from(row.cells).filter(
+			(cell) => !cell.hasAttribute('data-kt-datatable-column-hidden'),
+		);
+	}
+
+	/**
+	 * The grid cell an event belongs to. Text inputs inside a cell keep
+	 * their keys.
+	 */
+	private _getEventCell(
+		target: EventTarget | null,
+	): HTMLTableCellElement | null {
+		const element = target as Element | null;
+		const cell = element?.closest?.<HTMLTableCellElement>('th, td');
+		if (
+			!cell ||
+			!this._getRows().includes(cell.parentElement as HTMLTableRowElement)
+		) {
+			return null;
+		}
+		if (element !== cell && element?.matches(TEXT_ENTRY_SELECTOR)) {
+			return null;
+		}
+		return cell;
+	}
+}
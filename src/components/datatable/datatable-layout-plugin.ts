@@ -60,7 +60,7 @@ const hasLockedLayoutConfig = (config: KTDataTableConfigInterface): boolean => {
 	);
 };
 
-const getScrollContainer = (rootElement: HTMLElement): HTMLElement => {
+export const getScrollContainer = (rootElement: HTMLElement): HTMLElement => {
 	return (
 		rootElement.closest<HTMLElement>('.kt-table-wrapper') ||
 		rootElement.querySelector<HTMLElement>('.kt-table-wrapper') ||
@@ -264,6 +264,7 @@ const applyStickyRows = (
 const getColumnIndexMap = (
 	theadElement: HTMLTableSectionElement,
 	config: KTDataTableConfigInterface,
+	columnKeys?: string[],
 ): Map<string, number> => {
 	const map = new Map<string, number>();
 	const typedHeaders = Array.from(
@@ -283,7 +284,7 @@ const getColumnIndexMap = (
 	}
 
 	if (config.columns) {
-		Object.keys(config.columns).forEach((key, index) => {
+		(columnKeys ?? Object.keys(config.columns)).forEach((key, index) => {
 			map.set(key, index);
 		});
 	}
@@ -309,6 +310,7 @@ const applyStickyColumns = (
 	tableElement: HTMLTableElement,
 	theadElement: HTMLTableSectionElement,
 	config: KTDataTableConfigInterface,
+	columnKeys?: string[],
 ): void => {
 	const lockedColumns = config.lockedLayout?.stickyColumns;
 	if (!lockedColumns) {
@@ -316,7 +318,7 @@ const applyStickyColumns = (
 	}
 
 	const direction = getDirection(tableElement);
-	const columnMap = getColumnIndexMap(theadElement, config);
+	const columnMap = getColumnIndexMap(theadElement, config, columnKeys);
 
 	let leftOffset = 0;
 	(lockedColumns.left || []).forEach((key) => {
@@ -405,7 +407,12 @@ export const createStickyLayoutPlugin =
 					useCollapsedBorders,
 				);
 
-				applyStickyColumns(ctx.tableElement, ctx.theadElement, ctx.config);
+				applyStickyColumns(
+					ctx.tableElement,
+					ctx.theadElement,
+					ctx.config,
+					ctx.columnKeys,
+				);
 			} finally {
 				isApplying = false;
 			}
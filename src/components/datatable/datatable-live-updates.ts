@@ -0,0 +1,324 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Live updates for KTDataTable (subscribe()).
+ * Feeds deliver insert, update and delete messages keyed by row id. Updates
+ * are written into the row object and its rendered cells in place. Inserts,
+ * deletes and updates of sorted, filtered or grouped columns also run sort,
+ * filters and paging again, as `liveUpdates.reapply` says: local tables
+ * redraw from their rows, remote tables reload the page.
+ */
+
+import {
+	KTDataTableConfigInterface,
+	KTDataTableDataInterface,
+	KTDataTableLiveIteratorInterface,
+	KTDataTableLiveMessageInterface,
+	KTDataTableLiveSource,
+	KTDataTableLiveUpdatesConfigInterface,
+	KTDataTableStateInterface,
+} from './types';
+import { KTDataTableEmit } from './datatable-contracts';
+import { getSortStack } from './datatable-sort';
+import { resolveGroupBy } from './datatable-grouping';
+import { getRowId } from './datatable-utils';
+
+export interface KTDataTableLiveUpdatesDeps<
+	T extends KTDataTableDataInterface,
+> {
+	config: KTDataTableConfigInterface;
+	emit: KTDataTableEmit;
+	getState: () => KTDataTableStateInterface;
+	getTbodyElement: () => HTMLTableSectionElement;
+	getRowData: (row: HTMLTableRowElement) => T | undefined;
+	getCellKey: (cell: HTMLTableCellElement) => string | null;
+	updateCell: (
+		cell: HTMLTableCellElement,
+		rowData: T,
+		key: string,
+		row: HTMLTableRowElement,
+	) => void;
+	/** Every row of a local table; null when the server holds the rows */
+	getRows: () => T[] | null;
+	setRows: (rows: T[]) => void;
+	/** Rows of the current page */
+	getData: () => T[];
+	/** Run sort, filters and paging again */
+	reapply: () => void;
+	/** Called after the tbody changed outside a draw */
+	onChange: () => void;
+}
+
+const LIVE_UPDATES_DEFAULTS: Required<KTDataTableLiveUpdatesConfigInterface> = {
+	reapply: 'debounce',
+	delay: 1000,
+	highlightClass: '',
+	highlightDuration: 2000,
+};
+
+export class KTDataTableLiveUpdates<T extends KTDataTableDataInterface> {
+	private _deps: KTDataTableLiveUpdatesDeps<T>;
+	private _subscriptions: Array<() => void> = [];
+	private _reapplyTimer: ReturnType<typeof setTimeout> | null = null;
+	private _highlightTimers: Array<ReturnType<typeof setTimeout>> = [];
+	/** Highlight end time per row id, so redraws keep the class */
+	private _highlights = new Map<string, number>();
+
+	constructor(deps: KTDataTableLiveUpdatesDeps<T>) {
+		this._deps = deps;
+	}
+
+	/**
+	 * Listen to a feed until the returned function is called.
+	 */
+	public subscribe(source: KTDataTableLiveSource): () => void {
+		let unsubscribe: () => void;
+
+		if ('addEventListener' in source) {
+			const listener = (event: MessageEvent) => this._receive(event.data);
+			source.addEventListener('message', listener);
+			unsubscribe = () => source.removeEventListener('message', listener);
+		} else {
+			// Async iterables are read through their iterator.
+			const asyncIterator = (Symbol as unknown as { asyncIterator?: symbol })
+				.asyncIterator;
+			const feed = source as KTDataTableLiveIteratorInterface & {
+				[key: symbol]: () => KTDataTableLiveIteratorInterface;
+			};
+			const iterator =
+				typeof feed.next !== 'function' && asyncIterator
+					? feed[asyncIterator]()
+					: feed;
+			let stopped = false;
+			const read = (): void => {
+				iterator.next().then(
+					(result) => {
+						if (stopped || result.done) return;
+						this._receive(result.value);
+						read();
+					},
+					() => {
+						// a failing feed ends the subscription
+					},
+				);
+			};
+			read();
+			unsubscribe = () => {
+				stopped = true;
+				Promise.resolve(iterator.return?.()).catch((): void => undefined);
+			};
+		}
+
+		const stop = () => {
+			if (!this._subscriptions.includes(stop)) return;
+			this._subscriptions = this._subscriptions.filter((item) => item !== stop);
+			unsubscribe();
+		};
+		this._subscriptions.push(stop);
+		return stop;
+	}
+
+	/**
+	 * Highlight the freshly rendered rows that changed recently.
+	 */
+	public apply(): void {
+		const className = this._getOptions().highlightClass;
+		if (!className || this._highlights.size === 0) return;
+
+		const now = Date.now();
+		this._getRenderedRows().forEach(({ tr, rowData }) => {
+			const until = this._highlights.get(getRowId(rowData, this._deps.config));
+			if (until !== undefined && until > now) {
+				tr.classList.add(className);
+			}
+		});
+	}
+
+	public destroy(): void {
+		[...this._subscriptions].forEach((stop) => stop());
+		clearTimeout(this._reapplyTimer);
+		this._reapplyTimer = null;
+		this._highlightTimers.forEach((timer) => clearTimeout(timer));
+		this._highlightTimers = [];
+		this._highlights.clear();
+	}
+
+	/**
+	 * Apply a message, an array of messages, or either one as JSON.
+	 */
+	private _receive(data: unknown): void {
+		let messages = data;
+		if (typeof data === 'string') {
+			try {
+				messages = JSON.parse(data);
+			} catch {
+				return;
+			}
+		}
+
+		let reapply = false;
+		(Array.isArray(messages) ? messages : [messages]).forEach((message) => {
+			if (message && typeof message === 'object') {
+				reapply =
+					this._apply(message as KTDataTableLiveMessageInterface<T>) || reapply;
+			}
+		});
+
+		this._deps.onChange();
+		if (reapply) this._scheduleReapply();
+	}
+
+	/**
+	 * @returns Whether sort, filters and paging must run again
+	 */
+	private _apply(message: KTDataTableLiveMessageInterface<T>): boolean {
+		const { config, emit } = this._deps;
+		const rows = this._deps.getRows();
+
+		if (message.type === 'insert') {
+			if (!message.row) return false;
+			const row = { ...message.row } as T;
+			if (rows) this._deps.setRows([...rows, row]);
+			this._highlight(getRowId(row, config));
+			emit('dataChange', { type: 'add', rows: [row] });
+			return true;
+		}
+
+		const id =
+			message.id !== undefined && message.id !== null
+				? String(message.id)
+				: message.row
+					? getRowId(message.row, config)
+					: null;
+		const row = (rows ?? this._deps.getData()).find(
+			(item) => getRowId(item, config) === id,
+		);
+		if (id === null || !row) return false;
+
+		if (message.type === 'update') {
+			if (!message.row) return false;
+			const keys = Object.keys(message.row);
+			Object.assign(row, message.row);
+			this._getRenderedRows(row).forEach(({ tr }) => {
+				Array.from(tr.cells).forEach((cell) => {
+					const key = this._deps.getCellKey(cell);
+					if (key !== null && keys.includes(key)) {
+						this._deps.updateCell(cell, row, key, tr);
+					}
+				});
+			});
+			this._highlight(id);
+			emit('dataChange', { type: 'update', rows: [row] });
+			return this._affectsOrder(keys);
+		}
+
+		if (message.type === 'delete') {
+			if (rows) this._deps.setRows(rows.filter((item) => item !== row));
+			const data = this._deps.getData();
+			if (data.includes(row)) data.splice(data.indexOf(row), 1);
+			this._getRenderedRows(row).forEach(({ tr }) => tr.remove());
+			this._highlights.delete(id);
+			emit('dataChange', { type: 'remove', rows: [row] });
+			return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * Whether changed columns decide the order, the matching rows or the
+	 * groups. With a search, any column may.
+	 */
+	private _affectsOrder(keys: string[]): boolean {
+		const state = this._deps.getState();
+		if (state.search) return true;
+
+		const columns = getSortStack(state).map((item) => String(item.field));
+		(state.filters ?? []).forEach((filter) =>
+			columns.push(String(filter.column)),
+		);
+		const groupBy = resolveGroupBy(this._deps.config);
+		if (groupBy) columns.push(String(groupBy.column));
+
+		return keys.some((key) => columns.includes(key));
+	}
+
+	private _scheduleReapply(): void {
+		const { reapply, delay } = this._getOptions();
+		if (reapply === 'manual') return;
+
+		// Messages of one burst are applied together, even with 'immediate'.
+		clearTimeout(this._reapplyTimer);
+		this._reapplyTimer = setTimeout(
+			() => {
+				this._reapplyTimer = null;
+				this._deps.reapply();
+			},
+			reapply === 'immediate' ? 0 : delay,
+		);
+	}
+
+	private _highlight(id: string | null): void {
+		const { highlightClass, highlightDuration } = this._getOptions();
+		if (!highlightClass || id === null) return;
+
+		const until = Date.now() + highlightDuration;
+		this._highlights.set(id, until);
+		this.apply();
+
+		const timer = setTimeout(() => {
+			this._highlightTimers = this._highlightTimers.filter(
+				(item) => item !== timer,
+			);
+			// A later highlight of the row removes it with its own timer. Timers
+			// may fire a millisecond early, so compare deadlines, not the clock.
+			if (this._highlights.get(id) !== until) return;
+			this._highlights.delete(id);
+			this._getRenderedRows().forEach(({ tr, rowData }) => {
+				if (getRowId(rowData, this._deps.config) === id) {
+					tr.classList.remove(highlightClass);
+				}
+			});
+		}, highlightDuration);
+		this._highlightTimers.push(timer);
+	}
+
+	/**
+	 * Rendered data rows with their row objects, optionally only those of
+	 * one row.
+	 */
+	private _getRenderedRows(
+		only?: T,
+	): Array<{ tr: HTMLTableRowElement; rowData: T }> {
+		const tbody = this._deps.getTbodyElement();
+		if (!tbody) return [];
+
+		return Array.from(tbody.rows)
+			.map((tr) => ({ tr, rowData: this._deps.getRowData(tr) }))
+			.filter(
+				(item): item is { tr: HTMLTableRowElement; rowData: T } =>
+					item.rowData !== undefined &&
+					(only === undefined || item.rowData === only),
+			);
+	}
+
+	private _getOptions(): Required<KTDataTableLiveUpdatesConfigInterface> {
+		const options = this._deps.config.liveUpdates ?? {};
+		const resolve = (value: number | undefined, fallback: number) =>
+			typeof value === 'number' && value >= 0 ? value : fallback;
+
+		return {
+			reapply: options.reapply ?? LIVE_UPDATES_DEFAULTS.reapply,
+			delay: resolve(options.delay, LIVE_UPDATES_DEFAULTS.delay),
+			highlightClass:
+				options.highlightClass ?? LIVE_UPDATES_DEFAULTS.highlightClass,
+			highlightDuration: resolve(
+				options.highlightDuration,
+				LIVE_UPDATES_DEFAULTS.highlightDuration,
+			),
+		};
+	}
+}
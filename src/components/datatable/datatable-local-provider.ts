@@ -6,6 +6,7 @@
 import KTUtils from '../../helpers/utils';
 import {
 	KTDataTableAttributeInterface,
+	KTDataTableColumnFilterInterface,
 	KTDataTableConfigInterface,
 	KTDataTableDataInterface,
 } from './types';
@@ -15,32 +16,13 @@ import {
 	KTDataTableProviderResult,
 	KTDataTableStateStore,
 } from './datatable-contracts';
-import { resolveColumns } from './datatable-column-utils';
-import { stripHtml } from './datatable-utils';
-
-type FilterMatcher = (cellValue: unknown, filterValue: unknown) => boolean;
-
-const FILTER_MATCHERS: Record<string, FilterMatcher> = {
-	text: (cellValue, filterValue) => {
-		if (!filterValue) return true;
-		return stripHtml(cellValue)
-			.toLowerCase()
-			.includes(String(filterValue).toLowerCase());
-	},
-	numeric: (cellValue, filterValue) => {
-		const num = parseFloat(String(cellValue ?? '').replace(/[^0-9.-]/g, ''));
-		return !Number.isNaN(num) && num === filterValue;
-	},
-	dateRange: (cellValue, filterValue) => {
-		const range = filterValue as { from?: string; to?: string };
-		if (!range?.from && !range?.to) return true;
-		const cellDate = new Date(String(cellValue ?? ''));
-		if (Number.isNaN(cellDate.getTime())) return false;
-		if (range.from && cellDate < new Date(range.from)) return false;
-		if (range.to && cellDate > new Date(range.to)) return false;
-		return true;
-	},
-};
+import {
+	AUXILIARY_ROW_SELECTOR,
+	resolveColumns,
+} from './datatable-column-utils';
+import { matchesFilters } from './datatable-filter-registry';
+import { getSortStack } from './datatable-sort';
+import { collectGroups, resolveGroupBy } from './datatable-grouping';
 
 interface KTDataTableLocalProviderOptions {
 	config: KTDataTableConfigInterface;
@@ -53,26 +35,112 @@ interface KTDataTableLocalProviderOptions {
 export class KTDataTableLocalDataProvider<
 	T extends KTDataTableDataInterface,
 > implements KTDataTableDataProvider<T> {
+	/** Set once rows came from `config.data` or setRows(), not the table body */
+	private hasOwnRows = false;
+
 	constructor(private readonly options: KTDataTableLocalProviderOptions) {}
 
+	/**
+	 * Use the given rows from now on, instead of reading the table body.
+	 */
+	public setRows(rows: T[]): void {
+		this.hasOwnRows = true;
+		this.options.stateStore.setOriginalData(
+			rows,
+			rows.map(() => ({}) as KTDataTableAttributeInterface),
+		);
+	}
+
 	public async fetch(): Promise<KTDataTableProviderResult<T>> {
 		return this.fetchSync();
 	}
 
-	public fetchSync(): KTDataTableProviderResult<T> {
+	/**
+	 * @param options.paged Slice the current page (default); false returns every
+	 * matching row, e.g. for virtual scrolling.
+	 */
+	public fetchSync(
+		options: { paged?: boolean } = {},
+	): KTDataTableProviderResult<T> {
+		const { data, totalItems, groups } = this.query();
+		const { page, pageSize } = this.options.stateStore.getState();
+
+		return {
+			data:
+				options.paged !== false && data.length > 0
+					? data.slice((page - 1) * pageSize, page * pageSize)
+					: data,
+			totalItems,
+			groups,
+			aggregateRows:
+				this.options.config.aggregateScope === 'filtered' ? data : undefined,
+		};
+	}
+
+	/**
+	 * All rows matching the current search and filters, in display order
+	 * (sorted and grouped), without paging.
+	 */
+	public fetchFiltered(): T[] {
+		return this.fetchSync({ paged: false }).data;
+	}
+
+	/**
+	 * Rows matching the current search and every filter except the given
+	 * column's own, unsorted. Used for filter row value counts.
+	 */
+	public fetchFacet(column: string): T[] {
+		const { originalData, search, filters } =
+			this.options.stateStore.getState();
+		return this.applySearchAndFilters(
+			[...((originalData ?? []) as T[])],
+			search,
+			(filters ?? []).filter((filter) => String(filter.column) !== column),
+		);
+	}
+
+	private applySearchAndFilters(
+		data: T[],
+		search: string | object,
+		filters: KTDataTableColumnFilterInterface[] | undefined,
+	): T[] {
+		if (search) {
+			const searchTerm = typeof search === 'string' ? search : '';
+			const searchCallback = this.options.config.search?.callback;
+			if (searchCallback) {
+				data = searchCallback.call(this, data, searchTerm) as T[];
+			}
+		}
+
+		// Apply column filters
+		if (filters && filters.length > 0) {
+			data = data.filter((item: T) => matchesFilters(item, filters)) as T[];
+		}
+
+		return data;
+	}
+
+	private query(): KTDataTableProviderResult<T> {
 		const state = this.options.stateStore.getState();
 		let { originalData } = state;
 		const skipDomInvalidation = Boolean(
 			this.options.config.lockedLayout || this.options.config.layoutPlugin,
 		);
 
+		// `config.data` wins over rows restored with the saved state.
+		if (!this.hasOwnRows && Array.isArray(this.options.config.data)) {
+			this.options.storeOriginalClasses();
+			this.setRows([...this.options.config.data] as T[]);
+		}
+
 		if (
-			!this.options.elements().tableElement ||
-			originalData === undefined ||
-			(!skipDomInvalidation &&
-				(this.tableConfigInvalidate() ||
-					this.localTableHeaderInvalidate() ||
-					this.localTableContentInvalidate()))
+			!this.hasOwnRows &&
+			(!this.options.elements().tableElement ||
+				originalData === undefined ||
+				(!skipDomInvalidation &&
+					(this.tableConfigInvalidate() ||
+						this.localTableHeaderInvalidate() ||
+						this.localTableContentInvalidate())))
 		) {
 			const { originalData, originalDataAttributes } =
 				this.localExtractTableContent();
@@ -84,35 +152,16 @@ export class KTDataTableLocalDataProvider<
 		}
 
 		originalData = this.options.stateStore.getState().originalData;
-		let data = [...originalData] as T[];
-		let filteredData = data;
-
-		const { sortField, sortOrder, page, pageSize, search } =
-			this.options.stateStore.getState();
 
-		if (search) {
-			const searchTerm = typeof search === 'string' ? search : '';
-			const searchCallback = this.options.config.search?.callback;
-			if (searchCallback) {
-				filteredData = data = searchCallback.call(
-					this,
-					data,
-					searchTerm,
-				) as T[];
-			}
-		}
+		const currentState = this.options.stateStore.getState();
+		const { sortField, sortOrder, search, filters } = currentState;
 
-		// Apply column filters
-		const { filters } = this.options.stateStore.getState();
-		if (filters && filters.length > 0) {
-			filteredData = data = data.filter((item: T) => {
-				return filters.every((filter) => {
-					const cellValue = item[filter.column as keyof T];
-					const matcher = FILTER_MATCHERS[filter.type];
-					return matcher ? matcher(cellValue, filter.value) : true;
-				});
-			}) as T[];
-		}
+		let data = this.applySearchAndFilters(
+			[...originalData] as T[],
+			search,
+			filters,
+		);
+		const filteredData = data;
 
 		const sortCallback = this.options.config.sort?.callback;
 		if (
@@ -126,18 +175,22 @@ export class KTDataTableLocalDataProvider<
 				data,
 				sortField as string,
 				sortOrder,
+				getSortStack(currentState),
 			) as T[];
 		}
 
-		if (data?.length > 0) {
-			const startIndex = (page - 1) * pageSize;
-			const endIndex = startIndex + pageSize;
-			data = data.slice(startIndex, endIndex) as T[];
+		// Grouping runs after sort and before paging, so pages count data rows.
+		const groupBy = resolveGroupBy(this.options.config);
+		let groups: Map<string, T[]> | undefined;
+		if (groupBy) {
+			groups = collectGroups(data, groupBy.column);
+			data = Array.from(groups.values()).flat();
 		}
 
 		return {
 			data,
 			totalItems: filteredData.length,
+			groups,
 		};
 	}
 
@@ -148,8 +201,9 @@ export class KTDataTableLocalDataProvider<
 		);
 
 		if (this.options.stateStore.getState()._contentChecksum !== checksum) {
-			const domRowCount =
-				tbodyElement.querySelectorAll<HTMLTableRowElement>('tr').length;
+			const domRowCount = tbodyElement.querySelectorAll<HTMLTableRowElement>(
+				`tr:not(${AUXILIARY_ROW_SELECTOR})`,
+			).length;
 			const storedRowCount =
 				this.options.stateStore.getState().originalData?.length ?? 0;
 
@@ -205,7 +259,9 @@ export class KTDataTableLocalDataProvider<
 
 		this.options.storeOriginalClasses();
 
-		const rows = tbodyElement.querySelectorAll<HTMLTableRowElement>('tr');
+		const rows = tbodyElement.querySelectorAll<HTMLTableRowElement>(
+			`tr:not(${AUXILIARY_ROW_SELECTOR})`,
+		);
 		const { columnsByIndex } = resolveColumns(theadElement);
 
 		rows.forEach((row: HTMLTableRowElement) => {
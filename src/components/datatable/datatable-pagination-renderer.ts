@@ -12,6 +12,7 @@ import {
 	DEFAULT_PAGE_MORE_LIMIT,
 	DEFAULT_PAGE_SIZES,
 } from './datatable-defaults';
+import { resolveCursorPagination } from './datatable-cursor-pagination';
 
 export class KTDataTableDomPaginationRenderer implements KTDataTablePaginationRenderer {
 	public render(
@@ -81,12 +82,60 @@ export class KTDataTableDomPaginationRenderer implements KTDataTablePaginationRe
 			return null;
 		}
 
-		this.setPaginationInfoText(input);
-		this.createPaginationButtons(input.paginationElement, input);
+		if (resolveCursorPagination(input.config)) {
+			this.setCursorInfoText(input);
+			this.createLoadMoreButton(input.paginationElement, input);
+		} else {
+			this.setPaginationInfoText(input);
+			this.createPaginationButtons(input.paginationElement, input);
+		}
 
 		return input.paginationElement;
 	}
 
+	/**
+	 * Loaded rows are always shown from the first one. While the server has
+	 * more rows and did not send a total, the cursor info template is used.
+	 */
+	private setCursorInfoText(input: KTDataTablePaginationRendererInput): void {
+		const cursorPagination = resolveCursorPagination(input.config);
+		if (!input.infoElement || !cursorPagination) {
+			return;
+		}
+
+		const { hasMore, totalItems } = input.state;
+		const totalKnown = !hasMore || totalItems > input.dataLength;
+		const infoTemplate = totalKnown
+			? (input.config.info ?? '{start}-{end} of {total}')
+			: cursorPagination.info;
+		input.infoElement.textContent = infoTemplate
+			.replace('{start}', '1')
+			.replace(/\{end\}/g, String(input.dataLength))
+			.replace('{total}', String(totalItems));
+	}
+
+	private createLoadMoreButton(
+		paginationContainer: HTMLElement,
+		input: KTDataTablePaginationRendererInput,
+	): void {
+		const cursorPagination = resolveCursorPagination(input.config);
+		if (!cursorPagination || !input.state.hasMore || !input.loadMore) {
+			return;
+		}
+
+		const loadMore = input.loadMore;
+		const button = document.createElement('button') as HTMLButtonElement;
+		button.type = 'button';
+		button.className = cursorPagination.loadMore.class;
+		button.innerHTML = cursorPagination.loadMore.text;
+		button.setAttribute('data-kt-datatable-load-more', 'true');
+		button.onclick = () => {
+			button.disabled = true;
+			loadMore();
+		};
+		paginationContainer.appendChild(button);
+	}
+
 	private setPaginationInfoText(
 		input: KTDataTablePaginationRendererInput,
 	): void {
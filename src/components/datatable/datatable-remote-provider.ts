@@ -7,6 +7,11 @@ import {
 	KTDataTableColumnFilterInterface,
 	KTDataTableConfigInterface,
 	KTDataTableDataInterface,
+	KTDataTableFetchErrorInterface,
+	KTDataTableFetchErrorType,
+	KTDataTableRequestRetryConfigInterface,
+	KTDataTableResponseDataInterface,
+	KTDataTableStateInterface,
 } from './types';
 import {
 	KTDataTableDataProvider,
@@ -14,83 +19,308 @@ import {
 	KTDataTableProviderResult,
 	KTDataTableStateStore,
 } from './datatable-contracts';
+import { getSortStack } from './datatable-sort';
+import { resolveGroupBy } from './datatable-grouping';
+import { resolveCursorPagination } from './datatable-cursor-pagination';
+import {
+	KTDataTableRequestCache,
+	resolveRequestCache,
+} from './datatable-request-cache';
 
 interface KTDataTableRemoteProviderOptions {
 	config: KTDataTableConfigInterface;
 	createUrl: (pathOrUrl: string) => URL;
 	eventAdapter: KTDataTableEventAdapter;
-	noticeOnTable: (message?: string) => void;
 	stateStore: KTDataTableStateStore;
+	/** A stale cached response of the current query was replaced (`staleWhileRevalidate`) */
+	onRevalidate?: () => void;
 }
 
+/** One request's outcome; null when it was superseded or aborted. */
+type KTDataTableFetchAttempt =
+	| { responseData: KTDataTableResponseDataInterface }
+	| { error: KTDataTableFetchErrorInterface }
+	| null;
+
+const REQUEST_RETRY_DEFAULTS: Required<KTDataTableRequestRetryConfigInterface> =
+	{ retries: 2, delay: 500, maxDelay: 8000 };
+
+/** Upper bound on the requests of fetchAll(), against servers that page forever */
+const FETCH_ALL_MAX_PAGES = 1000;
+
 export class KTDataTableRemoteDataProvider<
 	T extends KTDataTableDataInterface,
 > implements KTDataTableDataProvider<T> {
 	private abortController: AbortController | null = null;
 	private requestId = 0;
+	/** Rows loaded so far and the cursor of the next batch (cursor pagination) */
+	private cursorRows: T[] = [];
+	private nextCursor: string | null = null;
+	/** Cached responses and the background requests filling them (`requestCache`) */
+	private cache: KTDataTableRequestCache | null = null;
+	private pending = new Map<
+		string,
+		Promise<KTDataTableResponseDataInterface | null>
+	>();
+	private backgroundControllers: AbortController[] = [];
 
 	constructor(private readonly options: KTDataTableRemoteProviderOptions) {}
 
 	public dispose(): void {
+		// Pending retries see a newer request and stop.
+		this.requestId++;
 		if (this.abortController) {
 			this.abortController.abort();
 			this.abortController = null;
 		}
+		this.backgroundControllers.forEach((controller) => controller.abort());
+		this.backgroundControllers = [];
+		this.pending.clear();
+	}
+
+	/**
+	 * @param options.refresh Skip the cached response (`requestCache`)
+	 */
+	public fetch(
+		options: { refresh?: boolean } = {},
+	): Promise<KTDataTableProviderResult<T>> {
+		return this.fetchBatch(false, options.refresh === true);
+	}
+
+	/**
+	 * Fetch the batch after `nextCursor` and append it to the rows loaded so
+	 * far (cursor pagination).
+	 */
+	public fetchMore(): Promise<KTDataTableProviderResult<T>> {
+		return this.fetchBatch(true);
+	}
+
+	/**
+	 * Fetch the page after the current one into the cache, unless it is
+	 * cached or on its way already (`requestCache.prefetch`).
+	 */
+	public prefetch(): void {
+		const cache = this.getCache();
+		if (!cache || !resolveRequestCache(this.options.config)?.prefetch) {
+			return;
+		}
+
+		const state = this.options.stateStore.getState();
+		if (state.page >= state.totalPages) return;
+
+		const queryParams = this.getQueryParamsForFetchRequest({
+			...state,
+			page: state.page + 1,
+		});
+		const key = queryParams.toString();
+		if (!cache.isFresh(key)) {
+			void this.fetchInBackground(key, queryParams);
+		}
+	}
+
+	public clearCache(): void {
+		this.cache?.clear();
+	}
+
+	public invalidate(predicate: (params: URLSearchParams) => boolean): void {
+		this.cache?.invalidate(predicate);
 	}
 
-	public async fetch(): Promise<KTDataTableProviderResult<T>> {
+	private async fetchBatch(
+		append: boolean,
+		refresh: boolean = false,
+	): Promise<KTDataTableProviderResult<T>> {
 		const currentRequestId = ++this.requestId;
-		const queryParams = this.getQueryParamsForFetchRequest();
+		const queryParams = this.getQueryParamsForFetchRequest(
+			this.options.stateStore.getState(),
+			append ? this.nextCursor : null,
+		);
 
-		let response: Response;
-		try {
-			response = await this.performFetchRequest(queryParams);
-		} catch (error) {
-			if ((error as Error).name === 'AbortError') {
+		const cache = this.getCache();
+		const key = queryParams.toString();
+		let rawData: KTDataTableResponseDataInterface | null = null;
+
+		if (cache && !refresh) {
+			const cached = cache.get(key);
+			if (cached) {
+				// An older request still running would be skipped anyway.
+				this.abortController?.abort();
+				rawData = cached.data;
+				if (cached.stale) {
+					this.revalidate(key, queryParams, cached.data);
+				}
+			} else if (this.pending.has(key)) {
+				// Join the prefetch of this page instead of requesting it twice.
+				rawData = await this.pending.get(key);
+				if (currentRequestId !== this.requestId) {
+					return { data: [], totalItems: 0, skipped: true };
+				}
+			}
+		}
+
+		if (!rawData) {
+			const attempt = await this.fetchWithRetry(queryParams, currentRequestId);
+			if (!attempt) {
 				return { data: [], totalItems: 0, skipped: true };
 			}
-			throw error;
+
+			if ('error' in attempt) {
+				const { error } = attempt;
+				this.options.eventAdapter.emit('fetchError', error);
+				if (error.type === 'network') {
+					this.options.eventAdapter.emit('error', { error: error.error });
+				}
+				return { data: [], totalItems: 0, skipped: true, error };
+			}
+
+			rawData = attempt.responseData;
+			cache?.set(key, rawData);
 		}
 
-		if (currentRequestId !== this.requestId) {
-			return { data: [], totalItems: 0, skipped: true };
+		const responseData = this.mapResponse(rawData);
+
+		if (!resolveCursorPagination(this.options.config)) {
+			return {
+				data: responseData.data as T[],
+				totalItems: responseData.totalCount ?? 0,
+				aggregates: responseData.aggregates,
+				response: responseData,
+			};
 		}
 
-		let responseData = null;
+		const data = (responseData.data ?? []) as T[];
+		this.cursorRows = append ? [...this.cursorRows, ...data] : data;
+		this.nextCursor = responseData.nextCursor ?? null;
+
+		return {
+			data: this.cursorRows,
+			// Without a total from the server, count what has been loaded.
+			totalItems:
+				typeof responseData.totalCount === 'number'
+					? responseData.totalCount
+					: this.cursorRows.length,
+			hasMore: hasMoreRows(responseData),
+			aggregates: responseData.aggregates,
+			response: responseData,
+		};
+	}
 
+	/**
+	 * Fetch every page for the current sort, outside the table's own request
+	 * cycle (used by export). `filtered: false` drops search and filters.
+	 * Without a totalCount, pages are fetched until one comes back short, or
+	 * repeats the previous page (a server ignoring `page`). At most
+	 * FETCH_ALL_MAX_PAGES requests are made.
+	 * Rejects with a KTDataTableFetchErrorInterface instead of showing a
+	 * table notice.
+	 */
+	public async fetchAll(options: { filtered: boolean }): Promise<T[]> {
+		const state = this.options.stateStore.getState();
+		const cursorPagination = resolveCursorPagination(this.options.config);
+		const rows: T[] = [];
+		let cursor: string | null = null;
+		let previousPage = '';
+
+		for (let page = 1; page <= FETCH_ALL_MAX_PAGES; page++) {
+			const queryParams = this.getQueryParamsForFetchRequest(
+				{
+					...state,
+					page,
+					...(!options.filtered && { search: '', filters: [] }),
+				},
+				cursor,
+			);
+			const responseData = this.mapResponse(await this.fetchPage(queryParams));
+			const data = (responseData.data ?? []) as T[];
+			const currentPage = JSON.stringify(data);
+
+			if (data.length === 0 || currentPage === previousPage) break;
+			rows.push(...data);
+			previousPage = currentPage;
+
+			if (cursorPagination) {
+				cursor = responseData.nextCursor ?? null;
+				if (!cursor || !hasMoreRows(responseData)) break;
+			} else if (hasTotalCount(responseData)) {
+				if (rows.length >= Number(responseData.totalCount)) break;
+			} else if (data.length < state.pageSize) {
+				break;
+			}
+		}
+
+		return rows;
+	}
+
+	/**
+	 * One request of fetchAll(). Network, HTTP and parse failures reject
+	 * with the same errors the table's own requests report.
+	 */
+	private async fetchPage(
+		queryParams: URLSearchParams,
+	): Promise<KTDataTableResponseDataInterface> {
+		let response: Response;
 		try {
-			responseData = await response.json();
+			response = await this.request(queryParams);
 		} catch (error) {
-			this.options.eventAdapter.emit('fetchError', {
-				response,
-				error: String(error),
-				status: response.status,
-				statusText: response.statusText,
+			throw createFetchError('network', 1, {
+				message: 'Error performing fetch request: ' + String(error),
+				error,
 			});
-			return { data: [], totalItems: 0, skipped: true };
 		}
 
-		if (currentRequestId !== this.requestId) {
-			return { data: [], totalItems: 0, skipped: true };
+		const details = {
+			status: response.status,
+			statusText: response.statusText,
+			response,
+		};
+
+		if (!response.ok) {
+			throw createFetchError('http', 1, {
+				...details,
+				message:
+					`Request failed with status ${response.status} ${response.statusText ?? ''}`.trim(),
+			});
 		}
 
-		if (typeof this.options.config.mapResponse === 'function') {
-			responseData = this.options.config.mapResponse.call(this, responseData);
+		try {
+			return await response.json();
+		} catch (error) {
+			throw createFetchError('parse', 1, {
+				...details,
+				message: 'Invalid JSON response: ' + String(error),
+				error,
+			});
 		}
+	}
 
-		return {
-			data: responseData.data as T[],
-			totalItems: responseData.totalCount,
-			response: responseData,
-		};
+	private mapResponse(
+		responseData: KTDataTableResponseDataInterface,
+	): KTDataTableResponseDataInterface {
+		if (typeof this.options.config.mapResponse === 'function') {
+			return this.options.config.mapResponse.call(this, responseData);
+		}
+		return responseData;
 	}
 
-	private getQueryParamsForFetchRequest(): URLSearchParams {
-		const { page, pageSize, sortField, sortOrder, filters, search } =
-			this.options.stateStore.getState();
+	/**
+	 * @param cursor Cursor of the batch to fetch; with cursor pagination it
+	 * replaces the page number (null fetches the first batch)
+	 */
+	private getQueryParamsForFetchRequest(
+		state: KTDataTableStateInterface,
+		cursor: string | null = null,
+	): URLSearchParams {
+		const { page, pageSize, sortField, sortOrder, filters, search } = state;
+		const cursorPagination = resolveCursorPagination(this.options.config);
 
 		let queryParams = new URLSearchParams();
-		queryParams.set('page', String(page));
+		if (cursorPagination) {
+			if (cursor !== null) {
+				queryParams.set(cursorPagination.param, cursor);
+			}
+		} else {
+			queryParams.set('page', String(page));
+		}
 		queryParams.set('size', String(pageSize));
 
 		if (sortOrder !== undefined) {
@@ -101,6 +331,18 @@ export class KTDataTableRemoteDataProvider<
 			queryParams.set('sortField', String(sortField));
 		}
 
+		// Full multi-column sort stack; sortField/sortOrder above carry the primary key.
+		const sortStack = getSortStack(state);
+		if (sortStack.length > 0) {
+			queryParams.set('sortStack', JSON.stringify(sortStack));
+		}
+
+		// Servers should return each group's rows contiguously.
+		const groupBy = resolveGroupBy(this.options.config);
+		if (groupBy) {
+			queryParams.set('groupBy', String(groupBy.column));
+		}
+
 		if (Array.isArray(filters) && filters.length) {
 			queryParams.set(
 				'filters',
@@ -128,8 +370,201 @@ export class KTDataTableRemoteDataProvider<
 		return queryParams;
 	}
 
-	private async performFetchRequest(
+	/**
+	 * Request until it succeeds, fails for good or runs out of retries
+	 * (`requestRetry`). Null when a newer request superseded it.
+	 */
+	private async fetchWithRetry(
 		queryParams: URLSearchParams,
+		requestId: number,
+	): Promise<KTDataTableFetchAttempt> {
+		const retry = resolveRequestRetry(this.options.config);
+		for (let attempts = 1; ; attempts++) {
+			const attempt = await this.attemptFetch(queryParams, requestId, attempts);
+			if (
+				!attempt ||
+				!('error' in attempt) ||
+				!attempt.error.retryable ||
+				!retry ||
+				attempts > retry.retries
+			) {
+				return attempt;
+			}
+
+			await wait(Math.min(retry.delay * 2 ** (attempts - 1), retry.maxDelay));
+			if (requestId !== this.requestId) {
+				return null;
+			}
+		}
+	}
+
+	/**
+	 * Fetch a response into the cache outside the table's request cycle
+	 * (prefetch, revalidation). Calls for the same key share one request;
+	 * failures and timeouts (`requestTimeout`) resolve to null.
+	 */
+	private fetchInBackground(
+		key: string,
+		queryParams: URLSearchParams,
+	): Promise<KTDataTableResponseDataInterface | null> {
+		const pending = this.pending.get(key);
+		if (pending) return pending;
+
+		const controller = new AbortController();
+		this.backgroundControllers.push(controller);
+		const timeout = this.options.config.requestTimeout ?? 0;
+		const timer =
+			timeout > 0 ? setTimeout(() => controller.abort(), timeout) : undefined;
+		const done = () => {
+			clearTimeout(timer);
+			this.pending.delete(key);
+			this.backgroundControllers = this.backgroundControllers.filter(
+				(item) => item !== controller,
+			);
+		};
+
+		const request = Promise.resolve()
+			.then(() => this.request(queryParams, controller.signal))
+			.then((response) => (response.ok ? response.json() : null))
+			.then(
+				(responseData: KTDataTableResponseDataInterface | null) => {
+					done();
+					if (responseData) this.getCache()?.set(key, responseData);
+					return responseData;
+				},
+				(): KTDataTableResponseDataInterface | null => {
+					done();
+					return null;
+				},
+			);
+		this.pending.set(key, request);
+		return request;
+	}
+
+	/**
+	 * Refetch a stale cached response and tell the table when the current
+	 * query got different data.
+	 */
+	private revalidate(
+		key: string,
+		queryParams: URLSearchParams,
+		stale: KTDataTableResponseDataInterface,
+	): void {
+		const requestId = this.requestId;
+		void this.fetchInBackground(key, queryParams).then((responseData) => {
+			if (
+				responseData &&
+				requestId === this.requestId &&
+				JSON.stringify(responseData) !== JSON.stringify(stale)
+			) {
+				this.options.onRevalidate?.();
+			}
+		});
+	}
+
+	private getCache(): KTDataTableRequestCache | null {
+		const options = resolveRequestCache(this.options.config);
+		if (!options) return null;
+		if (!this.cache) {
+			this.cache = new KTDataTableRequestCache(options);
+		}
+		return this.cache;
+	}
+
+	/**
+	 * Make one request and read its JSON body. Network errors, timeouts,
+	 * error statuses and unreadable bodies come back as a fetch error.
+	 */
+	private async attemptFetch(
+		queryParams: URLSearchParams,
+		requestId: number,
+		attempts: number,
+	): Promise<KTDataTableFetchAttempt> {
+		if (this.abortController) {
+			this.abortController.abort();
+		}
+
+		const abortController = new AbortController();
+		this.abortController = abortController;
+		// Throws right away without an apiEndpoint.
+		const pending = this.request(queryParams, abortController.signal);
+		const timeout = this.options.config.requestTimeout ?? 0;
+		let timedOut = false;
+		const timer =
+			timeout > 0
+				? setTimeout(() => {
+						timedOut = true;
+						abortController.abort();
+					}, timeout)
+				: undefined;
+
+		let response: Response;
+		try {
+			response = await pending;
+		} catch (error) {
+			if (requestId !== this.requestId) {
+				return null;
+			}
+			if (timedOut) {
+				return {
+					error: createFetchError('timeout', attempts, {
+						message: `Request timed out after ${timeout} ms`,
+						error,
+					}),
+				};
+			}
+			if ((error as Error).name === 'AbortError') {
+				return null;
+			}
+			return {
+				error: createFetchError('network', attempts, {
+					message: 'Error performing fetch request: ' + String(error),
+					error,
+				}),
+			};
+		} finally {
+			clearTimeout(timer);
+		}
+
+		if (requestId !== this.requestId) {
+			return null;
+		}
+
+		const details = {
+			status: response.status,
+			statusText: response.statusText,
+			response,
+		};
+
+		if (!response.ok) {
+			return {
+				error: createFetchError('http', attempts, {
+					...details,
+					message:
+						`Request failed with status ${response.status} ${response.statusText ?? ''}`.trim(),
+				}),
+			};
+		}
+
+		let responseData: KTDataTableResponseDataInterface;
+		try {
+			responseData = await response.json();
+		} catch (error) {
+			return {
+				error: createFetchError('parse', attempts, {
+					...details,
+					message: 'Invalid JSON response: ' + String(error),
+					error,
+				}),
+			};
+		}
+
+		return requestId === this.requestId ? { responseData } : null;
+	}
+
+	private request(
+		queryParams: URLSearchParams,
+		signal?: AbortSignal,
 	): Promise<Response> {
 		const requestMethod: RequestInit['method'] =
 			this.options.config.requestMethod;
@@ -139,12 +574,6 @@ export class KTDataTableRemoteDataProvider<
 			throw new Error('KTDataTable: apiEndpoint is required for remote fetch');
 		}
 
-		if (this.abortController) {
-			this.abortController.abort();
-		}
-
-		this.abortController = new AbortController();
-
 		if (requestMethod === 'POST') {
 			requestBody = queryParams;
 		} else if (requestMethod === 'GET') {
@@ -160,17 +589,80 @@ export class KTDataTableRemoteDataProvider<
 			...(this.options.config.requestCredentials && {
 				credentials: this.options.config.requestCredentials,
 			}),
-			...(this.abortController && { signal: this.abortController.signal }),
-		}).catch((error) => {
-			if (error.name === 'AbortError') {
-				return Promise.reject(error);
-			}
-
-			this.options.eventAdapter.emit('error', { error });
-			this.options.noticeOnTable(
-				'Error performing fetch request: ' + String(error),
-			);
-			throw error;
+			...(signal && { signal }),
 		});
 	}
 }
+
+/** `hasMore` from the response, else whether it carries a next cursor. */
+function hasMoreRows(responseData: KTDataTableResponseDataInterface): boolean {
+	return typeof responseData.hasMore === 'boolean'
+		? responseData.hasMore
+		: Boolean(responseData.nextCursor);
+}
+
+/** Whether the response carries a usable `totalCount` (numbers or numeric strings). */
+function hasTotalCount(
+	responseData: KTDataTableResponseDataInterface,
+): boolean {
+	const totalCount = responseData.totalCount as unknown;
+	return (
+		totalCount !== null &&
+		totalCount !== undefined &&
+		totalCount !== '' &&
+		Number.isFinite(Number(totalCount))
+	);
+}
+
+/**
+ * Normalize `config.requestRetry`, or return null when it is off.
+ */
+export function resolveRequestRetry(
+	config: KTDataTableConfigInterface,
+): Required<KTDataTableRequestRetryConfigInterface> | null {
+	const requestRetry = config.requestRetry;
+	if (!requestRetry) {
+		return null;
+	}
+
+	const options =
+		typeof requestRetry === 'number'
+			? { retries: requestRetry }
+			: typeof requestRetry === 'object'
+				? requestRetry
+				: {};
+	const resolve = (value: number | undefined, fallback: number) =>
+		typeof value === 'number' && value >= 0 ? value : fallback;
+
+	return {
+		retries: Math.floor(
+			resolve(options.retries, REQUEST_RETRY_DEFAULTS.retries),
+		),
+		delay: resolve(options.delay, REQUEST_RETRY_DEFAULTS.delay),
+		maxDelay: resolve(options.maxDelay, REQUEST_RETRY_DEFAULTS.maxDelay),
+	};
+}
+
+/** Network errors, timeouts and server errors may pass on a retry. */
+export function createFetchError(
+	type: KTDataTableFetchErrorType,
+	attempts: number,
+	details: Omit<
+		KTDataTableFetchErrorInterface,
+		'type' | 'attempts' | 'retryable'
+	>,
+): KTDataTableFetchErrorInterface {
+	return {
+		type,
+		attempts,
+		retryable:
+			type === 'network' ||
+			type === 'timeout' ||
+			(type === 'http' && (details.status ?? 0) >= 500),
+		...details,
+	};
+}
+
+function wait(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
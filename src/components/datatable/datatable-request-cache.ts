@@ -0,0 +1,120 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Response cache for the remote provider (`requestCache`).
+ * Responses are kept by their serialized query params, most recently used
+ * last, so the oldest entry is evicted once `maxEntries` is reached. Entries
+ * older than `ttl` are dropped, or served once more while the provider
+ * fetches a fresh copy (`staleWhileRevalidate`).
+ */
+
+import {
+	KTDataTableConfigInterface,
+	KTDataTableRequestCacheConfigInterface,
+	KTDataTableResponseDataInterface,
+} from './types';
+
+interface KTDataTableRequestCacheEntry {
+	data: KTDataTableResponseDataInterface;
+	storedAt: number;
+}
+
+const REQUEST_CACHE_DEFAULTS: Required<KTDataTableRequestCacheConfigInterface> =
+	{
+		ttl: 60000,
+		maxEntries: 50,
+		staleWhileRevalidate: false,
+		prefetch: false,
+	};
+
+export class KTDataTableRequestCache {
+	private _entries = new Map<string, KTDataTableRequestCacheEntry>();
+
+	constructor(
+		private readonly _options: Required<KTDataTableRequestCacheConfigInterface>,
+	) {}
+
+	/**
+	 * Cached response for a key, flagged `stale` once older than the TTL.
+	 * Expired entries are only returned with `staleWhileRevalidate`.
+	 */
+	public get(
+		key: string,
+	): { data: KTDataTableResponseDataInterface; stale: boolean } | null {
+		const entry = this._entries.get(key);
+		if (!entry) return null;
+
+		const stale = Date.now() - entry.storedAt >= this._options.ttl;
+		if (stale && !this._options.staleWhileRevalidate) {
+			this._entries.delete(key);
+			return null;
+		}
+
+		// Move the entry to the most recently used end.
+		this._entries.delete(key);
+		this._entries.set(key, entry);
+		return { data: entry.data, stale };
+	}
+
+	public isFresh(key: string): boolean {
+		const entry = this._entries.get(key);
+		return Boolean(entry) && Date.now() - entry.storedAt < this._options.ttl;
+	}
+
+	public set(key: string, data: KTDataTableResponseDataInterface): void {
+		this._entries.delete(key);
+		this._entries.set(key, { data, storedAt: Date.now() });
+		while (this._entries.size > this._options.maxEntries) {
+			this._entries.delete(this._entries.keys().next().value);
+		}
+	}
+
+	/**
+	 * Drop the entries whose query params match the predicate.
+	 */
+	public invalidate(predicate: (params: URLSearchParams) => boolean): void {
+		Array.from(this._entries.keys()).forEach((key) => {
+			if (predicate(new URLSearchParams(key))) {
+				this._entries.delete(key);
+			}
+		});
+	}
+
+	public clear(): void {
+		this._entries.clear();
+	}
+}
+
+/**
+ * Normalize `config.requestCache`, or return null when it is off.
+ * Cursor pagination appends batches, so it is never cached.
+ */
+export function resolveRequestCache(
+	config: KTDataTableConfigInterface,
+): Required<KTDataTableRequestCacheConfigInterface> | null {
+	if (!config.requestCache || config.cursorPagination) {
+		return null;
+	}
+
+	const options =
+		typeof config.requestCache === 'object' ? config.requestCache : {};
+	const resolve = (value: number | undefined, fallback: number) =>
+		typeof value === 'number' && value >= 0 ? value : fallback;
+
+	return {
+		ttl: resolve(options.ttl, REQUEST_CACHE_DEFAULTS.ttl),
+		maxEntries: Math.max(
+			1,
+			Math.floor(
+				resolve(options.maxEntries, REQUEST_CACHE_DEFAULTS.maxEntries),
+			),
+		),
+		staleWhileRevalidate:
+			options.staleWhileRevalidate ??
+			REQUEST_CACHE_DEFAULTS.staleWhileRevalidate,
+		prefetch: options.prefetch ?? REQUEST_CACHE_DEFAULTS.prefetch,
+	};
+}
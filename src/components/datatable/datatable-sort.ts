@@ -7,26 +7,58 @@
 
 import {
 	KTDataTableConfigInterface,
+	KTDataTableSortItemInterface,
 	KTDataTableSortOrderInterface,
 	KTDataTableDataInterface,
 } from './types';
 import { stripHtml } from './datatable-utils';
 
+interface KTDataTableSortState<T> {
+	sortField: keyof T | number;
+	sortOrder: KTDataTableSortOrderInterface;
+	sortStack?: KTDataTableSortItemInterface[];
+}
+
 export interface KTDataTableSortHandlerDeps<T> {
 	config: KTDataTableConfigInterface;
 	theadElement: HTMLTableSectionElement;
-	getState: () => {
-		sortField: keyof T | number;
-		sortOrder: KTDataTableSortOrderInterface;
-	};
+	getState: () => KTDataTableSortState<T>;
 	setState: (
 		field: keyof T | number,
 		order: KTDataTableSortOrderInterface,
 	) => void;
+	setSortStack?: (stack: KTDataTableSortItemInterface[]) => void;
+	/** Original column index of a header; differs from cellIndex after columns were reordered */
+	getColumnIndex?: (header: HTMLTableCellElement) => number;
 	emit: (eventName: string, eventData?: object) => void;
 	updateData: () => void;
 }
 
+/**
+ * Resolve the effective sort stack from state. States saved before multi-sort
+ * existed only carry sortField/sortOrder, which map to a one-entry stack.
+ */
+export function getSortStack<T>(
+	state: KTDataTableSortState<T>,
+): KTDataTableSortItemInterface[] {
+	if (Array.isArray(state.sortStack) && state.sortStack.length > 0) {
+		return state.sortStack;
+	}
+	if (
+		state.sortOrder &&
+		state.sortField !== undefined &&
+		state.sortField !== null
+	) {
+		return [
+			{
+				field: state.sortField as KTDataTableSortItemInterface['field'],
+				order: state.sortOrder,
+			},
+		];
+	}
+	return [];
+}
+
 export interface KTDataTableSortAPI<T = KTDataTableDataInterface> {
 	initSort(): void;
 	sortData(
@@ -34,15 +66,21 @@ export interface KTDataTableSortAPI<T = KTDataTableDataInterface> {
 		sortField: keyof T | number,
 		sortOrder: KTDataTableSortOrderInterface,
 	): T[];
+	sortDataByStack(data: T[], stack: KTDataTableSortItemInterface[]): T[];
 	toggleSortOrder(
 		currentField: keyof T | number,
 		currentOrder: KTDataTableSortOrderInterface,
 		newField: keyof T | number,
 	): KTDataTableSortOrderInterface;
+	toggleSortStack(
+		stack: KTDataTableSortItemInterface[],
+		field: keyof T | number,
+	): KTDataTableSortItemInterface[];
 	setSortIcon(
 		sortField: keyof T,
 		sortOrder: KTDataTableSortOrderInterface,
 	): void;
+	setSortIcons(stack: KTDataTableSortItemInterface[]): void;
 	dispose(): void;
 }
 
@@ -51,14 +89,13 @@ export class KTDataTableSortHandler<
 > implements KTDataTableSortAPI<T> {
 	private _config: KTDataTableConfigInterface;
 	private _theadElement: HTMLTableSectionElement;
-	private _getState: () => {
-		sortField: keyof T | number;
-		sortOrder: KTDataTableSortOrderInterface;
-	};
+	private _getState: () => KTDataTableSortState<T>;
 	private _setState: (
 		field: keyof T | number,
 		order: KTDataTableSortOrderInterface,
 	) => void;
+	private _setSortStack?: (stack: KTDataTableSortItemInterface[]) => void;
+	private _getColumnIndex?: (header: HTMLTableCellElement) => number;
 	private _emit: (eventName: string, eventData?: object) => void;
 	private _updateData: () => void;
 	private _sortAbortController: AbortController | null = null;
@@ -68,6 +105,8 @@ export class KTDataTableSortHandler<
 		this._theadElement = deps.theadElement;
 		this._getState = deps.getState;
 		this._setState = deps.setState;
+		this._setSortStack = deps.setSortStack;
+		this._getColumnIndex = deps.getColumnIndex;
 		this._emit = deps.emit;
 		this._updateData = deps.updateData;
 	}
@@ -134,17 +173,19 @@ export class KTDataTableSortHandler<
 		return key !== undefined ? columns[key as string] : undefined;
 	}
 
-	public sortData(
+	/**
+	 * Build a row comparator for a single sort key. HTML is stripped from cell
+	 * values once up front (N regex replacements instead of N*log(N)).
+	 */
+	private _createComparator(
 		data: T[],
 		sortField: keyof T | number,
 		sortOrder: KTDataTableSortOrderInterface,
-	): T[] {
+	): (a: T, b: T) => number {
 		const columnDef = this._getColumnDef(sortField);
 		const sortValueFn = columnDef?.sortValue;
 		const useNumeric = !sortValueFn && columnDef?.sortType === 'numeric';
 
-		// Pre-strip HTML from cell values once (instead of on every comparison).
-		// For N rows this runs N regex replacements instead of N*log(N).
 		const strippedCache = new Map<T, string>();
 
 		if (!sortValueFn) {
@@ -153,7 +194,7 @@ export class KTDataTableSortHandler<
 			}
 		}
 
-		return data.sort((a, b) => {
+		return (a, b) => {
 			const aRaw = a[sortField as keyof T] as unknown;
 			const bRaw = b[sortField as keyof T] as unknown;
 
@@ -197,6 +238,43 @@ export class KTDataTableSortHandler<
 				strippedCache.get(b) ?? bRaw,
 				sortOrder,
 			);
+		};
+	}
+
+	public sortData(
+		data: T[],
+		sortField: keyof T | number,
+		sortOrder: KTDataTableSortOrderInterface,
+	): T[] {
+		return data.sort(this._createComparator(data, sortField, sortOrder));
+	}
+
+	/**
+	 * Sort by every entry of the stack in priority order. Rows that compare
+	 * equal on all keys keep their original relative order.
+	 */
+	public sortDataByStack(
+		data: T[],
+		stack: KTDataTableSortItemInterface[],
+	): T[] {
+		if (!stack.length) {
+			return data;
+		}
+
+		const comparators = stack.map((item) =>
+			this._createComparator(data, item.field as keyof T | number, item.order),
+		);
+		const positions = new Map<T, number>();
+		data.forEach((item, index) => positions.set(item, index));
+
+		return data.sort((a, b) => {
+			for (const compare of comparators) {
+				const result = compare(a, b);
+				if (result !== 0) {
+					return result;
+				}
+			}
+			return (positions.get(a) ?? 0) - (positions.get(b) ?? 0);
 		});
 	}
 
@@ -218,42 +296,102 @@ export class KTDataTableSortHandler<
 		return 'asc';
 	}
 
+	/**
+	 * Cycle a column inside the sort stack (shift-click): a new column is
+	 * appended as asc, an existing one flips to desc, then drops out.
+	 */
+	public toggleSortStack(
+		stack: KTDataTableSortItemInterface[],
+		field: keyof T | number,
+	): KTDataTableSortItemInterface[] {
+		const index = stack.findIndex((item) => item.field === field);
+		if (index === -1) {
+			return [
+				...stack,
+				{ field: field as KTDataTableSortItemInterface['field'], order: 'asc' },
+			];
+		}
+		if (stack[index].order === 'asc') {
+			return stack.map((item, i) =>
+				i === index ? { ...item, order: 'desc' } : item,
+			);
+		}
+		return stack.filter((_, i) => i !== index);
+	}
+
 	public setSortIcon(
 		sortField: keyof T,
 		sortOrder: KTDataTableSortOrderInterface,
 	): void {
+		this.setSortIcons(
+			sortOrder
+				? [
+						{
+							field: sortField as KTDataTableSortItemInterface['field'],
+							order: sortOrder,
+						},
+					]
+				: [],
+		);
+	}
+
+	/**
+	 * Apply sort classes and aria-sort to every column in the stack. When more
+	 * than one column is sorted, headers also carry their 1-based priority.
+	 */
+	public setSortIcons(stack: KTDataTableSortItemInterface[]): void {
 		const baseClass = this._config.sort?.classes?.base || '';
-		const sortClass = sortOrder
-			? sortOrder === 'asc'
-				? this._config.sort?.classes?.asc || ''
-				: this._config.sort?.classes?.desc || ''
-			: '';
 		const allTh = this._theadElement.querySelectorAll('th');
 		allTh.forEach((header) => {
 			const el = header as HTMLElement;
 			el.setAttribute('aria-sort', 'none');
+			el.removeAttribute('data-kt-datatable-sort-priority');
 			const sortElement = header.querySelector(`.${baseClass}`) as HTMLElement;
 			if (sortElement) {
 				sortElement.className = baseClass;
+				sortElement.removeAttribute('data-kt-datatable-sort-priority');
 			}
 		});
-		const th =
-			typeof sortField === 'number'
-				? allTh[sortField]
-				: (this._theadElement.querySelector(
-						`th[data-kt-datatable-column="${String(sortField)}"], th[data-kt-datatable-column-sort="${String(sortField)}"]`,
-					) as HTMLElement);
-		if (th) {
+
+		stack.forEach((item, index) => {
+			const th =
+				typeof item.field === 'number'
+					? this._getColumnIndex
+						? Array.from(allTh).find(
+								(header) => this._getColumnIndex(header) === item.field,
+							)
+						: allTh[item.field]
+					: (this._theadElement.querySelector(
+							`th[data-kt-datatable-column="${String(item.field)}"], th[data-kt-datatable-column-sort="${String(item.field)}"]`,
+						) as HTMLElement);
+			if (!th) {
+				return;
+			}
+			const sortClass =
+				item.order === 'asc'
+					? this._config.sort?.classes?.asc || ''
+					: this._config.sort?.classes?.desc || '';
 			const sortElement = th.querySelector(`.${baseClass}`) as HTMLElement;
 			if (sortElement) {
 				sortElement.className = `${baseClass} ${sortClass}`.trim();
 			}
-			if (sortOrder) {
-				th.setAttribute('aria-sort', sortOrder);
-			} else {
-				th.setAttribute('aria-sort', 'none');
+			th.setAttribute(
+				'aria-sort',
+				item.order === 'asc' ? 'ascending' : 'descending',
+			);
+
+			if (stack.length > 1) {
+				const priority = String(index + 1);
+				th.setAttribute('data-kt-datatable-sort-priority', priority);
+				sortElement?.setAttribute('data-kt-datatable-sort-priority', priority);
 			}
-		}
+		});
+	}
+
+	private _headerIndex(header: HTMLTableCellElement): number {
+		return this._getColumnIndex
+			? this._getColumnIndex(header)
+			: header.cellIndex;
 	}
 
 	public initSort(): void {
@@ -266,10 +404,10 @@ export class KTDataTableSortHandler<
 		this._sortAbortController = new AbortController();
 		const signal = this._sortAbortController.signal;
 
-		this.setSortIcon(
-			this._getState().sortField as keyof T,
-			this._getState().sortOrder,
-		);
+		this.setSortIcons(getSortStack(this._getState()));
+		const multiple =
+			this._config.sort?.multiple !== false &&
+			typeof this._setSortStack === 'function';
 		const headers = Array.from(this._theadElement.querySelectorAll('th'));
 		headers.forEach((header) => {
 			if (!header.querySelector(`.${this._config.sort?.classes?.base}`)) return;
@@ -283,11 +421,26 @@ export class KTDataTableSortHandler<
 				header.getAttribute('data-kt-datatable-column');
 			const sortField = sortAttribute
 				? (sortAttribute as keyof T)
-				: (header.cellIndex as keyof T);
+				: (this._headerIndex(header) as keyof T);
 			header.addEventListener(
 				'click',
-				() => {
+				(event: MouseEvent) => {
 					const state = this._getState();
+
+					if (multiple && event.shiftKey) {
+						const sortStack = this.toggleSortStack(
+							getSortStack(state),
+							sortField,
+						);
+						const order =
+							sortStack.find((item) => item.field === sortField)?.order ?? '';
+						this.setSortIcons(sortStack);
+						this._setSortStack(sortStack);
+						this._emit('sort', { field: sortField, order, sortStack });
+						this._updateData();
+						return;
+					}
+
 					const sortOrder = this.toggleSortOrder(
 						state.sortField,
 						state.sortOrder,
@@ -3,28 +3,36 @@
  * Copyright 2025 by Keenthemes Inc
  */
 
-import { KTDataTableStateInterface } from './types';
+import {
+	KTDataTableConfigInterface,
+	KTDataTableStateInterface,
+	KTDataTableStatePersistence,
+} from './types';
 
-export interface KTDataTableStatePersistence {
-	save(namespace: string, state: KTDataTableStateInterface): void;
-	load(namespace: string): KTDataTableStateInterface | null;
-	remove(namespace: string): void;
-}
+export type { KTDataTableStatePersistence } from './types';
+
+type KTDataTableStorageArea = 'localStorage' | 'sessionStorage';
+
+export function createStatePersistence(
+	area: KTDataTableStorageArea = 'localStorage',
+): KTDataTableStatePersistence {
+	// Resolved on each call: reading the property can throw (sandboxed
+	// iframes, Node.js without --localstorage-file).
+	const storage = (): Storage => globalThis[area];
 
-export function createStatePersistence(): KTDataTableStatePersistence {
 	function save(namespace: string, state: KTDataTableStateInterface): void {
 		if (namespace) {
 			try {
-				localStorage.setItem(namespace, JSON.stringify(state));
+				storage().setItem(namespace, JSON.stringify(state));
 			} catch {
-				// localStorage unavailable (e.g. Node.js without --localstorage-file)
+				// storage unavailable (e.g. Node.js without --localstorage-file)
 			}
 		}
 	}
 
 	function load(namespace: string): KTDataTableStateInterface | null {
 		try {
-			const stateString = localStorage.getItem(namespace);
+			const stateString = storage().getItem(namespace);
 			if (!stateString) return null;
 
 			return JSON.parse(stateString) as KTDataTableStateInterface;
@@ -36,9 +44,9 @@ export function createStatePersistence(): KTDataTableStatePersistence {
 	function remove(namespace: string): void {
 		if (namespace) {
 			try {
-				localStorage.removeItem(namespace);
+				storage().removeItem(namespace);
 			} catch {
-				// localStorage unavailable
+				// storage unavailable
 			}
 		}
 	}
@@ -46,6 +54,22 @@ export function createStatePersistence(): KTDataTableStatePersistence {
 	return { save, load, remove };
 }
 
+/**
+ * The backend for `config.statePersistence`: a custom implementation as is,
+ * or web storage by area name.
+ */
+export function resolveStatePersistence(
+	config: KTDataTableConfigInterface,
+): KTDataTableStatePersistence {
+	const persistence = config.statePersistence;
+	if (persistence && typeof persistence === 'object') {
+		return persistence;
+	}
+	return createStatePersistence(
+		persistence === 'sessionStorage' ? 'sessionStorage' : 'localStorage',
+	);
+}
+
 /**
  * Resolve the namespace for a datatable state key.
  * Priority: config.stateNamespace > table element ID > root element ID > fallback name.
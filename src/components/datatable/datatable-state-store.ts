@@ -8,6 +8,7 @@ import {
 	KTDataTableColumnFilterInterface,
 	KTDataTableConfigInterface,
 	KTDataTableDataInterface,
+	KTDataTableSortItemInterface,
 	KTDataTableSortOrderInterface,
 	KTDataTableStateInterface,
 } from './types';
@@ -58,6 +59,20 @@ export class KTDataTableConfigStateStore implements KTDataTableStateStore {
 		this.patchState({
 			sortField: field,
 			sortOrder: order,
+			sortStack: order ? [{ field, order }] : [],
+		} as Partial<KTDataTableStateInterface>);
+	}
+
+	public setSortStack(stack: KTDataTableSortItemInterface[]): void {
+		const sortStack = stack.filter(
+			(item) => item && (item.order === 'asc' || item.order === 'desc'),
+		);
+		const primary = sortStack[0];
+
+		this.patchState({
+			sortField: primary ? primary.field : this.getState().sortField,
+			sortOrder: primary ? primary.order : '',
+			sortStack,
 		} as Partial<KTDataTableStateInterface>);
 	}
 
@@ -76,6 +91,18 @@ export class KTDataTableConfigStateStore implements KTDataTableStateStore {
 		this.patchState({ filters, page: 1 });
 	}
 
+	public removeFilter(column: string): void {
+		const filters = (this.getState().filters || []).filter(
+			(currentFilter) => String(currentFilter.column) !== column,
+		);
+
+		this.patchState({ filters, page: 1 });
+	}
+
+	public clearFilters(): void {
+		this.patchState({ filters: [], page: 1 });
+	}
+
 	public setOriginalData(
 		originalData: KTDataTableDataInterface[],
 		originalDataAttributes: KTDataTableAttributeInterface[],
@@ -7,16 +7,27 @@ import { KTOptionType } from '../../types';
 import {
 	KTDataTableDataInterface,
 	KTDataTableAttributeInterface,
+	KTDataTableGroupByConfigInterface,
 } from './types';
 import {
 	KTDataTableTableRenderer,
 	KTDataTableTableRendererInput,
 } from './datatable-contracts';
 import { resolveColumns } from './datatable-column-utils';
+import {
+	collectGroups,
+	computeAggregate,
+	formatAggregate,
+	getGroupKey,
+	isGroupCollapsed,
+	resolveGroupBy,
+} from './datatable-grouping';
 
 export class KTDataTableDomTableRenderer<
 	T extends KTDataTableDataInterface,
 > implements KTDataTableTableRenderer<T> {
+	private rowData = new WeakMap<HTMLTableRowElement, T>();
+
 	public render(
 		input: KTDataTableTableRendererInput<T>,
 	): HTMLTableSectionElement {
@@ -38,6 +49,13 @@ export class KTDataTableDomTableRenderer<
 		return tbodyElement;
 	}
 
+	/**
+	 * Data item rendered into a body row, or undefined for non-data rows.
+	 */
+	public getRowData(row: HTMLTableRowElement): T | undefined {
+		return this.rowData.get(row);
+	}
+
 	public notice(
 		tableElement: HTMLTableElement,
 		getLogicalColumnCount: () => number,
@@ -51,6 +69,33 @@ export class KTDataTableDomTableRenderer<
 		cell.innerHTML = message;
 	}
 
+	public error(
+		tableElement: HTMLTableElement,
+		getLogicalColumnCount: () => number,
+		content: string | HTMLElement | DocumentFragment,
+		keepRows: boolean = false,
+	): HTMLTableRowElement {
+		const tbody = tableElement.tBodies[0];
+		const logicalCount = getLogicalColumnCount();
+		tbody
+			.querySelectorAll('tr[data-kt-datatable-error-row]')
+			.forEach((row) => row.remove());
+		if (!keepRows) {
+			tbody.replaceChildren();
+		}
+
+		const row = tbody.insertRow();
+		row.setAttribute('data-kt-datatable-error-row', 'true');
+		const cell = row.insertCell();
+		cell.colSpan = logicalCount > 0 ? logicalCount : 1;
+		if (typeof content === 'string') {
+			cell.innerHTML = content;
+		} else {
+			cell.appendChild(content);
+		}
+		return row;
+	}
+
 	private applyTableLayout(input: KTDataTableTableRendererInput<T>): void {
 		const tableLayout = input.config.tableLayout || 'auto';
 		const tableElement = input.tableElement;
@@ -78,26 +123,34 @@ export class KTDataTableDomTableRenderer<
 		}
 
 		const colgroup = document.createElement('colgroup');
+		// Widths set by resizing (`columnResize`) win over the configured ones.
+		const resized = input.getState().columnWidths ?? {};
+		const widthOf = (key: string, configured: string | null | undefined) =>
+			resized[key] ? `${resized[key]}px` : configured;
 
 		if (input.config.columns) {
 			const columns = input.config.columns;
 			for (const key of Object.keys(columns)) {
 				const col = document.createElement('col');
-				if (columns[key].width) {
-					col.style.width = columns[key].width;
+				const width = widthOf(key, columns[key].width);
+				if (width) {
+					col.style.width = width;
 				}
 				colgroup.appendChild(col);
 			}
 		} else {
 			const { columnsByIndex } = resolveColumns(input.theadElement);
-			for (const th of columnsByIndex) {
+			columnsByIndex.forEach((th, index) => {
 				const col = document.createElement('col');
-				const width = th.getAttribute('data-kt-datatable-column-width');
+				const width = widthOf(
+					th.getAttribute('data-kt-datatable-column') || String(index),
+					th.getAttribute('data-kt-datatable-column-width'),
+				);
 				if (width) {
 					col.style.width = width;
 				}
 				colgroup.appendChild(col);
-			}
+			});
 		}
 
 		const thead = tableElement.querySelector('thead');
@@ -133,7 +186,47 @@ export class KTDataTableDomTableRenderer<
 				? columnsToRender.length
 				: input.getLogicalColumnCount();
 
+		const groupBy = resolveGroupBy(input.config);
+		const groups = groupBy
+			? (input.groups ?? collectGroups(input.data, groupBy.column))
+			: null;
+		let currentGroup: string | null = null;
+		let isCollapsed = false;
+		const closeGroup = () => {
+			if (groupBy && currentGroup !== null && !isCollapsed) {
+				const footer = this.createGroupFooter(
+					input,
+					groupBy,
+					currentGroup,
+					groups?.get(currentGroup) ?? [],
+					columnsToRender,
+					logicalColumnCount,
+				);
+				if (footer) fragment.appendChild(footer);
+			}
+		};
+
 		input.data.forEach((item: T, rowIndex: number) => {
+			if (groupBy) {
+				const group = getGroupKey(item, groupBy.column);
+				if (group !== currentGroup) {
+					closeGroup();
+					currentGroup = group;
+					isCollapsed = isGroupCollapsed(input.getState(), groupBy, group);
+					fragment.appendChild(
+						this.createGroupHeader(
+							input,
+							groupBy,
+							group,
+							groups?.get(group) ?? [],
+							isCollapsed,
+							logicalColumnCount,
+						),
+					);
+				}
+				if (isCollapsed) return;
+			}
+
 			const row = document.createElement('tr');
 
 			if (input.originalClasses.tr && input.originalClasses.tr[rowIndex]) {
@@ -149,13 +242,117 @@ export class KTDataTableDomTableRenderer<
 				this.renderConfiguredColumns(input, row, item, rowIndex);
 			}
 
+			this.rowData.set(row, item);
 			fragment.appendChild(row);
 		});
+		closeGroup();
 
 		tbodyElement.appendChild(fragment);
 		return tbodyElement;
 	}
 
+	private createGroupHeader(
+		input: KTDataTableTableRendererInput<T>,
+		groupBy: KTDataTableGroupByConfigInterface,
+		group: string,
+		rows: T[],
+		isCollapsed: boolean,
+		logicalColumnCount: number,
+	): HTMLTableRowElement {
+		const row = document.createElement('tr');
+		row.setAttribute('data-kt-datatable-group-header', 'true');
+		row.setAttribute('data-kt-datatable-group', group);
+
+		const td = document.createElement('td');
+		td.colSpan = logicalColumnCount > 0 ? logicalColumnCount : 1;
+
+		let content: string | Node;
+		if (typeof groupBy.render === 'function') {
+			content = groupBy.render.call(input.context, group, rows, input.context);
+		} else {
+			const label = document.createElement('span');
+			label.setAttribute('data-kt-datatable-group-label', 'true');
+			label.textContent = group;
+			const count = document.createElement('span');
+			count.setAttribute('data-kt-datatable-group-count', 'true');
+			count.textContent = `(${rows.length})`;
+			const fragment = document.createDocumentFragment();
+			fragment.append(label, ' ', count);
+			content = fragment;
+		}
+
+		let target: HTMLElement = td;
+		if (groupBy.collapsible !== false) {
+			const toggle = document.createElement('button');
+			toggle.type = 'button';
+			toggle.setAttribute('data-kt-datatable-group-toggle', 'true');
+			toggle.setAttribute('aria-expanded', String(!isCollapsed));
+			td.appendChild(toggle);
+			target = toggle;
+		}
+
+		if (typeof content === 'string') {
+			target.insertAdjacentHTML('beforeend', content);
+		} else {
+			target.appendChild(content);
+		}
+
+		row.appendChild(td);
+		return row;
+	}
+
+	/**
+	 * Aggregate footer for a group: one cell per column, filled only for the
+	 * columns listed in `groupBy.aggregates`. Returns null when there are none.
+	 */
+	private createGroupFooter(
+		input: KTDataTableTableRendererInput<T>,
+		groupBy: KTDataTableGroupByConfigInterface,
+		group: string,
+		rows: T[],
+		columnsToRender: HTMLTableCellElement[],
+		logicalColumnCount: number,
+	): HTMLTableRowElement | null {
+		const aggregates = groupBy.aggregates;
+		if (!aggregates || Object.keys(aggregates).length === 0) {
+			return null;
+		}
+
+		const columnKeys = input.config.columns
+			? Object.keys(input.config.columns)
+			: Array.from(
+					{ length: logicalColumnCount },
+					(_, index) =>
+						columnsToRender[index]?.getAttribute('data-kt-datatable-column') ||
+						String(index),
+				);
+
+		const row = document.createElement('tr');
+		row.setAttribute('data-kt-datatable-group-footer', 'true');
+		row.setAttribute('data-kt-datatable-group', group);
+
+		columnKeys.forEach((column) => {
+			const td = document.createElement('td');
+			const aggregate = aggregates[column];
+			if (aggregate) {
+				const value = computeAggregate(aggregate, column, rows);
+				td.setAttribute('data-kt-datatable-aggregate', column);
+				const result =
+					typeof groupBy.aggregateRender === 'function'
+						? groupBy.aggregateRender(value, column, rows)
+						: formatAggregate(value);
+				if (typeof result === 'string') {
+					td.innerHTML = result;
+				} else {
+					td.appendChild(result);
+				}
+			}
+			row.appendChild(td);
+		});
+
+		return row;
+	}
+
 	private renderImplicitColumns(
 		input: KTDataTableTableRendererInput<T>,
 		row: HTMLTableRowElement,
@@ -207,43 +404,66 @@ export class KTDataTableDomTableRenderer<
 			if (!columnDef) {
 				return;
 			}
-			const colKey = key as keyof T;
 
 			const td = document.createElement('td');
 
 			this.applyOriginalTdClass(input, td, rowIndex, colIndex);
+			this.fillCell(input, td, item, key, row);
 
-			if (typeof columnDef.render === 'function') {
-				const result = columnDef.render.call(
-					input.context,
-					item[colKey],
-					item,
-					input.context,
-				);
-				if (
-					result instanceof HTMLElement ||
-					result instanceof DocumentFragment
-				) {
-					td.appendChild(result);
-				} else if (typeof result === 'string') {
-					td.innerHTML = result as string;
-				}
-			} else {
-				const cellValue = item[colKey];
-				if (cellValue === null || cellValue === undefined) {
-					td.textContent = '';
-				} else {
-					// Match implicit column rendering: preserve HTML from DOM extraction.
-					td.innerHTML = String(cellValue);
-				}
-			}
+			row.appendChild(td);
+		});
+	}
+
+	/**
+	 * Replace the content of one rendered cell with the current value of its
+	 * row, as render() would fill it.
+	 */
+	public updateCell(
+		input: Pick<KTDataTableTableRendererInput<T>, 'config' | 'context'>,
+		td: HTMLTableCellElement,
+		item: T,
+		key: string,
+		row: HTMLTableRowElement,
+	): void {
+		td.textContent = '';
+		this.fillCell(input, td, item, key, row);
+	}
 
-			if (typeof columnDef.createdCell === 'function') {
-				columnDef.createdCell.call(input.context, td, item[colKey], item, row);
+	private fillCell(
+		input: Pick<KTDataTableTableRendererInput<T>, 'config' | 'context'>,
+		td: HTMLTableCellElement,
+		item: T,
+		key: string,
+		row: HTMLTableRowElement,
+	): void {
+		const columnDef = input.config.columns?.[key];
+		const colKey = key as keyof T;
+
+		if (typeof columnDef?.render === 'function') {
+			const result = columnDef.render.call(
+				input.context,
+				item[colKey],
+				item,
+				input.context,
+			);
+			if (result instanceof HTMLElement || result instanceof DocumentFragment) {
+				td.appendChild(result);
+			} else if (typeof result === 'string') {
+				td.innerHTML = result as string;
+			}
+		} else {
+			const cellValue = item[colKey];
+			if (cellValue === null || cellValue === undefined) {
+				td.textContent = '';
+			} else {
+				// Match implicit column rendering: preserve HTML from DOM extraction.
+				td.innerHTML = String(cellValue);
 			}
+		}
 
-			row.appendChild(td);
-		});
+		if (typeof columnDef?.createdCell === 'function') {
+			columnDef.createdCell.call(input.context, td, item[colKey], item, row);
+		}
 	}
 
 	private applyOriginalTdClass(
@@ -0,0 +1,184 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Query-string sync for KTDataTable (`urlSync`).
+ * Page, page size, sort, search and filters are written to `location.search`
+ * with history.replaceState after each draw, read back on init and re-read
+ * on popstate. Parameters that hold their default value are left out so
+ * the URL stays short; unrelated parameters are kept.
+ */
+
+import {
+	KTDataTableColumnFilterInterface,
+	KTDataTableConfigInterface,
+	KTDataTableSortItemInterface,
+	KTDataTableStateInterface,
+	KTDataTableUrlSyncConfigInterface,
+} from './types';
+import { getSortStack } from './datatable-sort';
+
+/** State fields mirrored into the URL */
+export type KTDataTableUrlState = Partial<
+	Pick<
+		KTDataTableStateInterface,
+		'page' | 'pageSize' | 'search' | 'filters' | 'sortStack'
+	>
+>;
+
+const PARAMS = {
+	page: 'page',
+	pageSize: 'size',
+	sortStack: 'sort',
+	search: 'search',
+	filters: 'filters',
+} as const;
+
+/**
+ * Normalize `config.urlSync`, or return null when it is off or there is no
+ * browser location.
+ */
+export function resolveUrlSync(
+	config: KTDataTableConfigInterface,
+): Required<KTDataTableUrlSyncConfigInterface> | null {
+	if (!config.urlSync || typeof window === 'undefined') {
+		return null;
+	}
+	const options = typeof config.urlSync === 'object' ? config.urlSync : {};
+	return { prefix: options.prefix ?? '' };
+}
+
+/**
+ * State found in the query string. Missing or malformed parameters are
+ * left out.
+ */
+export function readUrlState(
+	settings: Required<KTDataTableUrlSyncConfigInterface>,
+): KTDataTableUrlState {
+	const params = new URLSearchParams(window.location.search);
+	const get = (key: keyof typeof PARAMS) =>
+		params.get(settings.prefix + PARAMS[key]);
+	const state: KTDataTableUrlState = {};
+
+	const page = Number(get('page'));
+	if (Number.isInteger(page) && page > 0) state.page = page;
+
+	const pageSize = Number(get('pageSize'));
+	if (Number.isInteger(pageSize) && pageSize > 0) state.pageSize = pageSize;
+
+	const sort = get('sortStack');
+	if (sort !== null) state.sortStack = decodeSort(sort);
+
+	const search = get('search');
+	if (search !== null) state.search = decodeSearch(search);
+
+	const filters = parseJson(get('filters'));
+	if (Array.isArray(filters)) {
+		state.filters = filters.filter(
+			(filter): filter is KTDataTableColumnFilterInterface =>
+				Boolean(filter) &&
+				typeof filter === 'object' &&
+				'column' in filter &&
+				'type' in filter,
+		);
+	}
+
+	return state;
+}
+
+/**
+ * Write the state to the query string with history.replaceState.
+ */
+export function writeUrlState(
+	settings: Required<KTDataTableUrlSyncConfigInterface>,
+	state: KTDataTableStateInterface,
+	defaultPageSize: number | undefined,
+): void {
+	const url = new URL(window.location.href);
+	const set = (key: keyof typeof PARAMS, value: string | null) => {
+		const name = settings.prefix + PARAMS[key];
+		if (value === null) {
+			url.searchParams.delete(name);
+		} else {
+			url.searchParams.set(name, value);
+		}
+	};
+
+	set('page', state.page > 1 ? String(state.page) : null);
+	set(
+		'pageSize',
+		state.pageSize && state.pageSize !== defaultPageSize
+			? String(state.pageSize)
+			: null,
+	);
+
+	const sortStack = getSortStack(state);
+	set(
+		'sortStack',
+		sortStack.length
+			? sortStack.map((item) => `${String(item.field)}:${item.order}`).join(',')
+			: null,
+	);
+
+	const search = state.search;
+	set(
+		'search',
+		typeof search === 'object' && search !== null
+			? JSON.stringify(search)
+			: search
+				? String(search)
+				: null,
+	);
+	set('filters', state.filters?.length ? JSON.stringify(state.filters) : null);
+
+	if (url.href !== window.location.href) {
+		window.history.replaceState(window.history.state, '', url.href);
+	}
+}
+
+/**
+ * Call `onChange` on history navigation (back/forward). Returns the cleanup.
+ */
+export function attachUrlSync(onChange: () => void): () => void {
+	window.addEventListener('popstate', onChange);
+	return () => window.removeEventListener('popstate', onChange);
+}
+
+/** `name:asc,2:desc` → sort stack; numeric fields are column indexes. */
+function decodeSort(value: string): KTDataTableSortItemInterface[] {
+	return value
+		.split(',')
+		.map((part) => {
+			const separator = part.lastIndexOf(':');
+			const field = part.slice(0, separator);
+			const order = part.slice(separator + 1);
+			if (separator < 1 || (order !== 'asc' && order !== 'desc')) {
+				return null;
+			}
+			return {
+				field: /^\d+$/.test(field) ? Number(field) : field,
+				order,
+			} as KTDataTableSortItemInterface;
+		})
+		.filter((item): item is KTDataTableSortItemInterface => item !== null);
+}
+
+/** Object searches are stored as JSON; anything else is a plain string. */
+function decodeSearch(value: string): string | object {
+	if (value.startsWith('{')) {
+		const parsed = parseJson(value);
+		if (parsed && typeof parsed === 'object') return parsed;
+	}
+	return value;
+}
+
+function parseJson(value: string | null): unknown {
+	if (value === null) return null;
+	try {
+		return JSON.parse(value);
+	} catch {
+		return null;
+	}
+}
@@ -3,6 +3,8 @@
  * Copyright 2025 by Keenthemes Inc
  */
 
+import { KTDataTableConfigInterface, KTDataTableDataInterface } from './types';
+
 /**
  * Strip HTML tags and &nbsp; entities from a value, returning plain text.
  * Used by sort, search, and filter pipelines.
@@ -10,3 +12,60 @@
 export function stripHtml(value: unknown): string {
 	return String(value).replace(/<[^>]*>|&nbsp;/g, '');
 }
+
+/**
+ * Parse a cell value as a number, ignoring markup, currency symbols and
+ * thousands separators. Returns NaN when nothing numeric remains.
+ */
+export function parseNumber(value: unknown): number {
+	if (typeof value === 'number') return value;
+	if (value === null || value === undefined) return Number.NaN;
+	const s = stripHtml(value).replace(/[^0-9.-]/g, '');
+	return s === '' ? Number.NaN : parseFloat(s);
+}
+
+/**
+ * Value of a row's checkbox, as stored in `state.selectedRows`: read from the
+ * row-check input markup in the row, or the raw value of a `checkbox` column.
+ * Returns null when the row has no checkbox.
+ */
+export function getRowCheckValue(
+	row: KTDataTableDataInterface,
+	config: KTDataTableConfigInterface,
+): string | null {
+	const selector = config.attributes?.checkbox;
+	const columns = config.columns;
+	const checkboxKey = columns
+		? Object.keys(columns).find((key) => columns[key].checkbox)
+		: undefined;
+	const values =
+		checkboxKey !== undefined ? [row[checkboxKey]] : Object.values(row);
+
+	for (const value of values) {
+		if (selector && typeof value === 'string' && value.includes('<')) {
+			const template = document.createElement('template');
+			template.innerHTML = value;
+			const input = template.content.querySelector<HTMLInputElement>(selector);
+			if (input) return input.value;
+		}
+	}
+
+	if (checkboxKey === undefined) return null;
+	const value = row[checkboxKey];
+	return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Id of a row for updateRow() and removeRows(): the value of the `rowId`
+ * column, else the row's checkbox value.
+ */
+export function getRowId(
+	row: KTDataTableDataInterface,
+	config: KTDataTableConfigInterface,
+): string | null {
+	if (config.rowId === undefined) {
+		return getRowCheckValue(row, config);
+	}
+	const value = row[config.rowId];
+	return value === null || value === undefined ? null : String(value);
+}
@@ -0,0 +1,222 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+/**
+ * Virtual scrolling for KTDataTable (local data).
+ * The table keeps every matching row in memory but renders only the window
+ * around the scroll position; spacer rows above and below stand in for the
+ * rows that are not in the DOM, so the scrollbar covers the whole dataset.
+ * Scrolling past the rendered window triggers a row redraw (no refetch).
+ */
+
+import {
+	KTDataTableConfigInterface,
+	KTDataTableDataInterface,
+	KTDataTableVirtualScrollConfigInterface,
+} from './types';
+import { getScrollContainer } from './datatable-layout-plugin';
+import { getRowCheckValue } from './datatable-utils';
+
+export interface KTDataTableVirtualScrollDeps<
+	T extends KTDataTableDataInterface,
+> {
+	config: KTDataTableConfigInterface;
+	getRootElement: () => HTMLElement;
+	getTheadElement: () => HTMLTableSectionElement;
+	getData: () => T[];
+	/** Re-render the rows from the current data, without refetching */
+	redraw: () => Promise<void>;
+}
+
+const SPACER_ATTR = 'data-kt-datatable-virtual-spacer';
+
+const VIRTUAL_SCROLL_DEFAULTS = { height: 400, rowHeight: 40, overscan: 10 };
+
+export class KTDataTableVirtualScroll<T extends KTDataTableDataInterface> {
+	private _deps: KTDataTableVirtualScrollDeps<T>;
+	private _settings: Required<KTDataTableVirtualScrollConfigInterface> | null;
+	private _rowHeight: number;
+	private _range = { start: 0, end: 0 };
+	private _rafId = 0;
+	private _rowIds = new WeakMap<T, string | null>();
+
+	constructor(deps: KTDataTableVirtualScrollDeps<T>) {
+		this._deps = deps;
+		this._settings = resolveVirtualScroll(deps.config);
+		this._rowHeight = this._settings?.rowHeight ?? 0;
+	}
+
+	public isEnabled(): boolean {
+		return this._settings !== null;
+	}
+
+	/**
+	 * Rows to render for the current scroll position. Remembers the range so
+	 * spacers and scroll handling can use it.
+	 */
+	public getWindow(data: T[]): T[] {
+		if (!this._settings) return data;
+
+		const { first, last } = this._getVisibleRows(data.length);
+		const { overscan } = this._settings;
+		this._range = {
+			start: Math.max(0, first - overscan),
+			end: Math.min(data.length, last + overscan),
+		};
+		return data.slice(this._range.start, this._range.end);
+	}
+
+	/**
+	 * Measure the rendered rows and add spacer rows for the rows above and
+	 * below the window.
+	 */
+	public applySpacers(
+		tbody: HTMLTableSectionElement,
+		columnCount: number,
+	): void {
+		if (!this._settings) return;
+
+		const firstRow = tbody.querySelector<HTMLTableRowElement>('tr');
+		if (firstRow && firstRow.offsetHeight > 0) {
+			this._rowHeight = firstRow.offsetHeight;
+		}
+
+		const total = this._deps.getData().length;
+		const before = this._createSpacer(this._range.start, columnCount);
+		const after = this._createSpacer(total - this._range.end, columnCount);
+		if (before) tbody.prepend(before);
+		if (after) tbody.append(after);
+	}
+
+	/**
+	 * Size the scroll container and listen to its scroll events.
+	 * Returns the cleanup.
+	 */
+	public attach(): () => void {
+		if (!this._settings) return () => {};
+
+		const container = this._getContainer();
+		container.setAttribute('data-kt-datatable-virtual-scroll', 'true');
+		container.style.height = `${this._settings.height}px`;
+		container.style.overflowY = 'auto';
+
+		const onScroll = () => {
+			if (this._rafId) return;
+			this._rafId = requestAnimationFrame(() => {
+				this._rafId = 0;
+				this._onScroll();
+			});
+		};
+		container.addEventListener('scroll', onScroll);
+
+		return () => {
+			container.removeEventListener('scroll', onScroll);
+			if (this._rafId) cancelAnimationFrame(this._rafId);
+			this._rafId = 0;
+		};
+	}
+
+	/**
+	 * Index of the first rendered row in the data.
+	 */
+	public getOffset(): number {
+		return this._settings ? this._range.start : 0;
+	}
+
+	/**
+	 * Checkbox values of every row in view, rendered or not, so header
+	 * check-all and its state cover the whole dataset.
+	 */
+	public getRowIds(): string[] {
+		const ids: string[] = [];
+		this._deps.getData().forEach((row) => {
+			if (!this._rowIds.has(row)) {
+				this._rowIds.set(row, getRowCheckValue(row, this._deps.config));
+			}
+			const id = this._rowIds.get(row);
+			if (id !== null && id !== undefined) ids.push(id);
+		});
+		return ids;
+	}
+
+	private _onScroll(): void {
+		const total = this._deps.getData().length;
+		const { first, last } = this._getVisibleRows(total);
+		if (first < this._range.start || last > this._range.end) {
+			void this._deps.redraw();
+		}
+	}
+
+	/**
+	 * Index range [first, last) of the rows inside the viewport.
+	 */
+	private _getVisibleRows(total: number): { first: number; last: number } {
+		const settings = this._settings;
+		if (!settings || total === 0) return { first: 0, last: 0 };
+
+		const container = this._getContainer();
+		const viewport = container.clientHeight || settings.height;
+		const rowHeight = Math.max(1, this._rowHeight);
+		const offset = Math.max(
+			0,
+			container.scrollTop - this._deps.getTheadElement().offsetHeight,
+		);
+		const first = Math.min(total - 1, Math.floor(offset / rowHeight));
+		const last = Math.min(total, Math.ceil((offset + viewport) / rowHeight));
+		return { first, last: Math.max(first + 1, last) };
+	}
+
+	private _getContainer(): HTMLElement {
+		return getScrollContainer(this._deps.getRootElement());
+	}
+
+	private _createSpacer(
+		rows: number,
+		columnCount: number,
+	): HTMLTableRowElement | null {
+		if (rows <= 0) return null;
+
+		const spacer = document.createElement('tr');
+		spacer.setAttribute(SPACER_ATTR, 'true');
+		spacer.setAttribute('aria-hidden', 'true');
+		const td = document.createElement('td');
+		td.colSpan = Math.max(1, columnCount);
+		td.style.height = `${rows * this._rowHeight}px`;
+		spacer.appendChild(td);
+		return spacer;
+	}
+}
+
+/**
+ * Normalize `config.virtualScroll`, or return null when it is off.
+ * Remote tables and custom data providers page at the source, so virtual
+ * scrolling does not apply.
+ */
+export function resolveVirtualScroll(
+	config: KTDataTableConfigInterface,
+): Required<KTDataTableVirtualScrollConfigInterface> | null {
+	const virtualScroll = config.virtualScroll;
+	if (
+		!virtualScroll ||
+		config.apiEndpoint !== undefined ||
+		config.dataProvider !== undefined
+	) {
+		return null;
+	}
+
+	const options = typeof virtualScroll === 'object' ? virtualScroll : {};
+	const resolve = (value: number | undefined, fallback: number, min: number) =>
+		typeof value === 'number' && Number.isFinite(value) && value >= min
+			? value
+			: fallback;
+
+	return {
+		height: resolve(options.height, VIRTUAL_SCROLL_DEFAULTS.height, 1),
+		rowHeight: resolve(options.rowHeight, VIRTUAL_SCROLL_DEFAULTS.rowHeight, 1),
+		overscan: Math.floor(
+			resolve(options.overscan, VIRTUAL_SCROLL_DEFAULTS.overscan, 0),
+		),
+	};
+}
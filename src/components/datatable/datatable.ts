@@ -5,14 +5,25 @@
 
 import KTComponent from '../component';
 import {
+	KTDataTableColumnInfoInterface,
 	KTDataTableDataInterface,
 	KTDataTableInterface,
 	KTDataTableConfigInterface as KTDataTableConfigInterface,
+	KTDataTableSortItemInterface,
 	KTDataTableSortOrderInterface,
 	KTDataTableStateInterface,
 	KTDataTableColumnFilterInterface,
+	KTDataTableExportOptionsInterface,
+	KTDataTableExportScope,
+	KTDataTableFetchErrorInterface,
+	KTDataTableDataChangeInterface,
+	KTDataTableLiveSource,
+	KTDataTableFilterMatcher,
 	KTDataTableLayoutPluginContextInterface,
 	KTDataTableLayoutPluginInterface,
+	KTDataTableRowChangesInterface,
+	KTDataTableSelectionInterface,
+	KTDataTableStatePersistence,
 	OriginalTableClasses,
 } from './types';
 import { KTOptionType } from '../../types';
@@ -23,6 +34,16 @@ import {
 } from './datatable-checkbox';
 import { KTDataTableSortHandler, KTDataTableSortAPI } from './datatable-sort';
 import { createStickyLayoutPlugin } from './datatable-layout-plugin';
+import { KTDataTableColumnManager } from './datatable-column-manager';
+import { KTDataTableColumnResize } from './datatable-column-resize';
+import { KTDataTableFilterRow } from './datatable-filter-row';
+import { KTDataTableFooterAggregates } from './datatable-footer-aggregates';
+import { KTDataTableDetailRows } from './datatable-detail-rows';
+import { KTDataTableCellEditor } from './datatable-cell-editor';
+import { KTDataTableLiveUpdates } from './datatable-live-updates';
+import { KTDataTableVirtualScroll } from './datatable-virtual-scroll';
+import { KTDataTableKeyboardNavigation } from './datatable-keyboard-navigation';
+import { KTDataTableExporter } from './datatable-export';
 import {
 	DATATABLE_DEFAULTS,
 	DEFAULT_PAGE_SIZES,
@@ -31,25 +52,42 @@ import {
 import { getLogicalColumnCount } from './datatable-column-utils';
 import {
 	KTDataTableCleanup,
+	KTDataTableDataProvider,
 	KTDataTableEventAdapter,
 	KTDataTablePaginationRenderer,
+	KTDataTableProviderResult,
 	KTDataTableStateStore,
 	KTDataTableTableRenderer,
 } from './datatable-contracts';
 import { KTDataTableLocalDataProvider } from './datatable-local-provider';
-import { KTDataTableRemoteDataProvider } from './datatable-remote-provider';
+import {
+	KTDataTableRemoteDataProvider,
+	createFetchError,
+} from './datatable-remote-provider';
 import { KTDataTableConfigStateStore } from './datatable-state-store';
 import { KTDataTableDomPaginationRenderer } from './datatable-pagination-renderer';
 import { KTDataTableDomTableRenderer } from './datatable-table-renderer';
 import KTUtils from '../../helpers/utils';
 import { createSearchHandler } from './datatable-search-handler';
 import {
-	createStatePersistence,
+	resolveStatePersistence,
 	resolveTableNamespace,
 } from './datatable-state-persistence';
 import { createSpinner } from './datatable-spinner';
 import { createDataTableRegistry } from './datatable-registry';
-import { stripHtml } from './datatable-utils';
+import { datatableFilterRegistry } from './datatable-filter-registry';
+import { getRowCheckValue, getRowId, stripHtml } from './datatable-utils';
+import { resolveGroupBy } from './datatable-grouping';
+import {
+	attachInfiniteScroll,
+	resolveCursorPagination,
+} from './datatable-cursor-pagination';
+import {
+	attachUrlSync,
+	readUrlState,
+	resolveUrlSync,
+	writeUrlState,
+} from './datatable-url-sync';
 
 /**
  * Custom DataTable plugin class with server-side API, pagination, and sorting
@@ -89,20 +127,43 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 	private _checkbox: KTDataTableCheckboxAPI;
 	private _sortHandler: KTDataTableSortAPI<T>;
 	private _layoutPlugin: KTDataTableLayoutPluginInterface | null = null;
+	private _columnManager: KTDataTableColumnManager;
+	private _columnResize: KTDataTableColumnResize;
+	private _filterRow: KTDataTableFilterRow<T>;
+	private _footerAggregates: KTDataTableFooterAggregates<T>;
+	private _detailRows: KTDataTableDetailRows<T>;
+	private _exporter: KTDataTableExporter<T>;
+	private _cellEditor: KTDataTableCellEditor<T>;
+	// Typed with the base row type; T would make KTDataTable<T> invariant.
+	private _liveUpdates: KTDataTableLiveUpdates<KTDataTableDataInterface>;
+	private _virtualScroll: KTDataTableVirtualScroll<T>;
+	private _keyboardNavigation: KTDataTableKeyboardNavigation;
 	private _eventAdapter: KTDataTableEventAdapter;
 	private _stateStore: KTDataTableStateStore;
 	private _localProvider: KTDataTableLocalDataProvider<T>;
 	private _remoteProvider: KTDataTableRemoteDataProvider<T>;
+	/** Provider from `config.dataProvider`, replacing the built-in ones */
+	private _dataProvider: KTDataTableDataProvider<T> | null = null;
+	/** Bumped per `_dataProvider` fetch so superseded results are dropped */
+	private _dataProviderRequestId = 0;
 	private _tableRenderer: KTDataTableTableRenderer<T>;
 	private _paginationRenderer: KTDataTablePaginationRenderer;
 	private _cleanupCallbacks: KTDataTableCleanup[] = [];
 
 	private _searchHandler = createSearchHandler();
-	private _statePersistence = createStatePersistence();
+	private _statePersistence: KTDataTableStatePersistence;
+	private _urlSyncCleanup: KTDataTableCleanup | null = null;
 	private _spinner = createSpinner();
 
 	private _data: T[] = [];
+	private _groups: Map<string, T[]> | undefined;
+	private _aggregateRows: T[] | undefined;
+	private _aggregates: { [column: string]: KTOptionType } | undefined;
 	private _isFetching: boolean = false;
+	/** Set when rows changed during a fetch, to draw them once it ends */
+	private _pendingRowsUpdate: { refresh: boolean } | null = null;
+	/** Set while the last remote request failed, to repeat it with retry() */
+	private _failedFetch: { append: boolean } | null = null;
 
 	constructor(element: HTMLElement, config?: KTDataTableConfigInterface) {
 		super();
@@ -128,6 +189,7 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		this._buildConfig();
 		this._normalizePageSizeConfig();
 		this._stateStore = new KTDataTableConfigStateStore(this._config);
+		this._statePersistence = resolveStatePersistence(this._config);
 		this._eventAdapter = {
 			emit: (eventName: string, eventData?: object) => {
 				this._emit(eventName, eventData);
@@ -138,10 +200,106 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		datatableRegistry.register(element, this);
 
 		this._initElements();
+		this._columnManager = new KTDataTableColumnManager({
+			config: this._config,
+			getTableElement: () => this._tableElement,
+			getTheadElement: () => this._theadElement,
+			getState: () => this.getState(),
+		});
+		this._columnResize = new KTDataTableColumnResize({
+			config: this._config,
+			getTableElement: () => this._tableElement,
+			getTheadElement: () => this._theadElement,
+			getColumns: () => this._columnManager.getColumns(),
+			getHeaderByIndex: (index) => this._columnManager.getHeaderByIndex(index),
+			getColElement: (key) => this._columnManager.getColElement(key),
+			onResize: (key, width) => this._setColumnWidth(key, width),
+		});
+		this._filterRow = new KTDataTableFilterRow<T>({
+			config: this._config,
+			getTheadElement: () => this._theadElement,
+			getState: () => this.getState(),
+			getColumns: () => this._columnManager.getColumns(),
+			getHeaderByIndex: (index) => this._columnManager.getHeaderByIndex(index),
+			getFacetRows: (column) =>
+				this._isLocal() ? this._localProvider.fetchFacet(column) : null,
+			getData: () => this._data,
+			setFilter: (column, filter) => this._setColumnFilter(column, filter),
+			clearFilters: () => this.clearFilters(),
+		});
+		this._footerAggregates = new KTDataTableFooterAggregates<T>({
+			config: this._config,
+			getTableElement: () => this._tableElement,
+			getColumnKeys: () => this._columnManager.getKeys(),
+			getHeaderByIndex: (index) => this._columnManager.getHeaderByIndex(index),
+			getRows: () => this._aggregateRows ?? this._data,
+			getAggregates: () => this._aggregates,
+		});
 		this._layoutPlugin = this._createLayoutPlugin();
 		this._tableRenderer = new KTDataTableDomTableRenderer<T>();
 		this._paginationRenderer = new KTDataTableDomPaginationRenderer();
 		this._initDataProviders();
+		this._detailRows = new KTDataTableDetailRows<T>({
+			config: this._config,
+			context: this,
+			emit: this._emit.bind(this),
+			getTbodyElement: () => this._tbodyElement,
+			getData: () => this._data,
+			getRowData: (row) => this._tableRenderer.getRowData?.(row),
+			getColumnCount: () => this._getVisibleColumnCount(),
+			onChange: () => this._updateContentChecksum(),
+		});
+		this._cellEditor = new KTDataTableCellEditor<T>({
+			config: this._config,
+			context: this,
+			emit: this._emit.bind(this),
+			getTbodyElement: () => this._tbodyElement,
+			getRowData: (row) => this._tableRenderer.getRowData?.(row),
+			getCellKey: (cell) => this._columnManager.getCellKey(cell),
+			redraw: () => this._redrawRows(),
+			onChange: () => this._updateContentChecksum(),
+		});
+		this._virtualScroll = new KTDataTableVirtualScroll<T>({
+			config: this._config,
+			getRootElement: () => this._element,
+			getTheadElement: () => this._theadElement,
+			getData: () => this._data,
+			redraw: () => this._redrawRows(),
+		});
+		this._liveUpdates = new KTDataTableLiveUpdates<KTDataTableDataInterface>({
+			config: this._config,
+			emit: this._emit.bind(this),
+			getState: () => this.getState(),
+			getTbodyElement: () => this._tbodyElement,
+			getRowData: (row) => this._tableRenderer.getRowData?.(row),
+			getCellKey: (cell) => this._columnManager.getCellKey(cell),
+			updateCell: (cell, rowData, key, row) =>
+				this._tableRenderer.updateCell?.(
+					{ config: this._config, context: this },
+					cell,
+					rowData as T,
+					key,
+					row,
+				),
+			getRows: () => (this._isLocal() ? this._getRows() : null),
+			setRows: (rows) => this._setRows(rows as T[]),
+			getData: () => this._data,
+			reapply: () => this._updateRows(!this._isLocal()),
+			onChange: () => this._updateContentChecksum(),
+		});
+		this._keyboardNavigation = new KTDataTableKeyboardNavigation({
+			config: this._config,
+			getTableElement: () => this._tableElement,
+			getState: () => this.getState(),
+			getRowOffset: () => this._getRowOffset(),
+			goPage: (page) => this.goPage(page),
+		});
+		this._exporter = new KTDataTableExporter<T>({
+			config: this._config,
+			getColumns: () => this._columnManager.getColumns(),
+			getRows: (scope) => this._getExportRows(scope),
+			getChecked: () => this.getChecked(),
+		});
 
 		// Initialize checkbox handler
 		this._checkbox = new KTDataTableCheckboxHandler(
@@ -153,6 +311,11 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 				setSelectedRows: (rows) => {
 					this._stateStore.patchState({ selectedRows: rows });
 				},
+				getRowIds: () =>
+					this._virtualScroll.isEnabled()
+						? this._virtualScroll.getRowIds()
+						: null,
+				getMatchingIds: () => this._getMatchingRowIds(),
 			},
 		);
 
@@ -163,10 +326,15 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 			getState: () => ({
 				sortField: this.getState().sortField,
 				sortOrder: this.getState().sortOrder,
+				sortStack: this.getState().sortStack,
 			}),
 			setState: (field, order) => {
 				this._stateStore.setSort(field as never, order);
 			},
+			setSortStack: (stack) => {
+				this._stateStore.setSortStack(stack);
+			},
+			getColumnIndex: (header) => this._columnManager.getOriginalIndex(header),
 			emit: this._emit.bind(this),
 			updateData: this._updateData.bind(this),
 		});
@@ -177,12 +345,15 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 			this._deleteState();
 		}
 
-		if (this._config.stateSave) {
-			this._loadState();
-			this._normalizePageState();
+		const restoring = this._restoreState();
+		if (restoring) {
+			// Async persistence backend: draw once the saved state is back.
+			void restoring.then(() => this._updateData());
+		} else {
+			this._updateData();
 		}
 
-		this._updateData();
+		this._attachUrlSync();
 	}
 
 	private _emit(eventName: string, eventData?: object): void {
@@ -207,9 +378,121 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 			config: this._config,
 			createUrl: this._createUrl.bind(this),
 			eventAdapter: this._eventAdapter,
-			noticeOnTable: this._noticeOnTable.bind(this),
 			stateStore: this._stateStore,
+			onRevalidate: () => this._updateRows(),
 		});
+
+		const dataProvider = this._config.dataProvider;
+		this._dataProvider = (
+			typeof dataProvider === 'function'
+				? dataProvider({
+						config: this._config,
+						context: this,
+						eventAdapter: this._eventAdapter,
+						stateStore: this._stateStore,
+					})
+				: (dataProvider ?? null)
+		) as KTDataTableDataProvider<T> | null;
+	}
+
+	/**
+	 * Rows of a local table, in original order.
+	 */
+	private _getRows(): T[] {
+		return [...((this.getState().originalData ?? []) as T[])];
+	}
+
+	/**
+	 * Hand the rows to the local provider, fire `dataChange` and redraw.
+	 */
+	private _changeRows(
+		rows: T[],
+		change: KTDataTableDataChangeInterface<T>,
+	): void {
+		this._setRows(rows);
+		this._emit('dataChange', change);
+		this._updateRows();
+	}
+
+	/**
+	 * Draw rows that changed outside a fetch (row API, live updates,
+	 * revalidation). A fetch in flight would drop the update, so it runs
+	 * once the fetch ends.
+	 * @param refresh Skip the cached remote response (`requestCache`)
+	 */
+	private _updateRows(refresh: boolean = false): void {
+		if (this._isFetching) {
+			this._pendingRowsUpdate = {
+				refresh: (this._pendingRowsUpdate?.refresh ?? false) || refresh,
+			};
+			return;
+		}
+		this._updateData(false, refresh);
+	}
+
+	/**
+	 * Hand the rows to the local provider and drop selected rows that are gone.
+	 */
+	private _setRows(rows: T[]): void {
+		const kept = new Set(
+			rows.map((row) => getRowCheckValue(row, this._config)),
+		);
+		const gone = this._getRows()
+			.map((row) => getRowCheckValue(row, this._config))
+			.filter((value) => value !== null && !kept.has(value));
+
+		this._localProvider.setRows(rows);
+		if (gone.length > 0) {
+			this._stateStore.patchState({
+				selectedRows: (this.getState().selectedRows ?? [])
+					.map(String)
+					.filter((value) => !gone.includes(value)),
+			});
+		}
+	}
+
+	/**
+	 * Whether the rows come from the table body rather than `apiEndpoint`
+	 * or `dataProvider`.
+	 */
+	private _isLocal(): boolean {
+		return this._config.apiEndpoint === undefined && !this._dataProvider;
+	}
+
+	/**
+	 * Fetch from `config.dataProvider`. A rejected fetch becomes a fetch error
+	 * like a failed remote request, and a result that arrives after a newer
+	 * fetch or dispose() is skipped.
+	 */
+	private async _fetchFromDataProvider(): Promise<
+		KTDataTableProviderResult<T>
+	> {
+		const requestId = ++this._dataProviderRequestId;
+		let result: KTDataTableProviderResult<T>;
+		try {
+			result = await this._dataProvider.fetch();
+		} catch (error) {
+			result = {
+				data: [],
+				totalItems: 0,
+				skipped: true,
+				error: createFetchError('network', 1, {
+					message: 'Error fetching data: ' + String(error),
+					error,
+				}),
+			};
+		}
+
+		if (requestId !== this._dataProviderRequestId) {
+			return { data: [], totalItems: 0, skipped: true };
+		}
+		if (result.error) {
+			this._emit('fetchError', result.error);
+			if (result.error.type === 'network') {
+				this._emit('error', { error: result.error.error });
+			}
+		}
+		return result;
 	}
 
 	private _createLayoutPlugin(): KTDataTableLayoutPluginInterface | null {
@@ -231,7 +514,12 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		this._mergeConfig(config);
 		this._normalizePageSizeConfig();
 		this._layoutPlugin = this._createLayoutPlugin();
-		this.reload();
+		this._statePersistence = resolveStatePersistence(this._config);
+		this._attachUrlSync();
+		if (Array.isArray(config.data)) {
+			this._localProvider.setRows([...config.data] as T[]);
+		}
+		this._updateData();
 	}
 
 	private _normalizePageSizeConfig(): void {
@@ -263,6 +551,46 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		const statePage = Number(this._config._state.page);
 		this._config._state.page =
 			Number.isFinite(statePage) && statePage > 0 ? Math.floor(statePage) : 1;
+
+		const stateSortStack = this._config._state.sortStack;
+		if (stateSortStack !== undefined) {
+			this._config._state.sortStack = Array.isArray(stateSortStack)
+				? stateSortStack.filter(
+						(item) =>
+							item &&
+							item.field !== undefined &&
+							item.field !== null &&
+							(item.order === 'asc' || item.order === 'desc'),
+					)
+				: [];
+		}
+
+		const collapsedGroups = this._config._state.collapsedGroups;
+		if (
+			collapsedGroups !== undefined &&
+			(typeof collapsedGroups !== 'object' || Array.isArray(collapsedGroups))
+		) {
+			this._config._state.collapsedGroups = {};
+		}
+
+		(['hiddenColumns', 'columnOrder'] as const).forEach((key) => {
+			const keys = this._config._state[key];
+			if (keys !== undefined) {
+				this._config._state[key] = Array.isArray(keys) ? keys.map(String) : [];
+			}
+		});
+
+		const columnWidths = this._config._state.columnWidths;
+		if (columnWidths !== undefined) {
+			this._config._state.columnWidths =
+				typeof columnWidths === 'object' && !Array.isArray(columnWidths)
+					? Object.fromEntries(
+							Object.entries(columnWidths ?? {}).filter(
+								([, width]) => Number.isFinite(width) && width > 0,
+							),
+						)
+					: {};
+		}
 	}
 
 	private _getLayoutPluginContext(): KTDataTableLayoutPluginContextInterface {
@@ -272,6 +600,7 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 			theadElement: this._theadElement,
 			tbodyElement: this._tbodyElement,
 			config: this._config,
+			columnKeys: this._columnManager?.getOrderedKeys(),
 		};
 	}
 
@@ -324,10 +653,14 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 					data: T[],
 					sortField: keyof T | number,
 					sortOrder: KTDataTableSortOrderInterface,
+					sortStack?: KTDataTableSortItemInterface[],
 				): T[] => {
-					return this._sortHandler
-						? this._sortHandler.sortData(data, sortField, sortOrder)
-						: data;
+					if (!this._sortHandler) {
+						return data;
+					}
+					return sortStack && sortStack.length > 1
+						? this._sortHandler.sortDataByStack(data, sortStack)
+						: this._sortHandler.sortData(data, sortField, sortOrder);
 				},
 			},
 			search: {
@@ -419,23 +752,45 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 
 	/**
 	 * Fetch data from the server or from the DOM if `apiEndpoint` is not defined.
+	 * @param append Append the next batch to the loaded rows (cursor pagination)
+	 * @param refresh Skip the cached remote response (`requestCache`)
 	 * @returns {Promise<void>} Promise which is resolved after data has been fetched and checkbox plugin initialized.
 	 */
-	private async _updateData(): Promise<void> {
+	private async _updateData(
+		append: boolean = false,
+		refresh: boolean = false,
+	): Promise<void> {
 		if (this._isFetching) return; // Prevent duplicate fetches
 		this._isFetching = true;
 		try {
 			this._spinner.show(this._element, this._config, this._tableElement); // Show spinner before fetching data
 
-			const result =
-				typeof this._config.apiEndpoint === 'undefined'
-					? this._localProvider.fetchSync()
-					: await this._remoteProvider.fetch();
-
-			if (!result.skipped) {
+			const result = this._dataProvider
+				? await this._fetchFromDataProvider()
+				: typeof this._config.apiEndpoint === 'undefined'
+					? this._localProvider.fetchSync({
+							paged: !this._virtualScroll.isEnabled(),
+						})
+					: append
+						? await this._remoteProvider.fetchMore()
+						: await this._remoteProvider.fetch({ refresh });
+
+			this._failedFetch = result.error ? { append } : null;
+			if (result.error) {
+				this._showFetchError(result.error, append);
+			} else if (!result.skipped) {
 				this._data = result.data;
-				this._stateStore.patchState({ totalItems: result.totalItems });
+				this._groups = result.groups;
+				this._aggregateRows = result.aggregateRows;
+				this._aggregates = result.aggregates;
+				this._stateStore.patchState({
+					totalItems: result.totalItems,
+					hasMore: result.hasMore,
+				});
 				await this._draw();
+				if (this._config.apiEndpoint && !this._dataProvider && !append) {
+					this._remoteProvider.prefetch();
+				}
 			}
 
 			await this._finalize();
@@ -444,6 +799,12 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		} finally {
 			// Finally block now correctly executes after promises resolve, not immediately
 			this._isFetching = false;
+
+			const pending = this._pendingRowsUpdate;
+			if (pending) {
+				this._pendingRowsUpdate = null;
+				await this._updateData(false, pending.refresh);
+			}
 		}
 	}
 
@@ -479,7 +840,15 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		// If we save the checksum earlier (in _draw), the next fetchSync()
 		// sees a mismatch, re-extracts from the DOM, and loses rows that
 		// were on other pages — making pagination show empty.
-		if (!this._config.apiEndpoint) {
+		this._updateContentChecksum();
+	}
+
+	/**
+	 * Record the tbody checksum for local mode, so DOM changes made by the
+	 * table itself are not mistaken for new server-rendered content.
+	 */
+	private _updateContentChecksum(): void {
+		if (this._isLocal()) {
 			this._stateStore.patchState({
 				_contentChecksum: KTUtils.checksum(
 					JSON.stringify(this._tbodyElement.innerHTML),
@@ -503,6 +872,45 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		);
 	}
 
+	/**
+	 * Checkbox values of every row matching the search and filters, across
+	 * pages. Null for remote tables, where only the server knows them.
+	 */
+	private _getMatchingRowIds(): string[] | null {
+		if (!this._isLocal()) {
+			return null;
+		}
+		return this._localProvider
+			.fetchFiltered()
+			.map((row) => getRowCheckValue(row, this._config))
+			.filter((id): id is string => id !== null);
+	}
+
+	/**
+	 * Number of data columns currently shown (hidden columns excluded).
+	 */
+	private _getVisibleColumnCount(): number {
+		return (
+			this._getLogicalColumnCount() -
+			(this.getState().hiddenColumns?.length ?? 0)
+		);
+	}
+
+	/**
+	 * Number of data rows before the first rendered row: earlier pages, or the
+	 * rows above the virtual scroll window.
+	 */
+	private _getRowOffset(): number {
+		if (this._virtualScroll.isEnabled()) {
+			return this._virtualScroll.getOffset();
+		}
+		if (resolveCursorPagination(this._config)) {
+			return 0;
+		}
+		const { page, pageSize } = this.getState();
+		return Math.max(0, page - 1) * pageSize;
+	}
+
 	/**
 	 * Creates a complete URL from a relative path or a full URL.
 	 *
@@ -580,8 +988,13 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 			1,
 			Number(this.getState().pageSize) || Number(this._config.pageSize) || 1,
 		);
+		const { totalItems } = this.getState();
+		const cursorPagination = resolveCursorPagination(this._config);
+		// Virtual scrolling and cursor pagination show every loaded row on a single page.
 		const totalPages =
-			Math.ceil(this.getState().totalItems / normalizedPageSize) || 0;
+			this._virtualScroll.isEnabled() || cursorPagination
+				? Math.min(1, totalItems)
+				: Math.ceil(totalItems / normalizedPageSize) || 0;
 		const page =
 			totalPages > 0
 				? Math.min(Math.max(1, this.getState().page), totalPages)
@@ -595,10 +1008,32 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 
 		// Update the table and pagination controls
 		if (this._theadElement && this._tbodyElement) {
+			this._columnManager.restore();
 			this._updateTable();
+			this._footerAggregates.apply();
+			this._columnManager.apply();
+			this._attachColumnResize();
+			this._filterRow.apply();
+			this._attachGroupToggle();
+			this._attachDetailRows();
+			this._attachCellEditor();
+			this._liveUpdates.apply();
+			this._cleanupCallbacks.push(this._virtualScroll.attach());
+			this._keyboardNavigation.apply();
+			this._cleanupCallbacks.push(this._keyboardNavigation.attach());
+			if (cursorPagination?.infiniteScroll) {
+				this._cleanupCallbacks.push(
+					attachInfiniteScroll(this._element, cursorPagination.threshold, () =>
+						this.loadMore(),
+					),
+				);
+			}
 		}
 
-		if (this._infoElement || this._sizeElement || this._paginationElement) {
+		if (
+			!this._virtualScroll.isEnabled() &&
+			(this._infoElement || this._sizeElement || this._paginationElement)
+		) {
 			this._updatePagination();
 		}
 
@@ -610,6 +1045,11 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		if (this._config.stateSave) {
 			this._saveState();
 		}
+
+		const urlSync = resolveUrlSync(this._config);
+		if (urlSync) {
+			writeUrlState(urlSync, this.getState(), this._config.pageSize);
+		}
 	}
 
 	/**
@@ -620,27 +1060,62 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		this._tbodyElement = this._tableRenderer.render({
 			config: this._config,
 			context: this,
-			data: this._data,
+			data: this._virtualScroll.getWindow(this._data),
 			getLogicalColumnCount: this._getLogicalColumnCount.bind(this),
 			getState: this.getState.bind(this),
+			groups: this._groups,
 			originalClasses: this._originalClasses,
 			tableElement: this._tableElement,
 			theadElement: this._theadElement,
 		});
+		this._virtualScroll.applySpacers(
+			this._tbodyElement,
+			this._getVisibleColumnCount(),
+		);
 		return this._tbodyElement;
 	}
 
 	/**
-	 * Show a notice on the table
-	 * @param message The message to show. If empty, the message will be removed
-	 * @returns {void}
+	 * Show the error row of a failed remote request, with its retry button.
+	 * @param append The request appended rows (cursor pagination), so the
+	 * loaded rows stay above the error row
 	 */
-	private _noticeOnTable(message: string = ''): void {
-		this._tableRenderer.notice(
+	private _showFetchError(
+		error: KTDataTableFetchErrorInterface,
+		append: boolean,
+	): void {
+		const errorRow = this._config.errorRow ?? {};
+		let content: string | HTMLElement | DocumentFragment;
+		if (typeof errorRow.render === 'function') {
+			content = errorRow.render(error, this);
+		} else {
+			const wrapper = document.createElement('div');
+			wrapper.className = 'kt-datatable-error';
+			wrapper.setAttribute('role', 'alert');
+			const message = document.createElement('span');
+			message.className = 'kt-datatable-error-message';
+			message.textContent = error.message;
+			const button = document.createElement('button');
+			button.type = 'button';
+			button.className = 'kt-btn kt-btn-sm kt-btn-outline';
+			button.setAttribute('data-kt-datatable-retry', 'true');
+			button.textContent = errorRow.retryText ?? 'Retry';
+			wrapper.append(message, button);
+			content = wrapper;
+		}
+
+		const row = this._tableRenderer.error(
 			this._tableElement,
 			this._getLogicalColumnCount.bind(this),
-			message,
+			content,
+			append,
 		);
+		row.addEventListener('click', (event) => {
+			if ((event.target as Element).closest?.('[data-kt-datatable-retry]')) {
+				event.preventDefault();
+				void this.retry();
+			}
+		});
 	}
 
 	private _updatePagination(): void {
@@ -648,6 +1123,7 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 			config: this._config,
 			dataLength: this._data.length,
 			infoElement: this._infoElement,
+			loadMore: () => this.loadMore(),
 			paginateData: this._paginateData.bind(this),
 			paginationElement: this._paginationElement,
 			reloadPageSize: this._reloadPageSize.bind(this),
@@ -689,29 +1165,113 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 	}
 
 	/**
-	 * Saves the current state of the table to local storage.
+	 * Saves the current state of the table with the persistence backend.
 	 * @returns {void}
 	 */
 	private _saveState(): void {
-		this._statePersistence.save(
+		const saved = this._statePersistence.save(
 			this._tableNamespace(),
 			this.getState() as KTDataTableStateInterface,
 		);
+		if (saved instanceof Promise) {
+			saved.catch(() => {
+				// backend unavailable; the table keeps working without saving
+			});
+		}
 	}
 
 	/**
-	 * Loads the saved state of the table from local storage, if it exists.
-	 * @returns {Object} The saved state of the table, or null if no saved state exists.
+	 * Loads the saved state of the table from the persistence backend, if it exists.
+	 * @returns {Object} The saved state of the table (or a promise of it for async backends), or null if no saved state exists.
 	 */
-	private _loadState(): KTDataTableStateInterface | null {
+	private _loadState():
+		| KTDataTableStateInterface
+		| null
+		| Promise<KTDataTableStateInterface | null> {
 		const ns = this._tableNamespace();
 		const saved = this._statePersistence.load(ns);
-		if (saved) this._stateStore.replaceState(saved);
-		return saved;
+		const apply = (
+			state: KTDataTableStateInterface | null,
+		): KTDataTableStateInterface | null => {
+			if (state) this._stateStore.replaceState(state);
+			return state;
+		};
+		return saved instanceof Promise
+			? saved.then(apply, (): null => null)
+			: apply(saved);
 	}
 
 	private _deleteState(): void {
-		this._statePersistence.remove(this._tableNamespace());
+		const removed = this._statePersistence.remove(this._tableNamespace());
+		if (removed instanceof Promise) {
+			removed.catch(() => {
+				// backend unavailable
+			});
+		}
+	}
+
+	/**
+	 * Restore the saved state (`stateSave`), then the query string (`urlSync`)
+	 * on top of it.
+	 * @returns {Promise<void> | void} A promise when the persistence backend is async
+	 */
+	private _restoreState(): Promise<void> | void {
+		const loaded = this._config.stateSave ? this._loadState() : null;
+		const finish = () => {
+			const fromUrl = this._applyUrlState();
+			if (this._config.stateSave || fromUrl) {
+				this._normalizePageState();
+			}
+		};
+
+		if (loaded instanceof Promise) {
+			return loaded.then(finish);
+		}
+		finish();
+	}
+
+	/**
+	 * Apply the page, size, sort, search and filters found in the query string.
+	 * @param reset Reset the synced fields missing from the URL to their defaults (history navigation)
+	 * @returns {boolean} Whether anything was applied
+	 */
+	private _applyUrlState(reset: boolean = false): boolean {
+		const urlSync = resolveUrlSync(this._config);
+		if (!urlSync) {
+			return false;
+		}
+
+		const urlState = readUrlState(urlSync);
+		const { sortStack, ...state } = reset
+			? {
+					page: 1,
+					pageSize: this._config.pageSize,
+					search: '',
+					filters: [],
+					sortStack: [],
+					...urlState,
+				}
+			: urlState;
+
+		this._stateStore.patchState(state);
+		if (sortStack) {
+			this._stateStore.setSortStack(sortStack);
+		}
+		return reset || Object.keys(urlState).length > 0;
+	}
+
+	/**
+	 * Follow back/forward navigation when `urlSync` is on.
+	 */
+	private _attachUrlSync(): void {
+		if (!resolveUrlSync(this._config) || this._urlSyncCleanup) {
+			return;
+		}
+		this._urlSyncCleanup = attachUrlSync(() => {
+			this._applyUrlState(true);
+			this._normalizePageState();
+			this._updateData();
+		});
 	}
 
 	/**
@@ -786,6 +1346,10 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 	 */
 	private _dispose(): void {
 		this._cleanupForRedraw();
+		this._checkbox?.destroy();
+		this._filterRow?.destroy();
+		this._footerAggregates?.destroy();
+		this._liveUpdates?.destroy();
 
 		const root = this._element;
 		if (root) {
@@ -794,6 +1358,149 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		}
 	}
 
+	private _setColumnVisibility(key: string, visible: boolean): void {
+		const column = String(key);
+		if (!this._columnManager.isKnown(column)) {
+			return;
+		}
+
+		const hidden = (this.getState().hiddenColumns ?? []).filter(
+			(item) => item !== column,
+		);
+		if (!visible) {
+			hidden.push(column);
+		}
+		this._stateStore.patchState({ hiddenColumns: hidden });
+		this._emit('columnVisibility', { column, visible });
+		this._redrawRows();
+	}
+
+	private _setColumnFilter(
+		column: string,
+		filter: KTDataTableColumnFilterInterface | null,
+	): void {
+		if (filter) {
+			this._stateStore.setFilter(filter);
+		} else {
+			this._stateStore.removeFilter(column);
+		}
+		this._updateData();
+	}
+
+	private _setColumnWidth(key: string, width: number): void {
+		const column = String(key);
+		this._stateStore.patchState({
+			columnWidths: {
+				...(this.getState().columnWidths ?? {}),
+				[column]: width,
+			},
+		});
+		this._emit('columnResize', { column, width });
+		this._redrawRows();
+	}
+
+	private _attachColumnResize(): void {
+		if (this._columnResize.isEnabled()) {
+			this._columnResize.apply();
+			this._cleanupCallbacks.push(this._columnResize.attach());
+		}
+	}
+
+	/**
+	 * Toggle group headers through delegation on the freshly rendered tbody.
+	 */
+	private _attachGroupToggle(): void {
+		if (!resolveGroupBy(this._config)) {
+			return;
+		}
+
+		const tbody = this._tbodyElement;
+		const onClick = (event: Event) => {
+			const toggle = (event.target as Element | null)?.closest?.(
+				'[data-kt-datatable-group-toggle]',
+			);
+			const group = toggle
+				?.closest('tr')
+				?.getAttribute('data-kt-datatable-group');
+			if (!toggle || group === null || group === undefined) {
+				return;
+			}
+			this._setGroupCollapsed(
+				group,
+				toggle.getAttribute('aria-expanded') === 'true',
+			);
+		};
+
+		tbody.addEventListener('click', onClick);
+		this._cleanupCallbacks.push(() => {
+			tbody.removeEventListener('click', onClick);
+		});
+	}
+
+	private _attachDetailRows(): void {
+		this._detailRows.apply(this.getState().page);
+		if (this._detailRows.isEnabled()) {
+			this._cleanupCallbacks.push(this._detailRows.attach());
+		}
+	}
+
+	private _setGroupCollapsed(group: string, collapsed: boolean): void {
+		if (!resolveGroupBy(this._config)) {
+			return;
+		}
+
+		this._stateStore.patchState({
+			collapsedGroups: {
+				...(this.getState().collapsedGroups ?? {}),
+				[String(group)]: collapsed,
+			},
+		});
+		this._emit('groupToggle', { group: String(group), collapsed });
+		this._redrawRows();
+	}
+
+	/**
+	 * Rows for export. Remote tables fetch every page, data providers use
+	 * fetchAll(); local tables run the search/filter/sort pipeline without
+	 * paging.
+	 */
+	private async _getExportRows(
+		scope: Exclude<KTDataTableExportScope, 'selected'>,
+	): Promise<T[]> {
+		if (scope === 'page') {
+			return [...this._data];
+		}
+		if (this._dataProvider) {
+			// Providers without fetchAll() export the loaded rows.
+			return this._dataProvider.fetchAll
+				? this._dataProvider.fetchAll({ filtered: scope === 'filtered' })
+				: [...this._data];
+		}
+		if (typeof this._config.apiEndpoint !== 'undefined') {
+			return this._remoteProvider.fetchAll({ filtered: scope === 'filtered' });
+		}
+		return scope === 'all'
+			? [...((this.getState().originalData ?? []) as T[])]
+			: this._localProvider.fetchFiltered();
+	}
+
+	private _attachCellEditor(): void {
+		if (this._cellEditor.isEnabled()) {
+			this._cellEditor.apply();
+			this._cleanupCallbacks.push(this._cellEditor.attach());
+		}
+	}
+
+	/**
+	 * Redraw the current rows (column layout, group collapse) without refetching.
+	 * A fetch in flight draws with the updated state on its own.
+	 */
+	private async _redrawRows(): Promise<void> {
+		if (this._isFetching) return;
+		await this._draw();
+		this._finalize();
+	}
+
 	/**
 	 * Gets the current state of the table.
 	 * @returns {KTDataTableStateInterface} The current state of the table.
@@ -826,6 +1533,149 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		this._updateData();
 	}
 
+	/**
+	 * Sorts the data by several columns at once, in priority order.
+	 * The first entry is the primary key; later entries break ties.
+	 * @param stack The sort entries. Pass an empty array to clear sorting.
+	 */
+	public setSortStack(stack: KTDataTableSortItemInterface[]): void {
+		this._stateStore.setSortStack(Array.isArray(stack) ? stack : []);
+		const sortStack = this.getState().sortStack ?? [];
+		this._sortHandler.setSortIcons(sortStack);
+		this._emit('sort', {
+			field: this.getState().sortField,
+			order: this.getState().sortOrder,
+			sortStack,
+		});
+		this._updateData();
+	}
+
+	/**
+	 * Hide a column. Its cells stay in the DOM with `display: none`.
+	 * @param key Column key (see getColumns()).
+	 */
+	public hideColumn(key: string): void {
+		this._setColumnVisibility(key, false);
+	}
+
+	/**
+	 * Show a column hidden with hideColumn().
+	 * @param key Column key (see getColumns()).
+	 */
+	public showColumn(key: string): void {
+		this._setColumnVisibility(key, true);
+	}
+
+	/**
+	 * Change the display order of the columns. Unknown keys are ignored;
+	 * columns left out keep their relative order after the listed ones.
+	 * @param keys Column keys in the new display order.
+	 */
+	public setColumnOrder(keys: string[]): void {
+		const order = this._columnManager.normalizeOrder(
+			Array.isArray(keys) ? keys : [],
+		);
+		this._stateStore.patchState({ columnOrder: order });
+		this._emit('columnReorder', { order });
+		this._redrawRows();
+	}
+
+	/**
+	 * Get all columns in display order, including hidden ones.
+	 * @returns Column key, title, visibility and original/display index.
+	 */
+	public getColumns(): KTDataTableColumnInfoInterface[] {
+		return this._columnManager.getColumns();
+	}
+
+	/**
+	 * Collapse a row group. Requires `groupBy`.
+	 * @param group The group key (plain-text value of the groupBy column).
+	 */
+	public collapseGroup(group: string): void {
+		this._setGroupCollapsed(group, true);
+	}
+
+	/**
+	 * Expand a row group. Requires `groupBy`.
+	 * @param group The group key (plain-text value of the groupBy column).
+	 */
+	public expandGroup(group: string): void {
+		this._setGroupCollapsed(group, false);
+	}
+
+	/**
+	 * Open the detail row under a data row. Requires `detailRender`.
+	 * @param row Row index within the current page, or the row element.
+	 */
+	public expandRow(row: number | HTMLTableRowElement): void {
+		this._detailRows.expand(row);
+	}
+
+	/**
+	 * Close the detail row under a data row.
+	 * @param row Row index within the current page, or the row element.
+	 */
+	public collapseRow(row: number | HTMLTableRowElement): void {
+		this._detailRows.collapse(row);
+	}
+
+	/**
+	 * Close every open detail row.
+	 */
+	public collapseAll(): void {
+		this._detailRows.collapseAll();
+	}
+
+	/**
+	 * Get the pending cell edits, per row, with old and new values.
+	 * @returns One entry per edited row.
+	 */
+	public getChanges(): KTDataTableRowChangesInterface<T>[] {
+		return this._cellEditor.getChanges();
+	}
+
+	/**
+	 * Accept the pending cell edits and stop tracking them.
+	 * @returns The committed changes.
+	 */
+	public commitChanges(): KTDataTableRowChangesInterface<T>[] {
+		return this._cellEditor.commitChanges();
+	}
+
+	/**
+	 * Restore the original values of the pending cell edits and redraw.
+	 */
+	public revertChanges(): void {
+		this._cellEditor.revertChanges();
+	}
+
+	/**
+	 * Export rows as CSV, TSV or JSON, using the visible columns in display order.
+	 * @param options Format ('csv'), scope ('filtered') and output ('string').
+	 * @returns The exported text, or a Blob when `output` is 'blob'.
+	 */
+	public export(
+		options: KTDataTableExportOptionsInterface & { output: 'blob' },
+	): Promise<Blob>;
+	public export(options?: KTDataTableExportOptionsInterface): Promise<string>;
+	public export(
+		options?: KTDataTableExportOptionsInterface,
+	): Promise<string | Blob> {
+		return this._exporter.export(options);
+	}
+
+	/**
+	 * Copy rows to the clipboard as TSV.
+	 * @param options The rows to copy (scope, default 'filtered').
+	 * @returns The copied text.
+	 */
+	public copyToClipboard(
+		options?: Pick<KTDataTableExportOptionsInterface, 'scope'>,
+	): Promise<string> {
+		return this._exporter.copyToClipboard(options);
+	}
+
 	/**
 	 * Navigates to the specified page in the data table.
 	 * @param page The page number to navigate to.
@@ -861,7 +1711,107 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 	 */
 	public reload(): void {
 		// Fetch the data from the server using the current sort and filter settings
-		this._updateData();
+		this._updateData(false, true);
+	}
+
+	/**
+	 * Appends the next batch of rows when cursor pagination is enabled and
+	 * the server reported more rows.
+	 * @returns {Promise<void>}
+	 */
+	public async loadMore(): Promise<void> {
+		if (!resolveCursorPagination(this._config) || !this.getState().hasMore) {
+			return;
+		}
+		await this._updateData(true);
+	}
+
+	/**
+	 * Repeat the remote request that failed, or reload when there was none.
+	 * @returns {Promise<void>}
+	 */
+	public async retry(): Promise<void> {
+		await this._updateData(this._failedFetch?.append ?? false);
+	}
+
+	/**
+	 * Replace the rows of a local table. The table body is not read again
+	 * afterwards. Ignored with `apiEndpoint` or `dataProvider`.
+	 * @param rows Rows keyed by column
+	 */
+	public setData(rows: T[]): void {
+		if (!this._isLocal()) return;
+		this._changeRows([...rows], { type: 'set', rows });
+	}
+
+	/**
+	 * Append rows to a local table.
+	 * @param rows Rows keyed by column
+	 */
+	public addRows(rows: T[]): void {
+		if (!this._isLocal() || rows.length === 0) return;
+		this._changeRows([...this._getRows(), ...rows], { type: 'add', rows });
+	}
+
+	/**
+	 * Merge values into the row with the given id (`rowId`, else the checkbox
+	 * value). Does nothing when no row has the id.
+	 * @param id Row id
+	 * @param patch Column values to change
+	 */
+	public updateRow(id: string | number, patch: Partial<T>): void {
+		if (!this._isLocal()) return;
+		const rows = this._getRows();
+		const row = rows.find(
+			(item) => getRowId(item, this._config) === String(id),
+		);
+		if (!row) return;
+		// Updated in place, like inline edits, so pending edits stay attached.
+		Object.assign(row, patch);
+		this._changeRows(rows, { type: 'update', rows: [row] });
+	}
+
+	/**
+	 * Remove the rows with the given ids (`rowId`, else the checkbox value).
+	 * @param ids Row ids
+	 */
+	public removeRows(ids: Array<string | number>): void {
+		if (!this._isLocal()) return;
+		const removeIds = ids.map(String);
+		const rows = this._getRows();
+		const removed = rows.filter((row) =>
+			removeIds.includes(getRowId(row, this._config)),
+		);
+		if (removed.length === 0) return;
+		this._changeRows(
+			rows.filter((row) => !removed.includes(row)),
+			{ type: 'remove', rows: removed },
+		);
+	}
+
+	/**
+	 * Apply the insert, update and delete messages of a live feed until the
+	 * returned function is called (`liveUpdates`).
+	 * @param source EventSource, WebSocket or async iterator of messages
+	 * @returns A function that stops listening; the source stays open
+	 */
+	public subscribe(source: KTDataTableLiveSource): () => void {
+		return this._liveUpdates.subscribe(source);
+	}
+
+	/**
+	 * Drop every cached remote response (`requestCache`).
+	 */
+	public clearCache(): void {
+		this._remoteProvider.clearCache();
+	}
+
+	/**
+	 * Drop the cached remote responses whose query params match the predicate.
+	 * @param predicate Receives the params of each cached request
+	 */
+	public invalidate(predicate: (params: URLSearchParams) => boolean): void {
+		this._remoteProvider.invalidate(predicate);
 	}
 
 	public redraw(page: number = 1): void {
@@ -894,8 +1844,20 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		return this;
 	}
 
+	/**
+	 * Remove every column filter and reload the data.
+	 */
+	public clearFilters(): void {
+		this._stateStore.clearFilters();
+		this._updateData();
+	}
+
 	public override dispose(): void {
 		this._remoteProvider?.dispose();
+		this._dataProviderRequestId++;
+		this._dataProvider?.dispose?.();
+		this._urlSyncCleanup?.();
+		this._urlSyncCleanup = null;
 		this._dispose();
 	}
 
@@ -924,6 +1886,28 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		return datatableRegistry.get(element);
 	}
 
+	/**
+	 * Register a local-mode filter matcher under a type name, so filters such as
+	 * `{ column, type: 'myType', value }` can be passed to setFilter().
+	 * Registering an existing name (including built-ins) replaces its matcher.
+	 * @param type The filter type name
+	 * @param matcher Returns true when the row should be kept
+	 */
+	public static registerFilterMatcher(
+		type: string,
+		matcher: KTDataTableFilterMatcher,
+	): void {
+		datatableFilterRegistry.register(type, matcher);
+	}
+
+	/**
+	 * Remove a filter matcher registered with registerFilterMatcher().
+	 * @param type The filter type name
+	 */
+	public static unregisterFilterMatcher(type: string): void {
+		datatableFilterRegistry.unregister(type);
+	}
+
 	/**
 	 * Initializes all KTDataTable instances on the page.
 	 * This function is now browser-guarded and must be called explicitly.
@@ -982,6 +1966,31 @@ export class KTDataTable<T extends KTDataTableDataInterface>
 		return this._checkbox.getChecked();
 	}
 
+	/**
+	 * Get the selection as ids, or as an exclusion list plus the current search
+	 * and filters after selecting all matching rows of a remote table.
+	 * @returns {KTDataTableSelectionInterface}
+	 */
+	public getSelection(): KTDataTableSelectionInterface {
+		return this._checkbox.getSelection();
+	}
+
+	/**
+	 * Select every row matching the current search and filters, on all pages
+	 * @returns {void}
+	 */
+	public selectAllMatching(): void {
+		this._checkbox.selectAllMatching();
+	}
+
+	/**
+	 * Deselect all rows, on all pages
+	 * @returns {void}
+	 */
+	public clearSelection(): void {
+		this._checkbox.clearSelection();
+	}
+
 	/**
 	 * Re-apply checkbox checked states to visible rows after a redraw or pagination change.
 	 * @returns {void}
@@ -6,22 +6,67 @@
 export { KTDataTable } from './datatable';
 export type {
 	KTDataTableSortOrderInterface,
+	KTDataTableSortItemInterface,
 	KTDataTableDataInterface,
+	KTDataTableColumnInfoInterface,
+	KTDataTableGroupByConfigInterface,
+	KTDataTableAggregate,
+	KTDataTableAggregateName,
+	KTDataTableExportFormat,
+	KTDataTableExportScope,
+	KTDataTableExportOptionsInterface,
 	KTDataTableStateInterface as KTDataTableState,
 	KTDataTableInterface,
 	KTDataTableResponseDataInterface,
+	KTDataTableDataChangeInterface,
+	KTDataTableLiveReapplyPolicy,
+	KTDataTableLiveUpdatesConfigInterface,
+	KTDataTableLiveMessageInterface,
+	KTDataTableLiveEventSourceInterface,
+	KTDataTableLiveIteratorInterface,
+	KTDataTableLiveSource,
+	KTDataTableCursorPaginationConfigInterface,
+	KTDataTableRequestRetryConfigInterface,
+	KTDataTableFetchErrorType,
+	KTDataTableFetchErrorInterface,
+	KTDataTableErrorRowConfigInterface,
+	KTDataTableRequestCacheConfigInterface,
+	KTDataTableColumnResizeConfigInterface,
+	KTDataTableFilterRowConfigInterface,
+	KTDataTableFilterControlType,
+	KTDataTableFilterControlInterface,
+	KTDataTableStatePersistence,
+	KTDataTableUrlSyncConfigInterface,
 	KTDataTableConfigInterface,
 	KTDataTableColumnFilterTypeInterface,
 	KTDataTableColumnFilterInterface,
 	KTDataTableTextFilterInterface,
 	KTDataTableNumericFilterInterface,
 	KTDataTableDateRangeFilterInterface,
+	KTDataTableBetweenFilterInterface,
+	KTDataTableComparisonFilterInterface,
+	KTDataTableListFilterInterface,
+	KTDataTableStartsWithFilterInterface,
+	KTDataTableIsEmptyFilterInterface,
+	KTDataTableBooleanFilterInterface,
+	KTDataTableCustomFilterInterface,
+	KTDataTableFilterMatcher,
 	KTDataTableCheckConfigInterface,
 	KTDataTableCheckInterface,
 	KTDataTableCheckChangePayloadInterface,
+	KTDataTableSelectAllMatchingConfigInterface,
+	KTDataTableSelectionInterface,
 	KTDataTableLockedRowsConfigInterface,
 	KTDataTableLockedColumnsConfigInterface,
 	KTDataTableLockedLayoutConfigInterface,
 	KTDataTableLayoutPluginContextInterface,
 	KTDataTableLayoutPluginInterface,
 } from './types';
+export type {
+	KTDataTableDataProvider,
+	KTDataTableDataProviderContext,
+	KTDataTableDataProviderFactory,
+	KTDataTableProviderResult,
+	KTDataTableStateStore,
+	KTDataTableEventAdapter,
+} from './datatable-contracts';
@@ -4,10 +4,54 @@
  */
 
 import { KTOptionType } from '../../types';
+import type {
+	KTDataTableDataProvider,
+	KTDataTableDataProviderFactory,
+} from './datatable-contracts';
 
 // Define the sort order and filter criteria types
 export type KTDataTableSortOrderInterface = 'asc' | 'desc' | '';
 
+/**
+ * One entry of a multi-column sort stack. Entries are ordered by priority:
+ * the first entry is the primary sort key, later entries break ties.
+ */
+export interface KTDataTableSortItemInterface {
+	field: keyof KTDataTableDataInterface | number;
+	order: Exclude<KTDataTableSortOrderInterface, ''>;
+}
+
+/**
+ * Column descriptor returned by getColumns(), in display order.
+ */
+export interface KTDataTableColumnInfoInterface {
+	/** `data-kt-datatable-column` value, `columns` config key, or the original index as a string */
+	key: string;
+	title: string;
+	visible: boolean;
+	/** Original (markup/config) column index */
+	index: number;
+	/** Current display position, hidden columns included */
+	position: number;
+}
+
+export type KTDataTableExportFormat = 'csv' | 'json' | 'tsv';
+
+/**
+ * Rows to export: the current page, every row matching search and filters
+ * (in sort order), the whole dataset, or the checked rows.
+ */
+export type KTDataTableExportScope = 'page' | 'filtered' | 'all' | 'selected';
+
+export interface KTDataTableExportOptionsInterface {
+	/** @default 'csv' */
+	format?: KTDataTableExportFormat;
+	/** @default 'filtered' */
+	scope?: KTDataTableExportScope;
+	/** Return a Blob (with a matching MIME type) instead of a string */
+	output?: 'string' | 'blob';
+}
+
 export interface KTDataTableDataInterface {
 	[key: string]: KTOptionType;
 }
@@ -20,6 +64,21 @@ export interface KTDataTableStateInterface {
 	page: number;
 	sortField: keyof KTDataTableDataInterface | number;
 	sortOrder: KTDataTableSortOrderInterface;
+	/**
+	 * Ordered multi-column sort stack. `sortField`/`sortOrder` always mirror
+	 * the first entry so single-column consumers keep working.
+	 */
+	sortStack?: KTDataTableSortItemInterface[];
+	/** Keys of columns hidden with hideColumn() */
+	hiddenColumns?: string[];
+	/** Column keys in display order, set with setColumnOrder() */
+	columnOrder?: string[];
+	/** Column widths in pixels by column key, set by dragging a resize handle */
+	columnWidths?: { [key: string]: number };
+	/** Group collapse state by group key; missing keys use `groupBy.collapsed` */
+	collapsedGroups?: { [group: string]: boolean };
+	/** Whether the server has more rows to load (`cursorPagination`) */
+	hasMore?: boolean;
 	pageSize: number;
 	totalItems: number;
 	totalPages: number;
@@ -42,6 +101,102 @@ export interface KTDataTableInterface {
 	 */
 	sort: (field: keyof KTDataTableDataInterface | number) => void;
 
+	/**
+	 * Replace the whole sort stack (multi-column sort). Pass an empty array to clear sorting.
+	 * @param stack Sort entries in priority order
+	 */
+	setSortStack(stack: KTDataTableSortItemInterface[]): void;
+
+	/**
+	 * Hide a column by key. The column stays in the data and keeps its position.
+	 * @param key Column key (see getColumns())
+	 */
+	hideColumn(key: string): void;
+
+	/**
+	 * Show a column previously hidden with hideColumn().
+	 * @param key Column key (see getColumns())
+	 */
+	showColumn(key: string): void;
+
+	/**
+	 * Set the display order of the columns. Columns not listed keep their
+	 * relative order after the listed ones.
+	 * @param keys Column keys in the new display order
+	 */
+	setColumnOrder(keys: string[]): void;
+
+	/**
+	 * Get all columns in display order with their visibility.
+	 */
+	getColumns(): KTDataTableColumnInfoInterface[];
+
+	/**
+	 * Collapse a row group (requires `groupBy`).
+	 * @param group The group key (plain-text value of the groupBy column)
+	 */
+	collapseGroup(group: string): void;
+
+	/**
+	 * Expand a collapsed row group (requires `groupBy`).
+	 * @param group The group key (plain-text value of the groupBy column)
+	 */
+	expandGroup(group: string): void;
+
+	/**
+	 * Open the detail row under a data row (requires `detailRender`).
+	 * @param row Row index within the current page, or the row element
+	 */
+	expandRow(row: number | HTMLTableRowElement): void;
+
+	/**
+	 * Close the detail row under a data row.
+	 * @param row Row index within the current page, or the row element
+	 */
+	collapseRow(row: number | HTMLTableRowElement): void;
+
+	/**
+	 * Close every open detail row.
+	 */
+	collapseAll(): void;
+
+	/**
+	 * Export rows as CSV, TSV or JSON. Only visible columns are exported, in
+	 * display order, with their titles as the CSV/TSV header row.
+	 * Remote tables fetch every page from `apiEndpoint` for the
+	 * 'filtered', 'all' and 'selected' scopes.
+	 * @param options Format, scope and output type
+	 */
+	export(
+		options: KTDataTableExportOptionsInterface & { output: 'blob' },
+	): Promise<Blob>;
+	export(options?: KTDataTableExportOptionsInterface): Promise<string>;
+
+	/**
+	 * Copy rows to the clipboard as TSV, ready to paste into a spreadsheet.
+	 * @param options The rows to copy
+	 * @returns The copied text
+	 */
+	copyToClipboard(
+		options?: Pick<KTDataTableExportOptionsInterface, 'scope'>,
+	): Promise<string>;
+
+	/**
+	 * Get the edits made since the last commitChanges()/revertChanges(), per row.
+	 */
+	getChanges(): KTDataTableRowChangesInterface[];
+
+	/**
+	 * Accept the pending edits (e.g. after saving them) and clear change tracking.
+	 * @returns The committed changes
+	 */
+	commitChanges(): KTDataTableRowChangesInterface[];
+
+	/**
+	 * Restore the original values of all pending edits.
+	 */
+	revertChanges(): void;
+
 	/**
 	 * Go to the given page.
 	 * @param page The page number to go to
@@ -49,10 +204,62 @@ export interface KTDataTableInterface {
 	goPage: (page: number) => void;
 
 	/**
-	 * Reload the data from the API endpoint.
+	 * Reload the data from the API endpoint, bypassing `requestCache`.
 	 */
 	reload: () => void;
 
+	/**
+	 * Append the next batch of rows (`cursorPagination`). Does nothing while
+	 * a request is running or when the server has no more rows.
+	 */
+	loadMore(): Promise<void>;
+
+	/**
+	 * Repeat the remote request that failed (the error row's retry button).
+	 * Reloads when the last request succeeded.
+	 */
+	retry(): Promise<void>;
+
+	/**
+	 * Drop every cached remote response (`requestCache`).
+	 */
+	clearCache(): void;
+
+	/**
+	 * Replace the rows of a local table. Rows keep the table body from being
+	 * read again. Ignored with `apiEndpoint` or `dataProvider`.
+	 */
+	setData(rows: KTDataTableDataInterface[]): void;
+
+	/**
+	 * Append rows to a local table.
+	 */
+	addRows(rows: KTDataTableDataInterface[]): void;
+
+	/**
+	 * Merge values into the row with the given id (`rowId`).
+	 */
+	updateRow(id: string | number, patch: KTDataTableDataInterface): void;
+
+	/**
+	 * Remove the rows with the given ids (`rowId`) and drop them from the
+	 * selection.
+	 */
+	removeRows(ids: Array<string | number>): void;
+
+	/**
+	 * Apply the insert, update and delete messages of a live feed (an
+	 * EventSource, a WebSocket or an async iterator) until unsubscribed.
+	 * @returns A function that stops listening; the source stays open
+	 */
+	subscribe(source: KTDataTableLiveSource): () => void;
+
+	/**
+	 * Drop the cached remote responses whose query params match the predicate.
+	 * @param predicate Receives the params of each cached request
+	 */
+	invalidate(predicate: (params: URLSearchParams) => boolean): void;
+
 	/**
 	 * Set the page size.
 	 * @param size The new page size
@@ -81,6 +288,11 @@ export interface KTDataTableInterface {
 	 */
 	setFilter(filter: KTDataTableColumnFilterInterface): void;
 
+	/**
+	 * Remove every column filter and reload the data.
+	 */
+	clearFilters(): void;
+
 	/**
 	 * Get the current state of the datatable.
 	 */
@@ -116,6 +328,22 @@ export interface KTDataTableInterface {
 	 */
 	getChecked(): string[];
 
+	/**
+	 * Get the selection as row ids or, after selecting all matching rows of a
+	 * remote table, as an exclusion list plus the current search and filters.
+	 */
+	getSelection(): KTDataTableSelectionInterface;
+
+	/**
+	 * Select every row matching the current search and filters, on all pages.
+	 */
+	selectAllMatching(): void;
+
+	/**
+	 * Deselect all rows, on all pages.
+	 */
+	clearSelection(): void;
+
 	/**
 	 * Re-apply checkbox checked states to visible rows after a redraw or pagination change.
 	 */
@@ -127,9 +355,28 @@ export interface KTDataTableInterface {
 	update(): void;
 }
 
+/**
+ * Payload of the `dataChange` event, fired by setData(), addRows(),
+ * updateRow() and removeRows().
+ */
+export interface KTDataTableDataChangeInterface<
+	T extends KTDataTableDataInterface = KTDataTableDataInterface,
+> {
+	type: 'set' | 'add' | 'update' | 'remove';
+	/** The new, added, updated or removed rows */
+	rows: T[];
+}
+
 export interface KTDataTableResponseDataInterface {
 	data: KTDataTableDataInterface[];
-	totalCount: number;
+	/** Total matching rows; optional with `cursorPagination` */
+	totalCount?: number;
+	/** Opaque cursor for the next batch (`cursorPagination`) */
+	nextCursor?: string | null;
+	/** More rows after this batch; defaults to whether `nextCursor` is set */
+	hasMore?: boolean;
+	/** Footer totals by column key (`columns[key].aggregate`), over every matching row */
+	aggregates?: { [column: string]: KTOptionType };
 }
 
 export interface KTDataTableLockedRowsConfigInterface {
@@ -154,6 +401,348 @@ export interface KTDataTableLayoutPluginContextInterface {
 	theadElement: HTMLTableSectionElement;
 	tbodyElement: HTMLTableSectionElement;
 	config: KTDataTableConfigInterface;
+	/** Column keys in display order (set when columns were reordered) */
+	columnKeys?: string[];
+}
+
+export type KTDataTableAggregateName = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+/**
+ * Built-in aggregate name, or a custom function over the group's cell values.
+ */
+export type KTDataTableAggregate<
+	T extends KTDataTableDataInterface = KTDataTableDataInterface,
+> =
+	| KTDataTableAggregateName
+	| ((values: Array<T[keyof T]>, rows: T[]) => KTOptionType);
+
+export interface KTDataTableGroupByConfigInterface<
+	T extends KTDataTableDataInterface = KTDataTableDataInterface,
+> {
+	/** Data key (or column index) whose value groups the rows */
+	column: keyof T | number;
+	/**
+	 * Allow group headers to collapse/expand their rows.
+	 * @default true
+	 */
+	collapsible?: boolean;
+	/**
+	 * Initial state of groups that were never toggled.
+	 * @default false
+	 */
+	collapsed?: boolean;
+	/** Group header content; defaults to the group value and its row count */
+	render?: (
+		group: string,
+		rows: T[],
+		context: KTDataTableInterface,
+	) => string | HTMLElement | DocumentFragment;
+	/** Aggregates rendered in a footer row under each group, by column key */
+	aggregates?: { [column: string]: KTDataTableAggregate<T> };
+	/** Format an aggregate value for its footer cell */
+	aggregateRender?: (
+		value: KTOptionType,
+		column: string,
+		rows: T[],
+	) => string | HTMLElement | DocumentFragment;
+}
+
+/**
+ * Filter row controls and the filters they set:
+ * - `text`: `text` filter (substring)
+ * - `numberRange`: `between` filter with `{ min, max }`
+ * - `dateRange`: `dateRange` filter with `{ from, to }`
+ * - `select`: `in` filter with the chosen value
+ */
+export type KTDataTableFilterControlType =
+	'text' | 'numberRange' | 'dateRange' | 'select';
+
+export interface KTDataTableFilterControlInterface {
+	type: KTDataTableFilterControlType;
+	placeholder?: string;
+	/**
+	 * Values offered by a `select` control. Defaults to the distinct values of
+	 * the column (local data) or of the loaded rows (remote data).
+	 */
+	options?: Array<string | { value: string; label?: string }>;
+}
+
+export interface KTDataTableFilterRowConfigInterface {
+	/**
+	 * Debounce delay in milliseconds for text and range inputs.
+	 * @default search.delay
+	 */
+	delay?: number;
+	/**
+	 * Label of the clear filters button.
+	 * @default 'Clear'
+	 */
+	clearText?: string;
+	/**
+	 * Label of the empty option of `select` controls.
+	 * @default 'All'
+	 */
+	allText?: string;
+	/**
+	 * Show the number of matching rows next to each `select` option
+	 * (local data only).
+	 * @default true
+	 */
+	counts?: boolean;
+}
+
+export interface KTDataTableColumnResizeConfigInterface {
+	/**
+	 * Smallest column width in pixels, unless the column sets its own.
+	 * @default 40
+	 */
+	minWidth?: number;
+	/**
+	 * Largest column width in pixels, unless the column sets its own.
+	 * @default Infinity
+	 */
+	maxWidth?: number;
+}
+
+export interface KTDataTableVirtualScrollConfigInterface {
+	/**
+	 * Height of the scroll container in pixels.
+	 * @default 400
+	 */
+	height?: number;
+	/**
+	 * Estimated row height in pixels; replaced by the measured height of the
+	 * first rendered row. Rows are assumed to share one height.
+	 * @default 40
+	 */
+	rowHeight?: number;
+	/**
+	 * Rows rendered above and below the visible window.
+	 * @default 10
+	 */
+	overscan?: number;
+}
+
+/**
+ * Storage backend for `stateSave`. Methods may return promises for async
+ * backends (IndexedDB, a server); the first draw then waits for load().
+ */
+export interface KTDataTableStatePersistence {
+	save(
+		namespace: string,
+		state: KTDataTableStateInterface,
+	): void | Promise<void>;
+	load(
+		namespace: string,
+	):
+		| KTDataTableStateInterface
+		| null
+		| Promise<KTDataTableStateInterface | null>;
+	remove(namespace: string): void | Promise<void>;
+}
+
+export interface KTDataTableUrlSyncConfigInterface {
+	/**
+	 * Prefix of the query parameters, to sync several tables on one page.
+	 * @default ''
+	 */
+	prefix?: string;
+}
+
+export interface KTDataTableCursorPaginationConfigInterface {
+	/**
+	 * Query parameter that carries the cursor of the next batch.
+	 * @default 'cursor'
+	 */
+	param?: string;
+	/**
+	 * Also load the next batch when the scroll container nears its end.
+	 * @default false
+	 */
+	infiniteScroll?: boolean;
+	/**
+	 * Distance in pixels from the end of the scroll container that triggers
+	 * infinite scroll.
+	 * @default 200
+	 */
+	threshold?: number;
+	/**
+	 * Info template while the total is unknown.
+	 * @default '{start}-{end} of {end}+'
+	 */
+	info?: string;
+	/**
+	 * "Load more" button template.
+	 */
+	loadMore?: {
+		class: string;
+		text: string;
+	};
+}
+
+export interface KTDataTableRequestRetryConfigInterface {
+	/**
+	 * Retries after the first request.
+	 * @default 2
+	 */
+	retries?: number;
+	/**
+	 * Delay in milliseconds before the first retry; it doubles on every retry.
+	 * @default 500
+	 */
+	delay?: number;
+	/**
+	 * Longest delay in milliseconds between two retries.
+	 * @default 8000
+	 */
+	maxDelay?: number;
+}
+
+export interface KTDataTableRequestCacheConfigInterface {
+	/**
+	 * Milliseconds a cached response stays fresh.
+	 * @default 60000
+	 */
+	ttl?: number;
+	/**
+	 * Responses kept; the least recently used one is dropped first.
+	 * @default 50
+	 */
+	maxEntries?: number;
+	/**
+	 * Show an expired response right away and replace it once a fresh copy
+	 * has been fetched in the background.
+	 * @default false
+	 */
+	staleWhileRevalidate?: boolean;
+	/**
+	 * Fetch the next page in the background after every draw.
+	 * @default false
+	 */
+	prefetch?: boolean;
+}
+
+/**
+ * When sort, filters and paging run again after live messages:
+ * - `immediate`: after every message
+ * - `debounce`: once no message arrived for `delay` ms
+ * - `manual`: never; rows keep their place until the next draw
+ */
+export type KTDataTableLiveReapplyPolicy = 'immediate' | 'debounce' | 'manual';
+
+export interface KTDataTableLiveUpdatesConfigInterface {
+	/**
+	 * When sort, filters and paging run again. Updates of columns that do not
+	 * affect them are patched into the rendered rows right away either way.
+	 * @default 'debounce'
+	 */
+	reapply?: KTDataTableLiveReapplyPolicy;
+	/**
+	 * Quiet period before re-applying with `reapply: 'debounce'`, in ms.
+	 * @default 1000
+	 */
+	delay?: number;
+	/**
+	 * Class added to inserted and updated rows, such as
+	 * `kt-datatable-row-updated`. No highlight when empty.
+	 * @default ''
+	 */
+	highlightClass?: string;
+	/**
+	 * How long a row keeps `highlightClass`, in ms.
+	 * @default 2000
+	 */
+	highlightDuration?: number;
+}
+
+/**
+ * One change of a live feed. Rows are matched by `rowId`, else their
+ * checkbox value.
+ */
+export interface KTDataTableLiveMessageInterface<
+	T extends KTDataTableDataInterface = KTDataTableDataInterface,
+> {
+	type: 'insert' | 'update' | 'delete';
+	/** Row id of an update or delete; an insert takes it from `row` */
+	id?: string | number;
+	/** The inserted row, or the changed values of an update */
+	row?: Partial<T>;
+}
+
+/** EventSource, WebSocket or anything else dispatching `message` events */
+export interface KTDataTableLiveEventSourceInterface {
+	addEventListener(
+		type: 'message',
+		listener: (event: MessageEvent) => void,
+	): void;
+	removeEventListener(
+		type: 'message',
+		listener: (event: MessageEvent) => void,
+	): void;
+}
+
+/** Async iterator, such as an async generator, yielding messages */
+export interface KTDataTableLiveIteratorInterface<
+	T extends KTDataTableDataInterface = KTDataTableDataInterface,
+> {
+	next(): Promise<{
+		done?: boolean;
+		value:
+			KTDataTableLiveMessageInterface<T> | KTDataTableLiveMessageInterface<T>[];
+	}>;
+	return?(): Promise<unknown>;
+}
+
+/**
+ * Feed for subscribe(). Event data may be a message, an array of messages,
+ * or either one as JSON.
+ */
+export type KTDataTableLiveSource<
+	T extends KTDataTableDataInterface = KTDataTableDataInterface,
+> = KTDataTableLiveEventSourceInterface | KTDataTableLiveIteratorInterface<T>;
+
+/**
+ * Why a remote request failed:
+ * - `network`: no response (offline, CORS, DNS)
+ * - `timeout`: no response within `requestTimeout`
+ * - `http`: a response with an error status
+ * - `parse`: a response body that is not valid JSON
+ */
+export type KTDataTableFetchErrorType =
+	'network' | 'timeout' | 'http' | 'parse';
+
+/**
+ * Payload of the `fetchError` event, passed to `errorRow.render`.
+ */
+export interface KTDataTableFetchErrorInterface {
+	type: KTDataTableFetchErrorType;
+	message: string;
+	/** HTTP status, when there was a response */
+	status?: number;
+	statusText?: string;
+	response?: Response;
+	/** The exception thrown by fetch() or response.json() */
+	error?: unknown;
+	/** Requests made, retries included */
+	attempts: number;
+	/** Network errors, timeouts and 5xx responses are retried (`requestRetry`) */
+	retryable: boolean;
+}
+
+export interface KTDataTableErrorRowConfigInterface {
+	/**
+	 * Text of the row's retry button.
+	 * @default 'Retry'
+	 */
+	retryText?: string;
+	/**
+	 * Content of the error row. Any `[data-kt-datatable-retry]` element in it
+	 * repeats the request.
+	 */
+	render?: (
+		error: KTDataTableFetchErrorInterface,
+		context: KTDataTableInterface,
+	) => string | HTMLElement | DocumentFragment;
 }
 
 export interface KTDataTableLayoutPluginInterface {
@@ -170,16 +759,69 @@ export interface KTDataTableConfigInterface<
 	requestHeaders?: { [key: string]: string };
 	requestCredentials?: RequestCredentials;
 	apiEndpoint?: string;
+	/**
+	 * Source of the rows in place of the table body or `apiEndpoint`, such as
+	 * GraphQL, IndexedDB or a WebSocket. A function is called once with the
+	 * state store and event adapter and returns the provider.
+	 */
+	dataProvider?: KTDataTableDataProvider<T> | KTDataTableDataProviderFactory<T>;
+	/**
+	 * Rows to show in place of the table body, keyed by the
+	 * `data-kt-datatable-column` of the headers. See setData().
+	 */
+	data?: T[];
+	/**
+	 * Column holding a unique row id for updateRow() and removeRows().
+	 * Defaults to the row's checkbox value.
+	 */
+	rowId?: string;
 	mapResponse?: (
 		data: KTDataTableResponseDataInterface,
 	) => KTDataTableResponseDataInterface;
 	mapRequest?: (query: URLSearchParams) => URLSearchParams;
+	/**
+	 * Abort a remote request that takes longer than this, in milliseconds.
+	 * Prefetch and revalidation requests are aborted too. 0 waits indefinitely.
+	 * @default 0
+	 */
+	requestTimeout?: number;
+	/**
+	 * Retry remote requests that fail with a network error, a timeout or a
+	 * 5xx status, with exponential backoff. A number sets the retries.
+	 * @default false
+	 */
+	requestRetry?: boolean | number | KTDataTableRequestRetryConfigInterface;
+	/**
+	 * Row shown in the table body when a remote request fails for good.
+	 */
+	errorRow?: KTDataTableErrorRowConfigInterface;
+	/**
+	 * Cache remote responses by their query params, so paging back does not
+	 * hit the API again. Not used with `cursorPagination`.
+	 * @default false
+	 */
+	requestCache?: boolean | KTDataTableRequestCacheConfigInterface;
+	/**
+	 * How messages of subscribe() feeds are applied.
+	 */
+	liveUpdates?: KTDataTableLiveUpdatesConfigInterface;
 
 	pageSize?: number;
 	pageMore?: boolean;
 	pageMoreLimit?: number;
 	stateSave?: boolean;
 	stateNamespace?: string;
+	/**
+	 * Where `stateSave` keeps the state: a web storage area or a custom backend.
+	 * @default 'localStorage'
+	 */
+	statePersistence?:
+		'localStorage' | 'sessionStorage' | KTDataTableStatePersistence;
+	/**
+	 * Mirror page, page size, sort, search and filters into the query string
+	 * (history.replaceState) and restore them on load and on popstate.
+	 */
+	urlSync?: boolean | KTDataTableUrlSyncConfigInterface;
 	pageSizes?: number[];
 	columns?: {
 		[key: string]: {
@@ -215,6 +857,55 @@ export interface KTDataTableConfigInterface<
 			 * Accepts any CSS length value (e.g. '120px', '20%', '10rem').
 			 */
 			width?: string;
+			/**
+			 * Smallest width in pixels the column can be resized to (`columnResize`).
+			 */
+			minWidth?: number;
+			/**
+			 * Largest width in pixels the column can be resized to (`columnResize`).
+			 */
+			maxWidth?: number;
+			/**
+			 * Set to false to keep the column at its width when `columnResize` is on.
+			 */
+			resizable?: boolean;
+			/**
+			 * Control rendered for this column in the filter row (`filterRow`).
+			 */
+			filter?: KTDataTableFilterControlType | KTDataTableFilterControlInterface;
+			/**
+			 * Aggregate shown for this column in the table footer row.
+			 */
+			aggregate?: KTDataTableAggregate<T>;
+			/**
+			 * Format the footer aggregate value. Rows are those the value was
+			 * computed over (`aggregateScope`).
+			 */
+			renderAggregate?: (
+				value: KTOptionType,
+				column: string,
+				rows: T[],
+			) => string | HTMLElement | DocumentFragment;
+			/**
+			 * Value written by export() and copyToClipboard(). Defaults to the
+			 * cell value as plain text.
+			 */
+			exportValue?: (
+				cellValue: T[keyof T] | string,
+				rowData: T,
+			) => string | number;
+			/**
+			 * Make the column editable in place (double-click or Enter on a cell).
+			 */
+			editor?:
+				| KTDataTableEditorType
+				| KTDataTableEditorFactory<T>
+				| KTDataTableEditorConfigInterface<T>;
+			/**
+			 * Check an edited value before it is stored. Return false or an error
+			 * message to reject it; the editor stays open.
+			 */
+			validate?: (value: KTOptionType, rowData: T) => boolean | string;
 		};
 	};
 
@@ -233,11 +924,17 @@ export interface KTDataTableConfigInterface<
 			asc?: string;
 			desc?: string;
 		};
-		// local data sort callback
+		/**
+		 * Allow shift-click on a header to append the column to the sort stack.
+		 * @default true
+		 */
+		multiple?: boolean;
+		// local data sort callback; sortStack holds every key when multi-sorting
 		callback?: (
 			data: T[],
 			sortField: keyof T | number,
 			sortOrder: KTDataTableSortOrderInterface,
+			sortStack?: KTDataTableSortItemInterface[],
 		) => T[];
 	};
 
@@ -278,6 +975,12 @@ export interface KTDataTableConfigInterface<
 	checkbox?: {
 		checkedClass?: string;
 		preserveSelection?: boolean;
+		/**
+		 * After the header checkbox selects a page, offer to select every row
+		 * matching the current search and filters, across all pages.
+		 * @default false
+		 */
+		selectAllMatching?: boolean | KTDataTableSelectAllMatchingConfigInterface;
 	};
 
 	/**
@@ -289,6 +992,64 @@ export interface KTDataTableConfigInterface<
 	 */
 	tableLayout?: 'auto' | 'fixed';
 
+	/**
+	 * Rows the footer aggregates cover (`columns[key].aggregate`) in local
+	 * mode: the current page, or every row matching the search and filters.
+	 * Remote tables read the totals from the response's `aggregates` field.
+	 * @default 'page'
+	 */
+	aggregateScope?: 'page' | 'filtered';
+
+	/**
+	 * Render a row of filter controls under the header for the columns with a
+	 * `filter` control (`columns[key].filter` or `data-kt-datatable-column-filter`).
+	 */
+	filterRow?: boolean | KTDataTableFilterRowConfigInterface;
+
+	/**
+	 * Drag handles on the header cells to resize columns; double-click a
+	 * handle to fit the column to its content. Needs `tableLayout: 'fixed'`.
+	 * Widths are kept in `state.columnWidths`.
+	 */
+	columnResize?: boolean | KTDataTableColumnResizeConfigInterface;
+
+	/**
+	 * Group rows by a column. Group header rows are rendered per group and can
+	 * collapse; paging still counts data rows only.
+	 */
+	groupBy?: (keyof T & string) | KTDataTableGroupByConfigInterface<T>;
+
+	/**
+	 * Render only the rows in view (plus an overscan buffer) inside a
+	 * fixed-height scroll container instead of paging. Local data only.
+	 */
+	virtualScroll?: boolean | KTDataTableVirtualScrollConfigInterface;
+
+	/**
+	 * Page remote data with an opaque cursor (`nextCursor` in the response)
+	 * instead of page numbers. Each batch is appended to the rows already
+	 * loaded. Remote data only.
+	 */
+	cursorPagination?: boolean | KTDataTableCursorPaginationConfigInterface;
+
+	/**
+	 * Keyboard navigation following the ARIA grid pattern: the table is one
+	 * tab stop, arrow keys, Home/End and PageUp/PageDown move between cells,
+	 * Enter activates the cell's link or checkbox and Space toggles the row
+	 * checkbox.
+	 * @default false
+	 */
+	keyboardNavigation?: boolean;
+
+	/**
+	 * Content of the full-width detail row opened by a row's expand button.
+	 * Setting it adds the expand button to every data row.
+	 */
+	detailRender?: (
+		rowData: T,
+		context: KTDataTableInterface,
+	) => string | HTMLElement | DocumentFragment;
+
 	lockedLayout?: KTDataTableLockedLayoutConfigInterface;
 	layoutPlugin?: KTDataTableLayoutPluginInterface;
 
@@ -301,7 +1062,17 @@ export interface KTDataTableConfigInterface<
 export type KTDataTableColumnFilterTypeInterface =
 	| 'text'
 	| 'numeric'
-	| 'dateRange';
+	| 'dateRange'
+	| 'between'
+	| 'gt'
+	| 'gte'
+	| 'lt'
+	| 'lte'
+	| 'in'
+	| 'notIn'
+	| 'startsWith'
+	| 'isEmpty'
+	| 'boolean';
 
 export interface KTDataTableTextFilterInterface {
 	column: keyof KTDataTableDataInterface;
@@ -321,10 +1092,84 @@ export interface KTDataTableDateRangeFilterInterface {
 	value: { from: string; to: string };
 }
 
+/**
+ * Inclusive range. Numeric bounds compare numerically, other strings as dates.
+ * Either bound may be omitted.
+ */
+export interface KTDataTableBetweenFilterInterface {
+	column: keyof KTDataTableDataInterface;
+	type: 'between';
+	value: { min?: number | string; max?: number | string };
+}
+
+export interface KTDataTableComparisonFilterInterface {
+	column: keyof KTDataTableDataInterface;
+	type: 'gt' | 'gte' | 'lt' | 'lte';
+	value: number | string;
+}
+
+export interface KTDataTableListFilterInterface {
+	column: keyof KTDataTableDataInterface;
+	type: 'in' | 'notIn';
+	value: Array<string | number>;
+}
+
+export interface KTDataTableStartsWithFilterInterface {
+	column: keyof KTDataTableDataInterface;
+	type: 'startsWith';
+	value: string;
+}
+
+/**
+ * Match empty cells. Set `value: false` to match non-empty cells instead.
+ */
+export interface KTDataTableIsEmptyFilterInterface {
+	column: keyof KTDataTableDataInterface;
+	type: 'isEmpty';
+	value?: boolean;
+}
+
+/**
+ * Match truthy ('true', '1', 'yes', 'on') or falsy cell values.
+ */
+export interface KTDataTableBooleanFilterInterface {
+	column: keyof KTDataTableDataInterface;
+	type: 'boolean';
+	value: boolean;
+}
+
+/**
+ * Filter handled by a matcher registered with KTDataTable.registerFilterMatcher().
+ */
+export interface KTDataTableCustomFilterInterface {
+	column: keyof KTDataTableDataInterface;
+	type: string;
+	value?: unknown;
+}
+
 export type KTDataTableColumnFilterInterface =
 	| KTDataTableTextFilterInterface
 	| KTDataTableNumericFilterInterface
-	| KTDataTableDateRangeFilterInterface;
+	| KTDataTableDateRangeFilterInterface
+	| KTDataTableBetweenFilterInterface
+	| KTDataTableComparisonFilterInterface
+	| KTDataTableListFilterInterface
+	| KTDataTableStartsWithFilterInterface
+	| KTDataTableIsEmptyFilterInterface
+	| KTDataTableBooleanFilterInterface
+	| KTDataTableCustomFilterInterface;
+
+/**
+ * Local-mode filter matcher. Returns true when the row should be kept.
+ * @param cellValue The raw cell value of the filtered column
+ * @param filterValue The `value` of the filter
+ * @param rowData The whole row, for matchers that look at other columns
+ */
+export type KTDataTableFilterMatcher = (
+	cellValue: unknown,
+	filterValue: unknown,
+	rowData: KTDataTableDataInterface,
+) => boolean;
 
 export interface KTDataTableCheckConfigInterface {
 	target: string;
@@ -347,6 +1192,88 @@ export interface KTDataTableCheckChangePayloadInterface {
 	cancel?: boolean;
 }
 
+/**
+ * Texts of the "select all matching rows" banner. `{count}` is the number of
+ * selected rows, `{total}` the number of matching rows.
+ */
+export interface KTDataTableSelectAllMatchingConfigInterface {
+	/** @default 'All {count} rows on this page are selected.' */
+	pageSelected?: string;
+	/** @default 'Select all {total} matching rows' */
+	selectAll?: string;
+	/** @default 'All {count} matching rows are selected.' */
+	allSelected?: string;
+	/** @default 'Clear selection' */
+	clear?: string;
+}
+
+/**
+ * The selection in a form a server can apply a bulk action to.
+ * - `ids`: exactly the rows in `ids`.
+ * - `allExcept`: every row matching `search` and `filters` except `ids`
+ *   (remote tables after "select all matching").
+ */
+export interface KTDataTableSelectionInterface {
+	mode: 'ids' | 'allExcept';
+	ids: string[];
+	filters: KTDataTableColumnFilterInterface[];
+	search: string | object;
+}
+
+export type KTDataTableEditorType = 'text' | 'number' | 'select' | 'checkbox';
+
+/**
+ * An open cell editor. Built-in editors wrap a form control; custom factories
+ * return any element plus a way to read its value.
+ */
+export interface KTDataTableCellEditorInterface {
+	element: HTMLElement;
+	getValue(): KTOptionType;
+	/** Focus the editor; defaults to focusing `element` */
+	focus?(): void;
+	destroy?(): void;
+}
+
+export type KTDataTableEditorFactory<
+	T extends KTDataTableDataInterface = KTDataTableDataInterface,
+> = (
+	value: T[keyof T] | string,
+	rowData: T,
+	context: KTDataTableInterface,
+) => KTDataTableCellEditorInterface;
+
+export interface KTDataTableEditorConfigInterface<
+	T extends KTDataTableDataInterface = KTDataTableDataInterface,
+> {
+	type: KTDataTableEditorType | KTDataTableEditorFactory<T>;
+	/** Choices of the 'select' editor */
+	options?: Array<string | { value: string; label?: string }>;
+}
+
+/**
+ * Payload of the `cellEdit` event, fired before an edited value is stored.
+ * Set `cancel` to true to discard the edit.
+ */
+export interface KTDataTableCellEditPayloadInterface {
+	column: string;
+	rowData: KTDataTableDataInterface;
+	value: KTOptionType;
+	oldValue: KTOptionType;
+	cancel: boolean;
+}
+
+/**
+ * Uncommitted edits of one row, as returned by getChanges().
+ */
+export interface KTDataTableRowChangesInterface<
+	T extends KTDataTableDataInterface = KTDataTableDataInterface,
+> {
+	rowData: T;
+	changes: {
+		[column: string]: { oldValue: KTOptionType; value: KTOptionType };
+	};
+}
+
 /**
  * Stores original CSS classes from the server-rendered table,
  * used to preserve styling after datatable redraws.
@@ -5,6 +5,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { KTSelect } from '../select';
+import { filterOptions, OptionOrder } from '../utils';
 import { waitFor } from '../../datatable/__tests__/setup';
 
 describe('KTSelect UX Behaviors', () => {
@@ -1351,4 +1352,668 @@ describe('KTSelect UX Behaviors', () => {
 			expect(select.getSelectedOptions()).toContain('b');
 		});
 	});
+
+	describe('Option groups', () => {
+		/**
+		 * Helper to create a select element with <optgroup>s
+		 */
+		const createGroupedSelectElement = (): HTMLSelectElement => {
+			const select = document.createElement('select');
+			select.className = 'kt-select';
+			select.innerHTML = `
+				<optgroup label="Fruits">
+					<option value="apple">Apple</option>
+					<option value="banana">Banana</option>
+					<option value="cherry">Cherry</option>
+				</optgroup>
+				<optgroup label="Vegetables">
+					<option value="carrot">Carrot</option>
+					<option value="potato">Potato</option>
+				</optgroup>
+			`;
+			return select;
+		};
+
+		const getGroups = (select: KTSelect): HTMLElement[] =>
+			Array.from(
+				select
+					.getDropdownElement()
+					.querySelectorAll<HTMLElement>('[data-kt-select-group]'),
+			);
+
+		it('should render groups with headers and skip headers in keyboard navigation', async () => {
+			const selectEl = createGroupedSelectElement();
+			container.appendChild(selectEl);
+
+			const select = new KTSelect(selectEl, { height: 250 });
+			await waitForInit(select);
+
+			const groups = getGroups(select);
+			expect(
+				groups.map((group) => group.textContent?.trim().split(/\s/)[0]),
+			).toEqual(['Fruits', 'Vegetables']);
+			expect(
+				groups[1].querySelector('[role="group"]')?.getAttribute('aria-label'),
+			).toBe('Vegetables');
+			expect(
+				groups[0].querySelectorAll('[data-kt-select-option]'),
+			).toHaveLength(3);
+
+			select.openDropdown();
+			await waitFor(100);
+			const display = select.getDisplayElement();
+			const focusedValues: string[] = [];
+			for (let i = 0; i < 4; i++) {
+				display.dispatchEvent(
+					new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true }),
+				);
+				focusedValues.push(
+					select.getDropdownElement().querySelector<HTMLElement>('.focus')
+						?.dataset.value as string,
+				);
+			}
+			expect(focusedValues).toEqual(['apple', 'banana', 'cherry', 'carrot']);
+		});
+
+		it('should hide groups without matching options while searching', async () => {
+			const selectEl = createGroupedSelectElement();
+			container.appendChild(selectEl);
+
+			const select = new KTSelect(selectEl, {
+				enableSearch: true,
+				height: 250,
+			});
+			await waitForInit(select);
+			select.openDropdown();
+			await waitFor(100);
+
+			const searchInput = select.getSearchInput() as HTMLInputElement;
+			searchInput.value = 'carr';
+			searchInput.dispatchEvent(new Event('input', { bubbles: true }));
+			await waitFor(50);
+
+			const [fruits, vegetables] = getGroups(select);
+			expect(fruits.classList.contains('hidden')).toBe(true);
+			expect(vegetables.classList.contains('hidden')).toBe(false);
+
+			searchInput.value = '';
+			searchInput.dispatchEvent(new Event('input', { bubbles: true }));
+			await waitFor(50);
+			expect(fruits.classList.contains('hidden')).toBe(false);
+		});
+
+		it('should select and clear a whole group with the group toggle, respecting maxSelections', async () => {
+			const selectEl = createGroupedSelectElement();
+			selectEl.setAttribute('multiple', 'multiple');
+			container.appendChild(selectEl);
+
+			const select = new KTSelect(selectEl, {
+				multiple: true,
+				enableGroupSelect: true,
+				maxSelections: 4,
+				height: 250,
+			});
+			await waitForInit(select);
+			const onChange = vi.fn();
+			selectEl.addEventListener('change', onChange);
+
+			const [fruits, vegetables] = getGroups(select).map(
+				(group) =>
+					group.querySelector(
+						'[data-kt-select-group-toggle]',
+					) as HTMLButtonElement,
+			);
+			expect(fruits.textContent).toBe('Select all');
+
+			fruits.click();
+			expect(select.getSelectedOptions()).toEqual([
+				'apple',
+				'banana',
+				'cherry',
+			]);
+			expect(fruits.textContent).toBe('Clear all');
+			expect(onChange).toHaveBeenCalledTimes(1);
+
+			// Only one more option fits
+			vegetables.click();
+			expect(select.getSelectedOptions()).toEqual([
+				'apple',
+				'banana',
+				'cherry',
+				'carrot',
+			]);
+			expect(
+				(selectEl.querySelector('option[value="potato"]') as HTMLOptionElement)
+					.selected,
+			).toBe(false);
+
+			fruits.click();
+			expect(select.getSelectedOptions()).toEqual(['carrot']);
+			expect(vegetables.disabled).toBe(false);
+		});
+
+		it('should group remote items by their group field', async () => {
+			const fetchMock = vi.fn(() =>
+				Promise.resolve({
+					ok: true,
+					json: () =>
+						Promise.resolve([
+							{ id: 'de', title: 'Germany', region: 'Europe' },
+							{ id: 'jp', title: 'Japan', region: 'Asia' },
+							{ id: 'fr', title: 'France', region: 'Europe' },
+						]),
+				}),
+			);
+			vi.stubGlobal('fetch', fetchMock);
+
+			const selectEl = createSelectElement([]);
+			container.appendChild(selectEl);
+			const select = new KTSelect(selectEl, {
+				remote: true,
+				dataUrl: 'https://api.example.com/countries',
+				dataFieldGroup: 'region',
+				height: 250,
+			});
+			await waitForInit(select);
+
+			const groups = getGroups(select);
+			expect(
+				groups.map((group) => group.getAttribute('data-kt-select-group')),
+			).toEqual(['Europe', 'Asia']);
+			expect(
+				Array.from(
+					groups[0].querySelectorAll<HTMLElement>('[data-kt-select-option]'),
+				).map((option) => option.dataset.value),
+			).toEqual(['de', 'fr']);
+			expect(selectEl.querySelectorAll('optgroup')).toHaveLength(2);
+			vi.unstubAllGlobals();
+		});
+	});
+
+	describe('Creatable tags', () => {
+		const createCreatableSelect = async (
+			config: Record<string, unknown> = {},
+		): Promise<{ selectEl: HTMLSelectElement; select: KTSelect }> => {
+			const selectEl = createSelectElement([
+				{ value: 'apple', text: 'Apple' },
+				{ value: 'banana', text: 'Banana' },
+			]);
+			selectEl.multiple = true;
+			container.appendChild(selectEl);
+			const select = new KTSelect(selectEl, {
+				multiple: true,
+				tags: true,
+				enableSearch: true,
+				creatable: true,
+				...config,
+			});
+			await waitForInit(select);
+			return { selectEl, select };
+		};
+
+		const type = (input: HTMLInputElement, value: string) => {
+			input.value = value;
+			input.dispatchEvent(new Event('input', { bubbles: true }));
+		};
+
+		const pressKey = (input: HTMLInputElement, key: string) => {
+			input.dispatchEvent(
+				new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }),
+			);
+		};
+
+		it('should show a create row and create the typed value on Enter', async () => {
+			const { selectEl, select } = await createCreatableSelect();
+			const onCreate = vi.fn();
+			selectEl.addEventListener('create', (event) =>
+				onCreate((event as CustomEvent).detail.payload),
+			);
+			const input = select.getSearchInput() as HTMLInputElement;
+
+			type(input, 'Cherry');
+			const row = select
+				.getDropdownElement()
+				.querySelector('[data-kt-select-create]');
+			expect(row?.textContent).toBe('Create “Cherry”');
+
+			pressKey(input, 'Enter');
+			await waitFor(10);
+
+			const option = selectEl.querySelector<HTMLOptionElement>(
+				'option[value="Cherry"]',
+			);
+			expect(option?.selected).toBe(true);
+			expect(select.getSelectedOptions()).toEqual(['Cherry']);
+			expect(
+				select
+					.getValueDisplayElement()
+					.querySelectorAll('[data-kt-select-tag]'),
+			).toHaveLength(1);
+			expect(onCreate).toHaveBeenCalledWith(
+				expect.objectContaining({ value: 'Cherry', text: 'Cherry' }),
+			);
+			expect(input.value).toBe('');
+			expect(
+				select.getDropdownElement().querySelector('[data-kt-select-create]'),
+			).toBeNull();
+		});
+
+		it('should create on comma and paste and reuse existing options', async () => {
+			const { selectEl, select } = await createCreatableSelect();
+			const input = select.getSearchInput() as HTMLInputElement;
+
+			type(input, 'banana');
+			expect(
+				select.getDropdownElement().querySelector('[data-kt-select-create]'),
+			).toBeNull();
+			pressKey(input, ',');
+			await waitFor(10);
+			expect(select.getSelectedOptions()).toEqual(['banana']);
+
+			const paste = new Event('paste', { bubbles: true, cancelable: true });
+			Object.defineProperty(paste, 'clipboardData', {
+				value: { getData: () => 'kiwi, lime\nmango' },
+			});
+			input.dispatchEvent(paste);
+			await waitFor(10);
+
+			expect(paste.defaultPrevented).toBe(true);
+			expect(select.getSelectedOptions()).toEqual([
+				'banana',
+				'kiwi',
+				'lime',
+				'mango',
+			]);
+			expect(selectEl.querySelectorAll('option')).toHaveLength(5);
+		});
+
+		it('should validate and transform values with an async createOption hook', async () => {
+			const createOption = vi.fn((query: string) =>
+				Promise.resolve(
+					query.includes('@')
+						? { id: query.toLowerCase(), title: `<${query}>` }
+						: null,
+				),
+			);
+			const { selectEl, select } = await createCreatableSelect({
+				createOption,
+			});
+			const input = select.getSearchInput() as HTMLInputElement;
+
+			type(input, 'not-an-email');
+			pressKey(input, 'Enter');
+			await waitFor(10);
+			expect(selectEl.querySelectorAll('option')).toHaveLength(2);
+
+			type(input, 'Bob@Example.com');
+			pressKey(input, 'Enter');
+			await waitFor(10);
+
+			expect(createOption).toHaveBeenCalledTimes(2);
+			const option = selectEl.querySelector<HTMLOptionElement>(
+				'option[value="bob@example.com"]',
+			);
+			expect(option?.textContent).toBe('<Bob@Example.com>');
+			expect(select.getSelectedOptions()).toEqual(['bob@example.com']);
+		});
+	});
+
+	describe('Virtualized options', () => {
+		const OPTION_COUNT = 2000;
+
+		const createVirtualSelect = async (
+			config: Record<string, unknown> = {},
+		): Promise<{ selectEl: HTMLSelectElement; select: KTSelect }> => {
+			const selectEl = createSelectElement(
+				Array.from({ length: OPTION_COUNT }, (_, i) => ({
+					value: String(i),
+					text: i === 1234 ? 'Zulu' : `Option ${i}`,
+				})),
+			);
+			container.appendChild(selectEl);
+			const select = new KTSelect(selectEl, {
+				virtualize: true,
+				height: 200,
+				...config,
+			});
+			await waitForInit(select);
+			return { selectEl, select };
+		};
+
+		const getRenderedValues = (select: KTSelect): string[] =>
+			Array.from(
+				select
+					.getDropdownElement()
+					.querySelectorAll<HTMLElement>('[data-kt-select-option]'),
+			).map((option) => option.dataset.value as string);
+
+		it('should render only the options in view and keep selected classes while scrolling', async () => {
+			const { selectEl, select } = await createVirtualSelect();
+			select.toggleSelection('1500');
+
+			const rendered = getRenderedValues(select);
+			expect(rendered.length).toBeGreaterThan(0);
+			expect(rendered.length).toBeLessThan(30);
+			expect(rendered[0]).toBe('0');
+			expect(selectEl.querySelector('option[value="1500"]')).toHaveProperty(
+				'selected',
+				true,
+			);
+
+			const optionsContainer = select
+				.getDropdownElement()
+				.querySelector('[data-kt-select-options]') as HTMLElement;
+			optionsContainer.scrollTop = 1500 * 36;
+			optionsContainer.dispatchEvent(new Event('scroll'));
+
+			expect(getRenderedValues(select)).toContain('1500');
+			const option = select
+				.getDropdownElement()
+				.querySelector('[data-kt-select-option][data-value="1500"]');
+			expect(option?.classList.contains('selected')).toBe(true);
+			expect(select.getSelectedOptionsText()).toBe('Option 1500');
+		});
+
+		it('should move keyboard focus and type-to-search to options out of view', async () => {
+			const { select } = await createVirtualSelect();
+			select.openDropdown();
+			await waitFor(50);
+			const display = select.getDisplayElement();
+			const press = (key: string) =>
+				display.dispatchEvent(
+					new KeyboardEvent('keydown', { key, bubbles: true }),
+				);
+			const focused = () =>
+				select.getDropdownElement().querySelector<HTMLElement>('.focus')
+					?.dataset.value;
+
+			press('End');
+			expect(focused()).toBe(String(OPTION_COUNT - 1));
+			press('ArrowDown');
+			expect(focused()).toBe('0');
+
+			press('Z');
+			press('u');
+			expect(focused()).toBe('1234');
+			expect(getRenderedValues(select)).not.toContain('0');
+
+			press('Enter');
+			expect(select.getValue()).toBe('1234');
+		});
+
+		it('should search and select all across options that are not rendered', async () => {
+			const { select } = await createVirtualSelect({
+				multiple: true,
+				enableSearch: true,
+				enableSelectAll: true,
+			});
+			const input = select.getSearchInput() as HTMLInputElement;
+
+			input.value = 'Option 19';
+			input.dispatchEvent(new Event('input', { bubbles: true }));
+			const rendered = getRenderedValues(select);
+			expect(rendered[0]).toBe('19');
+			expect(rendered.every((value) => value.startsWith('19'))).toBe(true);
+
+			const selectAll = select
+				.getDropdownElement()
+				.querySelector('[data-kt-select-select-all] button') as HTMLElement;
+			selectAll.click();
+
+			// "Option 19", "Option 190"-"Option 199" and "Option 1900"-"Option 1999"
+			expect(select.getSelectedOptions()).toHaveLength(111);
+
+			input.value = '';
+			input.dispatchEvent(new Event('input', { bubbles: true }));
+			expect(getRenderedValues(select)[0]).toBe('0');
+		});
+	});
+
+	describe('Search matching', () => {
+		const createSearchSelect = async (
+			config: Record<string, unknown> = {},
+		): Promise<{ select: KTSelect; search: (query: string) => string[] }> => {
+			const selectEl = createSelectElement([
+				{ value: 'br', text: 'São Paulo' },
+				{ value: 'de', text: 'Germany' },
+				{ value: 'pa', text: 'Paulo Afonso' },
+				{ value: 'oh', text: 'Ohio' },
+			]);
+			selectEl
+				.querySelector('option[value="de"]')!
+				.setAttribute('data-kt-select-option', '{"keywords":"deutschland"}');
+			container.appendChild(selectEl);
+			const select = new KTSelect(selectEl, { enableSearch: true, ...config });
+			await waitForInit(select);
+
+			const input = select.getSearchInput() as HTMLInputElement;
+			const search = (query: string): string[] => {
+				input.value = query;
+				input.dispatchEvent(new Event('input', { bubbles: true }));
+				return Array.from(
+					select
+						.getDropdownElement()
+						.querySelectorAll<HTMLElement>(
+							'[data-kt-select-option]:not(.hidden)',
+						),
+				).map((option) => option.dataset.value as string);
+			};
+			return { select, search };
+		};
+
+		it('should fold accents, match word prefixes and typos, and rank by score', async () => {
+			const { search } = await createSearchSelect({
+				searchMatch: 'fuzzy',
+				searchIgnoreAccents: true,
+				searchRank: true,
+			});
+
+			expect(search('sao paulo')).toEqual(['br']);
+			expect(search('Germny')).toEqual(['de']);
+			// The text starting with the query ranks above a word starting with it
+			expect(search('paulo')).toEqual(['pa', 'br']);
+			expect(search('')).toEqual(['br', 'de', 'pa', 'oh']);
+		});
+
+		it('should rank by default in fuzzy and prefix modes but not in contains mode', async () => {
+			const fuzzy = await createSearchSelect({ searchMatch: 'fuzzy' });
+			expect(fuzzy.search('paulo')).toEqual(['pa', 'br']);
+
+			const prefix = await createSearchSelect({ searchMatch: 'prefix' });
+			expect(prefix.search('paulo')).toEqual(['pa', 'br']);
+
+			const contains = await createSearchSelect();
+			expect(contains.search('paulo')).toEqual(['br', 'pa']);
+
+			const optOut = await createSearchSelect({
+				searchMatch: 'fuzzy',
+				searchRank: false,
+			});
+			expect(optOut.search('paulo')).toEqual(['br', 'pa']);
+		});
+
+		it('should keep substring matching by default and not match inside words in prefix mode', async () => {
+			const { search } = await createSearchSelect();
+			expect(search('sao')).toEqual([]);
+			expect(search('hio')).toEqual(['oh']);
+			expect(search('paulo')).toEqual(['br', 'pa']);
+
+			const prefix = await createSearchSelect({ searchMatch: 'prefix' });
+			expect(prefix.search('hio')).toEqual([]);
+			expect(prefix.search('af')).toEqual(['pa']);
+		});
+
+		it('should search extra fields and use a custom matcher', async () => {
+			const { search } = await createSearchSelect({
+				searchFields: ['keywords'],
+			});
+			expect(search('deutsch')).toEqual(['de']);
+
+			const custom = await createSearchSelect({
+				searchMatcher: (option: HTMLElement, query: string) =>
+					option.dataset.value === query,
+			});
+			expect(custom.search('oh')).toEqual(['oh']);
+		});
+
+		it('should restore the original order after options are removed and added', () => {
+			const dropdown = document.createElement('div');
+			const makeOption = (value: string, text: string): HTMLElement => {
+				const option = document.createElement('div');
+				option.setAttribute('data-kt-select-option', '');
+				option.dataset.value = value;
+				option.textContent = text;
+				dropdown.appendChild(option);
+				return option;
+			};
+			const [alpha, beta] = [
+				makeOption('a', 'Alpha'),
+				makeOption('b', 'Beta'),
+				makeOption('c', 'Gamma'),
+				makeOption('d', 'Delta'),
+			];
+			const config = { searchRank: true, searchMatch: 'fuzzy' } as const;
+			const order = new OptionOrder();
+			const options = () =>
+				Array.from(
+					dropdown.querySelectorAll<HTMLElement>('[data-kt-select-option]'),
+				);
+			const values = () => options().map((option) => option.dataset.value);
+
+			filterOptions(options(), 'alpha', config, dropdown, undefined, order);
+			beta.remove();
+			makeOption('e', 'Epsilon');
+
+			// The new option ranks first, then everything goes back in place
+			filterOptions(options(), 'epsilon', config, dropdown, undefined, order);
+			expect(values()[0]).toBe('e');
+			filterOptions(options(), '', config, dropdown, undefined, order);
+			expect(values()).toEqual(['a', 'c', 'd', 'e']);
+			expect(alpha.classList.contains('hidden')).toBe(false);
+
+			// Separate orders do not share positions
+			const other = new OptionOrder();
+			other.record(options().reverse());
+			expect(other.compare(alpha, options()[3])).toBeGreaterThan(0);
+			expect(order.compare(alpha, options()[3])).toBeLessThan(0);
+		});
+	});
+
+	describe('Dependent selects', () => {
+		const renderSelects = (html: string): void => {
+			container.insertAdjacentHTML('beforeend', html);
+		};
+		const getRenderedValues = (select: KTSelect): string[] =>
+			Array.from(
+				select
+					.getDropdownElement()
+					.querySelectorAll<HTMLElement>('[data-kt-select-option]'),
+			).map((option) => option.dataset.value as string);
+
+		it('should filter by data-parent, clear on parent change and stay disabled without a parent value', async () => {
+			renderSelects(`
+				<select id="country"><option value=""></option><option value="us">US</option><option value="ca">Canada</option></select>
+				<select id="state"><option value=""></option><option value="ny" data-parent="us">New York</option><option value="tx" data-parent="us">Texas</option><option value="qc" data-parent="ca">Quebec</option></select>
+			`);
+			const countryEl = container.querySelector(
+				'#country',
+			) as HTMLSelectElement;
+			const stateEl = container.querySelector('#state') as HTMLSelectElement;
+			const country = new KTSelect(countryEl);
+			const state = new KTSelect(stateEl, { dependsOn: '#country' });
+			await waitForInit(state);
+
+			expect(stateEl.hasAttribute('disabled')).toBe(true);
+			expect(getRenderedValues(state)).toEqual([]);
+
+			country.toggleSelection('us');
+			expect(stateEl.hasAttribute('disabled')).toBe(false);
+			expect(getRenderedValues(state)).toEqual(['ny', 'tx']);
+
+			state.toggleSelection('tx');
+			expect(state.getValue()).toBe('tx');
+
+			country.toggleSelection('ca');
+			expect(state.getSelectedOptions()).toEqual([]);
+			expect(getRenderedValues(state)).toEqual(['qc']);
+		});
+
+		it('should restore initial values of a chain initialized child first', async () => {
+			renderSelects(`
+				<select id="country"><option value=""></option><option value="us" selected>US</option><option value="ca">Canada</option></select>
+				<select id="state"><option value=""></option><option value="ny" data-parent="us" selected>New York</option><option value="qc" data-parent="ca">Quebec</option></select>
+				<select id="city"><option value=""></option><option value="nyc" data-parent="ny" selected>New York City</option><option value="mtl" data-parent="qc">Montreal</option></select>
+			`);
+			const city = new KTSelect(
+				container.querySelector('#city') as HTMLElement,
+				{
+					dependsOn: '#state',
+				},
+			);
+			const state = new KTSelect(
+				container.querySelector('#state') as HTMLElement,
+				{ dependsOn: '#country' },
+			);
+			const country = new KTSelect(
+				container.querySelector('#country') as HTMLElement,
+			);
+			await waitForInit(country);
+
+			expect(country.getValue()).toBe('us');
+			expect(state.getValue()).toBe('ny');
+			expect(city.getValue()).toBe('nyc');
+			expect(getRenderedValues(city)).toEqual(['nyc']);
+
+			// Clearing the parent clears and disables the whole chain
+			country.clearSelection();
+			expect(state.getSelectedOptions()).toEqual([]);
+			expect(city.getSelectedOptions()).toEqual([]);
+			expect(
+				(container.querySelector('#city') as HTMLElement).hasAttribute(
+					'disabled',
+				),
+			).toBe(true);
+		});
+
+		it('should fetch remote options for the parent value', async () => {
+			const fetchMock = vi.fn((url: string) =>
+				Promise.resolve({
+					ok: true,
+					json: () =>
+						Promise.resolve(
+							url.indexOf('country=ca') !== -1
+								? [{ id: 'qc', title: 'Quebec' }]
+								: [{ id: 'ny', title: 'New York' }],
+						),
+				}),
+			);
+			vi.stubGlobal('fetch', fetchMock);
+
+			renderSelects(`
+				<select id="country"><option value=""></option><option value="us">US</option><option value="ca">Canada</option></select>
+				<select id="state"></select>
+			`);
+			const country = new KTSelect(
+				container.querySelector('#country') as HTMLElement,
+			);
+			const state = new KTSelect(
+				container.querySelector('#state') as HTMLElement,
+				{
+					remote: true,
+					dataUrl: 'https://api.example.com/states?country={{parent}}',
+					dependsOn: '#country',
+				},
+			);
+			await waitForInit(state);
+			expect(fetchMock).not.toHaveBeenCalled();
+
+			country.toggleSelection('ca');
+			await waitFor(50);
+			expect(fetchMock).toHaveBeenCalledWith(
+				'https://api.example.com/states?country=ca',
+			);
+			expect(getRenderedValues(state)).toEqual(['qc']);
+			vi.unstubAllGlobals();
+		});
+	});
 });
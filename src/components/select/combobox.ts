@@ -168,7 +168,19 @@ export class KTSelectCombobox {
 		) as HTMLElement[];
 		const config = this._select.getConfig();
 		const dropdownElement = this._select.getDropdownElement();
-		filterOptions(options, query, config, dropdownElement);
+		const virtualList = this._select.getVirtualList();
+		if (virtualList) {
+			virtualList.filter(query);
+		} else {
+			filterOptions(
+				options,
+				query,
+				config,
+				dropdownElement,
+				undefined,
+				this._select.getOptionOrder(),
+			);
+		}
 		// After filtering, focusManager in KTSelectSearch (if search is also enabled there)
 		// or the main FocusManager should adjust focus if needed.
 		// For combobox, this filtering is the primary search mechanism.
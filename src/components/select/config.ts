@@ -23,9 +23,13 @@ export const DefaultConfig: KTSelectConfigInterface = {
 	apiDataProperty: undefined, // Property in the response object that contains the options
 	remoteErrorMessage: 'Failed to load data', // Error message to display if remote data fetch fails
 
+	// Dependent Selects
+	dependsOn: undefined, // Parent select (selector or element); its value filters or loads this select's options
+
 	// Field Mapping
 	dataValueField: undefined, // Property in the option object that contains the value (default: 'id')
 	dataFieldText: undefined, // Property in the option object that contains the text (default: 'title')
+	dataFieldGroup: undefined, // Property in the option object that contains the group label (default: 'group')
 
 	// Search Configuration
 	searchParam: '', // Query parameter for API search requests
@@ -52,6 +56,11 @@ export const DefaultConfig: KTSelectConfigInterface = {
 	searchMinLength: 0, // Minimum characters required to trigger search
 	searchMaxItems: 50, // Maximum number of search results to display
 	searchEmpty: 'No results', // Text to display when no search results are found
+	searchMatch: 'contains', // How options match the query: 'contains', 'prefix' (word starts) or 'fuzzy'
+	searchIgnoreAccents: false, // Match "sao paulo" to "São Paulo"
+	searchFields: [], // Extra option data to search, e.g. ['keywords'] from the data-kt-select-option JSON
+	searchRank: undefined, // Order matches by score instead of option order; defaults to on for 'prefix' and 'fuzzy'
+	searchMatcher: undefined, // Custom matcher: return a score (0 or false for no match)
 	clearSearchOnClose: false, // Clear search input when dropdown closes (default: false to persist search text)
 	closeOnEnter: true, // Close dropdown when Enter is pressed in search input
 
@@ -59,13 +68,20 @@ export const DefaultConfig: KTSelectConfigInterface = {
 	selectAllText: 'Select all', // Text for the "Select All" option (if implemented)
 	clearAllText: 'Clear all', // Text for the "Clear All" option (if implemented)
 	enableSelectAll: false, // Enable/disable "Select All" button for multi-select
+	enableGroupSelect: false, // Multi-select: add a select/clear toggle to each group header
 	showSelectedCount: false, // Tags mode: show "N selected" before chips when true
 	selectedCountText: '{{count}} selected', // Tags mode; use {{count}} placeholder
+	creatable: false, // Tags mode: create options from typed text (Enter, comma or paste)
+	createText: 'Create “{{query}}”', // Text of the create row in the dropdown; use {{query}} placeholder
+	createOption: undefined, // Validate or transform typed text into an option (may return a Promise)
 	renderSelected: undefined, // Custom function to render the selected value(s) in the display area
 
 	// Accessibility & Usability
 	label: 'Select an option', // Label for the select component (for screen readers)
 	height: 250, // Maximum height of the dropdown menu in pixels (if exceeded, a scrollbar will appear)
+	virtualize: false, // Render only the options in view (for thousands of options)
+	virtualItemHeight: 36, // Height of one option row in pixels when virtualized
+	virtualOverscan: 5, // Rows rendered above and below the view when virtualized
 
 	// Dropdown Configuration
 	dropdownZindex: 105, // Initial z-index value for the dropdown
@@ -105,6 +121,11 @@ export interface KTSelectConfigInterface {
 	searchMaxItems?: number;
 	searchDebounce?: number;
 	searchParam?: string;
+	searchMatch?: 'contains' | 'prefix' | 'fuzzy';
+	searchIgnoreAccents?: boolean;
+	searchFields?: string[];
+	searchRank?: boolean;
+	searchMatcher?: (option: HTMLElement, query: string) => number | boolean;
 	clearSearchOnClose?: boolean;
 	closeOnEnter?: boolean;
 
@@ -112,13 +133,22 @@ export interface KTSelectConfigInterface {
 	selectAllText?: string;
 	clearAllText?: string;
 	enableSelectAll?: boolean;
+	enableGroupSelect?: boolean;
 	showSelectedCount?: boolean;
 	selectedCountText?: string;
+	creatable?: boolean;
+	createText?: string;
+	createOption?: (
+		query: string,
+	) => KTSelectCreateResult | Promise<KTSelectCreateResult>;
 	renderSelected?: (selectedOptions: string[]) => string;
 
 	// Accessibility & Usability
 	label?: string;
 	height: number;
+	virtualize?: boolean;
+	virtualItemHeight?: number;
+	virtualOverscan?: number;
 
 	// Data Handling
 	items?: KTSelectOption[];
@@ -131,9 +161,13 @@ export interface KTSelectConfigInterface {
 	apiDataProperty?: string;
 	remoteErrorMessage?: string;
 
+	// Dependent Selects
+	dependsOn?: string | HTMLElement;
+
 	// Field Mapping
 	dataValueField?: string;
 	dataFieldText?: string;
+	dataFieldGroup?: string;
 
 	// Pagination Configuration
 	pagination?: boolean;
@@ -164,6 +198,7 @@ export interface KTSelectConfigInterface {
 	loadMoreClass?: string;
 	wrapperClass?: string;
 	errorClass?: string;
+	groupClass?: string;
 
 	// New Config
 	tags?: boolean;
@@ -192,8 +227,15 @@ export interface KTSelectOption {
 	title: string;
 	selected?: boolean;
 	disabled?: boolean;
+	group?: string; // Label of the group the option is listed under
 }
 
+/**
+ * Result of the createOption hook: an option, a value used as both id and
+ * title, or null/false to reject the typed text
+ */
+export type KTSelectCreateResult = KTSelectOption | string | null | false;
+
 export class KTSelectState {
 	private _config: KTSelectConfigInterface;
 	private _selectedOptions: string[] = [];
@@ -288,6 +330,10 @@ export class KTSelectState {
 				title: option.textContent || option.value, // Use value as fallback for title
 				// 'selected' property will be definitively set by _preSelectOptions
 				disabled: option.disabled,
+				group:
+					option.parentElement instanceof HTMLOptGroupElement
+						? option.parentElement.label
+						: undefined,
 			};
 			return item;
 		});
@@ -0,0 +1,157 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+import { KTSelectConfigInterface } from './config';
+import { KTSelect } from './select';
+
+/**
+ * KTSelectDependent - Links a select to the parent select of dependsOn
+ * Local options are filtered by their data-parent attribute; remote options
+ * are loaded for the parent value by KTSelect. The select stays disabled
+ * until the parent has a value.
+ */
+export class KTSelectDependent {
+	private _select: KTSelect;
+	private _config: KTSelectConfigInterface;
+	private _parentElement: HTMLSelectElement;
+	private _parentValues: string[];
+	private _disabledByParent: boolean = false;
+	// Options and groups of the native select in their original order
+	private _nodes: Array<HTMLOptionElement | HTMLOptGroupElement> = [];
+	private _groupOptions = new Map<HTMLOptGroupElement, HTMLOptionElement[]>();
+	private _onParentChange: () => void;
+	private _boundChangeHandler: () => void;
+
+	/**
+	 * Constructor: Initializes the dependent select
+	 * @param onParentChange Called when the parent value changes
+	 */
+	constructor(
+		select: KTSelect,
+		parentElement: HTMLSelectElement,
+		onParentChange: () => void,
+	) {
+		this._select = select;
+		this._config = select.getConfig();
+		this._parentElement = parentElement;
+		this._onParentChange = onParentChange;
+
+		// Read from the native select, so the parent can initialize before or after
+		this._parentValues = this._readParentValues();
+
+		if (!this._config.remote) {
+			Array.from(select.getElement().children).forEach((node) => {
+				if (node instanceof HTMLOptGroupElement) {
+					this._nodes.push(node);
+					this._groupOptions.set(
+						node,
+						Array.from(node.querySelectorAll('option')),
+					);
+				} else if (node instanceof HTMLOptionElement) {
+					this._nodes.push(node);
+				}
+			});
+			this.filterOptions();
+		}
+
+		// Until the parent has a value there is nothing to choose from
+		if (!this.hasParentValue() && !this._config.disabled) {
+			this._config.disabled = true;
+			this._disabledByParent = true;
+		}
+
+		this._boundChangeHandler = this._handleParentChange.bind(this);
+		parentElement.addEventListener('change', this._boundChangeHandler);
+	}
+
+	/**
+	 * Selected values of the parent select
+	 */
+	public getParentValues(): string[] {
+		return this._parentValues.slice();
+	}
+
+	public hasParentValue(): boolean {
+		return this._parentValues.length > 0;
+	}
+
+	/**
+	 * Keep the native options whose data-parent is a parent value, and the
+	 * options without data-parent. Other options are removed until the
+	 * parent value changes.
+	 */
+	public filterOptions(): void {
+		const element = this._select.getElement();
+		const isMatch = (option: HTMLOptionElement) => {
+			const parentValue = option.getAttribute('data-parent');
+			return (
+				parentValue === null || this._parentValues.indexOf(parentValue) !== -1
+			);
+		};
+
+		// Append in the original order, skipping groups without a match
+		this._nodes.forEach((node) => {
+			if (node instanceof HTMLOptGroupElement) {
+				const options = this._groupOptions.get(node) || [];
+				options.forEach((option) => {
+					if (isMatch(option)) {
+						node.appendChild(option);
+					} else {
+						option.remove();
+					}
+				});
+
+				if (node.children.length > 0) {
+					element.appendChild(node);
+				} else {
+					node.remove();
+				}
+			} else if (isMatch(node)) {
+				element.appendChild(node);
+			} else {
+				node.remove();
+			}
+		});
+	}
+
+	/**
+	 * Disable the select while the parent has no value, and enable it again
+	 * once it has one (unless it was disabled by its own config)
+	 */
+	public updateDisabledState(): void {
+		if (!this.hasParentValue()) {
+			if (!this._config.disabled) {
+				this._disabledByParent = true;
+				this._select.disable();
+			}
+		} else if (this._disabledByParent) {
+			this._disabledByParent = false;
+			this._select.enable();
+		}
+	}
+
+	/**
+	 * Clean up resources used by this module
+	 */
+	public destroy(): void {
+		this._parentElement.removeEventListener('change', this._boundChangeHandler);
+	}
+
+	private _handleParentChange(): void {
+		const values = this._readParentValues();
+
+		// Parents dispatch change while restoring their value; only a new value counts
+		if (values.join('\n') === this._parentValues.join('\n')) return;
+
+		this._parentValues = values;
+		this._onParentChange();
+	}
+
+	private _readParentValues(): string[] {
+		return Array.from(this._parentElement.querySelectorAll('option'))
+			.filter((option) => option.selected && option.value !== '')
+			.map((option) => option.value);
+	}
+}
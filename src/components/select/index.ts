@@ -9,8 +9,11 @@ export { KTSelectCombobox } from './combobox';
 export { KTSelectSearch } from './search';
 export { KTSelectTags } from './tags';
 export { KTSelectDropdown } from './dropdown';
+export { KTSelectVirtualList } from './virtual';
+export { KTSelectDependent } from './dependent';
 export {
 	filterOptions,
+	OptionOrder,
 	FocusManager,
 	EventManager,
 	TypeToSearchBuffer,
@@ -20,6 +20,7 @@ export class KTSelectRemote {
 	private _currentPage: number = 1;
 	private _totalPages: number = 1;
 	private _lastQuery: string = '';
+	private _parentValue: string = '';
 	private _element: HTMLElement | null = null;
 
 	private _isRecord(value: unknown): value is Record<string, unknown> {
@@ -116,6 +117,9 @@ export class KTSelectRemote {
 			return '';
 		}
 
+		// Fill in the parent value of a dependent select
+		url = url.replace(/{{parent}}/g, encodeURIComponent(this._parentValue));
+
 		// Add parameters
 		const params = new URLSearchParams();
 
@@ -326,6 +330,12 @@ export class KTSelectRemote {
 			disabled: Boolean(itemRecord.disabled),
 		};
 
+		// Optional group label, listed under a group header in the dropdown
+		const group = getValue(item, this._config.dataFieldGroup || 'group');
+		if (group !== null && group !== undefined && group !== '') {
+			result.group = String(group);
+		}
+
 		return result;
 	}
 
@@ -384,6 +394,14 @@ export class KTSelectRemote {
 		this._lastQuery = '';
 	}
 
+	/**
+	 * Set the parent value of a dependent select, used for {{parent}} in dataUrl
+	 * @param value Parent value (comma-separated for several values)
+	 */
+	public setParentValue(value: string): void {
+		this._parentValue = value;
+	}
+
 	/**
 	 * Set the select element for event dispatching
 	 * @param element The select element
@@ -6,7 +6,13 @@
 import { KTSelectConfigInterface } from './config';
 import { KTSelect } from './select';
 import { defaultTemplates } from './templates';
-import { filterOptions, FocusManager, EventManager } from './utils';
+import {
+	filterOptions,
+	FocusManager,
+	EventManager,
+	restoreOptionOrder,
+	updateGroupVisibility,
+} from './utils';
 
 export class KTSelectSearch {
 	private _select: KTSelect;
@@ -29,6 +35,7 @@ export class KTSelectSearch {
 			'[data-kt-select-option]',
 			select.getConfig(),
 		);
+		this._focusManager.setVirtualList(select.getVirtualList());
 		this.handleSearchInput = this._handleSearchInput.bind(this);
 		this._config = select.getConfig();
 		this._cacheOriginalOptionContents();
@@ -384,9 +391,20 @@ export class KTSelectSearch {
 		// Restore original content before filtering, so highlighting is applied fresh.
 		this._restoreOptionContentsBeforeFilter();
 
-		filterOptions(options, query, config, dropdownElement, (count) =>
-			this._handleNoResults(count),
-		);
+		// Virtual lists filter all options, rendered or not
+		const virtualList = this._select.getVirtualList();
+		if (virtualList) {
+			this._handleNoResults(virtualList.filter(query));
+		} else {
+			filterOptions(
+				options,
+				query,
+				config,
+				dropdownElement,
+				(count) => this._handleNoResults(count),
+				this._select.getOptionOrder(),
+			);
+		}
 
 		this._select.updateSelectAllButtonState();
 	}
@@ -395,6 +413,8 @@ export class KTSelectSearch {
 	 * Reset all options to their original state
 	 */
 	private _resetAllOptions() {
+		this._select.getVirtualList()?.filter('');
+
 		// Show all options
 		const options = Array.from(
 			this._select.getOptionsElement(),
@@ -419,6 +439,8 @@ export class KTSelectSearch {
 				}
 			}
 		});
+		restoreOptionOrder(options, this._select.getOptionOrder());
+		updateGroupVisibility(this._select.getDropdownElement());
 
 		this._clearNoResultsMessage(); // Ensure no results message is cleared when resetting
 		this._select.updateSelectAllButtonState();
@@ -20,10 +20,14 @@ import { KTSelectDropdown } from './dropdown';
 import {
 	FocusManager,
 	EventManager,
+	OptionOrder,
 	renderTemplateString,
 	TypeToSearchBuffer,
+	updateGroupVisibility,
 } from './utils';
 import { KTSelectTags } from './tags';
+import { KTSelectVirtualList } from './virtual';
+import { KTSelectDependent } from './dependent';
 
 export class KTSelect extends KTComponent {
 	// Core properties
@@ -56,6 +60,8 @@ export class KTSelect extends KTComponent {
 	private _remoteModule: KTSelectRemote;
 	private _comboboxModule: KTSelectCombobox | null = null;
 	private _tagsModule: KTSelectTags | null = null;
+	private _virtualList: KTSelectVirtualList | null = null;
+	private _dependentModule: KTSelectDependent | null = null;
 	private _dropdownModule: KTSelectDropdown | null = null;
 	private _loadMoreIndicator: HTMLElement | null = null;
 	private _selectAllButton: HTMLElement | null = null;
@@ -63,6 +69,7 @@ export class KTSelect extends KTComponent {
 	private _focusManager: FocusManager;
 	private _eventManager: EventManager;
 	private _typeToSearchBuffer: TypeToSearchBuffer = new TypeToSearchBuffer();
+	private _optionOrder: OptionOrder = new OptionOrder();
 	private _mutationObserver: MutationObserver | null = null;
 	private _preSelectedValues: string[] = [];
 
@@ -87,9 +94,15 @@ export class KTSelect extends KTComponent {
 		// Initialize event manager
 		this._eventManager = new EventManager();
 
+		// Link to the parent select before options are loaded or rendered
+		if (this._config.dependsOn) {
+			this._initializeDependent();
+		}
+
 		// Initialize remote module if remote data is enabled
 		if (this._config.remote) {
 			this._remoteModule = new KTSelectRemote(this._config, this._element);
+			this._syncRemoteParentValue();
 			this._initializeRemoteData();
 		} else {
 			this._state
@@ -193,6 +206,15 @@ export class KTSelect extends KTComponent {
 		// so that the component can be properly initialized
 		this._createHtmlStructure();
 		this._setupElementReferences();
+		this._initializeVirtualList();
+
+		// A dependent select loads its options once its parent has a value
+		if (this._dependentModule && !this._dependentModule.hasParentValue()) {
+			this._clearExistingOptions();
+			this._updateDropdownWithNewOptions();
+			this._completeRemoteSetup();
+			return;
+		}
 
 		// Show loading state
 		this._renderLoadingState();
@@ -253,6 +275,84 @@ export class KTSelect extends KTComponent {
 			this._element.querySelectorAll('option:not([value=""])'),
 		);
 		options.forEach((option) => option.remove());
+
+		// Groups are rebuilt with the new options
+		this._element
+			.querySelectorAll('optgroup')
+			.forEach((optgroup) => optgroup.remove());
+	}
+
+	/**
+	 * Append an option to the native select, inside the <optgroup> of its
+	 * group when it has one
+	 */
+	private _appendNativeOption(option: HTMLOptionElement, group?: string) {
+		if (!group) {
+			this._element.appendChild(option);
+			return;
+		}
+
+		let optgroup = Array.from(this._element.children).find(
+			(child) => child instanceof HTMLOptGroupElement && child.label === group,
+		) as HTMLOptGroupElement | undefined;
+		if (!optgroup) {
+			optgroup = document.createElement('optgroup');
+			optgroup.label = group;
+			this._element.appendChild(optgroup);
+		}
+		optgroup.appendChild(option);
+	}
+
+	/**
+	 * Render native options into the dropdown. Options of an <optgroup> go
+	 * into a group with a header, reusing a group already in the container.
+	 */
+	private _appendRenderedOptions(
+		container: Element,
+		options: HTMLOptionElement[],
+	): void {
+		const groups = new Map<string, HTMLElement>();
+		Array.from(container.children).forEach((child) => {
+			const label = child.getAttribute('data-kt-select-group');
+			if (label !== null) groups.set(label, child as HTMLElement);
+		});
+
+		// Use DocumentFragment for efficient DOM manipulation
+		const fragment = document.createDocumentFragment();
+
+		options.forEach((optionElement) => {
+			// Skip empty placeholder options (only if BOTH value AND text are empty)
+			// This allows options with empty value but visible text to display in dropdown
+			if (
+				optionElement.value === '' &&
+				optionElement.textContent.trim() === ''
+			) {
+				return;
+			}
+
+			// Create KTSelectOption instance for proper rendering
+			const selectOption = new KTSelectOption(optionElement, this._config);
+			const renderedOption = selectOption.render();
+
+			const parent = optionElement.parentElement;
+			if (!(parent instanceof HTMLOptGroupElement)) {
+				fragment.appendChild(renderedOption);
+				return;
+			}
+
+			let group = groups.get(parent.label);
+			if (!group) {
+				group = defaultTemplates.group(this._config, parent.label);
+				groups.set(parent.label, group);
+				fragment.appendChild(group);
+			}
+			(
+				group.querySelector('[data-kt-select-group-options]') || group
+			).appendChild(renderedOption);
+		});
+
+		// Batch append all options at once
+		container.appendChild(fragment);
 	}
 
 	/**
@@ -273,47 +373,46 @@ export class KTSelect extends KTComponent {
 		// Clear container if requested
 		if (clearContainer) {
 			optionsContainer.innerHTML = '';
+			this._optionOrder.reset();
 		}
 
-		// Use DocumentFragment for efficient DOM manipulation
-		const fragment = document.createDocumentFragment();
-
 		// Process options data
-		optionsData.forEach((optionData) => {
-			let optionElement: HTMLOptionElement;
-
+		const optionElements = optionsData.map((optionData) => {
 			// Handle different input types
 			if (optionData instanceof HTMLOptionElement) {
-				// Skip empty placeholder options
-				if (optionData.value === '' && optionData.textContent.trim() === '') {
-					return;
-				}
-				optionElement = optionData;
-			} else {
-				// Handle KTSelectOptionData objects - cast to ensure type safety
-				const dataItem = optionData as KTSelectOptionData;
-				optionElement = document.createElement('option');
-				optionElement.value = dataItem.id || '';
-				optionElement.textContent = dataItem.title || '';
-
-				if (dataItem.selected) {
-					optionElement.setAttribute('selected', 'selected');
-				}
-				if (dataItem.disabled) {
-					optionElement.setAttribute('disabled', 'disabled');
-				}
+				return optionData;
 			}
 
-			// Create KTSelectOption instance for proper rendering
-			const selectOption = new KTSelectOption(optionElement, this._config);
-			const renderedOption = selectOption.render();
+			// Handle KTSelectOptionData objects - cast to ensure type safety
+			const dataItem = optionData as KTSelectOptionData;
+			const optionElement = document.createElement('option');
+			optionElement.value = dataItem.id || '';
+			optionElement.textContent = dataItem.title || '';
 
-			// Add to fragment for batch DOM operation
-			fragment.appendChild(renderedOption);
+			if (dataItem.selected) {
+				optionElement.setAttribute('selected', 'selected');
+			}
+			if (dataItem.disabled) {
+				optionElement.setAttribute('disabled', 'disabled');
+			}
+			if (dataItem.group) {
+				const optgroup = document.createElement('optgroup');
+				optgroup.label = dataItem.group;
+				optgroup.appendChild(optionElement);
+			}
+			return optionElement;
 		});
 
-		// Batch append all options at once
-		optionsContainer.appendChild(fragment);
+		if (this._virtualList) {
+			if (clearContainer) {
+				this._virtualList.setOptions(optionElements);
+			} else {
+				this._virtualList.appendOptions(optionElements);
+			}
+			return;
+		}
+
+		this._appendRenderedOptions(optionsContainer, optionElements);
 
 		// Update options NodeList
 		this._options = this._dropdownContentElement.querySelectorAll(
@@ -417,6 +516,7 @@ export class KTSelect extends KTComponent {
 			'[data-kt-select-option]',
 			this._config,
 		);
+		this._focusManager.setVirtualList(this._virtualList);
 
 		// Initialize dropdown module after all elements are created
 		this._dropdownModule = new KTSelectDropdown(
@@ -654,6 +754,7 @@ export class KTSelect extends KTComponent {
 		// Setup HTML structure
 		this._createHtmlStructure();
 		this._setupElementReferences();
+		this._initializeVirtualList();
 
 		// Initialize options
 		this._preSelectOptions(this._element);
@@ -690,6 +791,7 @@ export class KTSelect extends KTComponent {
 			'[data-kt-select-option]',
 			this._config,
 		);
+		this._focusManager.setVirtualList(this._virtualList);
 
 		// Initialize dropdown module after all elements are created
 		this._dropdownModule = new KTSelectDropdown(
@@ -779,24 +881,11 @@ export class KTSelect extends KTComponent {
 		// Create options container using template
 		const optionsContainer = defaultTemplates.options(this._config);
 
-		// Add each option directly to the container (only if options exist)
-		options.forEach((optionElement) => {
-			// Skip empty placeholder options (only if BOTH value AND text are empty)
-			// This allows options with empty value but visible text to display in dropdown
-			if (
-				optionElement.value === '' &&
-				optionElement.textContent.trim() === ''
-			) {
-				return;
-			}
-
-			// Create new KTSelectOption instance for each option
-			const selectOption = new KTSelectOption(optionElement, this._config);
-			const renderedOption = selectOption.render();
-
-			// Append directly to options container
-			optionsContainer.appendChild(renderedOption);
-		});
+		// Add each option to the container, grouped by <optgroup>
+		// (the virtual list renders them once the structure is in place)
+		if (!this._config.virtualize) {
+			this._appendRenderedOptions(optionsContainer, options);
+		}
 
 		// Add options container to dropdown
 		dropdownElement.appendChild(optionsContainer);
@@ -916,6 +1005,85 @@ export class KTSelect extends KTComponent {
 		}
 	}
 
+	/**
+	 * Link a dependent select to the parent select of dependsOn
+	 */
+	private _initializeDependent() {
+		const dependsOn = this._config.dependsOn;
+		const parentElement =
+			typeof dependsOn === 'string'
+				? document.querySelector(dependsOn)
+				: dependsOn;
+
+		if (!(parentElement instanceof HTMLSelectElement)) {
+			console.warn('KTSelect: dependsOn parent select not found:', dependsOn);
+			return;
+		}
+
+		this._dependentModule = new KTSelectDependent(this, parentElement, () =>
+			this._handleParentChange(),
+		);
+	}
+
+	/**
+	 * Pass the parent value of a dependent select to the remote module
+	 */
+	private _syncRemoteParentValue() {
+		if (!this._dependentModule || !this._remoteModule) return;
+		this._remoteModule.setParentValue(
+			this._dependentModule.getParentValues().join(','),
+		);
+	}
+
+	/**
+	 * Clear the selection and reload the options when the parent value changes
+	 */
+	private _handleParentChange() {
+		// Local options and the disabled state follow the parent right away,
+		// even before setup
+		if (!this._config.remote) {
+			this._dependentModule.filterOptions();
+		}
+		this._syncRemoteParentValue();
+		this._dependentModule.updateDisabledState();
+		if (!this._dropdownModule) return;
+
+		if (!this._config.remote) {
+			this.update();
+			this.clearSelection();
+		} else {
+			// Cleared first, so reload() does not keep the old selection
+			this.clearSelection();
+			if (this._dependentModule.hasParentValue()) {
+				this.reload().catch(() => {
+					// Reported by reload() through the reloadError event
+				});
+			}
+		}
+	}
+
+	/**
+	 * Initialize the virtual list if virtualize is enabled
+	 */
+	private _initializeVirtualList() {
+		if (!this._config.virtualize || !this._optionsContainer) return;
+
+		this._virtualList = new KTSelectVirtualList(
+			this,
+			this._optionsContainer,
+			() => {
+				// Only the rows in view are option elements
+				this._options = this._dropdownContentElement.querySelectorAll(
+					'[data-kt-select-option]',
+				) as NodeListOf<HTMLElement>;
+				this._updateSelectedOptionClass();
+			},
+		);
+		this._virtualList.setOptions(
+			Array.from(this._element.querySelectorAll('option')),
+		);
+	}
+
 	/**
 	 * Initialize search module if search is enabled
 	 */
@@ -965,7 +1133,10 @@ export class KTSelect extends KTComponent {
 
 		// Only modify options if we have items to replace them with
 		if (items && items.length > 0) {
-			// Clear existing options except the first empty one
+			// Clear existing groups and options except the first empty one
+			element
+				.querySelectorAll('optgroup')
+				.forEach((optgroup) => optgroup.remove());
 			const options = element.querySelectorAll('option:not(:first-child)');
 			options.forEach((option) => option.remove());
 
@@ -1006,7 +1177,17 @@ export class KTSelect extends KTComponent {
 					optionElement.setAttribute('selected', 'selected');
 				}
 
-				element.appendChild(optionElement);
+				// Get group - use item.group directly if available, otherwise try dataFieldGroup
+				let group = item.group;
+				if (group === undefined && this._config.dataFieldGroup) {
+					const extractedGroup = this._getValueByKey(
+						item,
+						this._config.dataFieldGroup,
+					);
+					group = extractedGroup !== null ? String(extractedGroup) : undefined;
+				}
+
+				this._appendNativeOption(optionElement, group);
 			});
 		}
 	}
@@ -1257,8 +1438,12 @@ export class KTSelect extends KTComponent {
 				optionEl.selected = !isSelected;
 			} else {
 				// Set as only selection for single select
+				// (only changed options are written, which matters with thousands of options)
 				Array.from(this._element.querySelectorAll('option')).forEach((opt) => {
-					(opt as HTMLOptionElement).selected = opt.value === value;
+					const selected = opt.value === value;
+					if (opt.selected !== selected) {
+						opt.selected = selected;
+					}
 				});
 			}
 		}
@@ -1291,9 +1476,13 @@ export class KTSelect extends KTComponent {
 
 		if (this._config.multiple) {
 			// For multiple select, set each native option's selected from internal state
+			// With thousands of options, walk a static list and only write changed options
 			const selectedSet = new Set(selectedOptions);
-			Array.from(selectEl.options).forEach((option) => {
-				option.selected = selectedSet.has(option.value);
+			Array.from(selectEl.querySelectorAll('option')).forEach((option) => {
+				const selected = selectedSet.has(option.value);
+				if (option.selected !== selected) {
+					option.selected = selected;
+				}
 			});
 		} else {
 			// For single select, set the value attribute explicitly
@@ -1416,6 +1605,8 @@ export class KTSelect extends KTComponent {
 				}
 			}
 		});
+
+		this._updateGroupToggleStates();
 	}
 
 	/**
@@ -1539,6 +1730,17 @@ export class KTSelect extends KTComponent {
 	 * Handle click within the dropdown
 	 */
 	private _handleDropdownOptionClick(event: Event) {
+		const groupToggle = (event.target as HTMLElement).closest(
+			'[data-kt-select-group-toggle]',
+		);
+		if (groupToggle) {
+			this._handleGroupToggleClick(
+				event,
+				groupToggle.closest('[data-kt-select-group]') as HTMLElement,
+			);
+			return;
+		}
+
 		const optionElement = (event.target as HTMLElement).closest(
 			`[data-kt-select-option]`,
 		);
@@ -1661,6 +1863,20 @@ export class KTSelect extends KTComponent {
 		return this._options;
 	}
 
+	/**
+	 * Get the virtual list, when virtualize is enabled
+	 */
+	public getVirtualList(): KTSelectVirtualList | null {
+		return this._virtualList;
+	}
+
+	/**
+	 * Get the original order of the options, used by search ranking
+	 */
+	public getOptionOrder(): OptionOrder {
+		return this._optionOrder;
+	}
+
 	/**
 	 * Get dropdown element
 	 */
@@ -1686,6 +1902,8 @@ export class KTSelect extends KTComponent {
 	 * Show all options in the dropdown
 	 */
 	public showAllOptions() {
+		this._virtualList?.filter('');
+
 		// Get all options in the dropdown
 		const options = Array.from(
 			this._dropdownContentElement.querySelectorAll(`[data-kt-select-option]`),
@@ -1717,6 +1935,7 @@ export class KTSelect extends KTComponent {
 				}
 			}
 		});
+		updateGroupVisibility(this._dropdownContentElement);
 
 		// If search input exists, clear it
 		if (this._searchInputElement) {
@@ -1783,8 +2002,12 @@ export class KTSelect extends KTComponent {
 				optionEl.selected = !isSelected;
 			} else {
 				// For single select, deselect all other options and select this one
+				// (only changed options are written, which matters with thousands of options)
 				Array.from(this._element.querySelectorAll('option')).forEach((opt) => {
-					(opt as HTMLOptionElement).selected = opt.value === value;
+					const selected = opt.value === value;
+					if (opt.selected !== selected) {
+						opt.selected = selected;
+					}
 				});
 			}
 		}
@@ -1825,6 +2048,100 @@ export class KTSelect extends KTComponent {
 		});
 	}
 
+	/**
+	 * Create an option from typed text and select it (creatable tags).
+	 * The text goes through the createOption hook, which may reject it or
+	 * resolve it asynchronously; text matching an existing option selects
+	 * that option instead.
+	 * @returns The value of the selected option, or null when nothing was selected
+	 */
+	public create(query: string): Promise<string | null> {
+		const text = (query || '').trim();
+		if (!text) return Promise.resolve(null);
+
+		const selectExisting = (value: string): string | null => {
+			if (!this._state.isSelected(value)) {
+				if (this._isMaxSelectionsReached()) return null;
+				this.toggleSelection(value);
+			}
+			return this._state.isSelected(value) ? value : null;
+		};
+
+		const existing = this._findNativeOption(text);
+		if (existing) return Promise.resolve(selectExisting(existing.value));
+		if (this._isMaxSelectionsReached()) return Promise.resolve(null);
+
+		const createOption = this._config.createOption;
+		return Promise.resolve(createOption ? createOption(text) : text)
+			.then((result): string | null => {
+				if (!result) return null;
+
+				const item: KTSelectOptionData =
+					typeof result === 'string' ? { id: result, title: result } : result;
+				const value = String(item.id ?? '').trim();
+				if (!value) return null;
+
+				// The hook may map the text onto an option that already exists
+				const match = this._findNativeOption(value);
+				if (match) return selectExisting(match.value);
+				if (this._isMaxSelectionsReached()) return null;
+
+				const option = document.createElement('option');
+				option.value = value;
+				option.textContent = item.title || value;
+				option.selected = true;
+				this._appendNativeOption(option, item.group);
+
+				this._searchModule?.clearSearch();
+				this._rebuildOptionsFromNative();
+				this.updateSelectAllButtonState();
+
+				const detail = { value, text: option.textContent, query: text };
+				this._dispatchEvent('create', detail);
+				this._fireEvent('create', detail);
+
+				this._dispatchEvent('change', {
+					value,
+					selected: true,
+					selectedOptions: this.getSelectedOptions(),
+				});
+				this._fireEvent('change', {
+					value,
+					selected: true,
+					selectedOptions: this.getSelectedOptions(),
+				});
+
+				return value;
+			})
+			.catch((error): string | null => {
+				console.error('Error creating option:', error);
+				return null;
+			});
+	}
+
+	/**
+	 * Find a native option by value, or by its text ignoring case
+	 */
+	private _findNativeOption(text: string): HTMLOptionElement | null {
+		const lowerText = text.toLowerCase();
+		const options = Array.from(this._element.querySelectorAll('option'));
+		return (
+			options.find((opt) => opt.value === text) ||
+			options.find(
+				(opt) => (opt.textContent || '').trim().toLowerCase() === lowerText,
+			) ||
+			null
+		);
+	}
+
+	private _isMaxSelectionsReached(): boolean {
+		return (
+			!!this._config.multiple &&
+			typeof this._config.maxSelections === 'number' &&
+			this._state.getSelectedOptions().length >= this._config.maxSelections
+		);
+	}
+
 	/**
 	 * Clean up all resources when the component is destroyed
 	 * This overrides the parent dispose method
@@ -1850,6 +2167,14 @@ export class KTSelect extends KTComponent {
 			}
 		}
 
+		if (this._virtualList) {
+			this._virtualList.destroy();
+		}
+
+		if (this._dependentModule) {
+			this._dependentModule.destroy();
+		}
+
 		if (this._searchModule) {
 			if (typeof this._searchModule.destroy === 'function') {
 				this._searchModule.destroy();
@@ -1943,7 +2268,9 @@ export class KTSelect extends KTComponent {
 	 * @fires updated - After update completes successfully
 	 * @fires updateError - If remote data fetch fails
 	 */
-	public update(newOptions?: Array<{ value: string; text: string }>): void {
+	public update(
+		newOptions?: Array<{ value: string; text: string; group?: string }>,
+	): void {
 		// For remote selects, refetch data
 		if (this._config.remote && this._remoteModule) {
 			this._remoteModule
@@ -1975,7 +2302,7 @@ export class KTSelect extends KTComponent {
 							option.selected = true;
 						}
 
-						this._element.appendChild(option);
+						this._appendNativeOption(option, item.group);
 					});
 
 					// Rebuild dropdown
@@ -2004,7 +2331,7 @@ export class KTSelect extends KTComponent {
 					const option = document.createElement('option');
 					option.value = opt.value;
 					option.textContent = opt.text;
-					this._element.appendChild(option);
+					this._appendNativeOption(option, opt.group);
 				});
 			}
 
@@ -2145,7 +2472,7 @@ export class KTSelect extends KTComponent {
 							option.selected = true;
 						}
 
-						this._element.appendChild(option);
+						this._appendNativeOption(option, item.group);
 					});
 
 					// Rebuild dropdown
@@ -2315,12 +2642,15 @@ export class KTSelect extends KTComponent {
 			if (optionsContainer) {
 				this._originalOptionsHtml = optionsContainer.innerHTML;
 			}
+			this._originalVirtualOptions = this._virtualList?.getOptions() ?? null;
 		}
 		this._showDropdownMessage('loading', 'Searching...');
 	}
 
 	// Store original options HTML for restoring after search
 	private _originalOptionsHtml: string | null = null;
+	// Virtual lists restore their options instead of their HTML
+	private _originalVirtualOptions: HTMLOptionElement[] | null = null;
 
 	/**
 	 * Render error state for search
@@ -2348,7 +2678,13 @@ export class KTSelect extends KTComponent {
 		if (!optionsContainer) return;
 
 		// Restore original options
-		optionsContainer.innerHTML = this._originalOptionsHtml;
+		if (this._virtualList && this._originalVirtualOptions) {
+			optionsContainer.innerHTML = '';
+			this._virtualList.setOptions(this._originalVirtualOptions);
+		} else {
+			optionsContainer.innerHTML = this._originalOptionsHtml;
+		}
+		this._optionOrder.reset();
 
 		// Update options NodeList
 		this._options = this._dropdownContentElement.querySelectorAll(
@@ -2416,7 +2752,7 @@ export class KTSelect extends KTComponent {
 				optionElement.setAttribute('disabled', 'disabled');
 			}
 
-			this._element.appendChild(optionElement);
+			this._appendNativeOption(optionElement, item.group);
 		});
 	}
 
@@ -2432,19 +2768,33 @@ export class KTSelect extends KTComponent {
 		const displaySeparator = this._config.displaySeparator || ', ';
 		const texts = selectedValues
 			.map((value) => {
-				const option = Array.from(this._options).find(
-					(opt) => opt.getAttribute('data-value') === value,
-				);
+				const option = this._findOptionElement(value);
 				return option?.getAttribute('data-text') || '';
 			})
 			.filter(Boolean);
 		return texts.join(displaySeparator);
 	}
 
+	/**
+	 * Find the dropdown element of an option. Virtual lists render it when
+	 * it is out of view.
+	 */
+	private _findOptionElement(value: string): HTMLElement | null {
+		const option = Array.from(this._options).find(
+			(opt) => opt.getAttribute('data-value') === value,
+		);
+		return option || this._virtualList?.getElement(value) || null;
+	}
+
 	/**
 	 * Check if an option is disabled (either in dropdown or original select)
 	 */
 	private _isOptionDisabled(value: string): boolean {
+		// Out of view options of a virtual list have no up to date classes
+		if (this._virtualList?.isValueDisabled(value)) {
+			return true;
+		}
+
 		const dropdownOption = Array.from(this._options).find(
 			(opt) => opt.getAttribute('data-value') === value,
 		);
@@ -2608,9 +2958,7 @@ export class KTSelect extends KTComponent {
 			new Set(
 				selectedValues
 					.map((value) => {
-						const option = Array.from(this._options).find(
-							(opt) => opt.getAttribute('data-value') === value,
-						);
+						const option = this._findOptionElement(value);
 						if (!option) return '';
 
 						let displayTemplate = this._config.displayTemplate || '{{text}}';
@@ -2687,18 +3035,13 @@ export class KTSelect extends KTComponent {
 			);
 			if (optionsContainer) {
 				optionsContainer.innerHTML = '';
+				this._optionOrder.reset();
 				const options = Array.from(this._element.querySelectorAll('option'));
-				options.forEach((optionElement) => {
-					if (
-						optionElement.value === '' &&
-						optionElement.textContent.trim() === ''
-					) {
-						return;
-					}
-					const selectOption = new KTSelectOption(optionElement, this._config);
-					const renderedOption = selectOption.render();
-					optionsContainer.appendChild(renderedOption);
-				});
+				if (this._virtualList) {
+					this._virtualList.setOptions(options);
+				} else {
+					this._appendRenderedOptions(optionsContainer, options);
+				}
 				// Update internal references
 				this._options = this._dropdownContentElement.querySelectorAll(
 					'[data-kt-select-option]',
@@ -2728,17 +3071,12 @@ export class KTSelect extends KTComponent {
 		event.preventDefault();
 		event.stopPropagation();
 
-		const visibleOptions = this._focusManager
-			.getVisibleOptions()
-			.filter((opt) => opt.getAttribute('aria-disabled') !== 'true');
-		if (visibleOptions.length === 0) return;
+		const visibleValues = this._getSelectableVisibleValues();
+		if (visibleValues.length === 0) return;
 
-		const visibleValues = visibleOptions.map(
-			(opt) => opt.dataset.value as string,
-		);
 		const selectedValues = new Set(this.getSelectedOptions());
-		const isAllSelected = visibleOptions.every((opt) =>
-			selectedValues.has(opt.dataset.value as string),
+		const isAllSelected = visibleValues.every((value) =>
+			selectedValues.has(value),
 		);
 
 		if (isAllSelected) {
@@ -2759,6 +3097,9 @@ export class KTSelect extends KTComponent {
 	}
 
 	public updateSelectAllButtonState(): void {
+		// Group toggles depend on the visible options as well
+		this._updateGroupToggleStates();
+
 		if (
 			!this._config.multiple ||
 			!this._config.enableSelectAll ||
@@ -2767,15 +3108,13 @@ export class KTSelect extends KTComponent {
 			return;
 		}
 
-		const visibleOptions = this._focusManager
-			.getVisibleOptions()
-			.filter((opt) => opt.getAttribute('aria-disabled') !== 'true');
+		const visibleValues = this._getSelectableVisibleValues();
 
 		const selectAllButton = this._selectAllButton;
 		const selectAllButtonToggle = this._selectAllButtonToggle;
 		if (!selectAllButton || !selectAllButtonToggle) return;
 
-		if (visibleOptions.length === 0) {
+		if (visibleValues.length === 0) {
 			selectAllButton.style.display = 'none';
 			return;
 		}
@@ -2783,8 +3122,8 @@ export class KTSelect extends KTComponent {
 		selectAllButton.style.display = '';
 
 		const selectedValues = new Set(this.getSelectedOptions());
-		const isAllSelected = visibleOptions.every((opt) =>
-			selectedValues.has(opt.dataset.value as string),
+		const isAllSelected = visibleValues.every((value) =>
+			selectedValues.has(value),
 		);
 
 		selectAllButtonToggle.textContent = isAllSelected
@@ -2792,6 +3131,116 @@ export class KTSelect extends KTComponent {
 			: (this._config.selectAllText ?? 'Select all');
 	}
 
+	/**
+	 * Values of the visible options that are not disabled; with a virtual
+	 * list, of every matching option, rendered or not
+	 */
+	private _getSelectableVisibleValues(): string[] {
+		if (this._virtualList) {
+			return this._virtualList.getSelectableValues();
+		}
+
+		return this._focusManager
+			.getVisibleOptions()
+			.filter((opt) => opt.getAttribute('aria-disabled') !== 'true')
+			.map((opt) => opt.dataset.value as string);
+	}
+
+	/**
+	 * Select the visible options of a group, up to maxSelections, or clear
+	 * them when all are selected
+	 */
+	private _handleGroupToggleClick(event: Event, group: HTMLElement): void {
+		event.preventDefault();
+		event.stopPropagation();
+
+		const values = this._getGroupValues(group);
+		if (values.length === 0) return;
+
+		const selectedValues = new Set(this.getSelectedOptions());
+		const maxSelections = this._config.maxSelections;
+
+		if (values.every((value) => selectedValues.has(value))) {
+			values.forEach((value) => selectedValues.delete(value));
+		} else {
+			values.forEach((value) => {
+				if (
+					typeof maxSelections === 'number' &&
+					selectedValues.size >= maxSelections
+				) {
+					return;
+				}
+				selectedValues.add(value);
+			});
+		}
+
+		this._state.setSelectedOptions(Array.from(selectedValues));
+		this.updateSelectedOptionDisplay();
+		this._updateSelectedOptionClass();
+		this.updateSelectAllButtonState();
+
+		this._dispatchEvent('change', {
+			selectedOptions: this.getSelectedOptions(),
+		});
+		this._fireEvent('change', {
+			selectedOptions: this.getSelectedOptions(),
+		});
+	}
+
+	/**
+	 * Values of the visible options of a group that are not disabled in the
+	 * markup (options disabled by maxSelections count)
+	 */
+	private _getGroupValues(group: HTMLElement): string[] {
+		return Array.from(
+			group.querySelectorAll<HTMLElement>('[data-kt-select-option]'),
+		)
+			.filter(
+				(option) =>
+					!option.classList.contains('hidden') &&
+					option.style.display !== 'none',
+			)
+			.map((option) => option.dataset.value)
+			.filter(
+				(value) =>
+					value !== undefined && !this._isOptionOriginallyDisabled(value),
+			);
+	}
+
+	/**
+	 * Update the text of the group toggles, and disable them when the group
+	 * has nothing to select or maxSelections is reached
+	 */
+	private _updateGroupToggleStates(): void {
+		if (!this._dropdownContentElement) return;
+
+		const selectedValues = new Set(this.getSelectedOptions());
+		const maxSelections = this._config.maxSelections;
+
+		this._dropdownContentElement
+			.querySelectorAll<HTMLElement>('[data-kt-select-group]')
+			.forEach((group) => {
+				const toggle = group.querySelector<HTMLButtonElement>(
+					'[data-kt-select-group-toggle]',
+				);
+				if (!toggle) return;
+
+				const values = this._getGroupValues(group);
+				const isAllSelected =
+					values.length > 0 &&
+					values.every((value) => selectedValues.has(value));
+
+				toggle.textContent = isAllSelected
+					? (this._config.clearAllText ?? 'Clear all')
+					: (this._config.selectAllText ?? 'Select all');
+				toggle.disabled =
+					values.length === 0 ||
+					(!isAllSelected &&
+						typeof maxSelections === 'number' &&
+						selectedValues.size >= maxSelections);
+			});
+	}
+
 	/**
 	 * Destroy the component and clean up resources
 	 */
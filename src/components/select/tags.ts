@@ -16,6 +16,11 @@ export class KTSelectTags {
 	private _config: KTSelectConfigInterface;
 	private _valueDisplayElement: HTMLElement | null;
 	private _eventManager: EventManager;
+	private _inputElement: HTMLInputElement | null = null;
+	private _createElement: HTMLElement | null = null;
+	private _boundKeyDownHandler: (event: KeyboardEvent) => void;
+	private _boundPasteHandler: (event: ClipboardEvent) => void;
+	private _boundInputHandler: () => void;
 
 	/**
 	 * Constructor: Initializes the tags component
@@ -25,6 +30,22 @@ export class KTSelectTags {
 		this._config = select.getConfig();
 		this._valueDisplayElement = select.getValueDisplayElement();
 		this._eventManager = new EventManager();
+
+		// Creatable tags: typed text becomes a new option
+		if (this._config.creatable) {
+			this._inputElement = select.getSearchInput();
+			if (this._inputElement) {
+				this._boundKeyDownHandler = this._handleCreateKeyDown.bind(this);
+				this._boundPasteHandler = this._handleCreatePaste.bind(this);
+				this._boundInputHandler = this._updateCreateRow.bind(this);
+				this._inputElement.addEventListener(
+					'keydown',
+					this._boundKeyDownHandler,
+				);
+				this._inputElement.addEventListener('paste', this._boundPasteHandler);
+				this._inputElement.addEventListener('input', this._boundInputHandler);
+			}
+		}
 	}
 
 	/**
@@ -114,6 +135,108 @@ export class KTSelectTags {
 		this._select.toggleSelection(optionValue);
 	}
 
+	/**
+	 * Create on comma, and on Enter when no option matches the typed text
+	 * (otherwise Enter selects the focused option as usual)
+	 */
+	private _handleCreateKeyDown(event: KeyboardEvent): void {
+		if (event.key !== ',' && event.key !== 'Enter') return;
+		if (event.key === 'Enter' && this._hasVisibleOptions()) return;
+
+		event.preventDefault();
+		this._create([this._inputElement.value]);
+	}
+
+	/**
+	 * Create an option per comma, semicolon or line separated pasted value
+	 */
+	private _handleCreatePaste(event: ClipboardEvent): void {
+		const text = event.clipboardData?.getData('text') || '';
+		const values = text
+			.split(/[,;\n]/)
+			.map((value) => value.trim())
+			.filter(Boolean);
+		if (values.length === 0) return;
+
+		event.preventDefault();
+		this._create(values);
+	}
+
+	/**
+	 * Create the values one after another, then clear the typed text
+	 */
+	private _create(values: string[]): void {
+		if (!values.some((value) => value.trim())) return;
+
+		values
+			.reduce<Promise<unknown>>(
+				(chain, value) => chain.then(() => this._select.create(value)),
+				Promise.resolve(),
+			)
+			.then(() => {
+				if (!this._inputElement) return;
+				this._inputElement.value = '';
+				this._inputElement.dispatchEvent(new Event('input', { bubbles: true }));
+				this._inputElement.focus();
+			});
+	}
+
+	/**
+	 * Show the "Create “{{query}}”" row above the options while the typed
+	 * text matches no option, in place of the no results message
+	 */
+	private _updateCreateRow(): void {
+		this._removeCreateRow();
+
+		const query = this._inputElement?.value.trim();
+		const dropdownElement = this._select.getDropdownElement();
+		const optionsContainer = dropdownElement?.querySelector(
+			'[data-kt-select-options]',
+		);
+		if (!query || !optionsContainer) return;
+
+		const lowerQuery = query.toLowerCase();
+		const exists = Array.from(
+			this._select.getElement().querySelectorAll('option'),
+		).some(
+			(opt) =>
+				opt.value === query ||
+				(opt.textContent || '').trim().toLowerCase() === lowerQuery,
+		);
+		if (exists) return;
+
+		this._createElement = defaultTemplates.create(this._config, query);
+		this._createElement.addEventListener('click', (event: Event) => {
+			event.preventDefault();
+			event.stopPropagation();
+			this._create([query]);
+		});
+		optionsContainer.insertBefore(
+			this._createElement,
+			optionsContainer.firstChild,
+		);
+
+		dropdownElement
+			.querySelectorAll('[data-kt-select-search-empty]')
+			.forEach((element) => element.classList.add('hidden'));
+	}
+
+	private _removeCreateRow(): void {
+		if (this._createElement && this._createElement.parentNode) {
+			this._createElement.parentNode.removeChild(this._createElement);
+		}
+		this._createElement = null;
+	}
+
+	private _hasVisibleOptions(): boolean {
+		return Array.from(this._select.getOptionsElement()).some(
+			(option) =>
+				!option.classList.contains('hidden') &&
+				option.style.display !== 'none' &&
+				!option.closest('[data-kt-select-group].hidden'),
+		);
+	}
+
 	/**
 	 * Clean up resources used by this module
 	 */
@@ -121,5 +244,14 @@ export class KTSelectTags {
 		if (this._valueDisplayElement) {
 			this._eventManager.removeAllListeners(this._valueDisplayElement);
 		}
+		if (this._inputElement) {
+			this._inputElement.removeEventListener(
+				'keydown',
+				this._boundKeyDownHandler,
+			);
+			this._inputElement.removeEventListener('paste', this._boundPasteHandler);
+			this._inputElement.removeEventListener('input', this._boundInputHandler);
+		}
+		this._removeCreateRow();
 	}
 }
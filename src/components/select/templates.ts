@@ -38,6 +38,10 @@ export const coreTemplateStrings = {
 			<div class="kt-select-option-text" data-kt-text-container="true">{{text}}</div><svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" class="size-3.5 ms-auto hidden text-primary kt-select-option-selected:block"><path d="M20 6 9 17l-5-5"/></svg>
 		</li>
 	`,
+	group: `<li data-kt-select-group class="kt-select-group {{class}}" role="presentation"><div data-kt-select-group-header class="kt-select-group-header"><span class="kt-select-group-label"></span></div><ul data-kt-select-group-options class="kt-select-group-options" role="group"></ul></li>`,
+	virtualSpacer: `<li data-kt-select-virtual-spacer aria-hidden="true" class="kt-select-virtual-spacer"></li>`,
+	create: `<li data-kt-select-create class="kt-select-create {{class}}" role="option" aria-selected="false"></li>`,
+	groupToggle: `<button type="button" data-kt-select-group-toggle class="kt-select-group-toggle"></button>`,
 	search: `<div data-kt-select-search class="kt-select-search {{class}}"><input type="text" data-kt-select-search="true" placeholder="{{searchPlaceholder}}" class="kt-input kt-input-ghost" role="searchbox" aria-label="{{searchPlaceholder}}"/></div>`,
 	searchEmpty: `<div data-kt-select-search-empty class="kt-select-search-empty {{class}}"></div>`,
 	loading: `<li class="kt-select-loading {{class}}" role="status" aria-live="polite"></li>`,
@@ -84,6 +88,18 @@ export interface KTSelectTemplateInterface {
 		option: KTSelectOption | HTMLOptionElement,
 		config: KTSelectConfigInterface,
 	) => HTMLElement;
+	/**
+	 * Renders a group of options with its header, from an <optgroup> or an option's group field
+	 */
+	group: (config: KTSelectConfigInterface, label: string) => HTMLElement;
+	/**
+	 * Renders the "Create “{{query}}”" row of creatable tags
+	 */
+	create: (config: KTSelectConfigInterface, query: string) => HTMLElement;
+	/**
+	 * Renders a spacer standing in for the rows out of view (virtualize)
+	 */
+	virtualSpacer: (config: KTSelectConfigInterface) => HTMLElement;
 
 	// Search and empty states
 	search: (config: KTSelectConfigInterface) => HTMLElement;
@@ -331,6 +347,60 @@ export const defaultTemplates: KTSelectTemplateInterface = {
 		return element;
 	},
 
+	/**
+	 * Renders an empty option group; options go into its [data-kt-select-group-options] list
+	 */
+	group: (config: KTSelectConfigInterface, label: string): HTMLElement => {
+		const templates = getTemplateStrings(config);
+		const element = stringToElement(
+			templates.group.replace('{{class}}', config.groupClass || ''),
+		);
+		element.setAttribute('data-kt-select-group', label);
+
+		// Labels may come from remote data, so they are set as text
+		const labelElement = element.querySelector('.kt-select-group-label');
+		if (labelElement) labelElement.textContent = label;
+		element
+			.querySelector('[data-kt-select-group-options]')
+			?.setAttribute('aria-label', label);
+
+		// "Select all" toggle of the group (multi-select only)
+		if (config.multiple && config.enableGroupSelect) {
+			const toggle = stringToElement(templates.groupToggle);
+			toggle.textContent = config.selectAllText || 'Select all';
+			element
+				.querySelector('[data-kt-select-group-header]')
+				?.appendChild(toggle);
+		}
+
+		return element;
+	},
+
+	/**
+	 * Renders the row that creates an option from the typed query
+	 */
+	create: (config: KTSelectConfigInterface, query: string): HTMLElement => {
+		const element = stringToElement(
+			getTemplateStrings(config).create.replace(
+				'{{class}}',
+				config.optionClass || '',
+			),
+		);
+		// The query is user input, so the row is set as text
+		element.textContent = renderTemplateString(
+			config.createText || 'Create “{{query}}”',
+			{ query },
+		);
+		return element;
+	},
+
+	/**
+	 * Renders a spacer standing in for the rows out of view (virtualize)
+	 */
+	virtualSpacer: (config: KTSelectConfigInterface): HTMLElement => {
+		return stringToElement(getTemplateStrings(config).virtualSpacer);
+	},
+
 	/**
 	 * Renders the search input
 	 */
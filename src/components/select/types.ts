@@ -12,6 +12,7 @@ export interface KTSelectOption {
 	title: string;
 	selected?: boolean;
 	disabled?: boolean;
+	group?: string;
 }
 
 export interface KTSelectOptionData {
@@ -6,6 +6,7 @@
 // utils.ts
 
 import { KTSelectConfigInterface } from './config';
+import { KTSelectVirtualList } from './virtual';
 
 /**
  * Format a number as a currency string
@@ -17,8 +18,45 @@ export function formatCurrency(value: number): string {
 	}).format(value);
 }
 
+/**
+ * Original position of each option of a select, to undo search ranking.
+ * Options are numbered the first time they are seen, so options added
+ * later (load more, created tags) sort after the existing ones. Reset it
+ * when the option list is rebuilt.
+ */
+export class OptionOrder {
+	private positions = new WeakMap<HTMLElement, number>();
+	private next: number = 0;
+
+	/**
+	 * Number the options not seen yet, in the given (DOM) order
+	 */
+	public record(options: HTMLElement[]) {
+		options.forEach((option) => {
+			if (!this.positions.has(option)) {
+				this.positions.set(option, this.next++);
+			}
+		});
+	}
+
+	public has(option: HTMLElement): boolean {
+		return this.positions.has(option);
+	}
+
+	public compare(a: HTMLElement, b: HTMLElement): number {
+		return (this.positions.get(a) ?? 0) - (this.positions.get(b) ?? 0);
+	}
+
+	public reset() {
+		this.positions = new WeakMap();
+		this.next = 0;
+	}
+}
+
 /**
  * Filter options based on a search query
+ * @param optionOrder Order of the select's options, needed to rank results
+ * (`searchRank`) and to restore the order afterwards
  */
 export function filterOptions(
 	options: HTMLElement[],
@@ -26,9 +64,12 @@ export function filterOptions(
 	config: KTSelectConfigInterface,
 	dropdownElement: HTMLElement,
 	onVisibleCount?: (count: number) => void,
+	optionOrder?: OptionOrder,
 ): number {
 	let visibleOptionsCount = 0;
 
+	optionOrder?.record(options);
+
 	// For empty query, make all options visible
 	// The KTSelectSearch class is now responsible for restoring original content before calling this.
 	if (!query || query.trim() === '') {
@@ -41,6 +82,8 @@ export function filterOptions(
 			// At this point, option.innerHTML should be its original.
 			visibleOptionsCount++;
 		}
+		if (optionOrder) restoreOptionOrder(options, optionOrder);
+		updateGroupVisibility(dropdownElement);
 
 		if (onVisibleCount) {
 			onVisibleCount(visibleOptionsCount);
@@ -48,16 +91,12 @@ export function filterOptions(
 		return visibleOptionsCount;
 	}
 
-	const queryLower = query.toLowerCase();
+	const scores = new Map<HTMLElement, number>();
 
 	for (const option of options) {
-		// Use data-text for matching if available, otherwise fall back to textContent
-		const optionText = (
-			option.dataset.text ||
-			option.textContent ||
-			''
-		).toLowerCase();
-		const isMatch = optionText.includes(queryLower);
+		const score = getOptionSearchScore(option, query, config);
+		const isMatch = score > 0;
+		scores.set(option, score);
 
 		if (isMatch) {
 			option.classList.remove('hidden');
@@ -73,6 +112,17 @@ export function filterOptions(
 		// }
 	}
 
+	// Best matches first, keyboard navigation follows the DOM order
+	if (isSearchRanked(config) && optionOrder) {
+		reorderOptions(
+			options,
+			(a, b) =>
+				(scores.get(b) || 0) - (scores.get(a) || 0) ||
+				optionOrder.compare(a, b),
+		);
+	}
+	updateGroupVisibility(dropdownElement);
+
 	if (onVisibleCount) {
 		onVisibleCount(visibleOptionsCount);
 	}
@@ -80,6 +130,233 @@ export function filterOptions(
 	return visibleOptionsCount;
 }
 
+/**
+ * Put options ranked by a search back in their original order
+ */
+export function restoreOptionOrder(
+	options: HTMLElement[],
+	optionOrder: OptionOrder,
+): void {
+	if (!options.some((option) => optionOrder.has(option))) return;
+
+	// Options added since the search ranked the list go last
+	optionOrder.record(options);
+	reorderOptions(options, (a, b) => optionOrder.compare(a, b));
+}
+
+/**
+ * Sort options among their siblings. Each option takes the place of
+ * another option of the same parent, so group elements keep their place.
+ */
+function reorderOptions(
+	options: HTMLElement[],
+	compare: (a: HTMLElement, b: HTMLElement) => number,
+): void {
+	const byParent = new Map<Node, HTMLElement[]>();
+	options.forEach((option) => {
+		const parent = option.parentNode;
+		if (!parent) return;
+		if (!byParent.has(parent)) byParent.set(parent, []);
+		byParent.get(parent)!.push(option);
+	});
+
+	byParent.forEach((siblings, parent) => {
+		// Siblings in their current DOM order
+		const slots = Array.from(parent.childNodes).filter(
+			(node): node is HTMLElement =>
+				siblings.indexOf(node as HTMLElement) !== -1,
+		);
+		const sorted = slots.slice().sort(compare);
+		if (sorted.every((option, i) => option === slots[i])) return;
+
+		const markers = slots.map((option) => {
+			const marker = document.createComment('');
+			parent.insertBefore(marker, option);
+			return marker;
+		});
+		sorted.forEach((option, i) => parent.replaceChild(option, markers[i]));
+	});
+}
+
+/**
+ * Lowercase a text for search, without diacritics when searchIgnoreAccents
+ * is on ("São" becomes "sao")
+ */
+export function normalizeSearchText(
+	text: string,
+	config: KTSelectConfigInterface,
+): string {
+	const lower = text.toLowerCase().trim();
+	if (!config.searchIgnoreAccents) return lower;
+	return lower.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Texts an option is searched by: its text, then the option data named in
+ * searchFields (from the data-kt-select-option JSON)
+ */
+export function getSearchTexts(
+	text: string,
+	optionData: Record<string, unknown> | undefined,
+	config: KTSelectConfigInterface,
+): string[] {
+	const texts = [normalizeSearchText(text, config)];
+	(config.searchFields || []).forEach((field) => {
+		const value = optionData?.[field];
+		if (value === null || value === undefined || value === '') return;
+		const fieldText = Array.isArray(value) ? value.join(' ') : String(value);
+		texts.push(normalizeSearchText(fieldText, config));
+	});
+	return texts;
+}
+
+/**
+ * Score how well normalized texts match a query, per searchMatch:
+ * 4 for the whole text, 3 for its start, 2 when each query word starts a
+ * word, 1 for a match inside a word ('contains' and 'fuzzy'), and below 1
+ * for the query letters in order with gaps ('fuzzy'). 0 is no match.
+ * Matches in searchFields score lower than the same match in the text.
+ */
+export function scoreSearchTexts(
+	texts: string[],
+	query: string,
+	config: KTSelectConfigInterface,
+): number {
+	const normalizedQuery = normalizeSearchText(query, config);
+	if (normalizedQuery === '') return 1;
+
+	const mode = config.searchMatch || 'contains';
+	const queryWords = normalizedQuery.split(/\s+/);
+	let best = 0;
+
+	texts.forEach((text, index) => {
+		let score = 0;
+		if (text === normalizedQuery) {
+			score = 4;
+		} else if (text.indexOf(normalizedQuery) === 0) {
+			score = 3;
+		} else if (matchesWordPrefixes(text, queryWords)) {
+			score = 2;
+		} else if (mode !== 'prefix' && text.indexOf(normalizedQuery) !== -1) {
+			score = 1;
+		} else if (mode === 'fuzzy') {
+			score = scoreFuzzy(text, normalizedQuery.replace(/\s+/g, ''));
+		}
+
+		if (index > 0) score *= 0.9;
+		best = Math.max(best, score);
+	});
+
+	return best;
+}
+
+/**
+ * Whether matches are ordered by score: `searchRank`, else on for the
+ * 'prefix' and 'fuzzy' modes, whose looser matches need the best ones first
+ */
+export function isSearchRanked(config: KTSelectConfigInterface): boolean {
+	return (
+		config.searchRank ??
+		(config.searchMatch === 'prefix' || config.searchMatch === 'fuzzy')
+	);
+}
+
+/**
+ * Score an option element against a query, using searchMatcher if set
+ */
+export function getOptionSearchScore(
+	option: HTMLElement,
+	query: string,
+	config: KTSelectConfigInterface,
+): number {
+	if (config.searchMatcher) {
+		return toSearchScore(config.searchMatcher(option, query));
+	}
+
+	// Use data-text for matching if available, otherwise fall back to textContent
+	const text = option.dataset.text || option.textContent || '';
+	const value = option.dataset.value;
+	// Option data from the data-kt-select-option JSON, for searchFields
+	const optionData =
+		value !== undefined
+			? (config.optionsConfig?.[value] as unknown as Record<string, unknown>)
+			: undefined;
+	return scoreSearchTexts(
+		getSearchTexts(text, optionData, config),
+		query,
+		config,
+	);
+}
+
+/**
+ * Turn a searchMatcher result into a score
+ */
+export function toSearchScore(result: number | boolean): number {
+	if (typeof result === 'number') return result > 0 ? result : 0;
+	return result ? 1 : 0;
+}
+
+function matchesWordPrefixes(text: string, queryWords: string[]): boolean {
+	const words = text.split(/[\s\-_/.,()]+/);
+	return queryWords.every((queryWord) =>
+		words.some((word) => word.indexOf(queryWord) === 0),
+	);
+}
+
+/**
+ * Score the query letters found in order in the text ("germny" in
+ * "germany"), by how close together they are. Spread out letters do not match.
+ */
+function scoreFuzzy(text: string, query: string): number {
+	if (query.length < 2) return 0;
+
+	let shortest = Infinity;
+	for (let start = text.indexOf(query[0]); start !== -1;) {
+		let position = start;
+		for (let i = 1; i < query.length && position !== -1; i++) {
+			position = text.indexOf(query[i], position + 1);
+		}
+		if (position === -1) break;
+		shortest = Math.min(shortest, position - start + 1);
+		start = text.indexOf(query[0], start + 1);
+	}
+
+	if (shortest > query.length * 2) return 0;
+	return (query.length / shortest) * 0.9;
+}
+
+/**
+ * Hide option groups whose options are all hidden, and show the others
+ */
+export function updateGroupVisibility(dropdownElement: HTMLElement): void {
+	if (!dropdownElement) return;
+
+	dropdownElement
+		.querySelectorAll<HTMLElement>('[data-kt-select-group]')
+		.forEach((group) => {
+			const hasVisibleOption = Array.from(
+				group.querySelectorAll<HTMLElement>('[data-kt-select-option]'),
+			).some(
+				(option) =>
+					!option.classList.contains('hidden') &&
+					option.style.display !== 'none',
+			);
+			group.classList.toggle('hidden', !hasVisibleOption);
+		});
+}
+
+/**
+ * Options as seen by the focus manager, by index
+ */
+interface FocusEntries {
+	length: number;
+	isDisabled: (index: number) => boolean;
+	getText: (index: number) => string;
+	getValue: (index: number) => string | undefined;
+	indexOfValue: (value: string) => number;
+	getElement: (index: number) => HTMLElement | null;
+}
+
 /**
  * Focus manager for keyboard navigation
  * Consolidates redundant focus management logic into shared functions
@@ -91,6 +368,7 @@ export class FocusManager {
 	private _focusClass: string;
 	private _hoverClass: string;
 	private _eventManager: EventManager;
+	private _virtualList: KTSelectVirtualList | null = null;
 	private _onFocusChange:
 		| ((option: HTMLElement | null, index: number | null) => void)
 		| null = null;
@@ -140,6 +418,10 @@ export class FocusManager {
 			if (element.style.display === 'none') {
 				return false;
 			}
+			// Group headers are not options; skip options of hidden groups too
+			if (element.closest('[data-kt-select-group].hidden')) {
+				return false;
+			}
 			return true;
 		}) as HTMLElement[];
 	}
@@ -148,19 +430,10 @@ export class FocusManager {
 	 * Focus the first visible option
 	 */
 	public focusFirst(): HTMLElement | null {
-		const options = this.getVisibleOptions();
-		if (options.length === 0) return null;
-		for (let i = 0; i < options.length; i++) {
-			const option = options[i];
-			if (
-				!option.classList.contains('disabled') &&
-				option.getAttribute('aria-disabled') !== 'true'
-			) {
-				this.resetFocus();
-				this._focusedOptionIndex = i;
-				this.applyFocus(option);
-				this.scrollIntoView(option);
-				return option;
+		const entries = this._getEntries();
+		for (let i = 0; i < entries.length; i++) {
+			if (!entries.isDisabled(i)) {
+				return this._focusIndex(entries, i);
 			}
 		}
 		return null;
@@ -170,19 +443,10 @@ export class FocusManager {
 	 * Focus the last visible option
 	 */
 	public focusLast(): HTMLElement | null {
-		const options = this.getVisibleOptions();
-		if (options.length === 0) return null;
-		for (let i = options.length - 1; i >= 0; i--) {
-			const option = options[i];
-			if (
-				!option.classList.contains('disabled') &&
-				option.getAttribute('aria-disabled') !== 'true'
-			) {
-				this.resetFocus();
-				this._focusedOptionIndex = i;
-				this.applyFocus(option);
-				this.scrollIntoView(option);
-				return option;
+		const entries = this._getEntries();
+		for (let i = entries.length - 1; i >= 0; i--) {
+			if (!entries.isDisabled(i)) {
+				return this._focusIndex(entries, i);
 			}
 		}
 		return null;
@@ -192,24 +456,18 @@ export class FocusManager {
 	 * Focus the next visible option that matches the search string
 	 */
 	public focusByString(str: string): HTMLElement | null {
-		const options = this.getVisibleOptions();
-		if (options.length === 0) return null;
+		const entries = this._getEntries();
+		if (entries.length === 0) return null;
 		const lowerStr = str.toLowerCase();
 		const startIdx = (this._focusedOptionIndex ?? -1) + 1;
-		for (let i = 0; i < options.length; i++) {
-			const idx = (startIdx + i) % options.length;
-			const option = options[idx];
+		for (let i = 0; i < entries.length; i++) {
+			const idx = (startIdx + i) % entries.length;
 			if (
-				!option.classList.contains('disabled') &&
-				option.getAttribute('aria-disabled') !== 'true' &&
-				(option.textContent?.toLowerCase().startsWith(lowerStr) ||
-					option.dataset.value?.toLowerCase().startsWith(lowerStr))
+				!entries.isDisabled(idx) &&
+				(entries.getText(idx).toLowerCase().startsWith(lowerStr) ||
+					entries.getValue(idx)?.toLowerCase().startsWith(lowerStr))
 			) {
-				this.resetFocus();
-				this._focusedOptionIndex = idx;
-				this.applyFocus(option);
-				this.scrollIntoView(option);
-				return option;
+				return this._focusIndex(entries, idx);
 			}
 		}
 		return null;
@@ -219,26 +477,18 @@ export class FocusManager {
 	 * Focus the next visible option
 	 */
 	public focusNext(): HTMLElement | null {
-		const options = this.getVisibleOptions();
-		if (options.length === 0) return null;
+		const entries = this._getEntries();
+		if (entries.length === 0) return null;
 		let idx =
 			this._focusedOptionIndex === null
 				? 0
-				: (this._focusedOptionIndex + 1) % options.length;
+				: (this._focusedOptionIndex + 1) % entries.length;
 		const startIdx = idx;
 		do {
-			const option = options[idx];
-			if (
-				!option.classList.contains('disabled') &&
-				option.getAttribute('aria-disabled') !== 'true'
-			) {
-				this.resetFocus();
-				this._focusedOptionIndex = idx;
-				this.applyFocus(option);
-				this.scrollIntoView(option);
-				return option;
+			if (!entries.isDisabled(idx)) {
+				return this._focusIndex(entries, idx);
 			}
-			idx = (idx + 1) % options.length;
+			idx = (idx + 1) % entries.length;
 		} while (idx !== startIdx);
 		return null;
 	}
@@ -247,26 +497,18 @@ export class FocusManager {
 	 * Focus the previous visible option
 	 */
 	public focusPrevious(): HTMLElement | null {
-		const options = this.getVisibleOptions();
-		if (options.length === 0) return null;
+		const entries = this._getEntries();
+		if (entries.length === 0) return null;
 		let idx =
 			this._focusedOptionIndex === null
-				? options.length - 1
-				: (this._focusedOptionIndex - 1 + options.length) % options.length;
+				? entries.length - 1
+				: (this._focusedOptionIndex - 1 + entries.length) % entries.length;
 		const startIdx = idx;
 		do {
-			const option = options[idx];
-			if (
-				!option.classList.contains('disabled') &&
-				option.getAttribute('aria-disabled') !== 'true'
-			) {
-				this.resetFocus();
-				this._focusedOptionIndex = idx;
-				this.applyFocus(option);
-				this.scrollIntoView(option);
-				return option;
+			if (!entries.isDisabled(idx)) {
+				return this._focusIndex(entries, idx);
 			}
-			idx = (idx - 1 + options.length) % options.length;
+			idx = (idx - 1 + entries.length) % entries.length;
 		} while (idx !== startIdx);
 		return null;
 	}
@@ -286,6 +528,8 @@ export class FocusManager {
 		// DO NOT CALL resetFocus() here. Caller's responsibility.
 		option.classList.add(this._focusClass);
 		option.classList.add(this._hoverClass);
+		// Virtual lists render the focus classes again when the option scrolls back in
+		this._virtualList?.setFocusedValue(option.dataset.value ?? null);
 		// _triggerFocusChange needs _focusedOptionIndex to be set by the caller before this.
 		this._triggerFocusChange();
 	}
@@ -304,13 +548,15 @@ export class FocusManager {
 		});
 
 		this._focusedOptionIndex = null; // Always reset the index
+		this._virtualList?.setFocusedValue(null);
 	}
 
 	/**
 	 * Ensure the focused option is visible in the scrollable container
 	 */
 	public scrollIntoView(option: HTMLElement): void {
-		if (!option) return;
+		// Virtual lists already scrolled the option into view to render it
+		if (!option || this._virtualList) return;
 
 		const container = this._element.querySelector('[data-kt-select-options]');
 		if (!container) return;
@@ -332,21 +578,11 @@ export class FocusManager {
 	 * Focus a specific option by its value
 	 */
 	public focusOptionByValue(value: string): boolean {
-		const options = this.getVisibleOptions();
-		const index = options.findIndex((option) => option.dataset.value === value);
+		const entries = this._getEntries();
+		const index = entries.indexOfValue(value);
 
-		if (index >= 0) {
-			const optionToFocus = options[index];
-			if (
-				!optionToFocus.classList.contains('disabled') &&
-				optionToFocus.getAttribute('aria-disabled') !== 'true'
-			) {
-				this.resetFocus();
-				this._focusedOptionIndex = index;
-				this.applyFocus(optionToFocus);
-				this.scrollIntoView(optionToFocus);
-				return true;
-			}
+		if (index >= 0 && !entries.isDisabled(index)) {
+			return this._focusIndex(entries, index) !== null;
 		}
 
 		return false;
@@ -356,6 +592,16 @@ export class FocusManager {
 	 * Get the currently focused option
 	 */
 	public getFocusedOption(): HTMLElement | null {
+		// The virtual list knows the focused option, even when it is not rendered
+		if (this._virtualList) {
+			const index = this._virtualList.indexOfValue(
+				this._virtualList.getFocusedValue(),
+			);
+			if (index < 0) return null;
+			this._focusedOptionIndex = index;
+			return this._virtualList.renderIndex(index);
+		}
+
 		const options = this.getVisibleOptions();
 
 		if (
@@ -385,6 +631,57 @@ export class FocusManager {
 		return null;
 	}
 
+	/**
+	 * Navigate the matching options of a virtual list instead of the rendered ones
+	 */
+	public setVirtualList(virtualList: KTSelectVirtualList | null): void {
+		this._virtualList = virtualList;
+	}
+
+	/**
+	 * The options keyboard focus moves through: the visible option elements,
+	 * or every matching option of a virtual list (rendered when focused)
+	 */
+	private _getEntries(): FocusEntries {
+		const virtualList = this._virtualList;
+		if (virtualList) {
+			return {
+				length: virtualList.getCount(),
+				isDisabled: (index) => virtualList.isDisabled(index),
+				getText: (index) => virtualList.getText(index),
+				getValue: (index) => virtualList.getValue(index),
+				indexOfValue: (value) => virtualList.indexOfValue(value),
+				getElement: (index) => virtualList.renderIndex(index),
+			};
+		}
+
+		const options = this.getVisibleOptions();
+		return {
+			length: options.length,
+			isDisabled: (index) =>
+				options[index].classList.contains('disabled') ||
+				options[index].getAttribute('aria-disabled') === 'true',
+			getText: (index) => options[index].textContent || '',
+			getValue: (index) => options[index].dataset.value,
+			indexOfValue: (value) =>
+				options.findIndex((option) => option.dataset.value === value),
+			getElement: (index) => options[index],
+		};
+	}
+
+	private _focusIndex(
+		entries: FocusEntries,
+		index: number,
+	): HTMLElement | null {
+		const option = entries.getElement(index);
+		if (!option) return null;
+		this.resetFocus();
+		this._focusedOptionIndex = index;
+		this.applyFocus(option);
+		this.scrollIntoView(option);
+		return option;
+	}
+
 	/**
 	 * Get the index of the currently focused option
 	 */
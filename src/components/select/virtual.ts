@@ -0,0 +1,418 @@
+/**
+ * KTUI - Free & Open-Source Tailwind UI Components by Keenthemes
+ * Copyright 2025 by Keenthemes Inc
+ */
+
+import KTDom from '../../helpers/dom';
+import { KTSelectConfigInterface } from './config';
+import { KTSelectOption } from './option';
+import { KTSelect } from './select';
+import { defaultTemplates } from './templates';
+import {
+	getSearchTexts,
+	isSearchRanked,
+	scoreSearchTexts,
+	toSearchScore,
+} from './utils';
+
+/**
+ * A rendered row: an option, or the header of the group that follows
+ */
+type KTSelectVirtualRow =
+	| { option: HTMLOptionElement; group?: undefined }
+	| { option?: undefined; group: string };
+
+/**
+ * KTSelectVirtualList - Renders only the options in view (virtualize mode)
+ * Options stay native <option> elements and are filtered like rendered ones.
+ * Rows are rendered as the options container scrolls, between two spacers
+ * that take the height of the rows above and below.
+ */
+export class KTSelectVirtualList {
+	private _select: KTSelect;
+	private _config: KTSelectConfigInterface;
+	private _container: HTMLElement;
+	private _onRender: () => void;
+	private _options: HTMLOptionElement[] = [];
+	private _searchTexts: string[][] = [];
+	private _matches: HTMLOptionElement[] = [];
+	private _rows: KTSelectVirtualRow[] = [];
+	// Row index of each match, for scrolling to it
+	private _rowIndexes: number[] = [];
+	private _query: string = '';
+	private _focusedValue: string | null = null;
+	private _elements = new Map<HTMLOptionElement, HTMLElement>();
+	private _groupElements = new Map<string, HTMLElement>();
+	private _rendered: HTMLElement[] = [];
+	private _start: number = 0;
+	private _end: number = 0;
+	private _topSpacer: HTMLElement;
+	private _bottomSpacer: HTMLElement;
+	private _boundScrollHandler: () => void;
+
+	/**
+	 * Constructor: Initializes the virtual list in the options container
+	 * @param onRender Called after rows were rendered
+	 */
+	constructor(select: KTSelect, container: HTMLElement, onRender: () => void) {
+		this._select = select;
+		this._config = select.getConfig();
+		this._container = container;
+		this._onRender = onRender;
+
+		// The options container scrolls within the dropdown height
+		container.style.maxHeight = `${this._config.height || 250}px`;
+		container.style.overflowY = 'auto';
+
+		this._topSpacer = defaultTemplates.virtualSpacer(this._config);
+		this._bottomSpacer = defaultTemplates.virtualSpacer(this._config);
+
+		this._boundScrollHandler = this._handleScroll.bind(this);
+		container.addEventListener('scroll', this._boundScrollHandler);
+	}
+
+	/**
+	 * Replace the options and show all of them
+	 */
+	public setOptions(options: HTMLOptionElement[]): void {
+		this._options = [];
+		this._searchTexts = [];
+		this._elements.clear();
+		this._groupElements.clear();
+		this._query = '';
+		this._addOptions(options);
+
+		// Rows go between the spacers; a cleared container gets them back
+		this._rendered.forEach((row) => row.remove());
+		this._rendered = [];
+		if (this._topSpacer.parentNode !== this._container) {
+			this._container.appendChild(this._topSpacer);
+			this._container.appendChild(this._bottomSpacer);
+		}
+		this._container.scrollTop = 0;
+
+		this._build();
+		this.render();
+	}
+
+	/**
+	 * Add options after the current ones, keeping the filter
+	 */
+	public appendOptions(options: HTMLOptionElement[]): void {
+		this._addOptions(options);
+		this._build();
+		this.render();
+	}
+
+	/**
+	 * Get all options, matching or not
+	 */
+	public getOptions(): HTMLOptionElement[] {
+		return this._options.slice();
+	}
+
+	/**
+	 * Show the options matching the query
+	 * @returns The number of matching options
+	 */
+	public filter(query: string): number {
+		const trimmedQuery = !query || query.trim() === '' ? '' : query;
+		if (trimmedQuery === this._query) return this._matches.length;
+
+		this._query = trimmedQuery;
+		this._container.scrollTop = 0;
+		this._build();
+		this.render();
+		return this._matches.length;
+	}
+
+	/**
+	 * Number of matching options
+	 */
+	public getCount(): number {
+		return this._matches.length;
+	}
+
+	public getValue(index: number): string | undefined {
+		return this._matches[index]?.value;
+	}
+
+	public getText(index: number): string {
+		return this._matches[index]?.textContent || '';
+	}
+
+	public indexOfValue(value: string | null): number {
+		if (value === null) return -1;
+		return this._matches.findIndex((option) => option.value === value);
+	}
+
+	/**
+	 * Whether a matching option is disabled, like the option classes set by
+	 * KTSelect: disabled in the native select, or not selected while
+	 * maxSelections is reached
+	 */
+	public isDisabled(index: number): boolean {
+		const option = this._matches[index];
+		return !option || this._isOptionDisabled(option);
+	}
+
+	public isValueDisabled(value: string): boolean {
+		const option = this._options.find((item) => item.value === value);
+		return !!option && this._isOptionDisabled(option);
+	}
+
+	/**
+	 * Values of the matching options that can be selected
+	 */
+	public getSelectableValues(): string[] {
+		return this._matches
+			.filter((option) => !this._isOptionDisabled(option))
+			.map((option) => option.value);
+	}
+
+	public getFocusedValue(): string | null {
+		return this._focusedValue;
+	}
+
+	/**
+	 * Remember the focused option, so it keeps its focus classes when it
+	 * is rendered again
+	 */
+	public setFocusedValue(value: string | null): void {
+		this._focusedValue = value;
+	}
+
+	/**
+	 * Get the element of an option, rendering it when needed. The element
+	 * is only in the dropdown while the option is in view.
+	 */
+	public getElement(value: string): HTMLElement | null {
+		const option = this._options.find((item) => item.value === value);
+		return option ? this._getOptionElement(option) : null;
+	}
+
+	/**
+	 * Scroll a matching option into view and render it
+	 */
+	public renderIndex(index: number): HTMLElement | null {
+		const option = this._matches[index];
+		if (!option) return null;
+
+		const itemHeight = this._getItemHeight();
+		const top = this._rowIndexes[index] * itemHeight;
+		const viewportHeight = this._getViewportHeight();
+		const scrollTop = this._container.scrollTop;
+
+		if (top < scrollTop) {
+			this._container.scrollTop = top;
+		} else if (top + itemHeight > scrollTop + viewportHeight) {
+			this._container.scrollTop = top + itemHeight - viewportHeight;
+		}
+
+		this.render();
+		return this._getOptionElement(option);
+	}
+
+	/**
+	 * Render the rows in view, plus the overscan above and below
+	 */
+	public render(): void {
+		// Loading, error and empty messages replace the rows until new options are set
+		if (this._topSpacer.parentNode !== this._container) return;
+
+		const [start, end] = this._getRange();
+		this._start = start;
+		this._end = end;
+
+		this._rendered.forEach((row) => row.remove());
+		this._rendered = [];
+
+		const fragment = document.createDocumentFragment();
+		for (let i = start; i < end; i++) {
+			const row = this._rows[i];
+			const element = row.option
+				? this._getOptionElement(row.option)
+				: this._getGroupElement(row.group);
+
+			if (row.option) {
+				const isFocused = row.option.value === this._focusedValue;
+				element.classList.toggle('focus', isFocused);
+				element.classList.toggle('hover', isFocused);
+			}
+
+			fragment.appendChild(element);
+			this._rendered.push(element);
+		}
+		this._container.insertBefore(fragment, this._bottomSpacer);
+
+		const itemHeight = this._getItemHeight();
+		this._topSpacer.style.height = `${start * itemHeight}px`;
+		this._bottomSpacer.style.height = `${(this._rows.length - end) * itemHeight}px`;
+
+		this._onRender();
+	}
+
+	/**
+	 * Clean up resources used by this module
+	 */
+	public destroy(): void {
+		this._container.removeEventListener('scroll', this._boundScrollHandler);
+		this._rendered.forEach((row) => row.remove());
+		this._rendered = [];
+		this._topSpacer.remove();
+		this._bottomSpacer.remove();
+		this._elements.clear();
+		this._groupElements.clear();
+	}
+
+	private _addOptions(options: HTMLOptionElement[]): void {
+		options.forEach((option) => {
+			// Skip empty placeholder options, as the rendered list does
+			if (option.value === '' && (option.textContent || '').trim() === '') {
+				return;
+			}
+			this._options.push(option);
+
+			// Option data from the data-kt-select-option JSON, for searchFields
+			const optionData = this._config.searchFields?.length
+				? (
+						KTDom.getDataAttributes(option, 'kt-select-option') as Record<
+							string,
+							Record<string, unknown>
+						>
+					)['']
+				: undefined;
+			this._searchTexts.push(
+				getSearchTexts(
+					option.getAttribute('data-text') || option.textContent || '',
+					optionData,
+					this._config,
+				),
+			);
+		});
+	}
+
+	/**
+	 * Build the rows of the matching options. Options of a group follow its
+	 * header, at the place of the group's first option.
+	 */
+	private _build(): void {
+		const blocks: Array<{ group?: string; options: HTMLOptionElement[] }> = [];
+		const groups = new Map<string, HTMLOptionElement[]>();
+
+		let matches = this._options.map((option, index) => ({
+			option,
+			index,
+			score: this._query ? this._getScore(index) : 1,
+		}));
+		matches = matches.filter((match) => match.score > 0);
+		if (this._query && isSearchRanked(this._config)) {
+			matches.sort((a, b) => b.score - a.score || a.index - b.index);
+		}
+
+		matches.forEach(({ option }) => {
+			const parent = option.parentElement;
+			if (!(parent instanceof HTMLOptGroupElement)) {
+				blocks.push({ options: [option] });
+				return;
+			}
+
+			let groupOptions = groups.get(parent.label);
+			if (!groupOptions) {
+				groupOptions = [];
+				groups.set(parent.label, groupOptions);
+				blocks.push({ group: parent.label, options: groupOptions });
+			}
+			groupOptions.push(option);
+		});
+
+		this._matches = [];
+		this._rows = [];
+		this._rowIndexes = [];
+		blocks.forEach((block) => {
+			if (block.group !== undefined) {
+				this._rows.push({ group: block.group });
+			}
+			block.options.forEach((option) => {
+				this._rowIndexes.push(this._rows.length);
+				this._rows.push({ option });
+				this._matches.push(option);
+			});
+		});
+	}
+
+	private _getScore(index: number): number {
+		if (this._config.searchMatcher) {
+			return toSearchScore(
+				this._config.searchMatcher(this._options[index], this._query),
+			);
+		}
+		return scoreSearchTexts(
+			this._searchTexts[index],
+			this._query,
+			this._config,
+		);
+	}
+
+	private _handleScroll(): void {
+		const [start, end] = this._getRange();
+		if (start !== this._start || end !== this._end) {
+			this.render();
+		}
+	}
+
+	private _getRange(): [number, number] {
+		const itemHeight = this._getItemHeight();
+		const overscan = this._config.virtualOverscan ?? 5;
+		const first = Math.floor(this._container.scrollTop / itemHeight);
+		const visible = Math.ceil(this._getViewportHeight() / itemHeight);
+
+		const start = Math.max(0, first - overscan);
+		const end = Math.min(this._rows.length, first + visible + overscan);
+		return [Math.min(start, end), end];
+	}
+
+	private _getItemHeight(): number {
+		return this._config.virtualItemHeight || 36;
+	}
+
+	private _getViewportHeight(): number {
+		// A closed dropdown has no height yet
+		return this._container.clientHeight || this._config.height || 250;
+	}
+
+	private _getOptionElement(option: HTMLOptionElement): HTMLElement {
+		let element = this._elements.get(option);
+		if (!element) {
+			element = new KTSelectOption(option, this._config).render();
+			this._elements.set(option, element);
+		}
+		return element;
+	}
+
+	private _getGroupElement(label: string): HTMLElement {
+		let element = this._groupElements.get(label);
+		if (!element) {
+			// A header row only: its options are rows of their own
+			element = defaultTemplates.group(this._config, label);
+			element.removeAttribute('data-kt-select-group');
+			element.setAttribute('data-kt-select-virtual-group', label);
+			element.querySelector('[data-kt-select-group-options]')?.remove();
+			element.querySelector('[data-kt-select-group-toggle]')?.remove();
+			this._groupElements.set(label, element);
+		}
+		return element;
+	}
+
+	private _isOptionDisabled(option: HTMLOptionElement): boolean {
+		if (option.disabled) return true;
+
+		const maxSelections = this._config.maxSelections;
+		if (typeof maxSelections !== 'number') return false;
+		const selectedValues = this._select.getSelectedOptions();
+		return (
+			selectedValues.length >= maxSelections &&
+			!selectedValues.includes(option.value)
+		);
+	}
+}